@@ -0,0 +1,26 @@
+CREATE TYPE "public"."mb_enrichment_entity_type" AS ENUM('artist', 'album', 'track');--> statement-breakpoint
+CREATE TYPE "public"."mb_enrichment_job_status" AS ENUM('pending', 'running', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."mb_enrichment_job_type" AS ENUM('artist.resolve_mbid', 'artist.sync_relationships', 'album.resolve_mbid', 'album.sync', 'track.resolve_mbid', 'track.sync');--> statement-breakpoint
+CREATE TABLE "mb_enrichment_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_type" "mb_enrichment_job_type" NOT NULL,
+	"entity_type" "mb_enrichment_entity_type" NOT NULL,
+	"entity_id" uuid NOT NULL,
+	"status" "mb_enrichment_job_status" DEFAULT 'pending' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_after" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_at" timestamp with time zone,
+	"locked_by" text,
+	"last_error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "albums" ADD COLUMN "mb_last_enriched_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "artists" ADD COLUMN "mb_last_enriched_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "tracks" ADD COLUMN "mb_last_enriched_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "idx_mb_jobs_claimable" ON "mb_enrichment_jobs" USING btree ("status","run_after","priority");--> statement-breakpoint
+CREATE INDEX "idx_mb_jobs_cleanup" ON "mb_enrichment_jobs" USING btree ("status","updated_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_mb_jobs_active_dedupe" ON "mb_enrichment_jobs" USING btree ("job_type","entity_type","entity_id") WHERE "mb_enrichment_jobs"."status" IN ('pending', 'running');
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "imports" ADD COLUMN "skipped_records" integer DEFAULT 0;
\ No newline at end of file
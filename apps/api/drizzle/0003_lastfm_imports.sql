@@ -0,0 +1 @@
+ALTER TYPE "public"."account_provider" ADD VALUE 'lastfm';
\ No newline at end of file
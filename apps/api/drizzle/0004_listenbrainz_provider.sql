@@ -0,0 +1 @@
+ALTER TYPE "public"."account_provider" ADD VALUE 'listenbrainz';
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TYPE "public"."account_provider" ADD VALUE 'audioscrobbler';--> statement-breakpoint
+CREATE TABLE "scrobbler_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"session_key" text NOT NULL,
+	"api_key" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_used_at" timestamp with time zone,
+	CONSTRAINT "scrobbler_sessions_session_key_unique" UNIQUE("session_key")
+);
+--> statement-breakpoint
+ALTER TABLE "scrobbler_sessions" ADD CONSTRAINT "scrobbler_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_scrobbler_sessions_user" ON "scrobbler_sessions" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "idx_scrobbles_user_played_at" ON "scrobbles" USING btree ("user_id","played_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "timezone" text DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
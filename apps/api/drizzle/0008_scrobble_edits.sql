@@ -0,0 +1,14 @@
+CREATE TYPE "public"."scrobble_edit_action" AS ENUM('update', 'delete');--> statement-breakpoint
+CREATE TABLE "scrobble_edits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"scrobble_id" uuid NOT NULL,
+	"action" "scrobble_edit_action" NOT NULL,
+	"before" jsonb NOT NULL,
+	"after" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scrobble_edits" ADD CONSTRAINT "scrobble_edits_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_scrobble_edits_user_created" ON "scrobble_edits" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_scrobble_edits_scrobble" ON "scrobble_edits" USING btree ("scrobble_id");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."rewrite_rule_action" AS ENUM('rename', 'strip_suffix', 'map_to_track', 'ignore');--> statement-breakpoint
+CREATE TYPE "public"."rewrite_rule_field" AS ENUM('title', 'artist', 'album');--> statement-breakpoint
+CREATE TYPE "public"."rewrite_rule_match_type" AS ENUM('exact', 'regex');--> statement-breakpoint
+CREATE TABLE "rewrite_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"conditions" jsonb NOT NULL,
+	"action" "rewrite_rule_action" NOT NULL,
+	"target_field" "rewrite_rule_field",
+	"value" text,
+	"target_track_id" uuid,
+	"position" integer DEFAULT 0 NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rewrite_rules" ADD CONSTRAINT "rewrite_rules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rewrite_rules" ADD CONSTRAINT "rewrite_rules_target_track_id_tracks_id_fk" FOREIGN KEY ("target_track_id") REFERENCES "public"."tracks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_rewrite_rules_user_position" ON "rewrite_rules" USING btree ("user_id","position");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "merge_candidates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entity_type" "mb_enrichment_entity_type" NOT NULL,
+	"survivor_id" uuid NOT NULL,
+	"duplicate_id" uuid NOT NULL,
+	"mbid" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "idx_merge_candidates_pair" UNIQUE("entity_type","survivor_id","duplicate_id")
+);
@@ -0,0 +1,14 @@
+CREATE TABLE "scrobble_gaps" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"provider" "account_provider" NOT NULL,
+	"gap_start" timestamp with time zone NOT NULL,
+	"gap_end" timestamp with time zone NOT NULL,
+	"detected_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"resolved_at" timestamp with time zone,
+	"resolved_by_import_id" uuid,
+	CONSTRAINT "idx_scrobble_gaps_start" UNIQUE("user_id","provider","gap_start")
+);
+--> statement-breakpoint
+ALTER TABLE "scrobble_gaps" ADD CONSTRAINT "scrobble_gaps_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scrobble_gaps" ADD CONSTRAINT "scrobble_gaps_resolved_by_import_id_imports_id_fk" FOREIGN KEY ("resolved_by_import_id") REFERENCES "public"."imports"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,63 @@
+ALTER TABLE "scrobble_gaps" DROP CONSTRAINT "idx_scrobble_gaps_start";--> statement-breakpoint
+ALTER TABLE "playback_sessions" DROP CONSTRAINT "playback_sessions_pk";--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "display_name" text;--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "linked_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "playback_sessions" ADD COLUMN "account_id" uuid;--> statement-breakpoint
+ALTER TABLE "scrobble_gaps" ADD COLUMN "account_id" uuid;--> statement-breakpoint
+ALTER TABLE "scrobble_state" ADD COLUMN "account_id" uuid;--> statement-breakpoint
+ALTER TABLE "scrobbles" ADD COLUMN "account_id" uuid;--> statement-breakpoint
+ALTER TABLE "playback_sessions" ADD CONSTRAINT "playback_sessions_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scrobble_gaps" ADD CONSTRAINT "scrobble_gaps_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scrobble_state" ADD CONSTRAINT "scrobble_state_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scrobbles" ADD CONSTRAINT "scrobbles_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_scrobbles_account" ON "scrobbles" USING btree ("account_id");--> statement-breakpoint
+-- Existing Spotify rows belong to the user's first linked Spotify account
+-- (accounts linked before linked_at existed share its default, so ties break by id)
+UPDATE "scrobble_state" SET "account_id" = "first_account"."id"
+	FROM (
+		SELECT DISTINCT ON ("user_id") "user_id", "id"
+		FROM "accounts"
+		WHERE "provider" = 'spotify'
+		ORDER BY "user_id", "linked_at", "id"
+	) "first_account"
+	WHERE "first_account"."user_id" = "scrobble_state"."user_id"
+		AND "scrobble_state"."provider" = 'spotify';--> statement-breakpoint
+-- Cursors of users without a Spotify account can never be polled again
+DELETE FROM "scrobble_state" WHERE "account_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "scrobble_state" ALTER COLUMN "account_id" SET NOT NULL;--> statement-breakpoint
+UPDATE "scrobble_gaps" SET "account_id" = "first_account"."id"
+	FROM (
+		SELECT DISTINCT ON ("user_id") "user_id", "id"
+		FROM "accounts"
+		WHERE "provider" = 'spotify'
+		ORDER BY "user_id", "linked_at", "id"
+	) "first_account"
+	WHERE "first_account"."user_id" = "scrobble_gaps"."user_id"
+		AND "scrobble_gaps"."provider" = 'spotify';--> statement-breakpoint
+DELETE FROM "scrobble_gaps" WHERE "account_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "scrobble_gaps" ALTER COLUMN "account_id" SET NOT NULL;--> statement-breakpoint
+UPDATE "playback_sessions" SET "account_id" = "first_account"."id"
+	FROM (
+		SELECT DISTINCT ON ("user_id") "user_id", "id"
+		FROM "accounts"
+		WHERE "provider" = 'spotify'
+		ORDER BY "user_id", "linked_at", "id"
+	) "first_account"
+	WHERE "first_account"."user_id" = "playback_sessions"."user_id"
+		AND "playback_sessions"."provider" = 'spotify';--> statement-breakpoint
+-- Only plays captured by the worker; imports keep a null account
+UPDATE "scrobbles" SET "account_id" = "first_account"."id"
+	FROM (
+		SELECT DISTINCT ON ("user_id") "user_id", "id"
+		FROM "accounts"
+		WHERE "provider" = 'spotify'
+		ORDER BY "user_id", "linked_at", "id"
+	) "first_account"
+	WHERE "first_account"."user_id" = "scrobbles"."user_id"
+		AND "scrobbles"."provider" = 'spotify'
+		AND "scrobbles"."import_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "scrobble_state" DROP CONSTRAINT "scrobble_state_pk";
+--> statement-breakpoint
+ALTER TABLE "scrobble_state" ADD CONSTRAINT "scrobble_state_pk" PRIMARY KEY("account_id");--> statement-breakpoint
+ALTER TABLE "playback_sessions" ADD CONSTRAINT "playback_sessions_source" UNIQUE NULLS NOT DISTINCT("user_id","provider","account_id");--> statement-breakpoint
+ALTER TABLE "scrobble_gaps" ADD CONSTRAINT "idx_scrobble_gaps_start" UNIQUE("account_id","gap_start");
\ No newline at end of file
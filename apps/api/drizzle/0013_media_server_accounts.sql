@@ -0,0 +1,4 @@
+ALTER TYPE "public"."account_provider" ADD VALUE 'subsonic';--> statement-breakpoint
+ALTER TYPE "public"."account_provider" ADD VALUE 'jellyfin';--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "server_url" text;--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "server_user" text;
\ No newline at end of file
@@ -0,0 +1,40 @@
+ALTER TYPE "public"."mb_enrichment_job_type" ADD VALUE 'artist.sync_genres' BEFORE 'album.resolve_mbid';--> statement-breakpoint
+ALTER TYPE "public"."mb_enrichment_job_type" ADD VALUE 'track.sync_genres';--> statement-breakpoint
+CREATE TABLE "album_tags" (
+	"album_id" uuid NOT NULL,
+	"tag_id" uuid NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "album_tags_pk" PRIMARY KEY("album_id","tag_id")
+);
+--> statement-breakpoint
+CREATE TABLE "artist_tags" (
+	"artist_id" uuid NOT NULL,
+	"tag_id" uuid NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "artist_tags_pk" PRIMARY KEY("artist_id","tag_id")
+);
+--> statement-breakpoint
+CREATE TABLE "tags" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"mbid" text,
+	CONSTRAINT "tags_name_unique" UNIQUE("name"),
+	CONSTRAINT "tags_mbid_unique" UNIQUE("mbid")
+);
+--> statement-breakpoint
+CREATE TABLE "track_tags" (
+	"track_id" uuid NOT NULL,
+	"tag_id" uuid NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "track_tags_pk" PRIMARY KEY("track_id","tag_id")
+);
+--> statement-breakpoint
+ALTER TABLE "album_tags" ADD CONSTRAINT "album_tags_album_id_albums_id_fk" FOREIGN KEY ("album_id") REFERENCES "public"."albums"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "album_tags" ADD CONSTRAINT "album_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artist_tags" ADD CONSTRAINT "artist_tags_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artist_tags" ADD CONSTRAINT "artist_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "track_tags" ADD CONSTRAINT "track_tags_track_id_tracks_id_fk" FOREIGN KEY ("track_id") REFERENCES "public"."tracks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "track_tags" ADD CONSTRAINT "track_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_album_tags_tag" ON "album_tags" USING btree ("tag_id");--> statement-breakpoint
+CREATE INDEX "idx_artist_tags_tag" ON "artist_tags" USING btree ("tag_id");--> statement-breakpoint
+CREATE INDEX "idx_track_tags_tag" ON "track_tags" USING btree ("tag_id");
\ No newline at end of file
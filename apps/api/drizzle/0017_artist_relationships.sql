@@ -0,0 +1,18 @@
+CREATE TYPE "public"."artist_relation_type" AS ENUM('collaboration', 'is_person', 'subgroup', 'supporting_musician', 'producer', 'composer');--> statement-breakpoint
+CREATE TABLE "artist_relationships" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"artist_id" uuid NOT NULL,
+	"related_artist_id" uuid,
+	"track_id" uuid,
+	"type" "artist_relation_type" NOT NULL,
+	"begin_raw" text,
+	"end_raw" text,
+	"ended" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "idx_artist_relationships_unique" UNIQUE NULLS NOT DISTINCT("artist_id","related_artist_id","track_id","type")
+);
+--> statement-breakpoint
+ALTER TABLE "artist_relationships" ADD CONSTRAINT "artist_relationships_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artist_relationships" ADD CONSTRAINT "artist_relationships_related_artist_id_artists_id_fk" FOREIGN KEY ("related_artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artist_relationships" ADD CONSTRAINT "artist_relationships_track_id_tracks_id_fk" FOREIGN KEY ("track_id") REFERENCES "public"."tracks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_artist_relationships_related" ON "artist_relationships" USING btree ("related_artist_id");--> statement-breakpoint
+CREATE INDEX "idx_artist_relationships_track" ON "artist_relationships" USING btree ("track_id");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TYPE "public"."artist_traversal_node_status" AS ENUM('queued', 'synced', 'skipped');--> statement-breakpoint
+CREATE TYPE "public"."artist_traversal_status" AS ENUM('running', 'completed', 'budget_exhausted');--> statement-breakpoint
+CREATE TABLE "artist_traversal_nodes" (
+	"traversal_id" uuid NOT NULL,
+	"artist_id" uuid NOT NULL,
+	"depth" integer NOT NULL,
+	"parent_artist_id" uuid,
+	"status" "artist_traversal_node_status" DEFAULT 'queued' NOT NULL,
+	"synced_at" timestamp with time zone,
+	CONSTRAINT "artist_traversal_nodes_pk" PRIMARY KEY("traversal_id","artist_id")
+);
+--> statement-breakpoint
+CREATE TABLE "artist_traversals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"root_artist_id" uuid NOT NULL,
+	"max_depth" integer NOT NULL,
+	"request_budget" integer NOT NULL,
+	"requests_used" integer DEFAULT 0 NOT NULL,
+	"status" "artist_traversal_status" DEFAULT 'running' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "mb_enrichment_jobs" ADD COLUMN "traversal_id" uuid;--> statement-breakpoint
+ALTER TABLE "artist_traversal_nodes" ADD CONSTRAINT "artist_traversal_nodes_traversal_id_artist_traversals_id_fk" FOREIGN KEY ("traversal_id") REFERENCES "public"."artist_traversals"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artist_traversal_nodes" ADD CONSTRAINT "artist_traversal_nodes_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artist_traversal_nodes" ADD CONSTRAINT "artist_traversal_nodes_parent_artist_id_artists_id_fk" FOREIGN KEY ("parent_artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artist_traversals" ADD CONSTRAINT "artist_traversals_root_artist_id_artists_id_fk" FOREIGN KEY ("root_artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_artist_traversal_nodes_artist" ON "artist_traversal_nodes" USING btree ("artist_id");--> statement-breakpoint
+CREATE INDEX "idx_artist_traversals_root" ON "artist_traversals" USING btree ("root_artist_id","created_at");--> statement-breakpoint
+ALTER TABLE "mb_enrichment_jobs" ADD CONSTRAINT "mb_enrichment_jobs_traversal_id_artist_traversals_id_fk" FOREIGN KEY ("traversal_id") REFERENCES "public"."artist_traversals"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
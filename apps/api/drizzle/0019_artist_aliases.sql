@@ -0,0 +1,14 @@
+CREATE TYPE "public"."artist_alias_type" AS ENUM('name', 'artist_name', 'legal_name', 'search_hint');--> statement-breakpoint
+CREATE TABLE "artist_aliases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"artist_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"sort_name" text NOT NULL,
+	"locale" text,
+	"type" "artist_alias_type",
+	"is_primary" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "display_locale" text;--> statement-breakpoint
+ALTER TABLE "artist_aliases" ADD CONSTRAINT "artist_aliases_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_artist_aliases_artist" ON "artist_aliases" USING btree ("artist_id","locale");
\ No newline at end of file
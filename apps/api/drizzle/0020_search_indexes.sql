@@ -0,0 +1,4 @@
+CREATE INDEX "idx_albums_title_trgm" ON "albums" USING gin ("title" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "idx_artist_aliases_name_trgm" ON "artist_aliases" USING gin ("name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "idx_artists_name_trgm" ON "artists" USING gin ("name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "idx_tracks_title_trgm" ON "tracks" USING gin ("title" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "imports" DROP CONSTRAINT "idx_imports_file_hash";--> statement-breakpoint
+ALTER TABLE "imports" ADD CONSTRAINT "idx_imports_user_file_hash" UNIQUE("user_id","file_hash");
\ No newline at end of file
@@ -26,3 +26,13 @@ try {
 } finally {
 	await sql.end()
 }
+
+// Extensions the schema's indexes rely on (drizzle-kit push doesn't create them)
+const db = postgres(connectionString)
+
+try {
+	await db`CREATE EXTENSION IF NOT EXISTS pg_trgm`
+	console.log(`✓ Extension pg_trgm enabled`)
+} finally {
+	await db.end()
+}
@@ -5,6 +5,20 @@ import syncRoutes from './routes/sync'
 import playerRoutes from './routes/player'
 import statsRoutes from './routes/stats'
 import artistsRoutes from './routes/artists'
+import tracksRoutes from './routes/tracks'
+import albumsRoutes from './routes/albums'
+import importsRoutes from './routes/imports'
+import tokensRoutes from './routes/tokens'
+import scrobblesRoutes from './routes/scrobbles'
+import rewriteRulesRoutes from './routes/rewrite-rules'
+import adminRoutes from './routes/admin'
+import usersRoutes from './routes/users'
+import accountsRoutes from './routes/accounts'
+import profilesRoutes from './routes/profiles'
+import followsRoutes from './routes/follows'
+import searchRoutes from './routes/search'
+import listenbrainzRoutes from './routes/listenbrainz'
+import audioscrobblerRoutes from './routes/audioscrobbler'
 
 const app = new Hono()
 
@@ -28,5 +42,23 @@ app.route('/api/sync', syncRoutes)
 app.route('/api/player', playerRoutes)
 app.route('/api/stats', statsRoutes)
 app.route('/api/artists', artistsRoutes)
+app.route('/api/tracks', tracksRoutes)
+app.route('/api/albums', albumsRoutes)
+app.route('/api/imports', importsRoutes)
+app.route('/api/tokens', tokensRoutes)
+app.route('/api/scrobbles', scrobblesRoutes)
+app.route('/api/rewrite-rules', rewriteRulesRoutes)
+app.route('/api/admin', adminRoutes)
+app.route('/api/users', usersRoutes)
+app.route('/api/accounts', accountsRoutes)
+app.route('/api/profiles', profilesRoutes)
+app.route('/api/follows', followsRoutes)
+app.route('/api/search', searchRoutes)
+
+// ListenBrainz-compatible API for scrobbler clients
+app.route('/1', listenbrainzRoutes)
+
+// Last.fm (Audioscrobbler 2.0) compatible API for scrobbler clients
+app.route('/2.0', audioscrobblerRoutes)
 
 export default app
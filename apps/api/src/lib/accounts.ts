@@ -0,0 +1,332 @@
+/**
+ * Account Service
+ *
+ * Manages the streaming service accounts linked to a user:
+ * - Listing linked accounts with how many plays each one captured
+ * - Linking another Spotify account to an existing user
+ * - Linking a user on a self-hosted Subsonic or Jellyfin server
+ * - Unlinking an account while keeping the plays it captured
+ *
+ * @module accounts
+ */
+
+import { and, eq, sql } from 'drizzle-orm'
+import { db } from '../db'
+import {
+	accounts,
+	playback_sessions,
+	scrobble_gaps,
+	scrobble_state,
+	scrobbles,
+} from '@playbacc/types/db/schema'
+import {
+	calculateExpiresAt,
+	type SpotifyUser,
+	type TokenResponse,
+} from './spotify'
+import { pingSubsonic } from './subsonic'
+import { authenticateJellyfin } from './jellyfin'
+import type { Account, AccountProvider } from '../types'
+
+/**
+ * Providers whose accounts live on a self-hosted server
+ */
+export type ServerProvider = Extract<AccountProvider, 'subsonic' | 'jellyfin'>
+
+/**
+ * Sign-in details for a user on a self-hosted server
+ */
+export interface ServerCredentials {
+	/** Base URL of the server */
+	serverUrl: string
+	username: string
+	password: string
+}
+
+/**
+ * A linked account as shown to its owner
+ */
+export interface LinkedAccount {
+	id: string
+	provider: AccountProvider
+	external_id: string
+	display_name: string | null
+	/** Base URL of a self-hosted server */
+	server_url: string | null
+	linked_at: Date
+	scrobble_count: number
+}
+
+/**
+ * Outcome of linking an account
+ */
+export type LinkAccountResult =
+	| { ok: true; account: Account; created: boolean }
+	| {
+			ok: false
+			reason:
+				| 'linked_to_other_user'
+				| 'invalid_credentials'
+				| 'server_unreachable'
+	  }
+
+/**
+ * Outcome of unlinking an account
+ */
+export type UnlinkAccountResult =
+	| { ok: true }
+	| { ok: false; reason: 'not_found' | 'last_account' }
+
+/**
+ * Lists the user's linked accounts, oldest first
+ *
+ * @param userId - User database ID
+ */
+export async function getLinkedAccounts(
+	userId: string
+): Promise<LinkedAccount[]> {
+	const rows = await db.execute<{
+		id: string
+		provider: AccountProvider
+		external_id: string
+		display_name: string | null
+		server_url: string | null
+		linked_at: string
+		scrobble_count: string
+	}>(sql`
+		SELECT
+			a.id,
+			a.provider,
+			a.external_id,
+			a.display_name,
+			a.server_url,
+			a.linked_at,
+			(
+				SELECT COUNT(*)
+				FROM scrobbles s
+				WHERE s.user_id = a.user_id AND s.account_id = a.id
+			) as scrobble_count
+		FROM accounts a
+		WHERE a.user_id = ${userId}
+		ORDER BY a.linked_at, a.external_id
+	`)
+
+	return rows.map((row) => ({
+		id: row.id,
+		provider: row.provider,
+		external_id: row.external_id,
+		display_name: row.display_name,
+		server_url: row.server_url,
+		linked_at: new Date(row.linked_at),
+		scrobble_count: parseInt(row.scrobble_count, 10),
+	}))
+}
+
+/**
+ * Links a Spotify account to a user, or refreshes its tokens if the user
+ * already linked it
+ *
+ * @param userId - User database ID
+ * @param profile - Spotify profile of the account
+ * @param tokenResponse - Tokens from the OAuth code exchange
+ */
+export async function linkSpotifyAccount(
+	userId: string,
+	profile: SpotifyUser,
+	tokenResponse: TokenResponse
+): Promise<LinkAccountResult> {
+	const existing = await db.query.accounts.findFirst({
+		where: (accounts, { eq, and }) =>
+			and(
+				eq(accounts.provider, 'spotify'),
+				eq(accounts.external_id, profile.id)
+			),
+	})
+
+	if (existing && existing.user_id !== userId) {
+		return { ok: false, reason: 'linked_to_other_user' }
+	}
+
+	const tokens = {
+		access_token: tokenResponse.access_token,
+		refresh_token:
+			tokenResponse.refresh_token || existing?.refresh_token || null,
+		expires_in: calculateExpiresAt(tokenResponse.expires_in),
+		scope: tokenResponse.scope,
+		display_name: profile.display_name ?? null,
+	}
+
+	if (existing) {
+		const [account] = await db
+			.update(accounts)
+			.set(tokens)
+			.where(eq(accounts.id, existing.id))
+			.returning()
+
+		return { ok: true, account, created: false }
+	}
+
+	const [account] = await db
+		.insert(accounts)
+		.values({
+			...tokens,
+			user_id: userId,
+			provider: 'spotify',
+			external_id: profile.id,
+		})
+		.returning()
+
+	return { ok: true, account, created: true }
+}
+
+/**
+ * Links a user on a self-hosted server after checking the credentials with
+ * the server, or updates the stored credentials if the user already
+ * linked it.
+ *
+ * Subsonic token authentication needs the password on every request, so it
+ * is stored as the account's access token. Jellyfin hands out an access
+ * token instead, and the password is not kept.
+ *
+ * @param userId - User database ID
+ * @param provider - Kind of server
+ * @param credentials - Server URL and sign-in details
+ */
+export async function linkServerAccount(
+	userId: string,
+	provider: ServerProvider,
+	credentials: ServerCredentials
+): Promise<LinkAccountResult> {
+	const serverUrl = credentials.serverUrl.replace(/\/+$/, '')
+
+	let serverUser: string
+	let accessToken: string
+	let displayName = credentials.username
+
+	try {
+		if (provider === 'subsonic') {
+			const valid = await pingSubsonic({ ...credentials, serverUrl })
+			if (!valid) {
+				return { ok: false, reason: 'invalid_credentials' }
+			}
+			serverUser = credentials.username
+			accessToken = credentials.password
+		} else {
+			const session = await authenticateJellyfin(
+				serverUrl,
+				credentials.username,
+				credentials.password
+			)
+			if (!session) {
+				return { ok: false, reason: 'invalid_credentials' }
+			}
+			serverUser = session.User.Id
+			accessToken = session.AccessToken
+			displayName = session.User.Name
+		}
+	} catch (error) {
+		console.warn(`[Accounts] Could not reach ${provider} server:`, error)
+		return { ok: false, reason: 'server_unreachable' }
+	}
+
+	// Usernames and user IDs are only unique per server
+	const externalId = `${serverUser}@${serverUrl}`
+
+	const existing = await db.query.accounts.findFirst({
+		where: (accounts, { eq, and }) =>
+			and(
+				eq(accounts.provider, provider),
+				eq(accounts.external_id, externalId)
+			),
+	})
+
+	if (existing && existing.user_id !== userId) {
+		return { ok: false, reason: 'linked_to_other_user' }
+	}
+
+	const values = {
+		access_token: accessToken,
+		display_name: displayName,
+		server_url: serverUrl,
+		server_user: serverUser,
+	}
+
+	if (existing) {
+		const [account] = await db
+			.update(accounts)
+			.set(values)
+			.where(eq(accounts.id, existing.id))
+			.returning()
+
+		return { ok: true, account, created: false }
+	}
+
+	const [account] = await db
+		.insert(accounts)
+		.values({
+			...values,
+			user_id: userId,
+			provider,
+			external_id: externalId,
+		})
+		.returning()
+
+	return { ok: true, account, created: true }
+}
+
+/**
+ * Unlinks one of the user's accounts. Plays it captured are kept but no
+ * longer attributed to an account; its cursor, playback session and
+ * detected gaps are removed.
+ *
+ * The last Spotify account can't be unlinked, as the user signs in with it.
+ *
+ * @param userId - User database ID
+ * @param accountId - Account database ID
+ */
+export async function unlinkAccount(
+	userId: string,
+	accountId: string
+): Promise<UnlinkAccountResult> {
+	return db.transaction(async (tx) => {
+		const owned = await tx
+			.select({ id: accounts.id, provider: accounts.provider })
+			.from(accounts)
+			.where(eq(accounts.user_id, userId))
+			.for('update')
+
+		const target = owned.find((account) => account.id === accountId)
+		if (!target) {
+			return { ok: false, reason: 'not_found' }
+		}
+
+		const signInAccounts = owned.filter(
+			(account) => account.provider === 'spotify'
+		)
+		if (target.provider === 'spotify' && signInAccounts.length === 1) {
+			return { ok: false, reason: 'last_account' }
+		}
+
+		await tx
+			.update(scrobbles)
+			.set({ account_id: null })
+			.where(
+				and(
+					eq(scrobbles.user_id, userId),
+					eq(scrobbles.account_id, accountId)
+				)
+			)
+		await tx
+			.delete(scrobble_state)
+			.where(eq(scrobble_state.account_id, accountId))
+		await tx
+			.delete(playback_sessions)
+			.where(eq(playback_sessions.account_id, accountId))
+		await tx
+			.delete(scrobble_gaps)
+			.where(eq(scrobble_gaps.account_id, accountId))
+		await tx.delete(accounts).where(eq(accounts.id, accountId))
+
+		return { ok: true }
+	})
+}
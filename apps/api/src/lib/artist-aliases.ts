@@ -0,0 +1,94 @@
+/**
+ * Artist Aliases
+ *
+ * Artist names are stored as the provider first reported them, usually
+ * Spotify's single display name. The MusicBrainz aliases of an artist
+ * (native script and romanized names, each with a locale and sort name)
+ * let each user pick a display locale:
+ * - Stats and player endpoints show an artist by its alias in the user's
+ *   locale, preferring the primary one, and fall back to the stored name
+ * - Search (see search) matches the stored name and any alias
+ *
+ * @module artist-aliases
+ */
+
+import { inArray, sql, type SQL } from 'drizzle-orm'
+import { db } from '../db'
+import { artists } from '@playbacc/types/db/schema'
+
+/**
+ * Display locales users can pick, in MusicBrainz form: a language code
+ * with an optional region or script (e.g. ja, en_US, zh_Hant)
+ */
+export const DISPLAY_LOCALE_PATTERN = /^[a-z]{2,3}(_[A-Za-z]{2,4})?$/
+
+/**
+ * Builds the display name of an artist in a locale: the artist's alias in
+ * that exact locale, else in the same language (ja for ja_JP), preferring
+ * primary aliases; search hints and legal names are never shown.
+ *
+ * @param table - Alias of the artists table in the query (e.g. 'a')
+ * @param locale - Display locale, or null/undefined for the stored name
+ * @returns SQL expression for the name
+ */
+export function artistNameSql(
+	table: string,
+	locale: string | null | undefined
+): SQL {
+	const id = sql.raw(`${table}.id`)
+	const name = sql.raw(`${table}.name`)
+
+	if (!locale) {
+		return name
+	}
+
+	const language = locale.split('_')[0]
+	return sql`COALESCE((
+		SELECT aa.name
+		FROM artist_aliases aa
+		WHERE aa.artist_id = ${id}
+			AND aa.type IS DISTINCT FROM 'search_hint'
+			AND aa.type IS DISTINCT FROM 'legal_name'
+			AND (aa.locale = ${locale} OR split_part(aa.locale, '_', 1) = ${language})
+		ORDER BY (aa.locale = ${locale}) DESC, aa.is_primary DESC, aa.name
+		LIMIT 1
+	), ${name})`
+}
+
+/**
+ * Localizes artist names reported by a provider (e.g. a currently playing
+ * Spotify track), matching them to stored artists by name.
+ *
+ * @param track - Track whose artists to localize
+ * @param locale - Display locale, or null to leave the names as they are
+ * @returns The track with localized artist names
+ */
+export async function localizeTrackArtists<
+	T extends { artists: Array<{ name: string }> },
+>(track: T, locale: string | null): Promise<T> {
+	if (!locale || track.artists.length === 0) {
+		return track
+	}
+
+	const rows = await db
+		.select({
+			name: artists.name,
+			display_name: sql<string>`${artistNameSql('artists', locale)}`,
+		})
+		.from(artists)
+		.where(
+			inArray(
+				artists.name,
+				track.artists.map((artist) => artist.name)
+			)
+		)
+
+	const names = new Map(rows.map((row) => [row.name, row.display_name]))
+	return {
+		...track,
+		artists: track.artists.map((artist) => ({
+			...artist,
+			name: names.get(artist.name) ?? artist.name,
+		})),
+	}
+}
@@ -0,0 +1,120 @@
+/**
+ * Artist Relationships Service
+ *
+ * Reads the MusicBrainz relationships stored besides group membership
+ * (collaborations, performance names, subgroups, supporting musicians and
+ * producer/composer credits) from the point of view of one artist, with the
+ * user's own play counts of each related artist.
+ *
+ * @module artist-relationships
+ */
+
+import { sql } from 'drizzle-orm'
+import { db } from '../db'
+import type { ArtistRelationType } from './musicbrainz'
+
+/**
+ * An artist related to the viewed artist
+ */
+export interface RelatedArtist {
+	type: ArtistRelationType
+	/**
+	 * forward: the viewed artist is the relationship's subject, e.g. it is a
+	 * collaborator on, performs as, has as subgroup, supports, or produced or
+	 * composed recordings of the related artist; backward: the other way round
+	 */
+	direction: 'forward' | 'backward'
+	artist: { id: string; name: string; image_url: string | null }
+	begin_raw: string | null
+	end_raw: string | null
+	ended: boolean
+	/** Number of credited recordings (producer and composer only) */
+	track_count: number | null
+	/** The user's plays of the related artist (primary credits) */
+	play_count: number
+}
+
+/**
+ * Gets the artists related to an artist.
+ * Producer/composer credits are grouped by the primary artists of the
+ * credited recordings.
+ *
+ * @param artistId - Artist database ID
+ * @param userId - User whose plays are counted
+ * @returns Related artists, most played first
+ */
+export async function getRelatedArtists(
+	artistId: string,
+	userId: string
+): Promise<RelatedArtist[]> {
+	const rows = await db.execute<{
+		type: ArtistRelationType
+		direction: 'forward' | 'backward'
+		id: string
+		name: string
+		image_url: string | null
+		begin_raw: string | null
+		end_raw: string | null
+		ended: boolean
+		track_count: number | null
+		play_count: number
+	}>(sql`
+		WITH rels AS (
+			SELECT r.type, 'forward' as direction, r.related_artist_id as other_id,
+				r.begin_raw, r.end_raw, r.ended, NULL::int as track_count
+			FROM artist_relationships r
+			WHERE r.artist_id = ${artistId} AND r.related_artist_id IS NOT NULL
+			UNION ALL
+			SELECT r.type, 'backward', r.artist_id,
+				r.begin_raw, r.end_raw, r.ended, NULL::int
+			FROM artist_relationships r
+			WHERE r.related_artist_id = ${artistId}
+			UNION ALL
+			-- Recordings of other artists the viewed artist is credited on
+			SELECT r.type, 'forward', ta.artist_id,
+				NULL, NULL, false, COUNT(DISTINCT r.track_id)::int
+			FROM artist_relationships r
+			JOIN track_artists ta ON ta.track_id = r.track_id AND ta.is_primary = true
+			WHERE r.artist_id = ${artistId} AND ta.artist_id <> ${artistId}
+			GROUP BY r.type, ta.artist_id
+			UNION ALL
+			-- Other artists credited on the viewed artist's recordings
+			SELECT r.type, 'backward', r.artist_id,
+				NULL, NULL, false, COUNT(DISTINCT r.track_id)::int
+			FROM artist_relationships r
+			JOIN track_artists ta ON ta.track_id = r.track_id AND ta.is_primary = true
+			WHERE ta.artist_id = ${artistId} AND r.artist_id <> ${artistId}
+			GROUP BY r.type, r.artist_id
+		)
+		SELECT
+			rels.type,
+			rels.direction,
+			a.id,
+			a.name,
+			a.image_url,
+			rels.begin_raw,
+			rels.end_raw,
+			rels.ended,
+			rels.track_count,
+			(
+				SELECT COUNT(*)::int
+				FROM scrobbles s
+				JOIN track_artists pta ON pta.track_id = s.track_id AND pta.is_primary = true
+				WHERE s.user_id = ${userId} AND pta.artist_id = a.id
+			) as play_count
+		FROM rels
+		JOIN artists a ON a.id = rels.other_id
+		ORDER BY play_count DESC, a.name ASC
+	`)
+
+	return rows.map((row) => ({
+		type: row.type,
+		direction: row.direction,
+		artist: { id: row.id, name: row.name, image_url: row.image_url },
+		begin_raw: row.begin_raw,
+		end_raw: row.end_raw,
+		ended: row.ended,
+		track_count: row.track_count,
+		play_count: row.play_count,
+	}))
+}
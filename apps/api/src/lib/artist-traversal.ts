@@ -0,0 +1,480 @@
+/**
+ * Artist Traversals
+ *
+ * Syncing an artist's relationships links its members and groups one hop
+ * away. A traversal follows those links from a root artist:
+ * - Every synced artist's newly linked artists (groups, members and
+ *   artist-to-artist relationships) become nodes one hop further, up to a
+ *   maximum depth
+ * - Each node is synced by an artist.sync_relationships job carrying the
+ *   traversal ID, and the worker advances the traversal when it finishes
+ * - An artist is a node of a traversal at most once, so cycles (a member's
+ *   other band that shares a member with the root) end there
+ * - The request budget caps the MusicBrainz requests a traversal spends;
+ *   nodes discovered once it is spent are skipped
+ *
+ * The nodes record the root and hop that reached each artist, which is
+ * the family tree shown on the artist page.
+ *
+ * @module artist-traversal
+ */
+
+import { and, eq, isNull, sql } from 'drizzle-orm'
+import { db } from '../db'
+import {
+	artist_traversal_nodes,
+	artist_traversals,
+	mb_enrichment_jobs,
+} from '@playbacc/types/db/schema'
+import { enqueueJob } from './mb-enrichment-queue'
+
+/**
+ * Traversal configuration
+ */
+export const TRAVERSAL_CONFIG = {
+	/** Hops synced when no depth is given */
+	defaultDepth: parseInt(
+		process.env.ARTIST_TRAVERSAL_DEFAULT_DEPTH || '2',
+		10
+	),
+	/** Maximum depth a traversal may be started with */
+	maxDepth: parseInt(process.env.ARTIST_TRAVERSAL_MAX_DEPTH || '4', 10),
+	/** MusicBrainz requests per traversal when no budget is given */
+	defaultBudget: parseInt(
+		process.env.ARTIST_TRAVERSAL_DEFAULT_BUDGET || '50',
+		10
+	),
+	/** Maximum budget a traversal may be started with */
+	maxBudget: parseInt(process.env.ARTIST_TRAVERSAL_MAX_BUDGET || '250', 10),
+	/** Job priority of traversal hops (below manual and bulk syncs) */
+	jobPriority: 3,
+}
+
+export type ArtistTraversalStatus = 'running' | 'completed' | 'budget_exhausted'
+
+/**
+ * A traversal with its progress
+ */
+export interface ArtistTraversal {
+	id: string
+	root_artist_id: string
+	max_depth: number
+	request_budget: number
+	requests_used: number
+	status: ArtistTraversalStatus
+	created_at: string
+	completed_at: string | null
+	/** Nodes by status */
+	nodes: { queued: number; synced: number; skipped: number }
+}
+
+/**
+ * An artist reached by a traversal
+ */
+export interface FamilyTreeNode {
+	artist: {
+		id: string
+		name: string
+		image_url: string | null
+		type: string | null
+	}
+	depth: number
+	/** Artist whose sync discovered this one (null for the root) */
+	parent_artist_id: string | null
+	/** skipped: not synced (budget spent, sync failed or already queued by another traversal) */
+	status: 'queued' | 'synced' | 'skipped'
+	/** The user's plays of the artist (primary credits) */
+	play_count: number
+}
+
+/**
+ * Result of starting a traversal
+ */
+export type StartTraversalResult =
+	| { ok: true; traversal: ArtistTraversal }
+	| {
+			ok: false
+			reason: 'artist_not_found' | 'no_mbid' | 'already_running'
+			traversalId?: string
+	  }
+
+/**
+ * Enqueues the relationship sync of a traversal node.
+ * When the artist already has a pending standalone sync, that job is
+ * adopted by the traversal instead.
+ *
+ * @returns Whether the node will be synced as part of the traversal
+ */
+async function enqueueTraversalHop(
+	traversalId: string,
+	artistId: string
+): Promise<boolean> {
+	const result = await enqueueJob({
+		jobType: 'artist.sync_relationships',
+		entityType: 'artist',
+		entityId: artistId,
+		priority: TRAVERSAL_CONFIG.jobPriority,
+		traversalId,
+	})
+
+	if (result.created) return true
+	if (!result.jobId) return false
+
+	const adopted = await db
+		.update(mb_enrichment_jobs)
+		.set({ traversal_id: traversalId, updated_at: new Date() })
+		.where(
+			and(
+				eq(mb_enrichment_jobs.id, result.jobId),
+				eq(mb_enrichment_jobs.status, 'pending'),
+				isNull(mb_enrichment_jobs.traversal_id)
+			)
+		)
+		.returning({ id: mb_enrichment_jobs.id })
+
+	return adopted.length > 0
+}
+
+/**
+ * Marks a traversal finished once none of its nodes are queued.
+ * It counts as budget_exhausted when the budget was spent, since nodes
+ * discovered from then on were skipped.
+ */
+async function finishTraversalIfDone(traversalId: string): Promise<void> {
+	await db.execute(sql`
+		UPDATE artist_traversals t
+		SET status = CASE
+				WHEN t.requests_used >= t.request_budget THEN 'budget_exhausted'::artist_traversal_status
+				ELSE 'completed'::artist_traversal_status
+			END,
+			completed_at = NOW()
+		WHERE t.id = ${traversalId}
+			AND t.status = 'running'
+			AND NOT EXISTS (
+				SELECT 1 FROM artist_traversal_nodes n
+				WHERE n.traversal_id = t.id AND n.status = 'queued'
+			)
+	`)
+}
+
+/**
+ * Starts a traversal from a root artist by enqueueing the root's sync.
+ *
+ * @param artistId - Root artist ID (must have an MBID)
+ * @param options - Depth and request budget, clamped to the configured maximums
+ * @returns The started traversal, or why it wasn't started
+ */
+export async function startArtistTraversal(
+	artistId: string,
+	options: { maxDepth?: number; budget?: number } = {}
+): Promise<StartTraversalResult> {
+	const artist = await db.query.artists.findFirst({
+		where: (a, { eq }) => eq(a.id, artistId),
+		columns: { id: true, mbid: true },
+	})
+
+	if (!artist) {
+		return { ok: false, reason: 'artist_not_found' }
+	}
+
+	if (!artist.mbid) {
+		return { ok: false, reason: 'no_mbid' }
+	}
+
+	const running = await db.query.artist_traversals.findFirst({
+		where: (t, { and, eq }) =>
+			and(eq(t.root_artist_id, artistId), eq(t.status, 'running')),
+		columns: { id: true },
+	})
+
+	if (running) {
+		return { ok: false, reason: 'already_running', traversalId: running.id }
+	}
+
+	const maxDepth = Math.min(
+		Math.max(options.maxDepth ?? TRAVERSAL_CONFIG.defaultDepth, 1),
+		TRAVERSAL_CONFIG.maxDepth
+	)
+	const budget = Math.min(
+		Math.max(options.budget ?? TRAVERSAL_CONFIG.defaultBudget, 1),
+		TRAVERSAL_CONFIG.maxBudget
+	)
+
+	const [traversal] = await db
+		.insert(artist_traversals)
+		.values({
+			root_artist_id: artistId,
+			max_depth: maxDepth,
+			request_budget: budget,
+		})
+		.returning({ id: artist_traversals.id })
+
+	await db.insert(artist_traversal_nodes).values({
+		traversal_id: traversal.id,
+		artist_id: artistId,
+		depth: 0,
+		status: 'skipped',
+	})
+
+	if (await enqueueTraversalHop(traversal.id, artistId)) {
+		await db
+			.update(artist_traversal_nodes)
+			.set({ status: 'queued' })
+			.where(
+				and(
+					eq(artist_traversal_nodes.traversal_id, traversal.id),
+					eq(artist_traversal_nodes.artist_id, artistId)
+				)
+			)
+	}
+
+	await finishTraversalIfDone(traversal.id)
+
+	return { ok: true, traversal: (await getArtistTraversal(traversal.id))! }
+}
+
+/**
+ * Advances a traversal after one of its nodes was synced: the artists the
+ * sync linked become nodes one hop further, and as many of them as the
+ * budget allows are enqueued.
+ *
+ * @param traversalId - Traversal ID
+ * @param artistId - Synced artist ID
+ * @returns Number of newly discovered artists enqueued
+ */
+export async function advanceArtistTraversal(
+	traversalId: string,
+	artistId: string
+): Promise<number> {
+	const [traversal] = await db
+		.update(artist_traversals)
+		.set({ requests_used: sql`${artist_traversals.requests_used} + 1` })
+		.where(eq(artist_traversals.id, traversalId))
+		.returning()
+
+	const [node] = await db
+		.update(artist_traversal_nodes)
+		.set({ status: 'synced', synced_at: new Date() })
+		.where(
+			and(
+				eq(artist_traversal_nodes.traversal_id, traversalId),
+				eq(artist_traversal_nodes.artist_id, artistId)
+			)
+		)
+		.returning()
+
+	if (!traversal || !node || node.depth >= traversal.max_depth) {
+		await finishTraversalIfDone(traversalId)
+		return 0
+	}
+
+	// Artists without an MBID can't be synced, and artists already in the
+	// traversal (cycles) conflict on the primary key
+	const discovered = await db.execute<{ artist_id: string }>(sql`
+		INSERT INTO artist_traversal_nodes (traversal_id, artist_id, depth, parent_artist_id, status)
+		SELECT ${traversalId}, linked.other_id, ${node.depth + 1}, ${artistId}, 'skipped'
+		FROM (
+			SELECT group_id as other_id FROM artists_groups WHERE member_id = ${artistId}
+			UNION
+			SELECT member_id FROM artists_groups WHERE group_id = ${artistId}
+			UNION
+			SELECT related_artist_id FROM artist_relationships
+			WHERE artist_id = ${artistId} AND related_artist_id IS NOT NULL
+			UNION
+			SELECT artist_id FROM artist_relationships WHERE related_artist_id = ${artistId}
+		) linked
+		JOIN artists a ON a.id = linked.other_id
+		WHERE a.mbid IS NOT NULL
+		ON CONFLICT DO NOTHING
+		RETURNING artist_id
+	`)
+
+	// Queued nodes will each spend a request too
+	const [{ queued }] = await db.execute<{ queued: number }>(sql`
+		SELECT COUNT(*)::int as queued
+		FROM artist_traversal_nodes
+		WHERE traversal_id = ${traversalId} AND status = 'queued'
+	`)
+	let remaining = traversal.request_budget - traversal.requests_used - queued
+
+	let enqueued = 0
+	for (const { artist_id } of discovered) {
+		if (remaining <= 0) break
+
+		if (await enqueueTraversalHop(traversalId, artist_id)) {
+			await db
+				.update(artist_traversal_nodes)
+				.set({ status: 'queued' })
+				.where(
+					and(
+						eq(artist_traversal_nodes.traversal_id, traversalId),
+						eq(artist_traversal_nodes.artist_id, artist_id)
+					)
+				)
+			remaining--
+			enqueued++
+		}
+	}
+
+	await finishTraversalIfDone(traversalId)
+	return enqueued
+}
+
+/**
+ * Records a failed sync of a traversal node. The attempt counts against
+ * the budget; a node whose sync failed for good is skipped.
+ *
+ * @param traversalId - Traversal ID
+ * @param artistId - Artist whose sync failed
+ * @param permanent - Whether the job won't be retried
+ */
+export async function failArtistTraversalHop(
+	traversalId: string,
+	artistId: string,
+	permanent: boolean
+): Promise<void> {
+	await db
+		.update(artist_traversals)
+		.set({ requests_used: sql`${artist_traversals.requests_used} + 1` })
+		.where(eq(artist_traversals.id, traversalId))
+
+	if (!permanent) return
+
+	await db
+		.update(artist_traversal_nodes)
+		.set({ status: 'skipped' })
+		.where(
+			and(
+				eq(artist_traversal_nodes.traversal_id, traversalId),
+				eq(artist_traversal_nodes.artist_id, artistId)
+			)
+		)
+
+	await finishTraversalIfDone(traversalId)
+}
+
+/**
+ * Gets a traversal with node counts.
+ *
+ * @param traversalId - Traversal ID
+ * @returns The traversal, or null if not found
+ */
+export async function getArtistTraversal(
+	traversalId: string
+): Promise<ArtistTraversal | null> {
+	const traversal = await db.query.artist_traversals.findFirst({
+		where: (t, { eq }) => eq(t.id, traversalId),
+	})
+
+	if (!traversal) {
+		return null
+	}
+
+	const counts = await db.execute<{
+		status: 'queued' | 'synced' | 'skipped'
+		count: number
+	}>(sql`
+		SELECT status, COUNT(*)::int as count
+		FROM artist_traversal_nodes
+		WHERE traversal_id = ${traversalId}
+		GROUP BY status
+	`)
+
+	const nodes = { queued: 0, synced: 0, skipped: 0 }
+	for (const row of counts) {
+		nodes[row.status] = row.count
+	}
+
+	return {
+		id: traversal.id,
+		root_artist_id: traversal.root_artist_id,
+		max_depth: traversal.max_depth,
+		request_budget: traversal.request_budget,
+		requests_used: traversal.requests_used,
+		status: traversal.status,
+		created_at: traversal.created_at.toISOString(),
+		completed_at: traversal.completed_at?.toISOString() ?? null,
+		nodes,
+	}
+}
+
+/**
+ * Gets the family tree of an artist: the nodes of the latest traversal
+ * rooted at it, or else of the latest traversal that reached it.
+ *
+ * @param artistId - Artist database ID
+ * @param userId - User whose plays are counted
+ * @returns The traversal and its nodes by depth, most played first, or null
+ *   if no traversal reached the artist
+ */
+export async function getArtistFamilyTree(
+	artistId: string,
+	userId: string
+): Promise<{ traversal: ArtistTraversal; nodes: FamilyTreeNode[] } | null> {
+	const [latest] = await db.execute<{ id: string }>(sql`
+		SELECT t.id
+		FROM artist_traversals t
+		WHERE t.root_artist_id = ${artistId}
+			OR EXISTS (
+				SELECT 1 FROM artist_traversal_nodes n
+				WHERE n.traversal_id = t.id AND n.artist_id = ${artistId}
+			)
+		ORDER BY (t.root_artist_id = ${artistId}) DESC, t.created_at DESC
+		LIMIT 1
+	`)
+
+	if (!latest) {
+		return null
+	}
+
+	const traversal = await getArtistTraversal(latest.id)
+	if (!traversal) {
+		return null
+	}
+
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		type: string | null
+		depth: number
+		parent_artist_id: string | null
+		status: 'queued' | 'synced' | 'skipped'
+		play_count: number
+	}>(sql`
+		SELECT
+			a.id,
+			a.name,
+			a.image_url,
+			a.type,
+			n.depth,
+			n.parent_artist_id,
+			n.status,
+			(
+				SELECT COUNT(*)::int
+				FROM scrobbles s
+				JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+				WHERE s.user_id = ${userId} AND ta.artist_id = a.id
+			) as play_count
+		FROM artist_traversal_nodes n
+		JOIN artists a ON a.id = n.artist_id
+		WHERE n.traversal_id = ${latest.id}
+		ORDER BY n.depth ASC, play_count DESC, a.name ASC
+	`)
+
+	return {
+		traversal,
+		nodes: rows.map((row) => ({
+			artist: {
+				id: row.id,
+				name: row.name,
+				image_url: row.image_url,
+				type: row.type,
+			},
+			depth: row.depth,
+			parent_artist_id: row.parent_artist_id,
+			status: row.status,
+			play_count: row.play_count,
+		})),
+	}
+}
@@ -0,0 +1,527 @@
+/**
+ * Audioscrobbler Compatibility Service
+ *
+ * Lets scrobbler clients that only speak the Last.fm API (Audioscrobbler 2.0)
+ * submit plays to Playbacc:
+ * - Request signing (api_sig) verification
+ * - Mobile sessions authenticated with a per-user scrobbler password,
+ *   stored on an 'audioscrobbler' account
+ * - Persisting scrobbles and "now playing" notifications
+ *
+ * Submitted metadata is stored as-is (MBIDs are trusted); missing data is
+ * filled in later by the MusicBrainz enrichment worker.
+ *
+ * @module audioscrobbler
+ * @see https://www.last.fm/api/scrobbling
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+import { eq, or, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { accounts, scrobbler_sessions, users } from '@playbacc/types/db/schema'
+import {
+	persistScrobbleFromMetadata,
+	submittedTrackToMetadata,
+	SCROBBLE_CONFIG,
+	type SubmittedTrack,
+} from './scrobbles'
+import {
+	finishSubmittedNowPlaying,
+	updateSubmittedNowPlaying,
+} from './playback'
+import type { User } from '../types'
+
+/**
+ * Configuration for the Audioscrobbler-compatible API
+ */
+export const AUDIOSCROBBLER_CONFIG = {
+	/** API key clients must send (any key is accepted if empty) */
+	apiKey: process.env.AUDIOSCROBBLER_API_KEY || '',
+	/** Shared secret used to verify api_sig (signatures are not checked if empty) */
+	sharedSecret: process.env.AUDIOSCROBBLER_SHARED_SECRET || '',
+	/** Maximum number of scrobbles in a single track.scrobble call (matches Last.fm) */
+	maxScrobblesPerRequest: 50,
+	/** Earliest accepted scrobble timestamp (2002-10-01) */
+	minTimestamp: 1033430400,
+	/** How far in the future a timestamp may be to allow for clock drift (ms) */
+	maxClockDriftMs: 10 * 60 * 1000,
+}
+
+/**
+ * Error codes of the Last.fm API used by this implementation
+ */
+export const AUDIOSCROBBLER_ERROR = {
+	INVALID_METHOD: 3,
+	AUTHENTICATION_FAILED: 4,
+	INVALID_PARAMETERS: 6,
+	OPERATION_FAILED: 8,
+	INVALID_SESSION_KEY: 9,
+	INVALID_API_KEY: 10,
+	INVALID_SIGNATURE: 13,
+	SERVICE_UNAVAILABLE: 16,
+} as const
+
+/**
+ * Reasons a scrobble was ignored (0 = accepted), as reported in ignoredMessage
+ */
+export const IGNORED_SCROBBLE_CODE = {
+	NONE: 0,
+	TRACK_IGNORED: 2,
+	TIMESTAMP_TOO_OLD: 3,
+	TIMESTAMP_TOO_NEW: 4,
+} as const
+
+/** Matches MusicBrainz identifiers (UUIDs) */
+const MBID_REGEX =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Parameters that are not part of the request signature */
+const UNSIGNED_PARAMS = new Set(['format', 'callback', 'api_sig'])
+
+/**
+ * A single scrobble parsed from track.scrobble parameters
+ */
+export interface ScrobbleSubmission {
+	track: SubmittedTrack
+	/** Unix timestamp (seconds) when the track started playing */
+	timestamp: number
+	/** Album artist as sent by the client (echoed back, not stored) */
+	albumArtist: string | null
+}
+
+/**
+ * Outcome of a single submitted scrobble
+ */
+export interface ScrobbleSubmissionResult extends ScrobbleSubmission {
+	/** One of IGNORED_SCROBBLE_CODE; NONE if the scrobble was accepted */
+	ignoredCode: number
+}
+
+/**
+ * Compares two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+	const bufferA = Buffer.from(a)
+	const bufferB = Buffer.from(b)
+	return (
+		bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+	)
+}
+
+/**
+ * Returns the md5 hex digest of a string
+ */
+function md5(value: string): string {
+	return createHash('md5').update(value, 'utf8').digest('hex')
+}
+
+/**
+ * Computes the Last.fm method signature: all parameters except format and
+ * callback, sorted by name, concatenated as <name><value>, followed by the
+ * shared secret and md5-hashed.
+ *
+ * @param params - Request parameters
+ * @param secret - Shared secret
+ * @returns Hex-encoded signature
+ */
+export function computeApiSignature(
+	params: Record<string, string>,
+	secret: string
+): string {
+	const payload = Object.keys(params)
+		.filter((name) => !UNSIGNED_PARAMS.has(name))
+		.sort()
+		.map((name) => `${name}${params[name]}`)
+		.join('')
+
+	return md5(payload + secret)
+}
+
+/**
+ * Checks the api_key parameter against the configured API key
+ */
+export function isValidApiKey(apiKey: string | undefined): boolean {
+	if (!AUDIOSCROBBLER_CONFIG.apiKey) {
+		return true
+	}
+	return (
+		apiKey !== undefined && safeEqual(apiKey, AUDIOSCROBBLER_CONFIG.apiKey)
+	)
+}
+
+/**
+ * Checks the api_sig parameter of a request
+ */
+export function isValidApiSignature(params: Record<string, string>): boolean {
+	if (!AUDIOSCROBBLER_CONFIG.sharedSecret) {
+		return true
+	}
+
+	const signature = params['api_sig']
+	if (!signature) {
+		return false
+	}
+
+	const expected = computeApiSignature(
+		params,
+		AUDIOSCROBBLER_CONFIG.sharedSecret
+	)
+	return safeEqual(signature.toLowerCase(), expected)
+}
+
+/**
+ * Builds the external ID of a user's Audioscrobbler account
+ */
+function audioscrobblerExternalId(userId: string): string {
+	return `audioscrobbler:${userId}`
+}
+
+/**
+ * Gets the scrobbler password of a user, creating one on first use.
+ * Clients use it together with the Playbacc username in auth.getMobileSession.
+ *
+ * @param userId - User database ID
+ * @returns The user's scrobbler password
+ */
+export async function getOrCreateScrobblerPassword(
+	userId: string
+): Promise<string> {
+	const existing = await db.query.accounts.findFirst({
+		where: (a, { eq, and }) =>
+			and(eq(a.user_id, userId), eq(a.provider, 'audioscrobbler')),
+	})
+
+	if (existing?.access_token) {
+		return existing.access_token
+	}
+
+	return regenerateScrobblerPassword(userId)
+}
+
+/**
+ * Generates a new scrobbler password for a user.
+ * Existing client sessions are revoked.
+ *
+ * @param userId - User database ID
+ * @returns The new scrobbler password
+ */
+export async function regenerateScrobblerPassword(
+	userId: string
+): Promise<string> {
+	const password = randomBytes(16).toString('hex')
+
+	await db.transaction(async (tx) => {
+		await tx
+			.insert(accounts)
+			.values({
+				user_id: userId,
+				provider: 'audioscrobbler',
+				external_id: audioscrobblerExternalId(userId),
+				access_token: password,
+			})
+			.onConflictDoUpdate({
+				target: accounts.external_id,
+				set: { access_token: password },
+			})
+
+		await tx
+			.delete(scrobbler_sessions)
+			.where(eq(scrobbler_sessions.user_id, userId))
+	})
+
+	return password
+}
+
+/**
+ * Handles auth.getMobileSession: checks the credentials and issues a session key.
+ *
+ * Clients send either the password itself or an authToken of
+ * md5(username + md5(password)).
+ *
+ * @param username - Playbacc username or email
+ * @param credentials - Password or authToken sent by the client
+ * @param apiKey - API key of the client
+ * @returns The session name and key, or null if authentication failed
+ */
+export async function createMobileSession(
+	username: string,
+	credentials: { password?: string; authToken?: string },
+	apiKey: string | undefined
+): Promise<{ name: string; key: string } | null> {
+	const normalized = username.trim().toLowerCase()
+
+	const [user] = await db
+		.select()
+		.from(users)
+		.where(
+			or(
+				sql`lower(${users.username}) = ${normalized}`,
+				sql`lower(${users.email}) = ${normalized}`
+			)
+		)
+		.limit(1)
+
+	if (!user) {
+		return null
+	}
+
+	const account = await db.query.accounts.findFirst({
+		where: (a, { eq, and }) =>
+			and(eq(a.user_id, user.id), eq(a.provider, 'audioscrobbler')),
+	})
+
+	const password = account?.access_token
+	if (!password) {
+		return null
+	}
+
+	const isAuthenticated = credentials.password
+		? safeEqual(credentials.password, password)
+		: credentials.authToken
+			? safeEqual(
+					credentials.authToken.toLowerCase(),
+					md5(username + md5(password))
+				)
+			: false
+
+	if (!isAuthenticated) {
+		return null
+	}
+
+	const key = randomBytes(16).toString('hex')
+
+	await db.insert(scrobbler_sessions).values({
+		user_id: user.id,
+		session_key: key,
+		api_key: apiKey ?? null,
+	})
+
+	return { name: user.username ?? user.email, key }
+}
+
+/**
+ * Finds the user a session key belongs to and records its use
+ *
+ * @param sessionKey - Session key sent as "sk"
+ * @returns The user, or null if the session key is unknown
+ */
+export async function findUserBySessionKey(
+	sessionKey: string
+): Promise<User | null> {
+	const [session] = await db
+		.update(scrobbler_sessions)
+		.set({ last_used_at: new Date() })
+		.where(eq(scrobbler_sessions.session_key, sessionKey))
+		.returning({ user_id: scrobbler_sessions.user_id })
+
+	if (!session) {
+		return null
+	}
+
+	const user = await db.query.users.findFirst({
+		where: (u, { eq }) => eq(u.id, session.user_id),
+	})
+
+	return user ?? null
+}
+
+/**
+ * Returns a valid MBID or null
+ */
+function validMbid(value: string | undefined): string | null {
+	return value && MBID_REGEX.test(value) ? value.toLowerCase() : null
+}
+
+/**
+ * Parses a duration in seconds into milliseconds
+ */
+function parseDurationMs(value: string | undefined): number | null {
+	const seconds = value ? parseInt(value, 10) : NaN
+	return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null
+}
+
+/**
+ * Reads track parameters (artist, track, album, mbid, duration) into
+ * submitted track information.
+ *
+ * @param params - Request parameters
+ * @param suffix - Array index suffix (e.g. "[0]") for batched scrobbles
+ * @returns The track, or null if artist or track is missing
+ */
+export function paramsToSubmittedTrack(
+	params: Record<string, string>,
+	suffix = ''
+): SubmittedTrack | null {
+	const title = params[`track${suffix}`]?.trim()
+	const artist = params[`artist${suffix}`]?.trim()
+
+	if (!title || !artist) {
+		return null
+	}
+
+	return {
+		title,
+		artist,
+		album: params[`album${suffix}`]?.trim() || null,
+		durationMs: parseDurationMs(params[`duration${suffix}`]),
+		mbid: validMbid(params[`mbid${suffix}`]),
+		artistMbid: null,
+		albumMbid: null,
+		isrc: null,
+	}
+}
+
+/**
+ * Parses the scrobbles of a track.scrobble call.
+ * Supports both the array notation (artist[0], track[0], timestamp[0], ...)
+ * and plain parameters for a single scrobble.
+ *
+ * @param params - Request parameters
+ * @returns The scrobbles, or null if any of them is incomplete
+ */
+export function parseScrobbleParams(
+	params: Record<string, string>
+): ScrobbleSubmission[] | null {
+	const suffixes =
+		params['artist[0]'] !== undefined || params['track[0]'] !== undefined
+			? Array.from(
+					{ length: AUDIOSCROBBLER_CONFIG.maxScrobblesPerRequest },
+					(_, i) => `[${i}]`
+				).filter(
+					(suffix) =>
+						params[`artist${suffix}`] !== undefined ||
+						params[`track${suffix}`] !== undefined
+				)
+			: ['']
+
+	const submissions: ScrobbleSubmission[] = []
+
+	for (const suffix of suffixes) {
+		const track = paramsToSubmittedTrack(params, suffix)
+		const timestamp = parseInt(params[`timestamp${suffix}`] ?? '', 10)
+
+		if (!track || !Number.isFinite(timestamp)) {
+			return null
+		}
+
+		submissions.push({
+			track,
+			timestamp,
+			albumArtist: params[`albumArtist${suffix}`]?.trim() || null,
+		})
+	}
+
+	return submissions
+}
+
+/**
+ * Records a track.updateNowPlaying call as the user's playback session
+ *
+ * @param userId - User database ID
+ * @param track - Track that started playing
+ */
+export async function updateNowPlaying(
+	userId: string,
+	track: SubmittedTrack
+): Promise<void> {
+	await updateSubmittedNowPlaying(userId, 'audioscrobbler', track)
+}
+
+/**
+ * Estimates how long a scrobbled track of unknown duration was played.
+ *
+ * Clients don't report play time, only when the track started, so the time
+ * until the next scrobble in the batch (or until now for the last one) is an
+ * upper bound.
+ */
+function estimatePlayedMs(
+	submission: ScrobbleSubmission,
+	endedBy: number
+): number {
+	return Math.max(0, (endedBy - submission.timestamp) * 1000)
+}
+
+/**
+ * Processes the scrobbles of a track.scrobble call for a user.
+ * Plays that don't meet the scrobble threshold or have an out-of-range
+ * timestamp are ignored; duplicates count as accepted so retries succeed.
+ *
+ * @param userId - User database ID
+ * @param submissions - Parsed scrobbles
+ * @returns The outcome of each scrobble, in submission order
+ * @throws If a scrobble couldn't be stored, so the client retries the batch
+ */
+export async function submitScrobbles(
+	userId: string,
+	submissions: ScrobbleSubmission[]
+): Promise<ScrobbleSubmissionResult[]> {
+	const nowSeconds = Math.floor(Date.now() / 1000)
+	const maxTimestamp =
+		nowSeconds + AUDIOSCROBBLER_CONFIG.maxClockDriftMs / 1000
+	const startTimes = submissions
+		.map((submission) => submission.timestamp)
+		.sort((a, b) => a - b)
+
+	const results: ScrobbleSubmissionResult[] = []
+
+	for (const submission of submissions) {
+		if (submission.timestamp < AUDIOSCROBBLER_CONFIG.minTimestamp) {
+			results.push({
+				...submission,
+				ignoredCode: IGNORED_SCROBBLE_CODE.TIMESTAMP_TOO_OLD,
+			})
+			continue
+		}
+
+		if (submission.timestamp > maxTimestamp) {
+			results.push({
+				...submission,
+				ignoredCode: IGNORED_SCROBBLE_CODE.TIMESTAMP_TOO_NEW,
+			})
+			continue
+		}
+
+		const nextStart = startTimes.find((time) => time > submission.timestamp)
+		const durationMs = submission.track.durationMs
+
+		// Clients only scrobble plays that met the threshold against the
+		// duration they report, so only plays of unknown duration are checked
+		if (
+			durationMs === null &&
+			estimatePlayedMs(submission, nextStart ?? nowSeconds) <
+				SCROBBLE_CONFIG.minPlaySeconds * 1000
+		) {
+			results.push({
+				...submission,
+				ignoredCode: IGNORED_SCROBBLE_CODE.TRACK_IGNORED,
+			})
+			continue
+		}
+
+		await persistScrobbleFromMetadata(
+			userId,
+			new Date(submission.timestamp * 1000),
+			// Without a reported duration the stored track duration is used
+			durationMs,
+			submittedTrackToMetadata(submission.track),
+			false,
+			null,
+			// timestamp is when the play started; only the last play of the
+			// batch can still have been playing until now
+			{
+				provider: 'audioscrobbler',
+				playedAtIsStart: true,
+				live: nextStart === undefined,
+			}
+		)
+
+		results.push({ ...submission, ignoredCode: IGNORED_SCROBBLE_CODE.NONE })
+	}
+
+	const latest = submissions.reduce((a, b) =>
+		b.timestamp > a.timestamp ? b : a
+	)
+	await finishSubmittedNowPlaying(userId, 'audioscrobbler', latest.track)
+
+	return results
+}
@@ -0,0 +1,488 @@
+/**
+ * Follows
+ *
+ * Users follow each other to see what they listen to:
+ * - Following a profile that is public and shares both now playing and
+ *   recent scrobbles is accepted right away, since the feed shows nothing
+ *   the profile doesn't already show
+ * - Any other follow is a request the followee accepts or declines
+ * - The feed merges the recent scrobbles and now playing of accepted
+ *   followees
+ * - Compatibility compares two users' artists, weighted by listening time
+ *
+ * @module follows
+ */
+
+import { and, eq, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { follows } from '@playbacc/types/db/schema'
+import { findUserByUsername } from './profiles'
+import { scrobbleRangeSql, type StatsRange } from './stats'
+import { artistNameSql, localizeTrackArtists } from './artist-aliases'
+import {
+	toPlaybackEventTrack,
+	type PlaybackEventTrack,
+} from './playback-events'
+import type { SpotifyTrackInput } from './scrobbles'
+import type { User } from '../types'
+
+/**
+ * Feed configuration
+ */
+export const FEED_CONFIG = {
+	/** Sessions not seen by the scrobble worker for this long aren't shown as now playing (ms) */
+	nowPlayingWindowMs: 2 * 60 * 1000,
+	/** Shared artists listed with a compatibility score */
+	sharedArtistsLimit: 10,
+}
+
+export type FollowStatus = 'pending' | 'accepted'
+
+/**
+ * Another user as shown in follow lists and the feed
+ */
+export interface FollowUser {
+	id: string
+	username: string | null
+	image_url: string | null
+}
+
+/**
+ * A follow relation from the point of view of one of its users
+ */
+export interface FollowListItem {
+	user: FollowUser
+	status: FollowStatus
+	created_at: string
+	accepted_at: string | null
+}
+
+/**
+ * Result of following a user
+ */
+export type FollowResult =
+	| { ok: true; status: FollowStatus; created: boolean }
+	| { ok: false; reason: 'not_found' | 'self' }
+
+/**
+ * A play of a followee in the feed
+ */
+export interface FeedScrobble {
+	id: string
+	played_at: string
+	user: FollowUser
+	track: {
+		id: string
+		name: string
+		album: { id: string | null; name: string; image_url: string | null }
+		artists: Array<{ id: string; name: string }>
+	}
+}
+
+/**
+ * What a followee is playing right now
+ */
+export interface FeedNowPlaying {
+	user: FollowUser
+	progress_ms: number
+	track: PlaybackEventTrack | null
+	last_seen_at: string
+}
+
+/**
+ * How similar two users' listening is
+ */
+export interface Compatibility {
+	/** Overlap of the listening time shares per artist (0-100) */
+	score: number
+	/** Artists both users listen to, biggest overlap first */
+	shared_artists: Array<{
+		id: string
+		name: string
+		image_url: string | null
+	}>
+}
+
+/**
+ * Follows a user, or requests to if the profile doesn't share the feed
+ * sections publicly. Following again keeps the existing relation.
+ *
+ * @param followerId - User who follows
+ * @param username - Username of the user to follow
+ */
+export async function followUser(
+	followerId: string,
+	username: string
+): Promise<FollowResult> {
+	const followee = await findUserByUsername(username)
+
+	if (!followee) {
+		return { ok: false, reason: 'not_found' }
+	}
+
+	if (followee.id === followerId) {
+		return { ok: false, reason: 'self' }
+	}
+
+	const autoAccept = sharesFeedPublicly(followee)
+	const now = new Date()
+
+	const [created] = await db
+		.insert(follows)
+		.values({
+			follower_id: followerId,
+			followee_id: followee.id,
+			status: autoAccept ? 'accepted' : 'pending',
+			accepted_at: autoAccept ? now : null,
+		})
+		.onConflictDoNothing()
+		.returning()
+
+	if (created) {
+		return { ok: true, status: created.status, created: true }
+	}
+
+	const existing = await db.query.follows.findFirst({
+		where: and(
+			eq(follows.follower_id, followerId),
+			eq(follows.followee_id, followee.id)
+		),
+	})
+
+	return { ok: true, status: existing?.status ?? 'pending', created: false }
+}
+
+/**
+ * Checks whether a public profile already shows everything the feed would
+ */
+function sharesFeedPublicly(user: User): boolean {
+	return (
+		user.profile_public &&
+		user.profile_now_playing &&
+		user.profile_recent_scrobbles
+	)
+}
+
+/**
+ * Ends a follow (or withdraws a request)
+ *
+ * @param followerId - User who follows
+ * @param followeeId - User who is followed
+ * @returns Whether there was a follow to end
+ */
+export async function deleteFollow(
+	followerId: string,
+	followeeId: string
+): Promise<boolean> {
+	const deleted = await db
+		.delete(follows)
+		.where(
+			and(
+				eq(follows.follower_id, followerId),
+				eq(follows.followee_id, followeeId)
+			)
+		)
+		.returning()
+
+	return deleted.length > 0
+}
+
+/**
+ * Accepts a pending follow request
+ *
+ * @param followeeId - User who was asked
+ * @param followerId - User who asked
+ * @returns Whether there was a pending request to accept
+ */
+export async function acceptFollowRequest(
+	followeeId: string,
+	followerId: string
+): Promise<boolean> {
+	const accepted = await db
+		.update(follows)
+		.set({ status: 'accepted', accepted_at: new Date() })
+		.where(
+			and(
+				eq(follows.follower_id, followerId),
+				eq(follows.followee_id, followeeId),
+				eq(follows.status, 'pending')
+			)
+		)
+		.returning()
+
+	return accepted.length > 0
+}
+
+/**
+ * Checks whether a user follows another (accepted follows only)
+ */
+export async function isFollowing(
+	followerId: string,
+	followeeId: string
+): Promise<boolean> {
+	const follow = await db.query.follows.findFirst({
+		where: and(
+			eq(follows.follower_id, followerId),
+			eq(follows.followee_id, followeeId),
+			eq(follows.status, 'accepted')
+		),
+	})
+
+	return follow !== undefined
+}
+
+/**
+ * Lists follow relations of a user
+ *
+ * @param userId - User whose relations to list
+ * @param direction - "following" for users they follow, "followers" for users following them
+ * @param status - Only list relations with this status
+ */
+export async function listFollows(
+	userId: string,
+	direction: 'following' | 'followers',
+	status?: FollowStatus
+): Promise<FollowListItem[]> {
+	const [ownColumn, otherColumn] =
+		direction === 'following'
+			? [sql.raw('f.follower_id'), sql.raw('f.followee_id')]
+			: [sql.raw('f.followee_id'), sql.raw('f.follower_id')]
+
+	const rows = await db.execute<{
+		id: string
+		username: string | null
+		image_url: string | null
+		status: FollowStatus
+		created_at: Date | string
+		accepted_at: Date | string | null
+	}>(sql`
+		SELECT
+			u.id,
+			u.username,
+			u.image_url,
+			f.status,
+			f.created_at,
+			f.accepted_at
+		FROM follows f
+		JOIN users u ON u.id = ${otherColumn}
+		WHERE ${ownColumn} = ${userId}
+			${status ? sql`AND f.status = ${status}` : sql``}
+		ORDER BY f.created_at DESC
+	`)
+
+	return rows.map((row) => ({
+		user: { id: row.id, username: row.username, image_url: row.image_url },
+		status: row.status,
+		created_at: new Date(row.created_at).toISOString(),
+		accepted_at: row.accepted_at
+			? new Date(row.accepted_at).toISOString()
+			: null,
+	}))
+}
+
+/**
+ * Gets the recent plays of the users someone follows, newest first
+ *
+ * @param userId - User whose feed to build
+ * @param limit - Number of plays to return
+ * @param before - Only plays before this time (for paging)
+ * @param locale - Display locale for artist names (null for stored names)
+ */
+export async function getFeedScrobbles(
+	userId: string,
+	limit: number,
+	before: Date | null,
+	locale: string | null = null
+): Promise<FeedScrobble[]> {
+	const rows = await db.execute<{
+		id: string
+		played_at: Date | string
+		user_id: string
+		username: string | null
+		user_image_url: string | null
+		track_id: string
+		track_title: string
+		album_id: string | null
+		album_title: string | null
+		album_image_url: string | null
+		artists: Array<{ id: string; name: string }> | null
+	}>(sql`
+		SELECT
+			s.id,
+			s.played_at,
+			u.id as user_id,
+			u.username,
+			u.image_url as user_image_url,
+			t.id as track_id,
+			t.title as track_title,
+			al.id as album_id,
+			al.title as album_title,
+			al.image_url as album_image_url,
+			(
+				SELECT json_agg(json_build_object('id', a.id, 'name', ${artistNameSql('a', locale)}) ORDER BY ta.order)
+				FROM track_artists ta
+				JOIN artists a ON a.id = ta.artist_id
+				WHERE ta.track_id = t.id
+			) as artists
+		FROM follows f
+		JOIN scrobbles s ON s.user_id = f.followee_id
+		JOIN users u ON u.id = s.user_id
+		JOIN tracks t ON t.id = s.track_id
+		LEFT JOIN albums al ON al.id = s.album_id
+		WHERE f.follower_id = ${userId}
+			AND f.status = 'accepted'
+			${before ? sql`AND s.played_at < ${before.toISOString()}` : sql``}
+		ORDER BY s.played_at DESC
+		LIMIT ${limit}
+	`)
+
+	return rows.map((row) => ({
+		id: row.id,
+		played_at: new Date(row.played_at).toISOString(),
+		user: {
+			id: row.user_id,
+			username: row.username,
+			image_url: row.user_image_url,
+		},
+		track: {
+			id: row.track_id,
+			name: row.track_title,
+			album: {
+				id: row.album_id,
+				name: row.album_title ?? '',
+				image_url: row.album_image_url,
+			},
+			artists: row.artists ?? [],
+		},
+	}))
+}
+
+/**
+ * Gets what the users someone follows are playing right now.
+ * Each followee's most recently seen playing session is used.
+ *
+ * @param userId - User whose feed to build
+ * @param locale - Display locale for artist names (null for reported names)
+ */
+export async function getFeedNowPlaying(
+	userId: string,
+	locale: string | null = null
+): Promise<FeedNowPlaying[]> {
+	const seenAfter = new Date(Date.now() - FEED_CONFIG.nowPlayingWindowMs)
+
+	const rows = await db.execute<{
+		user_id: string
+		username: string | null
+		image_url: string | null
+		last_progress_ms: number
+		last_seen_at: Date | string
+		track_metadata: SpotifyTrackInput | null
+	}>(sql`
+		SELECT DISTINCT ON (ps.user_id)
+			ps.user_id,
+			u.username,
+			u.image_url,
+			ps.last_progress_ms,
+			ps.last_seen_at,
+			ps.track_metadata
+		FROM follows f
+		JOIN playback_sessions ps ON ps.user_id = f.followee_id
+		JOIN users u ON u.id = ps.user_id
+		WHERE f.follower_id = ${userId}
+			AND f.status = 'accepted'
+			AND ps.is_playing = true
+			AND ps.last_seen_at >= ${seenAfter.toISOString()}
+		ORDER BY ps.user_id, ps.last_seen_at DESC
+	`)
+
+	const items = await Promise.all(
+		rows.map(async (row) => ({
+			user: {
+				id: row.user_id,
+				username: row.username,
+				image_url: row.image_url,
+			},
+			progress_ms: row.last_progress_ms,
+			track: row.track_metadata
+				? await localizeTrackArtists(
+						toPlaybackEventTrack(row.track_metadata),
+						locale
+					)
+				: null,
+			last_seen_at: new Date(row.last_seen_at).toISOString(),
+		}))
+	)
+
+	return items.sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at))
+}
+
+/**
+ * Scores how similar two users' listening is.
+ * Each user's listening time is split into shares per primary artist; the
+ * score is the sum over shared artists of the smaller of the two shares,
+ * so 100 means both spend their time on the same artists in the same
+ * proportions and 0 means no artist in common.
+ *
+ * @param userId - First user
+ * @param otherUserId - Second user
+ * @param range - Plays to compare (account filter is ignored)
+ * @param locale - Display locale for artist names (null for stored names)
+ */
+export async function getCompatibility(
+	userId: string,
+	otherUserId: string,
+	range: StatsRange,
+	locale: string | null = null
+): Promise<Compatibility> {
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		overlap: number
+		total_overlap: number
+	}>(sql`
+		WITH artist_time AS (
+			SELECT s.user_id, ta.artist_id, SUM(s.played_duration_ms)::float8 as ms
+			FROM scrobbles s
+			JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+			WHERE s.user_id IN (${userId}, ${otherUserId})
+				${scrobbleRangeSql({ from: range.from, to: range.to })}
+			GROUP BY s.user_id, ta.artist_id
+		),
+		artist_share AS (
+			SELECT
+				user_id,
+				artist_id,
+				ms / NULLIF(SUM(ms) OVER (PARTITION BY user_id), 0) as share
+			FROM artist_time
+		)
+		SELECT
+			a.id,
+			${artistNameSql('a', locale)} as name,
+			a.image_url,
+			LEAST(mine.share, theirs.share) as overlap,
+			SUM(LEAST(mine.share, theirs.share)) OVER () as total_overlap
+		FROM artist_share mine
+		JOIN artist_share theirs
+			ON theirs.artist_id = mine.artist_id
+			AND theirs.user_id = ${otherUserId}
+		JOIN artists a ON a.id = mine.artist_id
+		WHERE mine.user_id = ${userId}
+			AND mine.share IS NOT NULL
+			AND theirs.share IS NOT NULL
+		ORDER BY overlap DESC, name
+		LIMIT ${FEED_CONFIG.sharedArtistsLimit}
+	`)
+
+	return {
+		score:
+			rows.length > 0
+				? Math.round(Number(rows[0].total_overlap) * 100)
+				: 0,
+		shared_artists: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			image_url: row.image_url,
+		})),
+	}
+}
@@ -0,0 +1,1085 @@
+/**
+ * Import Service
+ *
+ * Handles file-based listening history imports:
+ * - Storing uploaded export files and creating import records
+ * - Claiming pending imports for the import worker
+ * - Parsing Spotify Extended Streaming History and Last.fm exports
+ * - Resolving and persisting each play, tracking progress on the import record
+ *
+ * @module imports
+ */
+
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { db } from '../db'
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm'
+import { accounts, imports, scrobbles, tracks } from '@playbacc/types/db/schema'
+import type { SpotifyStreamingHistoryEntry } from '@playbacc/types/api/spotify'
+import type { LastfmRecentTrack } from '@playbacc/types/api/lastfm'
+import {
+	getTracks,
+	getValidAccessToken,
+	type SpotifyAccount,
+	type SpotifyTrack,
+} from './spotify'
+import { MusicBrainzCache } from './musicbrainz'
+import {
+	SCROBBLE_CONFIG,
+	meetsScrobbleThreshold,
+	persistScrobbleFromMetadata,
+	resolveTrackMetadataFromSpotify,
+	submittedTrackToMetadata,
+	type ResolvedTrackMetadata,
+	type SpotifyTrackInput,
+	type SubmittedTrack,
+} from './scrobbles'
+import { extractTrackIdFromUri } from './playback'
+import { resolveScrobbleGapsCoveredBy } from './scrobble-gaps'
+
+/**
+ * Configuration for the import service
+ */
+export const IMPORT_CONFIG = {
+	/** Directory where uploaded export files are stored */
+	uploadDir: process.env.IMPORT_UPLOAD_DIR || './uploads',
+	/** Maximum accepted upload size in bytes */
+	maxFileSizeBytes:
+		parseInt(process.env.IMPORT_MAX_FILE_SIZE_MB || '50', 10) * 1024 * 1024,
+	/** Bytes read from the start of an upload to detect its format */
+	formatSniffBytes: 64 * 1024,
+	/** Rows processed between progress updates (also the Spotify lookup batch size) */
+	batchSize: 50,
+	/** Maximum number of row errors kept on the import record */
+	maxRecordedErrors: 100,
+}
+
+/**
+ * Type representing a row from the imports table
+ */
+export type Import = typeof imports.$inferSelect
+
+/** Supported export file formats */
+export type ImportFormat = 'spotify_extended_history' | 'lastfm'
+
+/**
+ * Scrobble from a Last.fm export, normalized across the CSV and JSON formats
+ */
+interface LastfmScrobble {
+	/** Unix timestamp in seconds of when the track was scrobbled */
+	uts: number
+	artist: string
+	artistMbid: string | null
+	album: string | null
+	albumMbid: string | null
+	track: string
+	trackMbid: string | null
+}
+
+/**
+ * Parsed export file. Rows that could not be parsed are kept as null
+ * so they can be reported with their original index.
+ */
+type ParsedImportFile =
+	| {
+			format: 'spotify_extended_history'
+			entries: SpotifyStreamingHistoryEntry[]
+	  }
+	| { format: 'lastfm'; scrobbles: Array<LastfmScrobble | null> }
+
+/**
+ * Error for a single row that could not be imported
+ */
+export interface ImportRowError {
+	/** Index of the row in the export file */
+	index: number
+	/** Timestamp of the play as found in the file */
+	timestamp: string | null
+	/** Error description */
+	error: string
+}
+
+/**
+ * Running counters for an import, persisted to the import record
+ */
+interface ImportProgress {
+	total: number
+	imported: number
+	failed: number
+	skipped: number
+	errors: ImportRowError[]
+}
+
+/**
+ * Outcome of processing an import
+ * - completed: all rows were processed
+ * - interrupted: processing stopped early (worker shutdown) and can be resumed
+ */
+export type ImportResult = 'completed' | 'interrupted'
+
+/**
+ * Checks whether a parsed JSON value looks like a Spotify Extended Streaming History file
+ */
+function isSpotifyStreamingHistory(
+	data: unknown
+): data is SpotifyStreamingHistoryEntry[] {
+	if (!Array.isArray(data) || data.length === 0) {
+		return false
+	}
+
+	const first = data[0] as Record<string, unknown> | null
+	return (
+		typeof first === 'object' &&
+		first !== null &&
+		typeof first.ts === 'string' &&
+		typeof first.ms_played === 'number' &&
+		'spotify_track_uri' in first
+	)
+}
+
+/**
+ * Checks whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Returns a trimmed string value, or null if missing or empty
+ */
+function textOrNull(value: unknown): string | null {
+	if (typeof value !== 'string' && typeof value !== 'number') {
+		return null
+	}
+	const text = String(value).trim()
+	return text.length > 0 ? text : null
+}
+
+/**
+ * Builds a normalized Last.fm scrobble from raw field values
+ *
+ * @returns The scrobble, or null if artist, track or timestamp are missing
+ */
+function toLastfmScrobble(raw: {
+	uts: unknown
+	artist: unknown
+	artistMbid: unknown
+	album: unknown
+	albumMbid: unknown
+	track: unknown
+	trackMbid: unknown
+}): LastfmScrobble | null {
+	const uts = Number(textOrNull(raw.uts))
+	const artist = textOrNull(raw.artist)
+	const track = textOrNull(raw.track)
+
+	if (!artist || !track || !Number.isFinite(uts) || uts <= 0) {
+		return null
+	}
+
+	return {
+		uts,
+		artist,
+		artistMbid: textOrNull(raw.artistMbid),
+		album: textOrNull(raw.album),
+		albumMbid: textOrNull(raw.albumMbid),
+		track,
+		trackMbid: textOrNull(raw.trackMbid),
+	}
+}
+
+/**
+ * Parses CSV content into rows of fields (RFC 4180 quoting)
+ */
+function parseCsv(content: string): string[][] {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ''
+	let inQuotes = false
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i]
+
+		if (inQuotes) {
+			if (char === '"' && content[i + 1] === '"') {
+				field += '"'
+				i++
+			} else if (char === '"') {
+				inQuotes = false
+			} else {
+				field += char
+			}
+		} else if (char === '"') {
+			inQuotes = true
+		} else if (char === ',') {
+			row.push(field)
+			field = ''
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && content[i + 1] === '\n') {
+				i++
+			}
+			row.push(field)
+			rows.push(row)
+			row = []
+			field = ''
+		} else {
+			field += char
+		}
+	}
+
+	if (field !== '' || row.length > 0) {
+		row.push(field)
+		rows.push(row)
+	}
+
+	// Drop blank lines
+	return rows.filter((r) => r.length > 1 || r[0] !== '')
+}
+
+/**
+ * Finds the columns of a Last.fm CSV header row
+ *
+ * @returns Column indexes (-1 if absent), or null if the uts, artist or
+ *   track column is missing
+ */
+function getLastfmCsvColumns(header: string[]) {
+	const columns = header.map((name) => name.trim().toLowerCase())
+	const column = (...names: string[]) =>
+		columns.findIndex((name) => names.includes(name))
+
+	const uts = column('uts', 'timestamp')
+	const artist = column('artist', 'artist_name')
+	const track = column('track', 'track_name', 'title')
+	if (uts < 0 || artist < 0 || track < 0) {
+		return null
+	}
+
+	return {
+		uts,
+		artist,
+		track,
+		artistMbid: column('artist_mbid'),
+		album: column('album', 'album_name'),
+		albumMbid: column('album_mbid'),
+		trackMbid: column('track_mbid', 'mbid'),
+	}
+}
+
+/**
+ * Parses a Last.fm CSV export with a header row
+ * (e.g. uts,utc_time,artist,artist_mbid,album,album_mbid,track,track_mbid)
+ *
+ * @returns Parsed scrobbles, or null if the required columns are missing
+ */
+function parseLastfmCsv(content: string): Array<LastfmScrobble | null> | null {
+	const [header, ...rows] = parseCsv(content)
+	const columns = header ? getLastfmCsvColumns(header) : null
+	if (!columns) {
+		return null
+	}
+
+	return rows.map((cells) =>
+		toLastfmScrobble({
+			uts: cells[columns.uts],
+			artist: cells[columns.artist],
+			artistMbid: cells[columns.artistMbid],
+			album: cells[columns.album],
+			albumMbid: cells[columns.albumMbid],
+			track: cells[columns.track],
+			trackMbid: cells[columns.trackMbid],
+		})
+	)
+}
+
+/**
+ * Parses a Last.fm JSON export. Accepts user.getRecentTracks responses
+ * (single or an array of pages), arrays of their track objects, or arrays
+ * of flat objects using the CSV column names.
+ *
+ * @returns Parsed scrobbles, or null if the data is not a Last.fm export
+ */
+function parseLastfmJson(data: unknown): Array<LastfmScrobble | null> | null {
+	const tracksOf = (page: Record<string, unknown>): unknown[] | null => {
+		const recent = page.recenttracks
+		if (isRecord(recent) && Array.isArray(recent.track)) {
+			return recent.track
+		}
+		return Array.isArray(page.track) ? page.track : null
+	}
+
+	let items: unknown[]
+	if (isRecord(data)) {
+		const tracks = tracksOf(data)
+		if (!tracks) {
+			return null
+		}
+		items = tracks
+	} else if (Array.isArray(data)) {
+		items = data.flatMap(
+			(item) => (isRecord(item) && tracksOf(item)) || [item]
+		)
+	} else {
+		return null
+	}
+
+	if (items.length === 0 || !isRecord(items[0]) || !('artist' in items[0])) {
+		return null
+	}
+
+	return (
+		items
+			// The currently playing track has no timestamp and is not a scrobble
+			.filter(
+				(item) =>
+					!(
+						isRecord(item) &&
+						(item as Partial<LastfmRecentTrack>)['@attr']
+							?.nowplaying === 'true'
+					)
+			)
+			.map((item) => {
+				if (!isRecord(item)) {
+					return null
+				}
+
+				// API format: nested artist/album objects
+				if (isRecord(item.artist)) {
+					const track = item as unknown as LastfmRecentTrack
+					return toLastfmScrobble({
+						uts: track.date?.uts,
+						artist: track.artist['#text'] ?? track.artist.name,
+						artistMbid: track.artist.mbid,
+						album: track.album?.['#text'] ?? track.album?.name,
+						albumMbid: track.album?.mbid,
+						track: track.name,
+						trackMbid: track.mbid,
+					})
+				}
+
+				// Flat format: same fields as the CSV columns
+				return toLastfmScrobble({
+					uts: item.uts ?? item.timestamp,
+					artist: item.artist,
+					artistMbid: item.artist_mbid,
+					album: item.album,
+					albumMbid: item.album_mbid,
+					track: item.track ?? item.name,
+					trackMbid: item.track_mbid ?? item.mbid,
+				})
+			})
+	)
+}
+
+/**
+ * Parses an uploaded export file and detects its format.
+ *
+ * @param content - Raw file content
+ * @returns Parsed file, or null if the file is not a supported export
+ */
+function parseImportFile(content: string): ParsedImportFile | null {
+	// Strip a UTF-8 byte order mark, common in spreadsheet-exported CSVs
+	const text = content.replace(/^\uFEFF/, '')
+
+	let data: unknown
+	try {
+		data = JSON.parse(text)
+	} catch {
+		const scrobbles = parseLastfmCsv(text)
+		return scrobbles ? { format: 'lastfm', scrobbles } : null
+	}
+
+	if (isSpotifyStreamingHistory(data)) {
+		return { format: 'spotify_extended_history', entries: data }
+	}
+
+	const scrobbles = parseLastfmJson(data)
+	return scrobbles ? { format: 'lastfm', scrobbles } : null
+}
+
+/**
+ * Detects the format of an uploaded export file from its beginning, without
+ * parsing the whole file; the import worker parses it and fails the import
+ * if the rest is malformed.
+ *
+ * @param head - Start of the file (see IMPORT_CONFIG.formatSniffBytes)
+ * @returns Detected format, or null if the file is not a supported export
+ */
+export function detectImportFormat(head: string): ImportFormat | null {
+	const text = head.replace(/^\uFEFF/, '').trimStart()
+
+	// JSON: look for the keys parseImportFile checks the first entry for
+	if (text.startsWith('[') || text.startsWith('{')) {
+		if (
+			/"ms_played"\s*:/.test(text) &&
+			/"spotify_track_uri"\s*:/.test(text)
+		) {
+			return 'spotify_extended_history'
+		}
+		return /"(recenttracks|artist)"\s*:/.test(text) ? 'lastfm' : null
+	}
+
+	// CSV: only the header row is needed
+	const [header] = parseCsv(text.split(/\r?\n/, 1)[0])
+	return header && getLastfmCsvColumns(header) ? 'lastfm' : null
+}
+
+/**
+ * Stores an uploaded export file and creates a pending import record.
+ * Each user's files are deduplicated by their SHA-256 hash.
+ *
+ * @param userId - User database ID
+ * @param filename - Original filename of the upload
+ * @param content - Raw file content
+ * @returns The import record and whether it was newly created
+ */
+export async function createImport(
+	userId: string,
+	filename: string,
+	content: Buffer
+): Promise<{ created: boolean; record: Import }> {
+	const fileHash = createHash('sha256').update(content).digest('hex')
+
+	const existing = await db.query.imports.findFirst({
+		where: (i, { and, eq }) =>
+			and(eq(i.user_id, userId), eq(i.file_hash, fileHash)),
+	})
+	if (existing) {
+		return { created: false, record: existing }
+	}
+
+	// Store under the user's directory, named by hash to avoid collisions
+	const filePath = path.join(userId, `${fileHash}${path.extname(filename)}`)
+	await mkdir(path.join(IMPORT_CONFIG.uploadDir, userId), { recursive: true })
+	await writeFile(path.join(IMPORT_CONFIG.uploadDir, filePath), content)
+
+	const [record] = await db
+		.insert(imports)
+		.values({
+			user_id: userId,
+			filename,
+			file_hash: fileHash,
+			file_size: content.length,
+			file_path: filePath,
+			status: 'pending',
+		})
+		.onConflictDoNothing({ target: [imports.user_id, imports.file_hash] })
+		.returning()
+
+	if (!record) {
+		// Same file was uploaded concurrently
+		const concurrent = await db.query.imports.findFirst({
+			where: (i, { and, eq }) =>
+				and(eq(i.user_id, userId), eq(i.file_hash, fileHash)),
+		})
+		return { created: false, record: concurrent! }
+	}
+
+	return { created: true, record }
+}
+
+/**
+ * Gets all imports of a user, newest first
+ *
+ * @param userId - User database ID
+ */
+export async function getUserImports(userId: string): Promise<Import[]> {
+	return db
+		.select()
+		.from(imports)
+		.where(eq(imports.user_id, userId))
+		.orderBy(desc(imports.created_at))
+}
+
+/**
+ * Gets a single import of a user
+ *
+ * @param userId - User database ID
+ * @param importId - Import ID
+ * @returns The import, or null if it doesn't exist or belongs to another user
+ */
+export async function getUserImport(
+	userId: string,
+	importId: string
+): Promise<Import | null> {
+	const record = await db.query.imports.findFirst({
+		where: (i, { eq, and }) =>
+			and(eq(i.id, importId), eq(i.user_id, userId)),
+	})
+	return record ?? null
+}
+
+/**
+ * Claims the oldest pending import for processing.
+ * Uses "skip locked" semantics so concurrent workers never claim the same import.
+ * Counters are reset since a claimed import is always processed from the start.
+ *
+ * @returns The claimed import, or null if none are pending
+ */
+export async function claimNextImport(): Promise<Import | null> {
+	const [claimed] = await db
+		.update(imports)
+		.set({
+			status: 'processing',
+			started_at: new Date(),
+			completed_at: null,
+			imported_records: 0,
+			failed_records: 0,
+			skipped_records: 0,
+			error_message: null,
+		})
+		.where(
+			inArray(
+				imports.id,
+				db
+					.select({ id: imports.id })
+					.from(imports)
+					.where(eq(imports.status, 'pending'))
+					.orderBy(imports.created_at)
+					.limit(1)
+					.for('update', { skipLocked: true })
+			)
+		)
+		.returning()
+
+	return claimed ?? null
+}
+
+/**
+ * Returns imports left in processing state (e.g. after a worker crash) to the queue.
+ * Re-processing is safe because scrobble inserts are idempotent.
+ *
+ * @returns Number of imports requeued
+ */
+export async function requeueInterruptedImports(): Promise<number> {
+	const requeued = await db
+		.update(imports)
+		.set({ status: 'pending', started_at: null })
+		.where(eq(imports.status, 'processing'))
+		.returning({ id: imports.id })
+
+	return requeued.length
+}
+
+/**
+ * Returns a single import to the queue so it is picked up again later
+ *
+ * @param importId - Import ID
+ */
+export async function releaseImport(importId: string): Promise<void> {
+	await db
+		.update(imports)
+		.set({ status: 'pending', started_at: null })
+		.where(eq(imports.id, importId))
+}
+
+/**
+ * Marks an import as completed
+ *
+ * @param importId - Import ID
+ */
+export async function completeImport(importId: string): Promise<void> {
+	await db
+		.update(imports)
+		.set({ status: 'completed', completed_at: new Date() })
+		.where(eq(imports.id, importId))
+}
+
+/**
+ * Marks an import as failed, keeping any row errors recorded so far
+ *
+ * @param importId - Import ID
+ * @param message - Error message describing why the import failed
+ */
+export async function failImport(
+	importId: string,
+	message: string
+): Promise<void> {
+	const record = await db.query.imports.findFirst({
+		where: (i, { eq }) => eq(i.id, importId),
+	})
+	const previous = (record?.error_message ?? {}) as Record<string, unknown>
+
+	await db
+		.update(imports)
+		.set({
+			status: 'failed',
+			completed_at: new Date(),
+			error_message: { ...previous, message },
+		})
+		.where(eq(imports.id, importId))
+}
+
+/**
+ * Persists the running counters to the import record
+ */
+async function updateImportProgress(
+	importId: string,
+	progress: ImportProgress
+): Promise<void> {
+	await db
+		.update(imports)
+		.set({
+			total_records: progress.total,
+			imported_records: progress.imported,
+			failed_records: progress.failed,
+			skipped_records: progress.skipped,
+			error_message:
+				progress.errors.length > 0 ? { rows: progress.errors } : null,
+		})
+		.where(eq(imports.id, importId))
+}
+
+/**
+ * Records a failed row, keeping at most maxRecordedErrors entries
+ */
+function recordRowError(
+	progress: ImportProgress,
+	index: number,
+	timestamp: string | null,
+	error: unknown
+): void {
+	progress.failed++
+	if (progress.errors.length < IMPORT_CONFIG.maxRecordedErrors) {
+		progress.errors.push({
+			index,
+			timestamp,
+			error: error instanceof Error ? error.message : String(error),
+		})
+	}
+}
+
+/**
+ * Gets a valid Spotify access token for the importing user, if they have an account.
+ * Looked up per batch so long imports survive token expiry.
+ */
+async function getImportAccessToken(userId: string): Promise<string | null> {
+	const account = await db.query.accounts.findFirst({
+		where: (a, { eq, and }) =>
+			and(eq(a.user_id, userId), eq(a.provider, 'spotify')),
+	})
+
+	if (!account) {
+		return null
+	}
+
+	return getValidAccessToken(account as SpotifyAccount, async (data) => {
+		await db
+			.update(accounts)
+			.set({
+				access_token: data.access_token,
+				refresh_token: data.refresh_token,
+				expires_in: data.expires_in,
+			})
+			.where(eq(accounts.id, account.id))
+	})
+}
+
+/**
+ * Converts a Spotify catalog track to the minimal input shape used for resolution.
+ * Keeping only these fields bounds memory use across large imports.
+ */
+function toSpotifyTrackInput(track: SpotifyTrack): SpotifyTrackInput {
+	return {
+		id: track.id,
+		name: track.name,
+		duration_ms: track.duration_ms,
+		explicit: track.explicit,
+		artists: track.artists.map((a) => ({ id: a.id, name: a.name })),
+		album: {
+			id: track.album.id,
+			name: track.album.name,
+			images: track.album.images,
+			release_date: track.album.release_date,
+		},
+		external_ids: track.external_ids,
+	}
+}
+
+/**
+ * Loads catalog data (ISRC, duration, all artists) for tracks not seen yet.
+ * Failures are logged and the rows fall back to the metadata in the export file.
+ */
+async function loadCatalogTracks(
+	trackIds: string[],
+	catalog: Map<string, SpotifyTrackInput | null>,
+	accessToken: string | null
+): Promise<void> {
+	const missing = [...new Set(trackIds)].filter((id) => !catalog.has(id))
+	if (!accessToken || missing.length === 0) {
+		return
+	}
+
+	try {
+		const found = await getTracks(accessToken, missing)
+		missing.forEach((id, index) => {
+			const track = found[index]
+			catalog.set(id, track ? toSpotifyTrackInput(track) : null)
+		})
+	} catch (error) {
+		console.warn(
+			'[Import] Spotify track lookup failed, using export metadata:',
+			error
+		)
+	}
+}
+
+/**
+ * Builds a track input from the export row when no catalog data is available
+ */
+function entryToSpotifyTrackInput(
+	trackId: string,
+	entry: SpotifyStreamingHistoryEntry
+): SpotifyTrackInput {
+	const name = entry.master_metadata_track_name ?? 'Unknown Track'
+	return {
+		id: trackId,
+		name,
+		duration_ms: entry.ms_played,
+		explicit: false,
+		artists: [
+			{
+				name:
+					entry.master_metadata_album_artist_name ?? 'Unknown Artist',
+			},
+		],
+		album: { name: entry.master_metadata_album_album_name ?? name },
+	}
+}
+
+/**
+ * Imports all plays from a Spotify Extended Streaming History file.
+ *
+ * Rows are processed in batches: catalog data is fetched from Spotify per batch
+ * (for ISRCs and real durations), each play is checked against the scrobble
+ * threshold, then resolved and persisted. Podcast/audiobook rows are skipped.
+ */
+async function importSpotifyStreamingHistory(
+	record: Import,
+	entries: SpotifyStreamingHistoryEntry[],
+	mbCache: MusicBrainzCache,
+	shouldContinue: () => boolean
+): Promise<ImportResult> {
+	const progress: ImportProgress = {
+		total: entries.length,
+		imported: 0,
+		failed: 0,
+		skipped: 0,
+		errors: [],
+	}
+	await updateImportProgress(record.id, progress)
+
+	// Per-import caches: history files repeat the same tracks many times
+	const catalog = new Map<string, SpotifyTrackInput | null>()
+	// Null marks tracks ignored by the user's rewrite rules
+	const resolved = new Map<string, ResolvedTrackMetadata | null>()
+
+	for (
+		let start = 0;
+		start < entries.length;
+		start += IMPORT_CONFIG.batchSize
+	) {
+		if (!shouldContinue()) {
+			return 'interrupted'
+		}
+
+		const batch = entries.slice(start, start + IMPORT_CONFIG.batchSize)
+		const trackIds = batch.map((entry) =>
+			entry.spotify_track_uri
+				? extractTrackIdFromUri(entry.spotify_track_uri)
+				: null
+		)
+
+		const accessToken = await getImportAccessToken(record.user_id)
+		await loadCatalogTracks(
+			trackIds.filter((id): id is string => id !== null),
+			catalog,
+			accessToken
+		)
+
+		for (const [offset, entry] of batch.entries()) {
+			const index = start + offset
+			const trackId = trackIds[offset]
+
+			// Podcasts, audiobooks and local files have no track URI
+			if (!trackId || !entry.master_metadata_track_name) {
+				progress.skipped++
+				continue
+			}
+
+			const playedAt = new Date(entry.ts)
+			if (Number.isNaN(playedAt.getTime())) {
+				recordRowError(progress, index, entry.ts, 'Invalid timestamp')
+				continue
+			}
+
+			const catalogTrack = catalog.get(trackId) ?? null
+
+			// Without catalog data the duration is unknown, so only the
+			// minimum play time can be checked
+			const meetsThreshold = catalogTrack
+				? meetsScrobbleThreshold(
+						entry.ms_played,
+						catalogTrack.duration_ms
+					)
+				: entry.ms_played >= SCROBBLE_CONFIG.minPlaySeconds * 1000
+			if (!meetsThreshold) {
+				progress.skipped++
+				continue
+			}
+
+			try {
+				let metadata = resolved.get(trackId)
+				if (metadata === undefined) {
+					metadata = await resolveTrackMetadataFromSpotify(
+						catalogTrack ??
+							entryToSpotifyTrackInput(trackId, entry),
+						mbCache,
+						record.user_id
+					)
+					resolved.set(trackId, metadata)
+				}
+
+				if (!metadata) {
+					progress.skipped++
+					continue
+				}
+
+				// ts is when playback stopped, matching our played_at semantics
+				const inserted = await persistScrobbleFromMetadata(
+					record.user_id,
+					playedAt,
+					entry.ms_played,
+					metadata,
+					entry.skipped === true,
+					accessToken,
+					{ importId: record.id }
+				)
+
+				// Rows that fail to persist throw and are counted as failed below
+				if (inserted) {
+					progress.imported++
+				} else {
+					progress.skipped++
+				}
+			} catch (error) {
+				recordRowError(progress, index, entry.ts, error)
+			}
+		}
+
+		await updateImportProgress(record.id, progress)
+	}
+
+	console.log(
+		`[Import] Import ${record.id}: total=${progress.total}, imported=${progress.imported}, ` +
+			`skipped=${progress.skipped}, failed=${progress.failed}`
+	)
+
+	return 'completed'
+}
+
+/**
+ * Converts a Last.fm scrobble to submitted track information
+ */
+function lastfmScrobbleToSubmittedTrack(
+	scrobble: LastfmScrobble
+): SubmittedTrack {
+	return {
+		title: scrobble.track,
+		artist: scrobble.artist,
+		album: scrobble.album,
+		durationMs: null,
+		mbid: scrobble.trackMbid,
+		artistMbid: scrobble.artistMbid,
+		albumMbid: scrobble.albumMbid,
+		isrc: null,
+	}
+}
+
+/**
+ * Imports all scrobbles from a Last.fm export.
+ *
+ * Last.fm already applied its own scrobble threshold, so every row is a play.
+ * Exports carry no play duration; the track duration is used instead.
+ * Duplicates are skipped via the no_duplicate_scrobbles constraint.
+ */
+async function importLastfmScrobbles(
+	record: Import,
+	lastfmScrobbles: Array<LastfmScrobble | null>,
+	shouldContinue: () => boolean
+): Promise<ImportResult> {
+	const progress: ImportProgress = {
+		total: lastfmScrobbles.length,
+		imported: 0,
+		failed: 0,
+		skipped: 0,
+		errors: [],
+	}
+	await updateImportProgress(record.id, progress)
+
+	for (
+		let start = 0;
+		start < lastfmScrobbles.length;
+		start += IMPORT_CONFIG.batchSize
+	) {
+		if (!shouldContinue()) {
+			return 'interrupted'
+		}
+
+		const batch = lastfmScrobbles.slice(
+			start,
+			start + IMPORT_CONFIG.batchSize
+		)
+
+		for (const [offset, scrobble] of batch.entries()) {
+			const index = start + offset
+
+			if (!scrobble) {
+				recordRowError(
+					progress,
+					index,
+					null,
+					'Missing artist, track or timestamp'
+				)
+				continue
+			}
+
+			// uts is when the play started; moved to when it finished if the
+			// track duration is known, otherwise the start is kept
+			const startedAt = new Date(scrobble.uts * 1000)
+
+			try {
+				const inserted = await persistScrobbleFromMetadata(
+					record.user_id,
+					startedAt,
+					null,
+					submittedTrackToMetadata(
+						lastfmScrobbleToSubmittedTrack(scrobble)
+					),
+					false,
+					null,
+					{
+						importId: record.id,
+						provider: 'lastfm',
+						playedAtIsStart: true,
+					}
+				)
+
+				if (inserted) {
+					progress.imported++
+				} else {
+					progress.skipped++
+				}
+			} catch (error) {
+				recordRowError(progress, index, startedAt.toISOString(), error)
+			}
+		}
+
+		await updateImportProgress(record.id, progress)
+	}
+
+	console.log(
+		`[Import] Import ${record.id}: total=${progress.total}, imported=${progress.imported}, ` +
+			`skipped=${progress.skipped}, failed=${progress.failed}`
+	)
+
+	return 'completed'
+}
+
+/**
+ * Finds the time span covered by a parsed export file, from the start of
+ * the oldest play to the end of the newest one
+ *
+ * @returns The range, or null if the file has no plays with a timestamp
+ */
+function getPlayedRange(
+	parsed: ParsedImportFile
+): { from: Date; to: Date } | null {
+	let from = Infinity
+	let to = -Infinity
+
+	if (parsed.format === 'spotify_extended_history') {
+		for (const entry of parsed.entries) {
+			// ts is when playback stopped
+			const stoppedAt = new Date(entry.ts).getTime()
+			if (Number.isNaN(stoppedAt)) {
+				continue
+			}
+			from = Math.min(from, stoppedAt - entry.ms_played)
+			to = Math.max(to, stoppedAt)
+		}
+	} else {
+		// uts is when the play started; without durations the newest play's
+		// end is unknown, so the range stops (conservatively) at its start
+		for (const scrobble of parsed.scrobbles) {
+			if (!scrobble) {
+				continue
+			}
+			from = Math.min(from, scrobble.uts * 1000)
+			to = Math.max(to, scrobble.uts * 1000)
+		}
+	}
+
+	return from <= to ? { from: new Date(from), to: new Date(to) } : null
+}
+
+/**
+ * Processes a claimed import: reads the stored file, detects its format,
+ * and imports all rows while updating the progress counters. Once complete,
+ * open history gaps the file covers are resolved.
+ *
+ * @param record - Claimed import record
+ * @param mbCache - Shared MusicBrainz cache
+ * @param shouldContinue - Checked between batches; return false to stop early
+ * @returns Whether the import completed or was interrupted
+ * @throws Error if the file cannot be read or has an unsupported format
+ */
+export async function processImport(
+	record: Import,
+	mbCache: MusicBrainzCache,
+	shouldContinue: () => boolean = () => true
+): Promise<ImportResult> {
+	const content = await readFile(
+		path.join(IMPORT_CONFIG.uploadDir, record.file_path),
+		'utf8'
+	)
+
+	const parsed = parseImportFile(content)
+
+	let result: ImportResult
+	switch (parsed?.format) {
+		case 'spotify_extended_history':
+			result = await importSpotifyStreamingHistory(
+				record,
+				parsed.entries,
+				mbCache,
+				shouldContinue
+			)
+			break
+		case 'lastfm':
+			result = await importLastfmScrobbles(
+				record,
+				parsed.scrobbles,
+				shouldContinue
+			)
+			break
+		default:
+			throw new Error('Unsupported import file format')
+	}
+
+	const range = result === 'completed' ? getPlayedRange(parsed) : null
+	if (range) {
+		const resolved = await resolveScrobbleGapsCoveredBy(
+			record.user_id,
+			record.id,
+			range
+		)
+		if (resolved > 0) {
+			console.log(
+				`[Import] Import ${record.id}: resolved ${resolved} history gap(s)`
+			)
+		}
+	}
+
+	return result
+}
@@ -0,0 +1,105 @@
+/**
+ * Jellyfin Scrobble Provider
+ *
+ * Polls the Sessions API of Jellyfin servers for linked accounts. Sessions
+ * report the play position and pause state, so playback sessions work the
+ * same as for Spotify.
+ *
+ * Jellyfin has no play history endpoint usable as a cursor, so plays are
+ * only scrobbled through playback sessions.
+ *
+ * @module jellyfin-provider
+ */
+
+import { and } from 'drizzle-orm'
+import { db } from '../db'
+import {
+	getJellyfinSessions,
+	JELLYFIN_TICKS_PER_MS,
+	type JellyfinNowPlayingItem,
+} from './jellyfin'
+import type { ScrobbleProvider } from './scrobble-providers'
+
+export const jellyfinProvider: ScrobbleProvider<JellyfinNowPlayingItem> = {
+	name: 'jellyfin',
+
+	async getAccounts() {
+		return db.query.accounts.findMany({
+			where: (accounts, { eq, isNotNull }) =>
+				and(
+					eq(accounts.provider, 'jellyfin'),
+					isNotNull(accounts.server_url),
+					isNotNull(accounts.server_user),
+					isNotNull(accounts.access_token)
+				),
+		})
+	},
+
+	/** Jellyfin access tokens don't expire until revoked on the server */
+	async authenticate(account) {
+		return account.access_token
+	},
+
+	async getCurrentlyPlaying(account, accessToken) {
+		if (!account.server_url) {
+			return null
+		}
+
+		const sessions = await getJellyfinSessions(
+			account.server_url,
+			accessToken
+		)
+
+		// Only music counts; a session that is actually playing wins over
+		// paused ones on other devices
+		const session = sessions
+			.filter(
+				(item) =>
+					item.UserId === account.server_user &&
+					item.NowPlayingItem?.Type === 'Audio'
+			)
+			.sort(
+				(a, b) =>
+					Number(a.PlayState?.IsPaused ?? false) -
+					Number(b.PlayState?.IsPaused ?? false)
+			)[0]
+
+		if (!session?.NowPlayingItem) {
+			return null
+		}
+
+		return {
+			uri: `jellyfin:track:${session.NowPlayingItem.Id}`,
+			track: session.NowPlayingItem,
+			progressMs: Math.floor(
+				(session.PlayState?.PositionTicks ?? 0) / JELLYFIN_TICKS_PER_MS
+			),
+			isPlaying: !session.PlayState?.IsPaused,
+		}
+	},
+
+	normalizeTrack(item) {
+		const artistNames = item.ArtistItems?.length
+			? item.ArtistItems.map((artist) => artist.Name)
+			: (item.Artists ?? [])
+		const artists = artistNames.length
+			? artistNames.map((name) => ({ name }))
+			: [{ name: item.AlbumArtist ?? 'Unknown Artist' }]
+
+		return {
+			id: item.Id,
+			name: item.Name,
+			duration_ms: Math.round(
+				(item.RunTimeTicks ?? 0) / JELLYFIN_TICKS_PER_MS
+			),
+			explicit: false,
+			artists,
+			album: {
+				name: item.Album ?? '',
+				release_date:
+					item.PremiereDate?.slice(0, 10) ??
+					item.ProductionYear?.toString(),
+			},
+		}
+	},
+}
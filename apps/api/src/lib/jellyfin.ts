@@ -0,0 +1,111 @@
+/**
+ * Jellyfin API client
+ *
+ * Signs in to a Jellyfin server with a username and password to obtain an
+ * access token, then reads the server's active sessions with it.
+ *
+ * @module jellyfin
+ */
+
+import type {
+	JellyfinAuthenticationResult,
+	JellyfinSession,
+} from '@playbacc/types/api/jellyfin'
+
+export type {
+	JellyfinAuthenticationResult,
+	JellyfinNowPlayingItem,
+	JellyfinSession,
+} from '@playbacc/types/api/jellyfin'
+
+/** Jellyfin duration and position ticks per millisecond */
+export const JELLYFIN_TICKS_PER_MS = 10_000
+
+/** Sessions active within this many seconds are listed */
+const ACTIVE_WITHIN_SECONDS = 960
+
+/**
+ * Builds the Authorization header Jellyfin expects from clients
+ *
+ * @param accessToken - Access token (omit when signing in)
+ */
+function authorizationHeader(accessToken?: string): string {
+	const fields = [
+		'Client="Playbacc"',
+		'Device="Playbacc"',
+		'DeviceId="playbacc"',
+		'Version="1.0.0"',
+	]
+	if (accessToken) {
+		fields.push(`Token="${accessToken}"`)
+	}
+	return `MediaBrowser ${fields.join(', ')}`
+}
+
+/**
+ * Signs in to a Jellyfin server
+ *
+ * @param serverUrl - Base URL of the server
+ * @param username - Jellyfin username
+ * @param password - Jellyfin password
+ * @returns Access token and user, or null if the credentials are rejected
+ * @throws Error if the server can't be used
+ */
+export async function authenticateJellyfin(
+	serverUrl: string,
+	username: string,
+	password: string
+): Promise<JellyfinAuthenticationResult | null> {
+	const response = await fetch(`${serverUrl}/Users/AuthenticateByName`, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Authorization: authorizationHeader(),
+		},
+		body: JSON.stringify({ Username: username, Pw: password }),
+	})
+
+	if (response.status === 401) {
+		return null
+	}
+
+	if (!response.ok) {
+		throw new Error(
+			`Jellyfin sign-in failed with status ${response.status}`
+		)
+	}
+
+	return response.json() as Promise<JellyfinAuthenticationResult>
+}
+
+/**
+ * Lists the server's recently active sessions
+ *
+ * @param serverUrl - Base URL of the server
+ * @param accessToken - Access token from authenticateJellyfin
+ * @returns Active sessions (of all users the token can see)
+ */
+export async function getJellyfinSessions(
+	serverUrl: string,
+	accessToken: string
+): Promise<JellyfinSession[]> {
+	const url = new URL(`${serverUrl}/Sessions`)
+	url.searchParams.set(
+		'activeWithinSeconds',
+		ACTIVE_WITHIN_SECONDS.toString()
+	)
+
+	const response = await fetch(url, {
+		headers: {
+			Accept: 'application/json',
+			Authorization: authorizationHeader(accessToken),
+		},
+	})
+
+	if (!response.ok) {
+		const errorText = await response.text()
+		throw new Error(`Failed to get Jellyfin sessions: ${errorText}`)
+	}
+
+	return response.json() as Promise<JellyfinSession[]>
+}
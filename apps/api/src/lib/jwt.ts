@@ -27,8 +27,43 @@ export const signToken = async (payload: JWTPayload) => {
 export const verifyToken = async (token: string) => {
 	try {
 		const { payload } = await jose.jwtVerify<JWTPayload>(token, JWT_SECRET)
-		return payload
+		// Link tokens share the secret but must never authenticate requests
+		return 'purpose' in payload ? null : payload
 	} catch (error) {
 		return null
 	}
 }
+
+/**
+ * Short-lived token carried through the OAuth state when linking another
+ * account, so the callback knows which user to link it to
+ */
+export interface LinkTokenPayload extends jose.JWTPayload {
+	user_id: string
+	purpose: 'link_account'
+}
+
+export const signLinkToken = async (userId: string) => {
+	const jwt = await new jose.SignJWT({
+		user_id: userId,
+		purpose: 'link_account',
+	} satisfies LinkTokenPayload)
+		.setProtectedHeader({ alg: 'HS256' })
+		.setIssuedAt()
+		.setExpirationTime('10m')
+		.sign(JWT_SECRET)
+
+	return jwt
+}
+
+export const verifyLinkToken = async (token: string) => {
+	try {
+		const { payload } = await jose.jwtVerify<LinkTokenPayload>(
+			token,
+			JWT_SECRET
+		)
+		return payload.purpose === 'link_account' ? payload : null
+	} catch {
+		return null
+	}
+}
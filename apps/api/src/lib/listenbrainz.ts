@@ -0,0 +1,294 @@
+/**
+ * ListenBrainz Compatibility Service
+ *
+ * Lets existing scrobbler clients submit plays using the ListenBrainz API format:
+ * - Per-user submission tokens, stored on a 'listenbrainz' account
+ * - Payload validation following the ListenBrainz submission rules
+ * - Persisting listens as scrobbles and "playing_now" as a playback session
+ *
+ * Submitted metadata is stored as-is (MBIDs are trusted); missing data is
+ * filled in later by the MusicBrainz enrichment worker.
+ *
+ * @module listenbrainz
+ */
+
+import { randomUUID } from 'node:crypto'
+import { z } from 'zod'
+import { db } from '../db'
+import { accounts } from '@playbacc/types/db/schema'
+import type {
+	ListenBrainzListen,
+	ListenBrainzSubmission,
+} from '@playbacc/types/api/listenbrainz'
+import {
+	persistScrobbleFromMetadata,
+	submittedTrackToMetadata,
+	type SubmittedTrack,
+} from './scrobbles'
+import {
+	finishSubmittedNowPlaying,
+	updateSubmittedNowPlaying,
+} from './playback'
+import type { Account } from '../types'
+
+/**
+ * Configuration for the ListenBrainz-compatible API (limits match ListenBrainz)
+ */
+export const LISTENBRAINZ_CONFIG = {
+	/** Maximum number of listens in a single submission */
+	maxListensPerRequest: 1000,
+	/** Earliest accepted listened_at timestamp (2002-10-01) */
+	minListenedAt: 1033430400,
+}
+
+/** Matches MusicBrainz identifiers (UUIDs) */
+const MBID_REGEX =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Schema for a ListenBrainz submission body.
+ * Unknown additional_info fields are accepted and ignored.
+ */
+export const listenBrainzSubmissionSchema = z
+	.object({
+		listen_type: z.enum(['single', 'playing_now', 'import']),
+		payload: z
+			.array(
+				z.object({
+					listened_at: z
+						.number()
+						.int()
+						.min(LISTENBRAINZ_CONFIG.minListenedAt)
+						.optional(),
+					track_metadata: z.object({
+						artist_name: z.string().trim().min(1),
+						track_name: z.string().trim().min(1),
+						release_name: z.string().optional(),
+						additional_info: z
+							.looseObject({
+								recording_mbid: z.string().optional(),
+								release_mbid: z.string().optional(),
+								artist_mbids: z.array(z.string()).optional(),
+								isrc: z.string().optional(),
+								duration_ms: z
+									.number()
+									.int()
+									.positive()
+									.optional(),
+								duration: z.number().positive().optional(),
+							})
+							.optional(),
+					}),
+				})
+			)
+			.min(1)
+			.max(LISTENBRAINZ_CONFIG.maxListensPerRequest),
+	})
+	.superRefine((submission, ctx) => {
+		const { listen_type, payload } = submission
+
+		if (listen_type !== 'import' && payload.length !== 1) {
+			ctx.addIssue({
+				code: 'custom',
+				message: `${listen_type} submissions must contain exactly one listen`,
+				path: ['payload'],
+			})
+		}
+
+		if (
+			listen_type === 'playing_now' &&
+			payload.some((listen) => listen.listened_at !== undefined)
+		) {
+			ctx.addIssue({
+				code: 'custom',
+				message: 'playing_now listens must not contain listened_at',
+				path: ['payload'],
+			})
+		}
+
+		if (
+			listen_type !== 'playing_now' &&
+			payload.some((listen) => listen.listened_at === undefined)
+		) {
+			ctx.addIssue({
+				code: 'custom',
+				message:
+					'listened_at is required for single and import listens',
+				path: ['payload'],
+			})
+		}
+	})
+
+/**
+ * Builds the external ID of a user's ListenBrainz account
+ */
+function listenBrainzExternalId(userId: string): string {
+	return `listenbrainz:${userId}`
+}
+
+/**
+ * Gets the submission token of a user, creating one on first use
+ *
+ * @param userId - User database ID
+ * @returns The user's submission token
+ */
+export async function getOrCreateListenToken(userId: string): Promise<string> {
+	const existing = await db.query.accounts.findFirst({
+		where: (a, { eq, and }) =>
+			and(eq(a.user_id, userId), eq(a.provider, 'listenbrainz')),
+	})
+
+	if (existing?.access_token) {
+		return existing.access_token
+	}
+
+	return regenerateListenToken(userId)
+}
+
+/**
+ * Generates a new submission token for a user, invalidating the previous one
+ *
+ * @param userId - User database ID
+ * @returns The new submission token
+ */
+export async function regenerateListenToken(userId: string): Promise<string> {
+	const token = randomUUID()
+
+	await db
+		.insert(accounts)
+		.values({
+			user_id: userId,
+			provider: 'listenbrainz',
+			external_id: listenBrainzExternalId(userId),
+			access_token: token,
+		})
+		.onConflictDoUpdate({
+			target: accounts.external_id,
+			set: { access_token: token },
+		})
+
+	return token
+}
+
+/**
+ * Finds the ListenBrainz account a submission token belongs to
+ *
+ * @param token - Submission token
+ * @returns The account, or null if the token is unknown
+ */
+export async function findAccountByListenToken(
+	token: string
+): Promise<Account | null> {
+	const account = await db.query.accounts.findFirst({
+		where: (a, { eq, and }) =>
+			and(eq(a.provider, 'listenbrainz'), eq(a.access_token, token)),
+	})
+
+	return account ?? null
+}
+
+/**
+ * Returns a valid MBID or null
+ */
+function validMbid(value: string | undefined): string | null {
+	return value && MBID_REGEX.test(value) ? value.toLowerCase() : null
+}
+
+/**
+ * Converts a listen to submitted track information
+ */
+function listenToSubmittedTrack(listen: ListenBrainzListen): SubmittedTrack {
+	const metadata = listen.track_metadata
+	const info = metadata.additional_info ?? {}
+	const artistMbids = (info.artist_mbids ?? [])
+		.map((mbid) => validMbid(mbid))
+		.filter((mbid): mbid is string => mbid !== null)
+
+	return {
+		title: metadata.track_name.trim(),
+		artist: metadata.artist_name.trim(),
+		album: metadata.release_name?.trim() || null,
+		durationMs:
+			info.duration_ms ??
+			(info.duration ? Math.round(info.duration * 1000) : null),
+		mbid: validMbid(info.recording_mbid),
+		// A single artist_name can't be split across several MBIDs
+		artistMbid: artistMbids.length === 1 ? artistMbids[0] : null,
+		albumMbid: validMbid(info.release_mbid),
+		isrc: info.isrc?.trim().toUpperCase() || null,
+	}
+}
+
+/**
+ * Persists a finished listen as a scrobble
+ *
+ * @param live - The listen was just played (a "single" submission), as opposed
+ *   to history submitted with listen_type "import"
+ * @returns True if the scrobble was inserted, false if it was a duplicate
+ */
+async function persistListen(
+	userId: string,
+	listen: ListenBrainzListen,
+	live: boolean
+): Promise<boolean> {
+	const track = listenToSubmittedTrack(listen)
+
+	return persistScrobbleFromMetadata(
+		userId,
+		new Date(listen.listened_at! * 1000),
+		track.durationMs,
+		submittedTrackToMetadata(track),
+		false,
+		null,
+		// listened_at is when the play started
+		{ provider: 'listenbrainz', playedAtIsStart: true, live }
+	)
+}
+
+/**
+ * Processes a validated ListenBrainz submission for a user
+ *
+ * @param userId - User database ID
+ * @param submission - Validated submission body
+ * @returns Number of scrobbles inserted and duplicates ignored
+ * @throws If a listen couldn't be stored, so the client retries the submission
+ */
+export async function submitListens(
+	userId: string,
+	submission: ListenBrainzSubmission
+): Promise<{ inserted: number; duplicates: number }> {
+	const stats = { inserted: 0, duplicates: 0 }
+
+	if (submission.listen_type === 'playing_now') {
+		await updateSubmittedNowPlaying(
+			userId,
+			'listenbrainz',
+			listenToSubmittedTrack(submission.payload[0])
+		)
+		return stats
+	}
+
+	for (const listen of submission.payload) {
+		if (
+			await persistListen(
+				userId,
+				listen,
+				submission.listen_type === 'single'
+			)
+		) {
+			stats.inserted++
+		} else {
+			stats.duplicates++
+		}
+	}
+
+	if (submission.listen_type === 'single') {
+		await finishSubmittedNowPlaying(
+			userId,
+			'listenbrainz',
+			listenToSubmittedTrack(submission.payload[0])
+		)
+	}
+
+	return stats
+}
@@ -26,10 +26,12 @@ import { mb_enrichment_jobs, artists, albums, tracks } from '@playbacc/types/db/
 export type MbEnrichmentJobType =
 	| 'artist.resolve_mbid'
 	| 'artist.sync_relationships'
+	| 'artist.sync_genres'
 	| 'album.resolve_mbid'
 	| 'album.sync'
 	| 'track.resolve_mbid'
 	| 'track.sync'
+	| 'track.sync_genres'
 
 /** Entity types that can be enriched */
 export type MbEnrichmentEntityType = 'artist' | 'album' | 'track'
@@ -51,6 +53,7 @@ export interface MbEnrichmentJob {
 	locked_at: Date | null
 	locked_by: string | null
 	last_error: string | null
+	traversal_id: string | null
 	created_at: Date
 	updated_at: Date
 }
@@ -67,6 +70,8 @@ export interface EnqueueJobOptions {
 	priority?: number
 	/** Maximum retry attempts, default 3 */
 	maxAttempts?: number
+	/** Traversal the job is a hop of (artist.sync_relationships only) */
+	traversalId?: string
 }
 
 /** Result of enqueueing a job */
@@ -118,6 +123,7 @@ export async function enqueueJob(options: EnqueueJobOptions): Promise<EnqueueRes
 		entityId,
 		priority = 0,
 		maxAttempts = QUEUE_CONFIG.defaultMaxAttempts,
+		traversalId = null,
 	} = options
 
 	try {
@@ -132,6 +138,7 @@ export async function enqueueJob(options: EnqueueJobOptions): Promise<EnqueueRes
 				priority,
 				max_attempts: maxAttempts,
 				run_after: new Date(),
+				traversal_id: traversalId,
 			})
 			.onConflictDoNothing()
 			.returning({ id: mb_enrichment_jobs.id })
@@ -0,0 +1,650 @@
+/**
+ * Merge Service
+ *
+ * Finds and merges duplicate tracks, albums and artists:
+ * - Candidates that resolved to the same MBID during enrichment
+ * - Candidates with the same normalized title (and primary artist; for
+ *   tracks also a duration within a few seconds)
+ *
+ * A merge re-points everything referencing the duplicate to the survivor,
+ * fills in identifiers the survivor is missing and deletes the duplicate.
+ *
+ * @module merge
+ */
+
+import { eq, inArray, sql, type SQL } from 'drizzle-orm'
+import { db, type DbClient } from '../db'
+import {
+	albums,
+	artists,
+	merge_candidates,
+	tracks,
+} from '@playbacc/types/db/schema'
+
+export const MERGE_ENTITIES = ['tracks', 'albums', 'artists'] as const
+
+export type MergeEntity = (typeof MERGE_ENTITIES)[number]
+
+type EntityType = typeof merge_candidates.$inferSelect.entity_type
+
+const ENTITY_TYPES: Record<MergeEntity, EntityType> = {
+	tracks: 'track',
+	albums: 'album',
+	artists: 'artist',
+}
+
+/** Maximum duration difference for tracks with matching titles */
+const DURATION_TOLERANCE_MS = 3000
+
+/**
+ * A track, album or artist as shown in merge candidates
+ */
+export interface MergeEntitySummary {
+	id: string
+	/** Track or album title, or artist name */
+	name: string
+	/** Primary artist (null for artists) */
+	artist: string | null
+	mbid: string | null
+	/** Track duration (null for albums and artists) */
+	duration_ms: number | null
+	/** Scrobbles across all users */
+	play_count: number
+}
+
+/**
+ * A pair of entities that are probably the same
+ */
+export interface MergeCandidate {
+	/** mbid: resolved to the same MBID; similar: same normalized title */
+	reason: 'mbid' | 'similar'
+	/** Suggested survivor (has an MBID or the most plays) */
+	survivor: MergeEntitySummary
+	duplicate: MergeEntitySummary
+}
+
+/**
+ * Outcome of a merge
+ */
+export type MergeResult =
+	| { ok: true }
+	| { ok: false; reason: 'not_found' | 'same_entity' }
+
+/**
+ * Normalizes a title for comparison: drops bracketed parts and
+ * " - ..." suffixes (feat., remaster, live), lowercases and strips
+ * everything but letters and digits
+ */
+function normalizedTitle(column: SQL): SQL {
+	return sql`regexp_replace(lower(regexp_replace(regexp_replace(${column}, '\\s*[([][^])]*[])]', '', 'g'), '\\s+-\\s+.*$', '')), '[^[:alnum:]]+', '', 'g')`
+}
+
+/**
+ * Per-entity summaries with a comparison key. Entities are only compared
+ * within the same group (the primary artist for tracks and albums).
+ */
+const SUMMARIES: Record<MergeEntity, SQL> = {
+	tracks: sql`
+		SELECT
+			t.id,
+			t.title as name,
+			pa.name as artist,
+			pa.id as group_id,
+			t.mbid,
+			t.duration_ms,
+			COALESCE(p.play_count, 0) as play_count,
+			${normalizedTitle(sql`t.title`)} as key
+		FROM tracks t
+		LEFT JOIN LATERAL (
+			SELECT a.id, a.name
+			FROM track_artists ta
+			JOIN artists a ON a.id = ta.artist_id
+			WHERE ta.track_id = t.id AND ta.is_primary = true
+			ORDER BY ta."order"
+			LIMIT 1
+		) pa ON true
+		LEFT JOIN (
+			SELECT track_id, COUNT(*) as play_count
+			FROM scrobbles
+			GROUP BY track_id
+		) p ON p.track_id = t.id
+	`,
+	albums: sql`
+		SELECT
+			al.id,
+			al.title as name,
+			ar.name as artist,
+			al.artist_id as group_id,
+			al.mbid,
+			NULL::int as duration_ms,
+			COALESCE(p.play_count, 0) as play_count,
+			${normalizedTitle(sql`al.title`)} as key
+		FROM albums al
+		JOIN artists ar ON ar.id = al.artist_id
+		LEFT JOIN (
+			SELECT album_id, COUNT(*) as play_count
+			FROM scrobbles
+			GROUP BY album_id
+		) p ON p.album_id = al.id
+	`,
+	artists: sql`
+		SELECT
+			ar.id,
+			ar.name,
+			NULL::text as artist,
+			NULL::uuid as group_id,
+			ar.mbid,
+			NULL::int as duration_ms,
+			COALESCE(p.play_count, 0) as play_count,
+			regexp_replace(lower(ar.name), '[^[:alnum:]]+', '', 'g') as key
+		FROM artists ar
+		LEFT JOIN (
+			SELECT ta.artist_id, COUNT(*) as play_count
+			FROM scrobbles s
+			JOIN track_artists ta ON ta.track_id = s.track_id
+			GROUP BY ta.artist_id
+		) p ON p.artist_id = ar.id
+	`,
+}
+
+/**
+ * Extra conditions for two entities with the same key to be candidates
+ */
+const SIMILAR_CONDITIONS: Record<MergeEntity, SQL> = {
+	tracks: sql`AND a.duration_ms IS NOT NULL AND b.duration_ms IS NOT NULL AND abs(a.duration_ms - b.duration_ms) <= ${DURATION_TOLERANCE_MS}`,
+	albums: sql``,
+	artists: sql``,
+}
+
+/**
+ * Finds probable duplicates, MBID matches first, then by combined plays
+ *
+ * @param entity - tracks, albums or artists
+ * @param page - Page number (1-based)
+ * @param limit - Candidates per page
+ */
+export async function getMergeCandidates(
+	entity: MergeEntity,
+	page: number,
+	limit: number
+): Promise<MergeCandidate[]> {
+	const offset = (page - 1) * limit
+
+	const rows = await db.execute<{
+		reason: 'mbid' | 'similar'
+		survivor_id: string
+		survivor_name: string
+		survivor_artist: string | null
+		survivor_mbid: string | null
+		survivor_duration_ms: number | null
+		survivor_play_count: string
+		duplicate_id: string
+		duplicate_name: string
+		duplicate_artist: string | null
+		duplicate_mbid: string | null
+		duplicate_duration_ms: number | null
+		duplicate_play_count: string
+	}>(sql`
+		WITH summary AS (${SUMMARIES[entity]}),
+		pairs AS (
+			SELECT 'mbid' as reason, mc.survivor_id, mc.duplicate_id
+			FROM merge_candidates mc
+			WHERE mc.entity_type = ${ENTITY_TYPES[entity]}
+			UNION ALL
+			SELECT
+				'similar' as reason,
+				CASE WHEN (a.mbid IS NOT NULL, a.play_count) >= (b.mbid IS NOT NULL, b.play_count) THEN a.id ELSE b.id END,
+				CASE WHEN (a.mbid IS NOT NULL, a.play_count) >= (b.mbid IS NOT NULL, b.play_count) THEN b.id ELSE a.id END
+			FROM summary a
+			JOIN summary b
+				ON b.key = a.key
+				AND b.group_id IS NOT DISTINCT FROM a.group_id
+				AND a.id < b.id
+			WHERE a.key <> ''
+				-- Two MBIDs mean MusicBrainz considers them different
+				AND (a.mbid IS NULL OR b.mbid IS NULL)
+				${SIMILAR_CONDITIONS[entity]}
+		),
+		unique_pairs AS (
+			SELECT DISTINCT ON (LEAST(survivor_id, duplicate_id), GREATEST(survivor_id, duplicate_id))
+				reason, survivor_id, duplicate_id
+			FROM pairs
+			ORDER BY LEAST(survivor_id, duplicate_id), GREATEST(survivor_id, duplicate_id), reason = 'mbid' DESC
+		)
+		SELECT
+			up.reason,
+			s.id as survivor_id,
+			s.name as survivor_name,
+			s.artist as survivor_artist,
+			s.mbid as survivor_mbid,
+			s.duration_ms as survivor_duration_ms,
+			s.play_count as survivor_play_count,
+			d.id as duplicate_id,
+			d.name as duplicate_name,
+			d.artist as duplicate_artist,
+			d.mbid as duplicate_mbid,
+			d.duration_ms as duplicate_duration_ms,
+			d.play_count as duplicate_play_count
+		FROM unique_pairs up
+		JOIN summary s ON s.id = up.survivor_id
+		JOIN summary d ON d.id = up.duplicate_id
+		ORDER BY up.reason = 'mbid' DESC, s.play_count + d.play_count DESC, s.id, d.id
+		LIMIT ${limit}
+		OFFSET ${offset}
+	`)
+
+	return rows.map((row) => ({
+		reason: row.reason,
+		survivor: {
+			id: row.survivor_id,
+			name: row.survivor_name,
+			artist: row.survivor_artist,
+			mbid: row.survivor_mbid,
+			duration_ms: row.survivor_duration_ms,
+			play_count: parseInt(row.survivor_play_count, 10),
+		},
+		duplicate: {
+			id: row.duplicate_id,
+			name: row.duplicate_name,
+			artist: row.duplicate_artist,
+			mbid: row.duplicate_mbid,
+			duration_ms: row.duplicate_duration_ms,
+			play_count: parseInt(row.duplicate_play_count, 10),
+		},
+	}))
+}
+
+/**
+ * Records that an entity resolved to an MBID another entity already holds
+ *
+ * @param entityType - artist, album or track
+ * @param survivorId - Entity holding the MBID
+ * @param duplicateId - Entity that resolved to it
+ * @param mbid - The shared MBID
+ */
+export async function recordMbidConflict(
+	entityType: EntityType,
+	survivorId: string,
+	duplicateId: string,
+	mbid: string
+): Promise<void> {
+	await db
+		.insert(merge_candidates)
+		.values({
+			entity_type: entityType,
+			survivor_id: survivorId,
+			duplicate_id: duplicateId,
+			mbid,
+		})
+		.onConflictDoNothing()
+}
+
+/**
+ * Drops queued enrichment jobs and merge candidates of a merged entity
+ */
+async function forgetEntity(
+	tx: DbClient,
+	entityType: EntityType,
+	entityId: string
+): Promise<void> {
+	await tx.execute(sql`
+		DELETE FROM mb_enrichment_jobs
+		WHERE entity_type = ${entityType} AND entity_id = ${entityId}
+	`)
+	await tx.execute(sql`
+		DELETE FROM merge_candidates
+		WHERE entity_type = ${entityType}
+			AND (survivor_id = ${entityId} OR duplicate_id = ${entityId})
+	`)
+}
+
+/**
+ * Merges a duplicate track into the survivor. Plays of both at the same
+ * time collapse into one.
+ */
+async function mergeTracks(
+	tx: DbClient,
+	survivorId: string,
+	duplicateId: string
+): Promise<MergeResult> {
+	const rows = await tx
+		.select()
+		.from(tracks)
+		.where(inArray(tracks.id, [survivorId, duplicateId]))
+		.for('update')
+	const duplicate = rows.find((row) => row.id === duplicateId)
+	if (rows.length < 2 || !duplicate) {
+		return { ok: false, reason: 'not_found' }
+	}
+
+	await tx.execute(sql`
+		UPDATE scrobbles s
+		SET track_id = ${survivorId}
+		WHERE s.track_id = ${duplicateId}
+			AND NOT EXISTS (
+				SELECT 1
+				FROM scrobbles d
+				WHERE d.user_id = s.user_id
+					AND d.track_id = ${survivorId}
+					AND d.played_at = s.played_at
+			)
+	`)
+	await tx.execute(sql`DELETE FROM scrobbles WHERE track_id = ${duplicateId}`)
+
+	await tx.execute(sql`
+		INSERT INTO track_artists (track_id, artist_id, is_primary, "order", join_phrase)
+		SELECT ${survivorId}, artist_id, is_primary, "order", join_phrase
+		FROM track_artists
+		WHERE track_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM track_artists WHERE track_id = ${duplicateId}`
+	)
+
+	await tx.execute(sql`
+		INSERT INTO track_albums (track_id, album_id, disc_number, position)
+		SELECT ${survivorId}, album_id, disc_number, position
+		FROM track_albums
+		WHERE track_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM track_albums WHERE track_id = ${duplicateId}`
+	)
+
+	await tx.execute(sql`
+		INSERT INTO track_tags (track_id, tag_id, count)
+		SELECT ${survivorId}, tag_id, count
+		FROM track_tags
+		WHERE track_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM track_tags WHERE track_id = ${duplicateId}`
+	)
+
+	await tx.execute(sql`
+		INSERT INTO artist_relationships (artist_id, related_artist_id, track_id, type, begin_raw, end_raw, ended)
+		SELECT artist_id, related_artist_id, ${survivorId}, type, begin_raw, end_raw, ended
+		FROM artist_relationships
+		WHERE track_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM artist_relationships WHERE track_id = ${duplicateId}`
+	)
+
+	await tx.execute(sql`
+		UPDATE rewrite_rules
+		SET target_track_id = ${survivorId}
+		WHERE target_track_id = ${duplicateId}
+	`)
+
+	await forgetEntity(tx, 'track', duplicateId)
+	await tx.delete(tracks).where(eq(tracks.id, duplicateId))
+
+	// Identifiers are unique, so they can only move once the duplicate is gone
+	await tx
+		.update(tracks)
+		.set({
+			mbid: sql`COALESCE(${tracks.mbid}, ${duplicate.mbid})`,
+			isrc: sql`COALESCE(${tracks.isrc}, ${duplicate.isrc})`,
+			duration_ms: sql`COALESCE(${tracks.duration_ms}, ${duplicate.duration_ms})`,
+		})
+		.where(eq(tracks.id, survivorId))
+
+	return { ok: true }
+}
+
+/**
+ * Merges a duplicate album into the survivor
+ */
+async function mergeAlbums(
+	tx: DbClient,
+	survivorId: string,
+	duplicateId: string
+): Promise<MergeResult> {
+	const rows = await tx
+		.select()
+		.from(albums)
+		.where(inArray(albums.id, [survivorId, duplicateId]))
+		.for('update')
+	const duplicate = rows.find((row) => row.id === duplicateId)
+	if (rows.length < 2 || !duplicate) {
+		return { ok: false, reason: 'not_found' }
+	}
+
+	await tx.execute(sql`
+		UPDATE scrobbles
+		SET album_id = ${survivorId}
+		WHERE album_id = ${duplicateId}
+	`)
+
+	await tx.execute(sql`
+		INSERT INTO track_albums (track_id, album_id, disc_number, position)
+		SELECT track_id, ${survivorId}, disc_number, position
+		FROM track_albums
+		WHERE album_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM track_albums WHERE album_id = ${duplicateId}`
+	)
+
+	await tx.execute(sql`
+		INSERT INTO album_tags (album_id, tag_id, count)
+		SELECT ${survivorId}, tag_id, count
+		FROM album_tags
+		WHERE album_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM album_tags WHERE album_id = ${duplicateId}`
+	)
+
+	await forgetEntity(tx, 'album', duplicateId)
+	await tx.delete(albums).where(eq(albums.id, duplicateId))
+
+	await tx
+		.update(albums)
+		.set({
+			mbid: sql`COALESCE(${albums.mbid}, ${duplicate.mbid})`,
+			release_date: sql`COALESCE(${albums.release_date}, ${duplicate.release_date})`,
+			image_url: sql`COALESCE(${albums.image_url}, ${duplicate.image_url})`,
+		})
+		.where(eq(albums.id, survivorId))
+
+	return { ok: true }
+}
+
+/**
+ * Merges a duplicate artist into the survivor. Albums move to the
+ * survivor as they are, so identical albums show up as album candidates.
+ */
+async function mergeArtists(
+	tx: DbClient,
+	survivorId: string,
+	duplicateId: string
+): Promise<MergeResult> {
+	const rows = await tx
+		.select()
+		.from(artists)
+		.where(inArray(artists.id, [survivorId, duplicateId]))
+		.for('update')
+	const duplicate = rows.find((row) => row.id === duplicateId)
+	if (rows.length < 2 || !duplicate) {
+		return { ok: false, reason: 'not_found' }
+	}
+
+	await tx.execute(sql`
+		INSERT INTO track_artists (track_id, artist_id, is_primary, "order", join_phrase)
+		SELECT track_id, ${survivorId}, is_primary, "order", join_phrase
+		FROM track_artists
+		WHERE artist_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM track_artists WHERE artist_id = ${duplicateId}`
+	)
+
+	await tx.execute(sql`
+		UPDATE albums
+		SET artist_id = ${survivorId}
+		WHERE artist_id = ${duplicateId}
+	`)
+
+	// Re-point memberships, skipping ones the survivor already has and
+	// ones that would make the survivor a member of itself
+	await tx.execute(sql`
+		WITH moved AS (
+			SELECT
+				CASE WHEN member_id = ${duplicateId} THEN ${survivorId}::uuid ELSE member_id END as member_id,
+				CASE WHEN group_id = ${duplicateId} THEN ${survivorId}::uuid ELSE group_id END as group_id,
+				begin_date,
+				end_date,
+				begin_raw,
+				end_raw,
+				ended
+			FROM artists_groups
+			WHERE member_id = ${duplicateId} OR group_id = ${duplicateId}
+		)
+		INSERT INTO artists_groups (member_id, group_id, begin_date, end_date, begin_raw, end_raw, ended)
+		SELECT m.member_id, m.group_id, m.begin_date, m.end_date, m.begin_raw, m.end_raw, m.ended
+		FROM moved m
+		WHERE m.member_id <> m.group_id
+			AND NOT EXISTS (
+				SELECT 1
+				FROM artists_groups ag
+				WHERE ag.member_id = m.member_id
+					AND ag.group_id = m.group_id
+					AND ag.begin_raw IS NOT DISTINCT FROM m.begin_raw
+					AND ag.end_raw IS NOT DISTINCT FROM m.end_raw
+			)
+	`)
+	await tx.execute(sql`
+		DELETE FROM artists_groups
+		WHERE member_id = ${duplicateId} OR group_id = ${duplicateId}
+	`)
+
+	await tx.execute(sql`
+		INSERT INTO artist_tags (artist_id, tag_id, count)
+		SELECT ${survivorId}, tag_id, count
+		FROM artist_tags
+		WHERE artist_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM artist_tags WHERE artist_id = ${duplicateId}`
+	)
+
+	// Re-point other relationships on either side, again skipping self-links
+	await tx.execute(sql`
+		WITH moved AS (
+			SELECT
+				CASE WHEN artist_id = ${duplicateId} THEN ${survivorId}::uuid ELSE artist_id END as artist_id,
+				CASE WHEN related_artist_id = ${duplicateId} THEN ${survivorId}::uuid ELSE related_artist_id END as related_artist_id,
+				track_id,
+				type,
+				begin_raw,
+				end_raw,
+				ended
+			FROM artist_relationships
+			WHERE artist_id = ${duplicateId} OR related_artist_id = ${duplicateId}
+		)
+		INSERT INTO artist_relationships (artist_id, related_artist_id, track_id, type, begin_raw, end_raw, ended)
+		SELECT m.artist_id, m.related_artist_id, m.track_id, m.type, m.begin_raw, m.end_raw, m.ended
+		FROM moved m
+		WHERE m.related_artist_id IS DISTINCT FROM m.artist_id
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(sql`
+		DELETE FROM artist_relationships
+		WHERE artist_id = ${duplicateId} OR related_artist_id = ${duplicateId}
+	`)
+
+	// Aliases come from the MBID the survivor keeps: its own, else the duplicate's
+	await tx.execute(sql`
+		UPDATE artist_aliases
+		SET artist_id = ${survivorId}
+		WHERE artist_id = ${duplicateId}
+			AND NOT EXISTS (
+				SELECT 1 FROM artist_aliases WHERE artist_id = ${survivorId}
+			)
+	`)
+	await tx.execute(
+		sql`DELETE FROM artist_aliases WHERE artist_id = ${duplicateId}`
+	)
+
+	// Traversals that reached both keep the survivor's node
+	await tx.execute(sql`
+		INSERT INTO artist_traversal_nodes (traversal_id, artist_id, depth, parent_artist_id, status, synced_at)
+		SELECT traversal_id, ${survivorId}, depth, parent_artist_id, status, synced_at
+		FROM artist_traversal_nodes
+		WHERE artist_id = ${duplicateId}
+		ON CONFLICT DO NOTHING
+	`)
+	await tx.execute(
+		sql`DELETE FROM artist_traversal_nodes WHERE artist_id = ${duplicateId}`
+	)
+	await tx.execute(sql`
+		UPDATE artist_traversal_nodes
+		SET parent_artist_id = ${survivorId}
+		WHERE parent_artist_id = ${duplicateId}
+	`)
+	await tx.execute(sql`
+		UPDATE artist_traversals
+		SET root_artist_id = ${survivorId}
+		WHERE root_artist_id = ${duplicateId}
+	`)
+
+	await forgetEntity(tx, 'artist', duplicateId)
+	await tx.delete(artists).where(eq(artists.id, duplicateId))
+
+	await tx
+		.update(artists)
+		.set({
+			mbid: sql`COALESCE(${artists.mbid}, ${duplicate.mbid})`,
+			type: sql`COALESCE(${artists.type}, ${duplicate.type})`,
+			gender: sql`COALESCE(${artists.gender}, ${duplicate.gender})`,
+			begin_date: sql`COALESCE(${artists.begin_date}, ${duplicate.begin_date})`,
+			end_date: sql`COALESCE(${artists.end_date}, ${duplicate.end_date})`,
+			image_url: sql`COALESCE(${artists.image_url}, ${duplicate.image_url})`,
+		})
+		.where(eq(artists.id, survivorId))
+
+	return { ok: true }
+}
+
+const MERGERS: Record<
+	MergeEntity,
+	(
+		tx: DbClient,
+		survivorId: string,
+		duplicateId: string
+	) => Promise<MergeResult>
+> = {
+	tracks: mergeTracks,
+	albums: mergeAlbums,
+	artists: mergeArtists,
+}
+
+/**
+ * Merges a duplicate entity into the survivor and deletes the duplicate
+ *
+ * @param entity - tracks, albums or artists
+ * @param survivorId - Entity to keep
+ * @param duplicateId - Entity to merge and delete
+ * @returns Whether the merge happened, or why not
+ */
+export async function mergeEntities(
+	entity: MergeEntity,
+	survivorId: string,
+	duplicateId: string
+): Promise<MergeResult> {
+	if (survivorId === duplicateId) {
+		return { ok: false, reason: 'same_entity' }
+	}
+
+	return db.transaction((tx) => MERGERS[entity](tx, survivorId, duplicateId))
+}
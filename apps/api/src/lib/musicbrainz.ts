@@ -303,7 +303,8 @@ export async function searchRecording(
 }
 
 /**
- * Get full recording details by MBID, including artist credits and releases.
+ * Get full recording details by MBID, including artist credits, releases,
+ * genres and tags.
  *
  * @param recordingMbid - The MusicBrainz recording ID
  * @returns Full recording details or null if not found
@@ -312,7 +313,7 @@ export async function getRecordingDetails(
 	recordingMbid: string
 ): Promise<MusicBrainzRecordingDetails | null> {
 	try {
-		const url = `${MUSICBRAINZ_API_BASE}/recording/${encodeURIComponent(recordingMbid)}?inc=artist-credits+releases+isrcs&fmt=json`
+		const url = `${MUSICBRAINZ_API_BASE}/recording/${encodeURIComponent(recordingMbid)}?inc=artist-credits+releases+isrcs+genres+tags&fmt=json`
 		const response = await rateLimitedFetch(url)
 
 		if (!response.ok) {
@@ -477,7 +478,7 @@ export async function searchReleases(
 }
 
 /**
- * Get full release details by MBID.
+ * Get full release details by MBID, including genres and tags.
  *
  * @param releaseMbid - The MusicBrainz release ID
  * @returns Full release details or null if not found
@@ -486,7 +487,7 @@ export async function getReleaseDetails(
 	releaseMbid: string
 ): Promise<MusicBrainzReleaseDetails | null> {
 	try {
-		const url = `${MUSICBRAINZ_API_BASE}/release/${encodeURIComponent(releaseMbid)}?inc=artist-credits+labels+release-groups&fmt=json`
+		const url = `${MUSICBRAINZ_API_BASE}/release/${encodeURIComponent(releaseMbid)}?inc=artist-credits+labels+release-groups+genres+tags&fmt=json`
 		const response = await rateLimitedFetch(url)
 
 		if (!response.ok) {
@@ -504,7 +505,8 @@ export async function getReleaseDetails(
 }
 
 /**
- * Get full artist details by MBID, including relationships.
+ * Get full artist details by MBID, including artist and recording
+ * relationships, genres and tags.
  * Useful for fetching group membership information.
  *
  * @param artistMbid - The MusicBrainz artist ID
@@ -514,7 +516,7 @@ export async function getArtistDetails(
 	artistMbid: string
 ): Promise<MusicBrainzArtistDetails | null> {
 	try {
-		const url = `${MUSICBRAINZ_API_BASE}/artist/${encodeURIComponent(artistMbid)}?inc=artist-rels&fmt=json`
+		const url = `${MUSICBRAINZ_API_BASE}/artist/${encodeURIComponent(artistMbid)}?inc=artist-rels+recording-rels+aliases+genres+tags&fmt=json`
 		const response = await rateLimitedFetch(url)
 
 		if (!response.ok) {
@@ -573,18 +575,21 @@ export function extractGroupMemberships(
 		return []
 	}
 
-	return artistDetails.relations
-		.filter(
-			(rel) =>
-				rel.type === 'member of band' && rel.direction === 'forward'
-		)
-		.map((rel) => ({
-			groupMbid: rel.artist.id,
-			groupName: rel.artist.name ?? 'Unknown',
-			beginDate: rel.begin,
-			endDate: rel.end,
-			ended: rel.ended ?? false,
-		}))
+	return artistDetails.relations.flatMap((rel) =>
+		rel['target-type'] === 'artist' &&
+		rel.type === 'member of band' &&
+		rel.direction === 'forward'
+			? [
+					{
+						groupMbid: rel.artist.id,
+						groupName: rel.artist.name ?? 'Unknown',
+						beginDate: rel.begin,
+						endDate: rel.end,
+						ended: rel.ended ?? false,
+					},
+				]
+			: []
+	)
 }
 
 /**
@@ -601,17 +606,159 @@ export function extractGroupMembers(
 		return []
 	}
 
-	return groupDetails.relations
-		.filter(
-			(rel) =>
-				rel.type === 'member of band' && rel.direction === 'backward'
-		)
-		.map((rel) => ({
-			memberMbid: rel.artist.id,
-			memberName: rel.artist.name ?? 'Unknown',
+	return groupDetails.relations.flatMap((rel) =>
+		rel['target-type'] === 'artist' &&
+		rel.type === 'member of band' &&
+		rel.direction === 'backward'
+			? [
+					{
+						memberMbid: rel.artist.id,
+						memberName: rel.artist.name ?? 'Unknown',
+						beginDate: rel.begin,
+						endDate: rel.end,
+						ended: rel.ended ?? false,
+					},
+				]
+			: []
+	)
+}
+
+/** MusicBrainz relationship types stored besides group membership */
+export const ARTIST_RELATION_TYPES = {
+	collaboration: 'collaboration',
+	'is person': 'is_person',
+	subgroup: 'subgroup',
+	'supporting musician': 'supporting_musician',
+	producer: 'producer',
+	composer: 'composer',
+} as const
+
+/** Our name for a stored MusicBrainz relationship type */
+export type ArtistRelationType =
+	(typeof ARTIST_RELATION_TYPES)[keyof typeof ARTIST_RELATION_TYPES]
+
+/** Parsed artist relationship, oriented the way MusicBrainz defines it */
+export interface ArtistRelation {
+	type: ArtistRelationType
+	/** Whether the looked-up artist is entity0 (forward) or entity1 (backward) */
+	direction: 'forward' | 'backward'
+	/** The other side: an artist, or a recording for producer/composer credits */
+	target:
+		| { kind: 'artist'; mbid: string; name: string }
+		| { kind: 'recording'; mbid: string }
+	/** Start date (YYYY, YYYY-MM, or YYYY-MM-DD) */
+	beginDate?: string
+	/** End date */
+	endDate?: string
+	/** Whether the relationship has ended */
+	ended: boolean
+}
+
+/**
+ * Extracts collaborations, performance names, subgroups, supporting
+ * musicians and producer/composer credits from artist relationships.
+ * Group membership is left to extractGroupMemberships/extractGroupMembers.
+ *
+ * @param artistDetails - Artist details with artist and recording relationships loaded
+ * @returns Array of relationships
+ */
+export function extractArtistRelations(
+	artistDetails: MusicBrainzArtistDetails
+): ArtistRelation[] {
+	if (!artistDetails.relations) {
+		return []
+	}
+
+	return artistDetails.relations.flatMap((rel): ArtistRelation[] => {
+		const type =
+			ARTIST_RELATION_TYPES[
+				rel.type as keyof typeof ARTIST_RELATION_TYPES
+			]
+		if (!type) {
+			return []
+		}
+
+		const recordingCredit = type === 'producer' || type === 'composer'
+		const dates = {
 			beginDate: rel.begin,
 			endDate: rel.end,
 			ended: rel.ended ?? false,
+		}
+
+		if (rel['target-type'] === 'artist' && !recordingCredit) {
+			return [
+				{
+					type,
+					direction: rel.direction,
+					target: {
+						kind: 'artist',
+						mbid: rel.artist.id,
+						name: rel.artist.name ?? 'Unknown',
+					},
+					...dates,
+				},
+			]
+		}
+
+		if (rel['target-type'] === 'recording' && recordingCredit) {
+			return [
+				{
+					type,
+					direction: rel.direction,
+					target: { kind: 'recording', mbid: rel.recording.id },
+					...dates,
+				},
+			]
+		}
+
+		return []
+	})
+}
+
+/** MusicBrainz alias types, by our name */
+export const ARTIST_ALIAS_TYPES = {
+	'Artist name': 'artist_name',
+	'Legal name': 'legal_name',
+	'Search hint': 'search_hint',
+} as const
+
+/** Our name for a MusicBrainz alias type */
+export type ArtistAliasType =
+	(typeof ARTIST_ALIAS_TYPES)[keyof typeof ARTIST_ALIAS_TYPES]
+
+/** Parsed artist alias */
+export interface ArtistAlias {
+	name: string
+	sortName: string
+	/** Locale the alias is used in (e.g. ja, en_US) */
+	locale: string | null
+	type: ArtistAliasType | null
+	/** Whether this is the name used in its locale */
+	primary: boolean
+}
+
+/**
+ * Extracts the aliases of an artist, skipping ones that have ended
+ * (former names).
+ *
+ * @param artistDetails - Artist details with aliases loaded
+ * @returns Array of aliases
+ */
+export function extractArtistAliases(
+	artistDetails: MusicBrainzArtistDetails
+): ArtistAlias[] {
+	if (!artistDetails.aliases) {
+		return []
+	}
+
+	return artistDetails.aliases
+		.filter((alias) => !alias.ended)
+		.map((alias) => ({
+			name: alias.name,
+			sortName: alias['sort-name'] || alias.name,
+			locale: alias.locale || null,
+			type: alias.type ? (ARTIST_ALIAS_TYPES[alias.type] ?? null) : null,
+			primary: alias.primary ?? false,
 		}))
 }
 
@@ -0,0 +1,264 @@
+/**
+ * Playback Events
+ *
+ * Relays the playback session changes the scrobble worker observes to the
+ * API processes over Postgres LISTEN/NOTIFY, so clients follow playback
+ * without anyone polling the providers a second time:
+ * - The worker publishes an event whenever it starts, advances, pauses,
+ *   scrobbles or ends a session
+ * - Each API process holds one LISTEN connection and hands the events to
+ *   the subscribers of the user they belong to
+ *
+ * Events are best-effort: a failed publish never fails the poll that
+ * observed the change, and clients resynchronise from the next event.
+ *
+ * @module playback-events
+ */
+
+import { sql, desc, eq } from 'drizzle-orm'
+import { db } from '../db'
+import { playback_sessions } from '@playbacc/types/db/schema'
+import type { AccountProvider } from '../types'
+import type { PlaybackSession } from './playback'
+import type { SpotifyTrackInput } from './scrobbles'
+
+/** Postgres channel the events are published on */
+export const PLAYBACK_EVENTS_CHANNEL = 'playback_events'
+
+/**
+ * What happened to a playback session:
+ * - started: a new play began (new session, track change or repeat)
+ * - progress: the play continues
+ * - paused: playback was paused
+ * - scrobbled: the finished play was saved as a scrobble
+ * - stopped: the session ended
+ */
+export type PlaybackEventType =
+	| 'started'
+	| 'progress'
+	| 'paused'
+	| 'scrobbled'
+	| 'stopped'
+
+/**
+ * Track shown for a playback event, in the shape of the currently-playing
+ * endpoint. IDs and images are only known for Spotify tracks.
+ */
+export interface PlaybackEventTrack {
+	id: string
+	name: string
+	duration_ms: number
+	explicit: boolean
+	album: {
+		id?: string
+		name: string
+		images?: Array<{ url: string }>
+	}
+	artists: Array<{ id?: string; name: string }>
+}
+
+/**
+ * A playback session change pushed to clients
+ */
+export interface PlaybackEvent {
+	type: PlaybackEventType
+	user_id: string
+	provider: AccountProvider
+	/** Polled account (null for sessions from scrobbler client submissions) */
+	account_id: string | null
+	/** False once the session stopped */
+	playing: boolean
+	is_playing: boolean
+	/** Position in the track when the change was observed (ms) */
+	progress_ms: number
+	track: PlaybackEventTrack | null
+	/** When the change was observed */
+	at: string
+}
+
+type PlaybackEventListener = (event: PlaybackEvent) => void
+
+/** Subscribers of this process by user */
+const listeners = new Map<string, Set<PlaybackEventListener>>()
+
+/** Shared LISTEN connection, opened by the first subscriber */
+let listening: Promise<unknown> | null = null
+
+/**
+ * Picks what clients display from a session's track metadata, so event
+ * payloads stay far below the NOTIFY size limit
+ */
+export function toPlaybackEventTrack(
+	metadata: SpotifyTrackInput
+): PlaybackEventTrack {
+	return {
+		id: metadata.id,
+		name: metadata.name,
+		duration_ms: metadata.duration_ms,
+		explicit: metadata.explicit,
+		album: {
+			id: metadata.album.id,
+			name: metadata.album.name,
+			images: metadata.album.images,
+		},
+		artists: metadata.artists.map((artist) => ({
+			id: artist.id,
+			name: artist.name,
+		})),
+	}
+}
+
+/**
+ * Builds an event from a playback session
+ *
+ * @param type - What happened to the session
+ * @param session - Session as saved (or as it was before being cleared)
+ * @param progressMs - Position to report (defaults to the last polled one)
+ */
+function toPlaybackEvent(
+	type: PlaybackEventType,
+	session: Omit<PlaybackSession, 'updated_at'>,
+	progressMs: number = session.last_progress_ms
+): PlaybackEvent {
+	const metadata = session.track_metadata
+	const playing = type !== 'stopped'
+
+	return {
+		type,
+		user_id: session.user_id,
+		provider: session.provider,
+		account_id: session.account_id,
+		playing,
+		is_playing: playing && session.is_playing,
+		progress_ms: progressMs,
+		track: playing && metadata ? toPlaybackEventTrack(metadata) : null,
+		at: new Date().toISOString(),
+	}
+}
+
+/**
+ * Publishes a playback session change to all API processes
+ *
+ * @param type - What happened to the session
+ * @param session - Session as saved (or as it was before being cleared)
+ */
+export async function publishPlaybackEvent(
+	type: PlaybackEventType,
+	session: Omit<PlaybackSession, 'updated_at'>
+): Promise<void> {
+	const payload = JSON.stringify(toPlaybackEvent(type, session))
+
+	try {
+		await db.execute(
+			sql`SELECT pg_notify(${PLAYBACK_EVENTS_CHANNEL}, ${payload})`
+		)
+	} catch (error) {
+		console.warn(
+			`[PlaybackEvents] Failed to publish ${type} event for user ${session.user_id}:`,
+			error
+		)
+	}
+}
+
+/**
+ * Hands a notification to the subscribers of the user it belongs to
+ */
+function dispatchPlaybackEvent(payload: string): void {
+	let event: PlaybackEvent
+	try {
+		event = JSON.parse(payload) as PlaybackEvent
+	} catch {
+		console.warn('[PlaybackEvents] Ignoring malformed event payload')
+		return
+	}
+
+	for (const listener of listeners.get(event.user_id) ?? []) {
+		listener(event)
+	}
+}
+
+/**
+ * Subscribes to the playback events of a user.
+ * The first subscription of the process opens the LISTEN connection.
+ *
+ * @param userId - User to receive events for
+ * @param listener - Called with every event of the user
+ * @returns Function that ends the subscription
+ */
+export async function subscribeToPlaybackEvents(
+	userId: string,
+	listener: PlaybackEventListener
+): Promise<() => void> {
+	if (!listening) {
+		listening = db.$client
+			.listen(PLAYBACK_EVENTS_CHANNEL, dispatchPlaybackEvent)
+			.catch((error) => {
+				// Let the next subscriber try again
+				listening = null
+				throw error
+			})
+	}
+	await listening
+
+	let userListeners = listeners.get(userId)
+	if (!userListeners) {
+		userListeners = new Set()
+		listeners.set(userId, userListeners)
+	}
+	userListeners.add(listener)
+
+	return () => {
+		userListeners.delete(listener)
+		if (
+			userListeners.size === 0 &&
+			listeners.get(userId) === userListeners
+		) {
+			listeners.delete(userId)
+		}
+	}
+}
+
+/**
+ * Builds an event describing the user's playback right now, from the most
+ * recently seen session. Sent to clients before live events.
+ *
+ * @param userId - User to describe
+ * @returns progress or paused event, or a stopped event without a session
+ */
+export async function getCurrentPlaybackEvent(
+	userId: string
+): Promise<PlaybackEvent> {
+	const session = (await db.query.playback_sessions.findFirst({
+		where: eq(playback_sessions.user_id, userId),
+		orderBy: desc(playback_sessions.last_seen_at),
+	})) as PlaybackSession | undefined
+
+	if (!session) {
+		return {
+			type: 'stopped',
+			user_id: userId,
+			provider: 'spotify',
+			account_id: null,
+			playing: false,
+			is_playing: false,
+			progress_ms: 0,
+			track: null,
+			at: new Date().toISOString(),
+		}
+	}
+
+	// The session holds the position of the last poll; extrapolate it to now
+	const elapsedMs = session.is_playing
+		? Date.now() - session.last_seen_at.getTime()
+		: 0
+	const progressMs = Math.min(
+		session.last_progress_ms + elapsedMs,
+		session.track_duration_ms ?? Number.MAX_SAFE_INTEGER
+	)
+
+	return toPlaybackEvent(
+		session.is_playing ? 'progress' : 'paused',
+		session,
+		progressMs
+	)
+}
@@ -1,7 +1,8 @@
 /**
  * Playback Session Engine
  *
- * Manages real-time playback tracking via Spotify's "currently playing" endpoint.
+ * Manages real-time playback tracking via each scrobble provider's
+ * "currently playing" report.
  * Enables accurate scrobbling including:
  * - Skipped tracks (that meet minimum duration)
  * - Looped/repeated tracks (detected via progress wrap)
@@ -11,26 +12,23 @@
  */
 
 import { db } from '../db'
-import { eq, and } from 'drizzle-orm'
-import {
-	playback_sessions,
-	accounts,
-	scrobbles,
-	tracks,
-} from '@playbacc/types/db/schema'
-import {
-	getCurrentlyPlaying,
-	getValidAccessToken,
-	type SpotifyAccount,
-} from './spotify'
+import { eq, and, isNull } from 'drizzle-orm'
+import { playback_sessions, scrobbles, tracks } from '@playbacc/types/db/schema'
 import { MusicBrainzCache } from './musicbrainz'
+import {
+	getSpotifyAccessToken,
+	type ScrobbleProvider,
+} from './scrobble-providers'
+import type { Account, AccountProvider } from '../types'
 import {
 	SCROBBLE_CONFIG,
 	resolveTrackMetadataFromSpotify,
 	persistScrobbleFromMetadata,
 	meetsScrobbleThreshold,
 	type SpotifyTrackInput,
+	type SubmittedTrack,
 } from './scrobbles'
+import { publishPlaybackEvent } from './playback-events'
 
 /**
  * Playback session configuration
@@ -91,6 +89,15 @@ export const PLAYBACK_CONFIG = {
 	 * Default: 15000ms (15s) - should be higher than the polling interval (8s).
 	 */
 	endMarginMs: parseInt(process.env.SCROBBLE_END_MARGIN_MS || '15000', 10),
+	/**
+	 * How long after its track should have ended a now-playing session submitted by a
+	 * scrobbler client is kept. Clients that are closed mid-track never finish their
+	 * session, and nothing polls it. Default: 60000ms (1 min).
+	 */
+	submittedSessionGraceMs: parseInt(
+		process.env.SCROBBLE_SUBMITTED_SESSION_GRACE_MS || '60000',
+		10
+	),
 }
 
 /**
@@ -98,7 +105,9 @@ export const PLAYBACK_CONFIG = {
  */
 export interface PlaybackSession {
 	user_id: string
-	provider: 'spotify'
+	provider: AccountProvider
+	/** Polled account (null for sessions from scrobbler client submissions) */
+	account_id: string | null
 	track_uri: string
 	started_at: Date
 	last_seen_at: Date
@@ -120,15 +129,34 @@ export function extractTrackIdFromUri(uri: string): string | null {
 	return match ? match[1] : null
 }
 
+/**
+ * Builds the condition selecting the session of a polled account, or the
+ * client-submitted session of a provider when no account is given
+ */
+function playbackSessionWhere(
+	userId: string,
+	provider: AccountProvider,
+	accountId: string | null
+) {
+	return and(
+		eq(playback_sessions.user_id, userId),
+		eq(playback_sessions.provider, provider),
+		accountId
+			? eq(playback_sessions.account_id, accountId)
+			: isNull(playback_sessions.account_id)
+	)
+}
+
 /**
  * Gets the current playback session for a user
  */
 export async function getPlaybackSession(
-	userId: string
+	userId: string,
+	provider: AccountProvider = 'spotify',
+	accountId: string | null = null
 ): Promise<PlaybackSession | null> {
 	const session = await db.query.playback_sessions.findFirst({
-		where: (ps, { eq, and }) =>
-			and(eq(ps.user_id, userId), eq(ps.provider, 'spotify')),
+		where: playbackSessionWhere(userId, provider, accountId),
 	})
 
 	return session as PlaybackSession | null
@@ -151,7 +179,11 @@ export async function upsertPlaybackSession(
 			updated_at: now,
 		})
 		.onConflictDoUpdate({
-			target: [playback_sessions.user_id, playback_sessions.provider],
+			target: [
+				playback_sessions.user_id,
+				playback_sessions.provider,
+				playback_sessions.account_id,
+			],
 			set: {
 				track_uri: data.track_uri,
 				started_at: data.started_at,
@@ -170,15 +202,149 @@ export async function upsertPlaybackSession(
 /**
  * Deletes the playback session for a user
  */
-export async function clearPlaybackSession(userId: string): Promise<void> {
+export async function clearPlaybackSession(
+	userId: string,
+	provider: AccountProvider = 'spotify',
+	accountId: string | null = null
+): Promise<void> {
 	await db
 		.delete(playback_sessions)
-		.where(
-			and(
-				eq(playback_sessions.user_id, userId),
-				eq(playback_sessions.provider, 'spotify')
+		.where(playbackSessionWhere(userId, provider, accountId))
+}
+
+/**
+ * Builds a stable track URI for a client-submitted track, used to recognise
+ * the same track across now-playing notifications and finished plays
+ */
+function submittedTrackUri(
+	provider: AccountProvider,
+	track: SubmittedTrack
+): string {
+	if (track.mbid) {
+		return `musicbrainz:recording:${track.mbid}`
+	}
+	const key = `${track.artist} - ${track.title}`.toLowerCase()
+	return `${provider}:track:${encodeURIComponent(key)}`
+}
+
+/**
+ * Builds the session metadata snapshot in the same shape as Spotify sessions
+ */
+function submittedTrackToSnapshot(
+	uri: string,
+	track: SubmittedTrack
+): SpotifyTrackInput {
+	return {
+		id: uri,
+		name: track.title,
+		duration_ms: track.durationMs ?? 0,
+		explicit: false,
+		artists: [{ name: track.artist }],
+		album: { name: track.album ?? '' },
+	}
+}
+
+/**
+ * Records a now-playing notification from a scrobbler client as the user's
+ * playback session for that provider.
+ * Repeated notifications for the same track keep the original start time.
+ */
+export async function updateSubmittedNowPlaying(
+	userId: string,
+	provider: AccountProvider,
+	track: SubmittedTrack
+): Promise<void> {
+	const trackUri = submittedTrackUri(provider, track)
+	const now = new Date()
+
+	const existing = await getPlaybackSession(userId, provider)
+	const isSamePlay =
+		existing !== null &&
+		existing.track_uri === trackUri &&
+		now.getTime() - existing.started_at.getTime() <
+			(existing.track_duration_ms ?? PLAYBACK_CONFIG.staleSessionMs)
+
+	const startedAt = isSamePlay ? existing.started_at : now
+
+	const data = {
+		user_id: userId,
+		provider,
+		account_id: null,
+		track_uri: trackUri,
+		started_at: startedAt,
+		last_seen_at: now,
+		last_progress_ms: now.getTime() - startedAt.getTime(),
+		accumulated_ms: now.getTime() - startedAt.getTime(),
+		is_playing: true,
+		track_duration_ms: track.durationMs,
+		track_metadata: submittedTrackToSnapshot(trackUri, track),
+		scrobbled: false,
+	}
+	await upsertPlaybackSession(userId, data)
+	await publishPlaybackEvent(isSamePlay ? 'progress' : 'started', data)
+}
+
+/**
+ * Ends the now-playing session of a provider if it belongs to the
+ * client-submitted track that just finished
+ */
+export async function finishSubmittedNowPlaying(
+	userId: string,
+	provider: AccountProvider,
+	track: SubmittedTrack
+): Promise<void> {
+	const session = await getPlaybackSession(userId, provider)
+
+	if (session?.track_uri === submittedTrackUri(provider, track)) {
+		await clearPlaybackSession(userId, provider)
+		await publishPlaybackEvent('stopped', session)
+	}
+}
+
+/**
+ * Ends now-playing sessions submitted by scrobbler clients once their track
+ * should have ended (plus submittedSessionGraceMs), or after staleSessionMs
+ * if the client didn't report a duration.
+ *
+ * @returns Number of sessions ended
+ */
+export async function expireSubmittedNowPlaying(): Promise<number> {
+	const now = Date.now()
+	const sessions = (await db.query.playback_sessions.findMany({
+		where: isNull(playback_sessions.account_id),
+	})) as PlaybackSession[]
+
+	let expired = 0
+	for (const session of sessions) {
+		const expiresAt =
+			session.started_at.getTime() +
+			(session.track_duration_ms ?? PLAYBACK_CONFIG.staleSessionMs) +
+			PLAYBACK_CONFIG.submittedSessionGraceMs
+		if (expiresAt > now) continue
+
+		// Only if the client hasn't started another track in the meantime
+		const deleted = await db
+			.delete(playback_sessions)
+			.where(
+				and(
+					playbackSessionWhere(
+						session.user_id,
+						session.provider,
+						null
+					),
+					eq(playback_sessions.track_uri, session.track_uri),
+					eq(playback_sessions.started_at, session.started_at)
+				)
 			)
-		)
+			.returning()
+
+		if (deleted.length > 0) {
+			await publishPlaybackEvent('stopped', session)
+			expired++
+		}
+	}
+
+	return expired
 }
 
 /**
@@ -292,7 +458,7 @@ export async function finalizeSession(
 						and(
 							eq(s.user_id, userId),
 							eq(s.track_id, existingTrack.id),
-							eq(s.provider, 'spotify'),
+							eq(s.provider, session.provider),
 							// Check within a window that covers from started_at to playedAt (+ buffer)
 							between(
 								s.played_at,
@@ -314,9 +480,17 @@ export async function finalizeSession(
 		// Now resolve full metadata (only if we're actually going to scrobble)
 		const metadata = await resolveTrackMetadataFromSpotify(
 			session.track_metadata,
-			mbCache
+			mbCache,
+			userId
 		)
 
+		if (!metadata) {
+			console.log(
+				`[Playback] Ignored "${session.track_metadata.name}" by a rewrite rule`
+			)
+			return false
+		}
+
 		// Calculate effective accumulated time (with end margin applied)
 		const effectiveAccumulatedMs = getEffectiveAccumulatedMs(
 			session.accumulated_ms,
@@ -332,7 +506,8 @@ export async function finalizeSession(
 			effectiveAccumulatedMs,
 			metadata,
 			skipped,
-			accessToken
+			accessToken,
+			{ provider: session.provider, accountId: session.account_id }
 		)
 
 		if (inserted) {
@@ -373,12 +548,14 @@ function isSessionStale(session: PlaybackSession, now: Date): boolean {
  * - Session is only finalized when track changes or session becomes stale
  * - `scrobbled` flag prevents double-scrobbling on pause/resume
  *
- * @param account - Spotify account to process
+ * @param provider - Provider the account belongs to
+ * @param account - Account to process
  * @param mbCache - MusicBrainz cache for metadata resolution
  * @returns Statistics about what happened
  */
 export async function processCurrentlyPlaying(
-	account: SpotifyAccount,
+	provider: ScrobbleProvider,
+	account: Account,
 	mbCache: MusicBrainzCache
 ): Promise<{
 	scrobbled: boolean
@@ -388,19 +565,10 @@ export async function processCurrentlyPlaying(
 	const result = { scrobbled: false, sessionUpdated: false, error: false }
 
 	try {
-		// Get valid access token
-		const accessToken = await getValidAccessToken(account, async (data) => {
-			await db
-				.update(accounts)
-				.set({
-					access_token: data.access_token,
-					refresh_token: data.refresh_token,
-					expires_in: data.expires_in,
-				})
-				.where(eq(accounts.id, account.id))
-		})
+		// Get a valid credential (refresh if needed)
+		const credential = await provider.authenticate(account)
 
-		if (!accessToken) {
+		if (!credential) {
 			console.warn(
 				`[Playback] Could not obtain access token for account ${account.id}`
 			)
@@ -409,14 +577,22 @@ export async function processCurrentlyPlaying(
 		}
 
 		// Fetch currently playing
-		const currentlyPlaying = await getCurrentlyPlaying(accessToken)
+		const currentlyPlaying = await provider.getCurrentlyPlaying(
+			account,
+			credential
+		)
+		const accessToken = getSpotifyAccessToken(provider, credential)
 		const now = new Date()
 
 		// Load existing session
-		const session = await getPlaybackSession(account.user_id)
+		const session = await getPlaybackSession(
+			account.user_id,
+			provider.name,
+			account.id
+		)
 
 		// Case A: Nothing is playing (or paused with no track info)
-		if (!currentlyPlaying || !currentlyPlaying.item) {
+		if (!currentlyPlaying) {
 			if (session) {
 				// Check if session is stale - if so, finalize and clear
 				if (isSessionStale(session, now)) {
@@ -426,7 +602,15 @@ export async function processCurrentlyPlaying(
 						mbCache,
 						accessToken
 					)
-					await clearPlaybackSession(account.user_id)
+					await clearPlaybackSession(
+						account.user_id,
+						provider.name,
+						account.id
+					)
+					if (result.scrobbled) {
+						await publishPlaybackEvent('scrobbled', session)
+					}
+					await publishPlaybackEvent('stopped', session)
 				}
 				// Otherwise, keep the session alive (user might resume)
 				// Don't update last_seen_at so staleness check works
@@ -434,27 +618,19 @@ export async function processCurrentlyPlaying(
 			return result
 		}
 
-		const track = currentlyPlaying.item
-		const trackUri = track.uri
-		const progressMs = currentlyPlaying.progress_ms ?? 0
-		const isPlaying = currentlyPlaying.is_playing
-
-		// Extract track metadata for storage
-		const trackMetadata: SpotifyTrackInput = {
-			id: track.id,
-			name: track.name,
-			duration_ms: track.duration_ms,
-			explicit: track.explicit,
-			artists: track.artists,
-			album: track.album,
-			external_ids: track.external_ids,
-		}
+		// Normalize track metadata for storage
+		const track = provider.normalizeTrack(currentlyPlaying.track)
+		const trackUri = currentlyPlaying.uri
+		const progressMs = currentlyPlaying.progressMs
+		const isPlaying = currentlyPlaying.isPlaying
+		const trackMetadata: SpotifyTrackInput = track
 
 		// Case B: No existing session - create one
 		if (!session) {
-			await upsertPlaybackSession(account.user_id, {
+			const data = {
 				user_id: account.user_id,
-				provider: 'spotify',
+				provider: provider.name,
+				account_id: account.id,
 				track_uri: trackUri,
 				started_at: now,
 				last_seen_at: now,
@@ -464,7 +640,9 @@ export async function processCurrentlyPlaying(
 				track_duration_ms: track.duration_ms,
 				track_metadata: trackMetadata,
 				scrobbled: false,
-			})
+			}
+			await upsertPlaybackSession(account.user_id, data)
+			await publishPlaybackEvent('started', data)
 			result.sessionUpdated = true
 			return result
 		}
@@ -499,9 +677,10 @@ export async function processCurrentlyPlaying(
 					)
 
 					// Start fresh session for the new loop
-					await upsertPlaybackSession(account.user_id, {
+					const data = {
 						user_id: account.user_id,
-						provider: 'spotify',
+						provider: provider.name,
+						account_id: account.id,
 						track_uri: trackUri,
 						started_at: now,
 						last_seen_at: now,
@@ -511,7 +690,12 @@ export async function processCurrentlyPlaying(
 						track_duration_ms: track.duration_ms,
 						track_metadata: trackMetadata,
 						scrobbled: false,
-					})
+					}
+					await upsertPlaybackSession(account.user_id, data)
+					if (result.scrobbled) {
+						await publishPlaybackEvent('scrobbled', session)
+					}
+					await publishPlaybackEvent('started', data)
 					result.sessionUpdated = true
 					return result
 				}
@@ -527,9 +711,10 @@ export async function processCurrentlyPlaying(
 			}
 
 			// Update session
-			await upsertPlaybackSession(account.user_id, {
+			const data = {
 				user_id: account.user_id,
-				provider: 'spotify',
+				provider: provider.name,
+				account_id: account.id,
 				track_uri: trackUri,
 				started_at: session.started_at,
 				last_seen_at: now,
@@ -539,7 +724,15 @@ export async function processCurrentlyPlaying(
 				track_duration_ms: track.duration_ms,
 				track_metadata: session.track_metadata, // Preserve original metadata
 				scrobbled: session.scrobbled,
-			})
+			}
+			await upsertPlaybackSession(account.user_id, data)
+			// A session that stays paused has nothing new to report
+			if (isPlaying || session.is_playing) {
+				await publishPlaybackEvent(
+					isPlaying ? 'progress' : 'paused',
+					data
+				)
+			}
 			result.sessionUpdated = true
 			return result
 		}
@@ -556,9 +749,10 @@ export async function processCurrentlyPlaying(
 		}
 
 		// Start new session for new track
-		await upsertPlaybackSession(account.user_id, {
+		const data = {
 			user_id: account.user_id,
-			provider: 'spotify',
+			provider: provider.name,
+			account_id: account.id,
 			track_uri: trackUri,
 			started_at: now,
 			last_seen_at: now,
@@ -568,7 +762,12 @@ export async function processCurrentlyPlaying(
 			track_duration_ms: track.duration_ms,
 			track_metadata: trackMetadata,
 			scrobbled: false,
-		})
+		}
+		await upsertPlaybackSession(account.user_id, data)
+		if (result.scrobbled) {
+			await publishPlaybackEvent('scrobbled', session)
+		}
+		await publishPlaybackEvent('started', data)
 		result.sessionUpdated = true
 		return result
 	} catch (error) {
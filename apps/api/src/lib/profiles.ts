@@ -0,0 +1,93 @@
+/**
+ * Public Profiles
+ *
+ * Users can opt into a public profile at /u/:username that anyone can read
+ * without signing in. Each section is shared separately:
+ * - Now playing (from the user's playback sessions)
+ * - Recent scrobbles
+ * - Top artists for a range preset
+ *
+ * Nothing is readable while the profile itself is private.
+ *
+ * @module profiles
+ */
+
+import { sql } from 'drizzle-orm'
+import { db } from '../db'
+import type { User } from '../types'
+
+/**
+ * Sections of a public profile and the user setting that shares each
+ */
+export const PROFILE_SECTIONS = {
+	now_playing: 'profile_now_playing',
+	recent_scrobbles: 'profile_recent_scrobbles',
+	top_artists: 'profile_top_artists',
+} as const satisfies Record<string, keyof User>
+
+export type ProfileSection = keyof typeof PROFILE_SECTIONS
+
+/**
+ * Usernames are part of profile URLs, so only URL-safe characters are allowed
+ */
+export const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,30}$/
+
+/**
+ * Result of looking up a public profile
+ */
+export type PublicProfileResult =
+	| { ok: true; user: User }
+	| { ok: false; reason: 'not_found' | 'section_private' }
+
+/**
+ * Finds a user by username, ignoring case
+ *
+ * @param username - Username to look up
+ * @returns The user, or null if no user has the username
+ */
+export async function findUserByUsername(
+	username: string
+): Promise<User | null> {
+	const user = await db.query.users.findFirst({
+		where: (users) =>
+			sql`lower(${users.username}) = ${username.trim().toLowerCase()}`,
+	})
+
+	return user ?? null
+}
+
+/**
+ * Loads a public profile, checking that it (and the requested section) is
+ * shared. Private profiles are reported as not found, so they can't be told
+ * apart from usernames that don't exist.
+ *
+ * @param username - Username from the profile URL
+ * @param section - Section about to be read (omit for the profile itself)
+ */
+export async function getPublicProfile(
+	username: string,
+	section?: ProfileSection
+): Promise<PublicProfileResult> {
+	const user = await findUserByUsername(username)
+
+	if (!user || !user.profile_public) {
+		return { ok: false, reason: 'not_found' }
+	}
+
+	if (section && !user[PROFILE_SECTIONS[section]]) {
+		return { ok: false, reason: 'section_private' }
+	}
+
+	return { ok: true, user }
+}
+
+/**
+ * Lists which sections of a user's profile are shared
+ */
+export function getSharedSections(user: User): Record<ProfileSection, boolean> {
+	return {
+		now_playing: user.profile_now_playing,
+		recent_scrobbles: user.profile_recent_scrobbles,
+		top_artists: user.profile_top_artists,
+	}
+}
@@ -0,0 +1,353 @@
+/**
+ * Rewrite History Service
+ *
+ * Runs rewrite rules against a user's existing scrobbles:
+ * - Previewing which plays a rule set would rename, remap or drop
+ * - Applying the rules retroactively
+ *
+ * Tracks are shared between users, so existing tracks are never renamed.
+ * Instead the user's plays are moved to the track the rewritten metadata
+ * resolves to (created if needed). Every moved or deleted play is
+ * recorded in scrobble_edits.
+ *
+ * @module rewrite-history
+ */
+
+import { inArray, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { tracks } from '@playbacc/types/db/schema'
+import { persistTrackMetadata, type ResolvedTrackMetadata } from './scrobbles'
+import { rewriteTrackMetadata, type RewriteRule } from './rewrite-rules'
+import { deleteScrobblesOfTrack, reassignScrobbles } from './scrobble-edits'
+
+/** Maximum number of changes listed in a preview */
+const PREVIEW_LIMIT = 100
+
+/**
+ * Title, primary artist and album title of a track
+ */
+export interface RewriteFields {
+	title: string
+	artist: string
+	album: string | null
+}
+
+/**
+ * How rules would change the user's plays of one track on one album
+ */
+export interface RewriteChange {
+	track_id: string
+	album_id: string | null
+	play_count: number
+	action: 'rewrite' | 'map_to_track' | 'ignore'
+	before: RewriteFields
+	/** Rewritten fields (null when the plays are ignored) */
+	after: RewriteFields | null
+	/** Canonical track for map_to_track (title is filled in by previews) */
+	target_track: { id: string; title: string | null } | null
+	/** Rules that matched, in evaluation order */
+	rule_ids: string[]
+}
+
+/**
+ * Dry-run result of running rules against the user's history
+ */
+export interface RewritePreview {
+	affected_tracks: number
+	affected_scrobbles: number
+	/** Most played changes first, at most PREVIEW_LIMIT */
+	changes: RewriteChange[]
+}
+
+/**
+ * Result of applying rules to the user's history
+ */
+export interface RewriteApplyResult {
+	/** Plays moved to another track or album */
+	moved: number
+	/** Plays deleted by ignore rules */
+	deleted: number
+}
+
+/**
+ * A planned change with the metadata to persist
+ */
+interface PlannedRewrite {
+	change: RewriteChange
+	metadata: ResolvedTrackMetadata | null
+}
+
+function toFields(metadata: ResolvedTrackMetadata): RewriteFields {
+	return {
+		title: metadata.title,
+		artist: metadata.primaryArtist.name,
+		album: metadata.album?.title ?? null,
+	}
+}
+
+/**
+ * Loads the distinct tracks and albums the user has played, with the
+ * metadata rules are evaluated against
+ */
+async function getPlayedTracks(userId: string): Promise<
+	Array<{
+		trackId: string
+		albumId: string | null
+		playCount: number
+		metadata: ResolvedTrackMetadata
+	}>
+> {
+	const rows = await db.execute<{
+		track_id: string
+		album_id: string | null
+		play_count: string
+		title: string
+		duration_ms: number | null
+		isrc: string | null
+		mbid: string | null
+		explicit: boolean
+		album_title: string | null
+		album_mbid: string | null
+		album_release_date: string | null
+		album_image_url: string | null
+		credits: Array<{
+			name: string
+			mbid: string | null
+			is_primary: boolean
+			order: number
+			join_phrase: string
+		}> | null
+	}>(sql`
+		SELECT
+			s.track_id,
+			s.album_id,
+			COUNT(*) as play_count,
+			t.title,
+			t.duration_ms,
+			t.isrc,
+			t.mbid,
+			t.explicit,
+			al.title as album_title,
+			al.mbid as album_mbid,
+			al.release_date::text as album_release_date,
+			al.image_url as album_image_url,
+			(
+				SELECT json_agg(json_build_object('name', a.name, 'mbid', a.mbid, 'is_primary', ta.is_primary, 'order', ta."order", 'join_phrase', ta.join_phrase) ORDER BY ta."order")
+				FROM track_artists ta
+				JOIN artists a ON a.id = ta.artist_id
+				WHERE ta.track_id = s.track_id
+			) as credits
+		FROM scrobbles s
+		JOIN tracks t ON t.id = s.track_id
+		LEFT JOIN albums al ON al.id = s.album_id
+		WHERE s.user_id = ${userId}
+		GROUP BY s.track_id, s.album_id, t.id, al.id
+		ORDER BY play_count DESC
+	`)
+
+	return rows.map((row) => {
+		const artistCredits: ResolvedTrackMetadata['artistCredits'] = (
+			row.credits ?? []
+		).map((credit) => ({
+			name: credit.name,
+			mbid: credit.mbid,
+			spotifyId: null,
+			isPrimary: credit.is_primary,
+			order: credit.order,
+			joinPhrase: credit.join_phrase,
+		}))
+		const primaryCredit =
+			artistCredits.find((credit) => credit.isPrimary) ?? artistCredits[0]
+
+		return {
+			trackId: row.track_id,
+			albumId: row.album_id,
+			playCount: parseInt(row.play_count, 10),
+			metadata: {
+				title: row.title,
+				durationMs: row.duration_ms,
+				isrc: row.isrc,
+				mbid: row.mbid,
+				explicit: row.explicit,
+				primaryArtist: {
+					name: primaryCredit?.name ?? 'Unknown Artist',
+					mbid: primaryCredit?.mbid ?? null,
+				},
+				artistCredits,
+				album: row.album_title
+					? {
+							title: row.album_title,
+							mbid: row.album_mbid,
+							releaseDate: row.album_release_date,
+							imageUrl: row.album_image_url,
+						}
+					: null,
+			},
+		}
+	})
+}
+
+/**
+ * Runs rules against every track in the user's history and collects
+ * the ones that would change
+ */
+async function planRewrites(
+	userId: string,
+	rules: RewriteRule[]
+): Promise<PlannedRewrite[]> {
+	if (rules.length === 0) {
+		return []
+	}
+
+	const planned: PlannedRewrite[] = []
+
+	for (const played of await getPlayedTracks(userId)) {
+		const result = rewriteTrackMetadata(rules, played.metadata)
+		if (result.ruleIds.length === 0) {
+			continue
+		}
+
+		const before = toFields(played.metadata)
+		const base = {
+			track_id: played.trackId,
+			album_id: played.albumId,
+			play_count: played.playCount,
+			before,
+			rule_ids: result.ruleIds,
+		}
+
+		if (result.action === 'ignore') {
+			planned.push({
+				change: {
+					...base,
+					action: 'ignore',
+					after: null,
+					target_track: null,
+				},
+				metadata: null,
+			})
+			continue
+		}
+
+		const targetTrackId = result.metadata.trackId
+		if (targetTrackId) {
+			if (targetTrackId === played.trackId) {
+				continue
+			}
+			planned.push({
+				change: {
+					...base,
+					action: 'map_to_track',
+					after: toFields(result.metadata),
+					target_track: { id: targetTrackId, title: null },
+				},
+				metadata: result.metadata,
+			})
+			continue
+		}
+
+		const after = toFields(result.metadata)
+		if (
+			after.title === before.title &&
+			after.artist === before.artist &&
+			after.album === before.album
+		) {
+			continue
+		}
+
+		planned.push({
+			change: {
+				...base,
+				action: 'rewrite',
+				after,
+				target_track: null,
+			},
+			metadata: result.metadata,
+		})
+	}
+
+	return planned
+}
+
+/**
+ * Shows how rules would change the user's existing scrobbles without
+ * changing anything
+ *
+ * @param userId - User database ID
+ * @param rules - Rules in evaluation order
+ */
+export async function previewRewriteRules(
+	userId: string,
+	rules: RewriteRule[]
+): Promise<RewritePreview> {
+	const planned = await planRewrites(userId, rules)
+	const changes = planned
+		.slice(0, PREVIEW_LIMIT)
+		.map((rewrite) => rewrite.change)
+
+	// Fill in the titles of canonical tracks
+	const targetIds = [
+		...new Set(
+			changes.flatMap((change) =>
+				change.target_track ? [change.target_track.id] : []
+			)
+		),
+	]
+	if (targetIds.length > 0) {
+		const targets = await db
+			.select({ id: tracks.id, title: tracks.title })
+			.from(tracks)
+			.where(inArray(tracks.id, targetIds))
+		const titles = new Map(targets.map((track) => [track.id, track.title]))
+
+		for (const change of changes) {
+			if (change.target_track) {
+				change.target_track.title =
+					titles.get(change.target_track.id) ?? null
+			}
+		}
+	}
+
+	return {
+		affected_tracks: planned.length,
+		affected_scrobbles: planned.reduce(
+			(total, rewrite) => total + rewrite.change.play_count,
+			0
+		),
+		changes,
+	}
+}
+
+/**
+ * Applies rules to the user's existing scrobbles
+ *
+ * @param userId - User database ID
+ * @param rules - Rules in evaluation order
+ */
+export async function applyRewriteRules(
+	userId: string,
+	rules: RewriteRule[]
+): Promise<RewriteApplyResult> {
+	const result: RewriteApplyResult = { moved: 0, deleted: 0 }
+	const planned = await planRewrites(userId, rules)
+
+	for (const { change, metadata } of planned) {
+		const from = { trackId: change.track_id, albumId: change.album_id }
+
+		if (!metadata) {
+			result.deleted += await deleteScrobblesOfTrack(userId, from)
+			continue
+		}
+
+		const to = await db.transaction((tx) =>
+			persistTrackMetadata(metadata, null, tx)
+		)
+		if (to.trackId === from.trackId && to.albumId === from.albumId) {
+			continue
+		}
+
+		result.moved += await reassignScrobbles(userId, from, to)
+	}
+
+	return result
+}
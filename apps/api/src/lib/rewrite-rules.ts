@@ -0,0 +1,442 @@
+/**
+ * Rewrite Rule Service
+ *
+ * Per-user corrections of track metadata, e.g. to fold
+ * "Song - 2011 Remaster" or "Song (feat. X)" into "Song":
+ * - Matching rules on the title, primary artist and album title
+ *   (exact or regex, case-insensitive)
+ * - Renaming a field, stripping a suffix, mapping to a canonical track
+ *   or ignoring the play entirely
+ *
+ * Rules are evaluated in position order and each one sees the metadata
+ * as rewritten by the rules before it. map_to_track and ignore end the
+ * evaluation.
+ *
+ * @module rewrite-rules
+ */
+
+import { and, asc, eq, sql } from 'drizzle-orm'
+import { RE2 } from 're2-wasm'
+import { db } from '../db'
+import { rewrite_rules, tracks } from '@playbacc/types/db/schema'
+import type { ResolvedTrackMetadata } from './scrobbles'
+
+/**
+ * Rewrite rule configuration
+ */
+export const REWRITE_RULE_CONFIG = {
+	/**
+	 * Longest value regex conditions and strip_suffix run against; longer
+	 * values never match. Rules run inside scrobbling, so this bounds the
+	 * time any user's pattern can take.
+	 */
+	maxRegexInputLength: 500,
+}
+
+export type RewriteRule = typeof rewrite_rules.$inferSelect
+
+export type RewriteRuleField = RewriteRule['conditions'][number]['field']
+
+export type RewriteRuleCondition = RewriteRule['conditions'][number]
+
+/**
+ * Fields of a rule a user can set
+ */
+export interface RewriteRuleInput {
+	conditions: RewriteRuleCondition[]
+	action: RewriteRule['action']
+	target_field?: RewriteRuleField | null
+	value?: string | null
+	target_track_id?: string | null
+	position?: number
+	enabled?: boolean
+}
+
+/**
+ * Outcome of running rules against track metadata
+ */
+export type RewriteResult =
+	| {
+			action: 'keep'
+			/** Rewritten metadata (the input if no rule matched) */
+			metadata: ResolvedTrackMetadata
+			/** Rules that matched, in evaluation order */
+			ruleIds: string[]
+	  }
+	| { action: 'ignore'; ruleIds: string[] }
+
+/**
+ * Describes why a regex pattern can't be used in a rule
+ *
+ * @returns An error message, or null if the pattern is usable
+ */
+function patternError(pattern: string): string | null {
+	return compilePattern(pattern)
+		? null
+		: `Invalid regex (lookarounds and backreferences are not supported): ${pattern}`
+}
+
+/**
+ * Compiles a regex pattern the way rules evaluate it. Patterns run on RE2,
+ * which matches in linear time, so no user's pattern can stall scrobbling
+ * by backtracking.
+ *
+ * @returns The regex, or null if the pattern is invalid or uses a feature
+ *   RE2 doesn't support
+ */
+export function compilePattern(pattern: string): RE2 | null {
+	try {
+		return new RE2(pattern, 'iu')
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Compiles a strip_suffix pattern, anchored to the end of the value
+ *
+ * @returns The regex, or null if the pattern is invalid
+ */
+export function compileSuffixPattern(pattern: string): RE2 | null {
+	return compilePattern(`(?:${pattern})$`)
+}
+
+/**
+ * Checks that a rule has what its conditions and action need
+ *
+ * @param input - Rule conditions and action
+ * @returns An error message, or null if the rule is valid
+ */
+export async function validateRewriteRule(
+	input: RewriteRuleInput
+): Promise<string | null> {
+	for (const condition of input.conditions) {
+		const error =
+			condition.match_type === 'regex'
+				? patternError(condition.pattern)
+				: null
+		if (error) {
+			return error
+		}
+	}
+
+	switch (input.action) {
+		case 'rename':
+			if (!input.target_field || !input.value) {
+				return 'rename requires target_field and value'
+			}
+			break
+
+		case 'strip_suffix':
+			if (!input.target_field || !input.value) {
+				return 'strip_suffix requires target_field and value'
+			}
+			if (!compileSuffixPattern(input.value)) {
+				return (
+					patternError(input.value) ?? `Invalid regex: ${input.value}`
+				)
+			}
+			break
+
+		case 'map_to_track': {
+			if (!input.target_track_id) {
+				return 'map_to_track requires target_track_id'
+			}
+			const [track] = await db
+				.select({ id: tracks.id })
+				.from(tracks)
+				.where(eq(tracks.id, input.target_track_id))
+			if (!track) {
+				return 'Track not found'
+			}
+			break
+		}
+	}
+
+	return null
+}
+
+/**
+ * Reads a field from track metadata
+ */
+function getField(
+	metadata: ResolvedTrackMetadata,
+	field: RewriteRuleField
+): string | null {
+	switch (field) {
+		case 'title':
+			return metadata.title
+		case 'artist':
+			return metadata.primaryArtist.name
+		case 'album':
+			return metadata.album?.title ?? null
+	}
+}
+
+/**
+ * Returns a copy of the metadata with one field changed.
+ *
+ * A renamed entity is no longer the one its identifiers point to, so
+ * they are dropped and the entity is matched by name instead.
+ */
+function setField(
+	metadata: ResolvedTrackMetadata,
+	field: RewriteRuleField,
+	value: string
+): ResolvedTrackMetadata {
+	switch (field) {
+		case 'title':
+			return { ...metadata, title: value, isrc: null, mbid: null }
+		case 'artist':
+			return {
+				...metadata,
+				primaryArtist: { name: value, mbid: null },
+				artistCredits: metadata.artistCredits.map((credit) =>
+					credit.isPrimary
+						? {
+								...credit,
+								name: value,
+								mbid: null,
+								spotifyId: null,
+							}
+						: credit
+				),
+			}
+		case 'album':
+			return metadata.album
+				? {
+						...metadata,
+						album: { ...metadata.album, title: value, mbid: null },
+					}
+				: metadata
+	}
+}
+
+/**
+ * Checks whether every condition of a rule matches the metadata
+ */
+function matchesRule(
+	rule: RewriteRule,
+	metadata: ResolvedTrackMetadata
+): boolean {
+	return rule.conditions.every((condition) => {
+		const value = getField(metadata, condition.field)
+		if (value === null) {
+			return false
+		}
+
+		if (condition.match_type === 'exact') {
+			return value.toLowerCase() === condition.pattern.toLowerCase()
+		}
+
+		if (value.length > REWRITE_RULE_CONFIG.maxRegexInputLength) {
+			return false
+		}
+
+		return compilePattern(condition.pattern)?.test(value) ?? false
+	})
+}
+
+/**
+ * Runs rules against resolved track metadata
+ *
+ * @param rules - Enabled rules in evaluation order
+ * @param metadata - Resolved track metadata
+ * @returns Rewritten metadata, or ignore if a rule drops the play
+ */
+export function rewriteTrackMetadata(
+	rules: RewriteRule[],
+	metadata: ResolvedTrackMetadata
+): RewriteResult {
+	let rewritten = metadata
+	const ruleIds: string[] = []
+
+	for (const rule of rules) {
+		if (!matchesRule(rule, rewritten)) {
+			continue
+		}
+
+		ruleIds.push(rule.id)
+
+		switch (rule.action) {
+			case 'ignore':
+				return { action: 'ignore', ruleIds }
+
+			case 'map_to_track':
+				if (rule.target_track_id) {
+					return {
+						action: 'keep',
+						metadata: {
+							...rewritten,
+							trackId: rule.target_track_id,
+						},
+						ruleIds,
+					}
+				}
+				break
+
+			case 'rename':
+				if (rule.target_field && rule.value) {
+					rewritten = setField(
+						rewritten,
+						rule.target_field,
+						rule.value
+					)
+				}
+				break
+
+			case 'strip_suffix': {
+				if (!rule.target_field || !rule.value) {
+					break
+				}
+				const current = getField(rewritten, rule.target_field)
+				if (
+					current === null ||
+					current.length > REWRITE_RULE_CONFIG.maxRegexInputLength
+				) {
+					break
+				}
+				const suffix = compileSuffixPattern(rule.value)
+				if (!suffix) {
+					break
+				}
+				const stripped = current.replace(suffix, '').trim()
+				// Never strip a value down to nothing
+				if (stripped && stripped !== current) {
+					rewritten = setField(rewritten, rule.target_field, stripped)
+				}
+				break
+			}
+		}
+	}
+
+	return { action: 'keep', metadata: rewritten, ruleIds }
+}
+
+/**
+ * Lists the user's rules in evaluation order
+ *
+ * @param userId - User database ID
+ */
+export async function getRewriteRules(userId: string): Promise<RewriteRule[]> {
+	return db
+		.select()
+		.from(rewrite_rules)
+		.where(eq(rewrite_rules.user_id, userId))
+		.orderBy(asc(rewrite_rules.position), asc(rewrite_rules.created_at))
+}
+
+/**
+ * Lists the user's enabled rules in evaluation order
+ *
+ * @param userId - User database ID
+ */
+export async function getEnabledRewriteRules(
+	userId: string
+): Promise<RewriteRule[]> {
+	return db
+		.select()
+		.from(rewrite_rules)
+		.where(
+			and(
+				eq(rewrite_rules.user_id, userId),
+				eq(rewrite_rules.enabled, true)
+			)
+		)
+		.orderBy(asc(rewrite_rules.position), asc(rewrite_rules.created_at))
+}
+
+/**
+ * Fetches one of the user's rules
+ *
+ * @param userId - User database ID
+ * @param ruleId - Rule database ID
+ * @returns The rule, or null if the user has no such rule
+ */
+export async function getRewriteRule(
+	userId: string,
+	ruleId: string
+): Promise<RewriteRule | null> {
+	const [rule] = await db
+		.select()
+		.from(rewrite_rules)
+		.where(
+			and(eq(rewrite_rules.id, ruleId), eq(rewrite_rules.user_id, userId))
+		)
+
+	return rule ?? null
+}
+
+/**
+ * Creates a rule. Without a position it is evaluated after all existing rules.
+ *
+ * @param userId - User database ID
+ * @param input - Rule conditions and action
+ */
+export async function createRewriteRule(
+	userId: string,
+	input: RewriteRuleInput
+): Promise<RewriteRule> {
+	const position =
+		input.position ??
+		(
+			await db
+				.select({
+					next: sql<number>`COALESCE(MAX(${rewrite_rules.position}) + 1, 0)::int`,
+				})
+				.from(rewrite_rules)
+				.where(eq(rewrite_rules.user_id, userId))
+		)[0].next
+
+	const [rule] = await db
+		.insert(rewrite_rules)
+		.values({ ...input, user_id: userId, position })
+		.returning()
+
+	return rule
+}
+
+/**
+ * Updates one of the user's rules
+ *
+ * @param userId - User database ID
+ * @param ruleId - Rule database ID
+ * @param changes - Fields to change
+ * @returns The updated rule, or null if the user has no such rule
+ */
+export async function updateRewriteRule(
+	userId: string,
+	ruleId: string,
+	changes: Partial<RewriteRuleInput>
+): Promise<RewriteRule | null> {
+	const [rule] = await db
+		.update(rewrite_rules)
+		.set({ ...changes, updated_at: new Date() })
+		.where(
+			and(eq(rewrite_rules.id, ruleId), eq(rewrite_rules.user_id, userId))
+		)
+		.returning()
+
+	return rule ?? null
+}
+
+/**
+ * Deletes one of the user's rules. Plays already rewritten stay as they are.
+ *
+ * @param userId - User database ID
+ * @param ruleId - Rule database ID
+ * @returns True if the rule existed and was deleted
+ */
+export async function deleteRewriteRule(
+	userId: string,
+	ruleId: string
+): Promise<boolean> {
+	const deleted = await db
+		.delete(rewrite_rules)
+		.where(
+			and(eq(rewrite_rules.id, ruleId), eq(rewrite_rules.user_id, userId))
+		)
+		.returning({ id: rewrite_rules.id })
+
+	return deleted.length > 0
+}
@@ -0,0 +1,303 @@
+/**
+ * Scrobble Edit Service
+ *
+ * Handles manual corrections of a user's scrobble history:
+ * - Reassigning a scrobble to another track or album, toggling skipped
+ * - Moving all plays of a track to another track (rewrite rules)
+ * - Deleting single scrobbles, all scrobbles in a time range or all plays of a track
+ *
+ * Every change is recorded in scrobble_edits with a snapshot of the
+ * scrobble before (and after) the change.
+ *
+ * @module scrobble-edits
+ */
+
+import { and, desc, eq, sql, type SQL } from 'drizzle-orm'
+import { db } from '../db'
+import {
+	albums,
+	scrobble_edits,
+	scrobbles,
+	tracks,
+} from '@playbacc/types/db/schema'
+
+/**
+ * Fields of a scrobble that can be changed manually
+ */
+export interface ScrobbleChanges {
+	track_id?: string
+	album_id?: string | null
+	skipped?: boolean
+}
+
+type Scrobble = typeof scrobbles.$inferSelect
+
+/**
+ * Outcome of a scrobble update
+ */
+export type ScrobbleUpdateResult =
+	| { ok: true; scrobble: Scrobble }
+	| {
+			ok: false
+			reason:
+				| 'not_found'
+				| 'track_not_found'
+				| 'album_not_found'
+				| 'duplicate'
+	  }
+
+/**
+ * An audit trail entry
+ */
+export interface ScrobbleEdit {
+	id: string
+	scrobble_id: string
+	action: 'update' | 'delete'
+	before: unknown
+	after: unknown
+	created_at: string
+}
+
+/**
+ * Updates one of the user's scrobbles and records the change
+ *
+ * @param userId - User database ID
+ * @param scrobbleId - Scrobble to update
+ * @param changes - New track, album and/or skipped flag
+ * @returns The updated scrobble, or the reason the update was rejected
+ */
+export async function updateScrobble(
+	userId: string,
+	scrobbleId: string,
+	changes: ScrobbleChanges
+): Promise<ScrobbleUpdateResult> {
+	return db.transaction(async (tx) => {
+		const [existing] = await tx
+			.select()
+			.from(scrobbles)
+			.where(
+				and(eq(scrobbles.id, scrobbleId), eq(scrobbles.user_id, userId))
+			)
+			.for('update')
+
+		if (!existing) {
+			return { ok: false, reason: 'not_found' } as const
+		}
+
+		if (
+			changes.track_id !== undefined &&
+			changes.track_id !== existing.track_id
+		) {
+			const [track] = await tx
+				.select({ id: tracks.id })
+				.from(tracks)
+				.where(eq(tracks.id, changes.track_id))
+
+			if (!track) {
+				return { ok: false, reason: 'track_not_found' } as const
+			}
+
+			// Scrobbles are unique per user, track and played_at
+			const [duplicate] = await tx
+				.select({ id: scrobbles.id })
+				.from(scrobbles)
+				.where(
+					and(
+						eq(scrobbles.user_id, userId),
+						eq(scrobbles.track_id, changes.track_id),
+						eq(scrobbles.played_at, existing.played_at)
+					)
+				)
+
+			if (duplicate) {
+				return { ok: false, reason: 'duplicate' } as const
+			}
+		}
+
+		if (changes.album_id) {
+			const [album] = await tx
+				.select({ id: albums.id })
+				.from(albums)
+				.where(eq(albums.id, changes.album_id))
+
+			if (!album) {
+				return { ok: false, reason: 'album_not_found' } as const
+			}
+		}
+
+		const [updated] = await tx
+			.update(scrobbles)
+			.set(changes)
+			.where(eq(scrobbles.id, scrobbleId))
+			.returning()
+
+		await tx.insert(scrobble_edits).values({
+			user_id: userId,
+			scrobble_id: scrobbleId,
+			action: 'update',
+			before: existing,
+			after: updated,
+		})
+
+		return { ok: true, scrobble: updated } as const
+	})
+}
+
+/**
+ * Deletes the user's scrobbles matching a condition and records each
+ * deletion in a single statement
+ *
+ * @returns Number of deleted scrobbles
+ */
+async function deleteScrobblesWhere(
+	userId: string,
+	condition: SQL
+): Promise<number> {
+	const rows = await db.execute<{ id: string }>(sql`
+		WITH deleted AS (
+			DELETE FROM scrobbles s
+			WHERE s.user_id = ${userId}
+				${condition}
+			RETURNING s.*
+		)
+		INSERT INTO scrobble_edits (user_id, scrobble_id, action, before)
+		SELECT d.user_id, d.id, 'delete', to_jsonb(d)
+		FROM deleted d
+		RETURNING id
+	`)
+
+	return rows.length
+}
+
+/**
+ * Deletes one of the user's scrobbles
+ *
+ * @param userId - User database ID
+ * @param scrobbleId - Scrobble to delete
+ * @returns True if the scrobble existed and was deleted
+ */
+export async function deleteScrobble(
+	userId: string,
+	scrobbleId: string
+): Promise<boolean> {
+	const deleted = await deleteScrobblesWhere(
+		userId,
+		sql`AND s.id = ${scrobbleId}`
+	)
+	return deleted > 0
+}
+
+/**
+ * Deletes all of the user's scrobbles played within a time range
+ *
+ * @param userId - User database ID
+ * @param range - Inclusive played_at bounds
+ * @returns Number of deleted scrobbles
+ */
+export async function deleteScrobblesInRange(
+	userId: string,
+	range: { from: Date; to: Date }
+): Promise<number> {
+	return deleteScrobblesWhere(
+		userId,
+		sql`AND s.played_at >= ${range.from.toISOString()} AND s.played_at <= ${range.to.toISOString()}`
+	)
+}
+
+/**
+ * Deletes all of the user's plays of a track on an album
+ *
+ * @param userId - User database ID
+ * @param play - Track and album (null for plays without an album)
+ * @returns Number of deleted scrobbles
+ */
+export async function deleteScrobblesOfTrack(
+	userId: string,
+	play: { trackId: string; albumId: string | null }
+): Promise<number> {
+	return deleteScrobblesWhere(
+		userId,
+		sql`AND s.track_id = ${play.trackId} AND s.album_id IS NOT DISTINCT FROM ${play.albumId}`
+	)
+}
+
+/**
+ * Moves all of the user's plays of a track on an album to another track
+ * and album, recording each change in a single statement.
+ *
+ * Plays that would collide with an existing scrobble of the target track
+ * at the same time are left in place.
+ *
+ * @param userId - User database ID
+ * @param from - Current track and album (null for plays without an album)
+ * @param to - New track and album
+ * @returns Number of moved scrobbles
+ */
+export async function reassignScrobbles(
+	userId: string,
+	from: { trackId: string; albumId: string | null },
+	to: { trackId: string; albumId: string | null }
+): Promise<number> {
+	const rows = await db.execute<{ id: string }>(sql`
+		WITH moved AS (
+			SELECT s.*
+			FROM scrobbles s
+			WHERE s.user_id = ${userId}
+				AND s.track_id = ${from.trackId}
+				AND s.album_id IS NOT DISTINCT FROM ${from.albumId}
+				AND NOT EXISTS (
+					SELECT 1
+					FROM scrobbles d
+					WHERE d.user_id = s.user_id
+						AND d.track_id = ${to.trackId}
+						AND d.played_at = s.played_at
+						AND d.id <> s.id
+				)
+			FOR UPDATE
+		),
+		updated AS (
+			UPDATE scrobbles s
+			SET track_id = ${to.trackId}, album_id = ${to.albumId}
+			FROM moved m
+			WHERE s.id = m.id
+			RETURNING s.*
+		)
+		INSERT INTO scrobble_edits (user_id, scrobble_id, action, before, after)
+		SELECT m.user_id, m.id, 'update', to_jsonb(m), to_jsonb(u)
+		FROM moved m
+		JOIN updated u ON u.id = m.id
+		RETURNING id
+	`)
+
+	return rows.length
+}
+
+/**
+ * Lists the user's scrobble edits, newest first
+ *
+ * @param userId - User database ID
+ * @param page - Page number (1-based)
+ * @param limit - Edits per page
+ */
+export async function getScrobbleEdits(
+	userId: string,
+	page: number,
+	limit: number
+): Promise<ScrobbleEdit[]> {
+	const rows = await db
+		.select()
+		.from(scrobble_edits)
+		.where(eq(scrobble_edits.user_id, userId))
+		.orderBy(desc(scrobble_edits.created_at))
+		.limit(limit)
+		.offset((page - 1) * limit)
+
+	return rows.map((row) => ({
+		id: row.id,
+		scrobble_id: row.scrobble_id,
+		action: row.action,
+		before: row.before,
+		after: row.after,
+		created_at: row.created_at.toISOString(),
+	}))
+}
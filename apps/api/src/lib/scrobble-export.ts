@@ -0,0 +1,268 @@
+/**
+ * Scrobble Export Service
+ *
+ * Produces a user's full listening history in portable formats:
+ * - csv: one row per scrobble with a header row
+ * - json: an array of flat scrobble objects
+ * - listenbrainz: JSON Lines of listens in the ListenBrainz format
+ *
+ * Scrobbles are read in keyset-paginated batches and emitted as text chunks,
+ * so memory use stays constant regardless of history size.
+ *
+ * @module scrobble-export
+ */
+
+import { sql } from 'drizzle-orm'
+import { db } from '../db'
+import type { ListenBrainzListen } from '@playbacc/types/api/listenbrainz'
+
+/**
+ * Export configuration
+ */
+export const EXPORT_CONFIG = {
+	/** Number of scrobbles read from the database per batch */
+	batchSize: 1000,
+}
+
+/** Supported export formats */
+export const EXPORT_FORMATS = ['csv', 'json', 'listenbrainz'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/**
+ * Optional time range (inclusive) to limit the export to
+ */
+export interface ExportRange {
+	from?: Date
+	to?: Date
+}
+
+/**
+ * A single exported scrobble
+ */
+export interface ExportedScrobble {
+	played_at: string
+	played_duration_ms: number
+	skipped: boolean
+	track_name: string
+	track_mbid: string | null
+	isrc: string | null
+	album_name: string | null
+	album_mbid: string | null
+	/** Full artist credit (e.g. "Artist feat. Other") */
+	artist_name: string
+	artist_mbids: string[]
+}
+
+/** Column order of the CSV export */
+const CSV_COLUMNS: Array<keyof ExportedScrobble> = [
+	'played_at',
+	'played_duration_ms',
+	'skipped',
+	'track_name',
+	'track_mbid',
+	'isrc',
+	'album_name',
+	'album_mbid',
+	'artist_name',
+	'artist_mbids',
+]
+
+/**
+ * Raw row of the export query
+ */
+type ScrobbleExportRow = {
+	id: string
+	played_at: string
+	played_duration_ms: number
+	skipped: boolean
+	track_name: string
+	track_mbid: string | null
+	isrc: string | null
+	album_name: string | null
+	album_mbid: string | null
+	artist_name: string | null
+	artist_mbids: string[] | null
+}
+
+/**
+ * Content type and file extension of each export format
+ */
+export const EXPORT_FILE_TYPES: Record<
+	ExportFormat,
+	{ contentType: string; extension: string }
+> = {
+	csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+	json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+	listenbrainz: {
+		contentType: 'application/x-ndjson; charset=utf-8',
+		extension: 'jsonl',
+	},
+}
+
+/**
+ * Reads all scrobbles of a user in played_at order, one batch at a time.
+ * Uses keyset pagination on (played_at, id) so later batches stay fast.
+ */
+async function* readScrobbleBatches(
+	userId: string,
+	range: ExportRange
+): AsyncGenerator<ExportedScrobble[]> {
+	let cursor: { playedAt: Date; id: string } | null = null
+
+	while (true) {
+		const rows: ScrobbleExportRow[] =
+			await db.execute<ScrobbleExportRow>(sql`
+			SELECT
+				s.id,
+				s.played_at,
+				s.played_duration_ms,
+				s.skipped,
+				t.title AS track_name,
+				t.mbid AS track_mbid,
+				t.isrc,
+				al.title AS album_name,
+				al.mbid AS album_mbid,
+				credit.artist_name,
+				credit.artist_mbids
+			FROM scrobbles s
+			JOIN tracks t ON t.id = s.track_id
+			LEFT JOIN albums al ON al.id = s.album_id
+			LEFT JOIN LATERAL (
+				SELECT
+					string_agg(a.name || ta.join_phrase, '' ORDER BY ta."order") AS artist_name,
+					array_remove(array_agg(a.mbid ORDER BY ta."order"), NULL) AS artist_mbids
+				FROM track_artists ta
+				JOIN artists a ON a.id = ta.artist_id
+				WHERE ta.track_id = s.track_id
+			) credit ON true
+			WHERE s.user_id = ${userId}
+				${range.from ? sql`AND s.played_at >= ${range.from.toISOString()}` : sql``}
+				${range.to ? sql`AND s.played_at <= ${range.to.toISOString()}` : sql``}
+				${
+					cursor
+						? sql`AND (s.played_at, s.id) > (${cursor.playedAt.toISOString()}, ${cursor.id})`
+						: sql``
+				}
+			ORDER BY s.played_at, s.id
+			LIMIT ${EXPORT_CONFIG.batchSize}
+		`)
+
+		if (rows.length === 0) {
+			return
+		}
+
+		yield rows.map((row) => ({
+			played_at: new Date(row.played_at).toISOString(),
+			played_duration_ms: row.played_duration_ms,
+			skipped: row.skipped,
+			track_name: row.track_name,
+			track_mbid: row.track_mbid,
+			isrc: row.isrc,
+			album_name: row.album_name,
+			album_mbid: row.album_mbid,
+			artist_name: row.artist_name ?? '',
+			artist_mbids: row.artist_mbids ?? [],
+		}))
+
+		if (rows.length < EXPORT_CONFIG.batchSize) {
+			return
+		}
+
+		const last = rows[rows.length - 1]
+		cursor = { playedAt: new Date(last.played_at), id: last.id }
+	}
+}
+
+/**
+ * Escapes a CSV field (RFC 4180)
+ */
+function escapeCsvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Formats a scrobble as a CSV row (artist MBIDs are separated by ";")
+ */
+function toCsvRow(scrobble: ExportedScrobble): string {
+	return CSV_COLUMNS.map((column) => {
+		const value = scrobble[column]
+		if (Array.isArray(value)) {
+			return escapeCsvField(value.join(';'))
+		}
+		return escapeCsvField(value === null ? '' : String(value))
+	}).join(',')
+}
+
+/**
+ * Converts a scrobble to a ListenBrainz listen.
+ * listened_at is when the play started, played_at when it finished.
+ */
+function toListenBrainzListen(scrobble: ExportedScrobble): ListenBrainzListen {
+	const startedAt =
+		new Date(scrobble.played_at).getTime() - scrobble.played_duration_ms
+
+	return {
+		listened_at: Math.floor(startedAt / 1000),
+		track_metadata: {
+			artist_name: scrobble.artist_name,
+			track_name: scrobble.track_name,
+			...(scrobble.album_name && { release_name: scrobble.album_name }),
+			additional_info: {
+				...(scrobble.track_mbid && {
+					recording_mbid: scrobble.track_mbid,
+				}),
+				...(scrobble.album_mbid && {
+					release_mbid: scrobble.album_mbid,
+				}),
+				...(scrobble.artist_mbids.length > 0 && {
+					artist_mbids: scrobble.artist_mbids,
+				}),
+				...(scrobble.isrc && { isrc: scrobble.isrc }),
+				submission_client: 'Playbacc',
+			},
+		},
+	}
+}
+
+/**
+ * Generates a user's scrobble export as a sequence of text chunks
+ *
+ * @param userId - User database ID
+ * @param format - Export format
+ * @param range - Optional time range to limit the export to
+ */
+export async function* generateScrobbleExport(
+	userId: string,
+	format: ExportFormat,
+	range: ExportRange = {}
+): AsyncGenerator<string> {
+	let isFirst = true
+
+	if (format === 'csv') {
+		yield CSV_COLUMNS.join(',') + '\n'
+	} else if (format === 'json') {
+		yield '['
+	}
+
+	for await (const batch of readScrobbleBatches(userId, range)) {
+		let chunk = ''
+
+		for (const scrobble of batch) {
+			if (format === 'csv') {
+				chunk += toCsvRow(scrobble) + '\n'
+			} else if (format === 'json') {
+				chunk += (isFirst ? '\n' : ',\n') + JSON.stringify(scrobble)
+			} else {
+				chunk += JSON.stringify(toListenBrainzListen(scrobble)) + '\n'
+			}
+			isFirst = false
+		}
+
+		yield chunk
+	}
+
+	if (format === 'json') {
+		yield isFirst ? ']\n' : '\n]\n'
+	}
+}
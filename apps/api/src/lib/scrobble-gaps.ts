@@ -0,0 +1,117 @@
+/**
+ * Scrobble Gap Service
+ *
+ * Keeps track of periods where plays were probably lost:
+ * - Recording gaps detected by the recently-played polling loop
+ * - Listing a user's open gaps
+ * - Resolving gaps once an import covers them, or when dismissed
+ *
+ * @module scrobble-gaps
+ */
+
+import { and, asc, eq, gte, isNull, lte } from 'drizzle-orm'
+import { db } from '../db'
+import { scrobble_gaps } from '@playbacc/types/db/schema'
+import type { Account } from '../types'
+
+export type ScrobbleGap = typeof scrobble_gaps.$inferSelect
+
+/**
+ * Records a gap. A gap starting at the same cursor is only recorded once.
+ *
+ * @param account - Account whose plays were lost
+ * @param gap - Last captured play before and oldest returned play after the gap
+ */
+export async function recordScrobbleGap(
+	account: Account,
+	gap: { start: Date; end: Date }
+): Promise<void> {
+	await db
+		.insert(scrobble_gaps)
+		.values({
+			user_id: account.user_id,
+			provider: account.provider,
+			account_id: account.id,
+			gap_start: gap.start,
+			gap_end: gap.end,
+		})
+		.onConflictDoNothing({
+			target: [scrobble_gaps.account_id, scrobble_gaps.gap_start],
+		})
+}
+
+/**
+ * Lists the user's unresolved gaps, oldest first
+ *
+ * @param userId - User database ID
+ */
+export async function getOpenScrobbleGaps(
+	userId: string
+): Promise<ScrobbleGap[]> {
+	return db
+		.select()
+		.from(scrobble_gaps)
+		.where(
+			and(
+				eq(scrobble_gaps.user_id, userId),
+				isNull(scrobble_gaps.resolved_at)
+			)
+		)
+		.orderBy(asc(scrobble_gaps.gap_start))
+}
+
+/**
+ * Marks one of the user's gaps as resolved without an import
+ *
+ * @param userId - User database ID
+ * @param gapId - Gap database ID
+ * @returns True if an open gap was dismissed
+ */
+export async function dismissScrobbleGap(
+	userId: string,
+	gapId: string
+): Promise<boolean> {
+	const dismissed = await db
+		.update(scrobble_gaps)
+		.set({ resolved_at: new Date() })
+		.where(
+			and(
+				eq(scrobble_gaps.id, gapId),
+				eq(scrobble_gaps.user_id, userId),
+				isNull(scrobble_gaps.resolved_at)
+			)
+		)
+		.returning({ id: scrobble_gaps.id })
+
+	return dismissed.length > 0
+}
+
+/**
+ * Resolves the user's open gaps that lie entirely within an imported
+ * history file
+ *
+ * @param userId - User database ID
+ * @param importId - Completed import
+ * @param range - Oldest and newest play in the imported file
+ * @returns Number of resolved gaps
+ */
+export async function resolveScrobbleGapsCoveredBy(
+	userId: string,
+	importId: string,
+	range: { from: Date; to: Date }
+): Promise<number> {
+	const resolved = await db
+		.update(scrobble_gaps)
+		.set({ resolved_at: new Date(), resolved_by_import_id: importId })
+		.where(
+			and(
+				eq(scrobble_gaps.user_id, userId),
+				isNull(scrobble_gaps.resolved_at),
+				gte(scrobble_gaps.gap_start, range.from),
+				lte(scrobble_gaps.gap_end, range.to)
+			)
+		)
+		.returning({ id: scrobble_gaps.id })
+
+	return resolved.length
+}
@@ -0,0 +1,121 @@
+/**
+ * Scrobble Providers
+ *
+ * Defines what a listening source implements to feed the scrobble worker:
+ * - Listing the accounts to poll
+ * - Authenticating an account (refreshing stored credentials if needed)
+ * - Reporting what is playing right now
+ * - Optionally listing recently finished plays
+ * - Normalizing its tracks into neutral metadata
+ *
+ * The worker, the playback session engine and the recently-played fallback
+ * only work with this interface, so a new source plugs in by adding its
+ * provider to SCROBBLE_PROVIDERS.
+ *
+ * @module scrobble-providers
+ */
+
+import type { Account, AccountProvider } from '../types'
+import type { SpotifyTrackInput } from './scrobbles'
+import { spotifyProvider } from './spotify-provider'
+import { subsonicProvider } from './subsonic-provider'
+import { jellyfinProvider } from './jellyfin-provider'
+
+/**
+ * Provider-neutral track metadata.
+ * Artist and album IDs are Spotify IDs; other providers leave them unset.
+ * Providers that don't know the album leave its name empty.
+ */
+export type NormalizedTrack = SpotifyTrackInput
+
+/**
+ * A finished play reported by a provider
+ */
+export interface ProviderPlay<TTrack = NormalizedTrack> {
+	/** When the play finished */
+	playedAt: Date
+	track: TTrack
+}
+
+/**
+ * What a provider reports as playing right now
+ */
+export interface ProviderPlayback<TTrack = NormalizedTrack> {
+	/** Stable identifier of the track, used to detect track changes */
+	uri: string
+	track: TTrack
+	/** Position in the track (ms) */
+	progressMs: number
+	/** False while paused */
+	isPlaying: boolean
+}
+
+/**
+ * A listening source the scrobble worker can poll
+ */
+export interface ScrobbleProvider<TTrack = unknown> {
+	/** Provider recorded on accounts, sessions and scrobbles */
+	readonly name: AccountProvider
+	/** Most plays one getRecentlyPlayed call returns (a full page may mean plays were lost) */
+	readonly recentlyPlayedLimit?: number
+
+	/** Lists the accounts to poll */
+	getAccounts(): Promise<Account[]>
+
+	/**
+	 * Returns a credential for API calls, refreshing and persisting the
+	 * account's tokens if needed
+	 *
+	 * @returns The credential, or null if the account can't be used
+	 */
+	authenticate(account: Account): Promise<string | null>
+
+	/**
+	 * Fetches what the account is playing
+	 *
+	 * @returns Current playback, or null if nothing is playing
+	 */
+	getCurrentlyPlaying(
+		account: Account,
+		credential: string
+	): Promise<ProviderPlayback<TTrack> | null>
+
+	/**
+	 * Fetches plays finished after a cursor, oldest first.
+	 * Providers without a play history leave this out and are only
+	 * scrobbled through currently-playing sessions.
+	 *
+	 * @param after - Cursor (null for the initial fetch)
+	 */
+	getRecentlyPlayed?(
+		account: Account,
+		credential: string,
+		after: Date | null
+	): Promise<ProviderPlay<TTrack>[]>
+
+	/** Converts a provider track into neutral metadata */
+	normalizeTrack(track: TTrack): NormalizedTrack
+}
+
+/**
+ * Providers polled by the scrobble worker
+ */
+export const SCROBBLE_PROVIDERS: ScrobbleProvider[] = [
+	spotifyProvider,
+	subsonicProvider,
+	jellyfinProvider,
+]
+
+/**
+ * Returns the access token to fetch Spotify artist images with.
+ * Only Spotify credentials work against the Spotify API.
+ *
+ * @param provider - Provider the credential belongs to
+ * @param credential - Credential returned by provider.authenticate
+ */
+export function getSpotifyAccessToken(
+	provider: ScrobbleProvider,
+	credential: string
+): string | null {
+	return provider.name === 'spotify' ? credential : null
+}
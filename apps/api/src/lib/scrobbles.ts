@@ -2,7 +2,7 @@
  * Scrobble Service
  *
  * Handles the core scrobbling logic:
- * - Fetching listening history from Spotify
+ * - Fetching listening history from scrobble providers
  * - Filtering plays by minimum duration threshold
  * - Resolving metadata via MusicBrainz
  * - Persisting tracks, artists, albums, and scrobbles to the database
@@ -13,7 +13,6 @@
 import { db, type DbClient } from '../db'
 import { eq, and } from 'drizzle-orm'
 import {
-	accounts,
 	artists,
 	albums,
 	tracks,
@@ -22,18 +21,18 @@ import {
 	scrobbles,
 	scrobble_state,
 } from '@playbacc/types/db/schema'
-import {
-	getRecentlyPlayedTracks,
-	getValidAccessToken,
-	calculateExpiresAt,
-	getArtist,
-	type SpotifyAccount,
-	type RecentlyPlayedItem,
-	type SpotifyTrack,
-} from './spotify'
+import { calculateExpiresAt, getArtist, type SpotifyTrack } from './spotify'
 import { MusicBrainzCache } from './musicbrainz'
-import { enqueueJob } from './mb-enrichment-queue'
+import { enqueueJobs, type MbEnrichmentJobType } from './mb-enrichment-queue'
+import { getEnabledRewriteRules, rewriteTrackMetadata } from './rewrite-rules'
+import { recordScrobbleGap } from './scrobble-gaps'
 import type { MusicBrainzRecordingDetails } from '@playbacc/types/api/musicbrainz'
+import {
+	getSpotifyAccessToken,
+	type ProviderPlay,
+	type ScrobbleProvider,
+} from './scrobble-providers'
+import type { Account, AccountProvider } from '../types'
 
 /**
  * Configuration for the scrobble service
@@ -43,8 +42,10 @@ export const SCROBBLE_CONFIG = {
 	minPlaySeconds: parseInt(process.env.SCROBBLE_MIN_PLAY_SECONDS || '30', 10),
 	/** Minimum percentage of track duration to count as a scrobble (0-100) */
 	minPlayPercent: parseInt(process.env.SCROBBLE_MIN_PLAY_PERCENT || '50', 10),
-	/** Maximum items to fetch per Spotify API call */
-	spotifyFetchLimit: 50,
+	/** Slack between the cursor and the oldest fetched play before it counts as a gap (ms) */
+	gapToleranceMs: 60 * 1000,
+	/** Longest play assumed for a play that started at a known time but has no duration (ms) */
+	maxUnknownPlayMs: 10 * 60 * 1000,
 }
 
 /**
@@ -73,11 +74,11 @@ export function meetsScrobbleThreshold(
 }
 
 /**
- * Represents a processed play event from Spotify
+ * Represents a processed play event from a provider's recently-played list
  */
 export interface ProcessedPlayEvent {
-	/** Original Spotify play data */
-	spotifyItem: RecentlyPlayedItem
+	/** Finished play with normalized track metadata */
+	play: ProviderPlay
 	/** Parsed played_at timestamp */
 	playedAt: Date
 	/** Estimated duration the user actually played (ms) */
@@ -92,8 +93,8 @@ export interface ProcessedPlayEvent {
 export interface ResolvedTrackMetadata {
 	/** Track title (prefer MusicBrainz, fallback to Spotify) */
 	title: string
-	/** Track duration in ms */
-	durationMs: number
+	/** Track duration in ms (null if unknown) */
+	durationMs: number | null
 	/** ISRC code if available */
 	isrc: string | null
 	/** MusicBrainz recording ID if resolved */
@@ -121,60 +122,47 @@ export interface ResolvedTrackMetadata {
 		releaseDate: string | null
 		imageUrl: string | null
 	} | null
+	/** Existing track to scrobble instead of matching one (set by map_to_track rewrite rules) */
+	trackId?: string
 }
 
 /**
- * Fetches all Spotify accounts eligible for scrobbling
+ * Gets the scrobble cursor state for an account
  *
- * @returns Array of accounts with refresh tokens
- */
-export async function getEligibleAccounts(): Promise<SpotifyAccount[]> {
-	const result = await db.query.accounts.findMany({
-		where: (accounts, { eq, isNotNull }) =>
-			and(
-				eq(accounts.provider, 'spotify'),
-				isNotNull(accounts.refresh_token)
-			),
-	})
-
-	return result as SpotifyAccount[]
-}
-
-/**
- * Gets the scrobble cursor state for a user
- *
- * @param userId - User ID
+ * @param accountId - Account database ID
  * @returns Last played_at timestamp or null if never scrobbled
  */
-export async function getScrobbleState(userId: string): Promise<Date | null> {
+export async function getScrobbleState(
+	accountId: string
+): Promise<Date | null> {
 	const state = await db.query.scrobble_state.findFirst({
-		where: (state, { eq, and }) =>
-			and(eq(state.user_id, userId), eq(state.provider, 'spotify')),
+		where: (state, { eq }) => eq(state.account_id, accountId),
 	})
 
 	return state?.last_played_at ?? null
 }
 
 /**
- * Updates the scrobble cursor state for a user
+ * Updates the scrobble cursor state for an account
  *
- * @param userId - User ID
+ * @param account - Account the cursor belongs to
  * @param lastPlayedAt - New cursor position
  */
 export async function updateScrobbleState(
-	userId: string,
+	account: Account,
 	lastPlayedAt: Date
 ): Promise<void> {
 	await db
 		.insert(scrobble_state)
 		.values({
-			user_id: userId,
-			provider: 'spotify',
+			user_id: account.user_id,
+			provider: account.provider,
+			account_id: account.id,
 			last_played_at: lastPlayedAt,
 			updated_at: new Date(),
 		})
 		.onConflictDoUpdate({
-			target: [scrobble_state.user_id, scrobble_state.provider],
+			target: [scrobble_state.account_id],
 			set: {
 				last_played_at: lastPlayedAt,
 				updated_at: new Date(),
@@ -183,71 +171,62 @@ export async function updateScrobbleState(
 }
 
 /**
- * Fetches new plays from Spotify since the last cursor position
+ * Detects plays lost between the cursor and the fetched plays.
+ *
+ * Providers only return a limited number of recent plays (Spotify: the last
+ * 50). If a full page comes back and even its oldest play started well after
+ * the cursor, the plays in between are out of reach (e.g. the worker was down).
  *
- * @param accessToken - Valid Spotify access token
- * @param afterTimestamp - Fetch plays after this timestamp (null for initial fetch)
- * @returns Array of recently played items, sorted ascending by played_at
+ * @param lastPlayedAt - Scrobble cursor (null for the initial fetch)
+ * @param items - Fetched plays, sorted ascending by playedAt
+ * @param pageLimit - Most plays the provider returns per fetch
+ * @returns The unrecoverable period, or null if nothing was lost
  */
-export async function fetchNewSpotifyPlays(
-	accessToken: string,
-	afterTimestamp: Date | null
-): Promise<RecentlyPlayedItem[]> {
-	const allItems: RecentlyPlayedItem[] = []
-
-	// Convert timestamp to Spotify's expected format (Unix ms)
-	const afterMs = afterTimestamp
-		? afterTimestamp.getTime().toString()
-		: undefined
-
-	try {
-		// Fetch first page
-		const response = await getRecentlyPlayedTracks(accessToken, {
-			limit: SCROBBLE_CONFIG.spotifyFetchLimit,
-			after: afterMs,
-		})
+export function detectScrobbleGap(
+	lastPlayedAt: Date | null,
+	items: ProviderPlay[],
+	pageLimit: number
+): { start: Date; end: Date } | null {
+	// A partial page means the provider returned every play since the cursor
+	if (!lastPlayedAt || items.length < pageLimit) {
+		return null
+	}
 
-		allItems.push(...response.items)
+	const oldest = items[0]
+	const oldestPlayedAt = oldest.playedAt
+	// playedAt is when the play finished
+	const oldestStartedAt = oldestPlayedAt.getTime() - oldest.track.duration_ms
 
-		// Note: Spotify's recently-played endpoint doesn't support true pagination
-		// for historical data. It only returns up to 50 most recent items.
-		// We don't need to paginate further as each poll will catch new plays.
-	} catch (error) {
-		console.error('[Scrobble] Error fetching Spotify plays:', error)
-		throw error
+	if (
+		oldestStartedAt - lastPlayedAt.getTime() <=
+		SCROBBLE_CONFIG.gapToleranceMs
+	) {
+		return null
 	}
 
-	// Sort ascending by played_at (oldest first) for proper duration estimation
-	allItems.sort(
-		(a, b) =>
-			new Date(a.played_at).getTime() - new Date(b.played_at).getTime()
-	)
-
-	return allItems
+	return { start: lastPlayedAt, end: oldestPlayedAt }
 }
 
 /**
- * Processes raw Spotify play events into structured data with duration estimates.
+ * Processes finished plays into structured data with duration estimates.
  *
  * Duration estimation logic:
  * - If there's a subsequent play, duration = min(track_duration, time_until_next_play)
  * - If it's the last play, assume full track duration
  *
- * @param items - Raw Spotify play items (must be sorted ascending by played_at)
+ * @param items - Normalized plays (must be sorted ascending by playedAt)
  * @returns Processed play events with duration estimates
  */
-export function processPlayEvents(
-	items: RecentlyPlayedItem[]
-): ProcessedPlayEvent[] {
+export function processPlayEvents(items: ProviderPlay[]): ProcessedPlayEvent[] {
 	return items.map((item, index) => {
-		const playedAt = new Date(item.played_at)
+		const playedAt = item.playedAt
 		const trackDurationMs = item.track.duration_ms
 
 		let estimatedDurationMs: number
 
 		if (index < items.length - 1) {
 			// There's a next play - estimate duration as time until next play
-			const nextPlayedAt = new Date(items[index + 1].played_at)
+			const nextPlayedAt = items[index + 1].playedAt
 			const timeBetweenPlays = nextPlayedAt.getTime() - playedAt.getTime()
 			estimatedDurationMs = Math.min(trackDurationMs, timeBetweenPlays)
 		} else {
@@ -256,7 +235,7 @@ export function processPlayEvents(
 		}
 
 		return {
-			spotifyItem: item,
+			play: item,
 			playedAt,
 			estimatedDurationMs,
 			meetsThreshold: meetsScrobbleThreshold(
@@ -342,21 +321,21 @@ async function findExistingTrackByIsrc(isrc: string): Promise<{
  * Converts existing track data from DB to ResolvedTrackMetadata format.
  *
  * @param existing - Existing track data from database
- * @param spotifyItem - Original Spotify item (for album image fallback)
+ * @param spotifyTrack - Played track (for artist and album fallback)
  * @returns ResolvedTrackMetadata
  */
 function existingTrackToMetadata(
 	existing: NonNullable<Awaited<ReturnType<typeof findExistingTrackByIsrc>>>,
-	spotifyItem: RecentlyPlayedItem
+	spotifyTrack: SpotifyTrackInput
 ): ResolvedTrackMetadata {
 	const { track, trackArtists, album } = existing
-	const spotifyAlbum = spotifyItem.track.album
+	const spotifyAlbum = spotifyTrack.album
 
 	const artistCredits: ResolvedTrackMetadata['artistCredits'] =
 		trackArtists.map((ta, index) => ({
 			name: ta.artist.name,
 			mbid: ta.artist.mbid,
-			spotifyId: spotifyItem.track.artists[index]?.id ?? null,
+			spotifyId: spotifyTrack.artists[index]?.id ?? null,
 			isPrimary: ta.isPrimary,
 			order: ta.order,
 			joinPhrase: ta.joinPhrase,
@@ -364,15 +343,14 @@ function existingTrackToMetadata(
 
 	// If no artists found in DB, use Spotify data
 	if (artistCredits.length === 0) {
-		spotifyItem.track.artists.forEach((artist, index) => {
+		spotifyTrack.artists.forEach((artist, index) => {
 			artistCredits.push({
 				name: artist.name,
 				mbid: null,
 				spotifyId: artist.id ?? null,
 				isPrimary: index === 0,
 				order: index,
-				joinPhrase:
-					index < spotifyItem.track.artists.length - 1 ? ', ' : '',
+				joinPhrase: index < spotifyTrack.artists.length - 1 ? ', ' : '',
 			})
 		})
 	}
@@ -385,7 +363,7 @@ function existingTrackToMetadata(
 			releaseDate: album.release_date,
 			imageUrl: album.image_url, // Already from MB/CAA, no Spotify fallback
 		}
-	} else if (spotifyAlbum) {
+	} else if (spotifyAlbum?.name) {
 		// Use Spotify album data if not in DB, but no image (MB-only policy)
 		albumInfo = {
 			title: spotifyAlbum.name,
@@ -397,7 +375,7 @@ function existingTrackToMetadata(
 
 	return {
 		title: track.title,
-		durationMs: track.duration_ms ?? spotifyItem.track.duration_ms,
+		durationMs: track.duration_ms ?? spotifyTrack.duration_ms,
 		isrc: track.isrc,
 		mbid: track.mbid,
 		explicit: track.explicit,
@@ -410,134 +388,6 @@ function existingTrackToMetadata(
 	}
 }
 
-/**
- * Resolves track metadata, first checking the database, then MusicBrainz.
- * This optimization skips expensive MusicBrainz API calls for tracks
- * that have already been scrobbled.
- *
- * @param event - Processed play event
- * @param cache - MusicBrainz cache instance
- * @returns Resolved metadata (may contain null MBIDs if not found)
- */
-export async function resolveTrackMetadata(
-	event: ProcessedPlayEvent,
-	cache: MusicBrainzCache
-): Promise<ResolvedTrackMetadata> {
-	const spotifyTrack = event.spotifyItem.track
-	const spotifyAlbum = spotifyTrack.album
-	const isrc = spotifyTrack.external_ids?.isrc ?? null
-	const primaryArtistName = spotifyTrack.artists[0]?.name ?? 'Unknown Artist'
-
-	// OPTIMIZATION: Check if track already exists in database by ISRC
-	// This avoids MusicBrainz API calls for tracks we've already resolved
-	if (isrc) {
-		const existing = await findExistingTrackByIsrc(isrc)
-		if (existing) {
-			return existingTrackToMetadata(existing, event.spotifyItem)
-		}
-	}
-
-	// Track not in DB, resolve via MusicBrainz
-	let mbRecording: MusicBrainzRecordingDetails | null = null
-	let recordingMbid: string | null = null
-
-	// Try ISRC lookup first (most reliable)
-	if (isrc) {
-		recordingMbid = await cache.lookupByIsrc(isrc)
-	}
-
-	// Fallback to search if ISRC lookup failed
-	if (!recordingMbid) {
-		recordingMbid = await cache.searchRecordingCached(
-			spotifyTrack.name,
-			primaryArtistName,
-			spotifyAlbum?.name
-		)
-	}
-
-	// Get full recording details if we have an MBID
-	if (recordingMbid) {
-		mbRecording = await cache.getDetailsCached(recordingMbid)
-	}
-
-	// Build artist credits from MusicBrainz or Spotify data
-	const artistCredits: ResolvedTrackMetadata['artistCredits'] = []
-
-	if (mbRecording?.['artist-credit']) {
-		mbRecording['artist-credit'].forEach((credit, index) => {
-			// Try to match with Spotify artist by name to get spotifyId
-			const spotifyArtist =
-				spotifyTrack.artists.find(
-					(a) =>
-						a.name.toLowerCase() ===
-						(credit.name ?? credit.artist.name ?? '').toLowerCase()
-				) ?? spotifyTrack.artists[index]
-			artistCredits.push({
-				name: credit.name ?? credit.artist.name ?? 'Unknown',
-				mbid: credit.artist.id,
-				spotifyId: spotifyArtist?.id ?? null,
-				isPrimary: index === 0,
-				order: index,
-				joinPhrase: credit.joinphrase ?? '',
-			})
-		})
-	} else {
-		// Fallback to Spotify artist data
-		spotifyTrack.artists.forEach((artist, index) => {
-			artistCredits.push({
-				name: artist.name,
-				mbid: null,
-				spotifyId: artist.id ?? null,
-				isPrimary: index === 0,
-				order: index,
-				joinPhrase: index < spotifyTrack.artists.length - 1 ? ', ' : '',
-			})
-		})
-	}
-
-	// Build album info (using MusicBrainz/Cover Art Archive only, no Spotify images)
-	let albumInfo: ResolvedTrackMetadata['album'] = null
-	if (spotifyAlbum) {
-		// Try to find album MBID from MusicBrainz recording releases
-		let albumMbid: string | null = null
-		let albumCoverUrl: string | null = null
-
-		if (mbRecording?.releases && mbRecording.releases.length > 0) {
-			// Prefer official album releases
-			const officialRelease = mbRecording.releases.find(
-				(r) => r.status === 'Official'
-			)
-			albumMbid = officialRelease?.id ?? mbRecording.releases[0].id
-
-			// Fetch cover art from Cover Art Archive (MB-only, no Spotify)
-			if (albumMbid) {
-				albumCoverUrl = await cache.getReleaseCoverUrlCached(albumMbid)
-			}
-		}
-
-		albumInfo = {
-			title: spotifyAlbum.name,
-			mbid: albumMbid,
-			releaseDate: spotifyAlbum.release_date ?? null,
-			imageUrl: albumCoverUrl,
-		}
-	}
-
-	return {
-		title: mbRecording?.title ?? spotifyTrack.name,
-		durationMs: mbRecording?.length ?? spotifyTrack.duration_ms,
-		isrc,
-		mbid: recordingMbid,
-		explicit: spotifyTrack.explicit,
-		primaryArtist: {
-			name: artistCredits[0]?.name ?? primaryArtistName,
-			mbid: artistCredits[0]?.mbid ?? null,
-		},
-		artistCredits,
-		album: albumInfo,
-	}
-}
-
 /**
  * Input type for resolveTrackMetadataFromSpotify.
  * Matches the shape of SpotifyTrack but with only the fields we need.
@@ -558,14 +408,36 @@ export interface SpotifyTrackInput {
 }
 
 /**
- * Resolves track metadata from a Spotify track object (e.g., from currently-playing).
- * Similar to resolveTrackMetadata but takes a SpotifyTrack directly instead of ProcessedPlayEvent.
+ * Resolves track metadata from a Spotify track object or normalized provider track.
+ *
+ * When a user is given, their rewrite rules are applied to the resolved
+ * metadata before anything is upserted.
  *
  * @param spotifyTrack - Spotify track data
  * @param cache - MusicBrainz cache instance
- * @returns Resolved metadata (may contain null MBIDs if not found)
+ * @param userId - User whose rewrite rules apply (omit to skip rules)
+ * @returns Resolved metadata (may contain null MBIDs if not found), or null if a rule ignores the play
  */
 export async function resolveTrackMetadataFromSpotify(
+	spotifyTrack: SpotifyTrackInput,
+	cache: MusicBrainzCache,
+	userId: string | null = null
+): Promise<ResolvedTrackMetadata | null> {
+	const metadata = await resolveSpotifyTrack(spotifyTrack, cache)
+	if (!userId) {
+		return metadata
+	}
+
+	const rules = await getEnabledRewriteRules(userId)
+	const result = rewriteTrackMetadata(rules, metadata)
+	return result.action === 'ignore' ? null : result.metadata
+}
+
+/**
+ * Resolves track metadata from a Spotify track object, first checking the
+ * database by ISRC, then MusicBrainz
+ */
+async function resolveSpotifyTrack(
 	spotifyTrack: SpotifyTrackInput,
 	cache: MusicBrainzCache
 ): Promise<ResolvedTrackMetadata> {
@@ -577,30 +449,7 @@ export async function resolveTrackMetadataFromSpotify(
 	if (isrc) {
 		const existing = await findExistingTrackByIsrc(isrc)
 		if (existing) {
-			// Convert existing to metadata format
-			// We need to create a minimal spotifyItem for the helper function
-			const fakeItem: RecentlyPlayedItem = {
-				track: {
-					id: spotifyTrack.id,
-					name: spotifyTrack.name,
-					duration_ms: spotifyTrack.duration_ms,
-					explicit: spotifyTrack.explicit,
-					artists: spotifyTrack.artists.map((a) => ({
-						id: (a as { id?: string }).id ?? '',
-						name: a.name,
-					})),
-					album: {
-						id: (spotifyAlbum as { id?: string }).id ?? '',
-						name: spotifyAlbum.name,
-						images: spotifyAlbum.images,
-						release_date: spotifyAlbum.release_date,
-						artists: [],
-					},
-					external_ids: spotifyTrack.external_ids,
-				},
-				played_at: new Date().toISOString(),
-			}
-			return existingTrackToMetadata(existing, fakeItem)
+			return existingTrackToMetadata(existing, spotifyTrack)
 		}
 	}
 
@@ -664,7 +513,7 @@ export async function resolveTrackMetadataFromSpotify(
 
 	// Build album info (using MusicBrainz/Cover Art Archive only, no Spotify images)
 	let albumInfo: ResolvedTrackMetadata['album'] = null
-	if (spotifyAlbum) {
+	if (spotifyAlbum?.name) {
 		// Try to find album MBID from MusicBrainz recording releases
 		let albumMbid: string | null = null
 		let albumCoverUrl: string | null = null
@@ -706,20 +555,89 @@ export async function resolveTrackMetadataFromSpotify(
 }
 
 /**
- * Enqueues an artist relationship sync job for background processing.
+ * Track information submitted by a scrobbling client or read from an export
+ * file, without Spotify catalog data
+ */
+export interface SubmittedTrack {
+	title: string
+	/** Artist credit as a single string (e.g. "Artist feat. Other") */
+	artist: string
+	album: string | null
+	/** Track duration in ms if reported */
+	durationMs: number | null
+	/** MusicBrainz recording ID */
+	mbid: string | null
+	/** MusicBrainz artist ID (only if the credit is a single artist) */
+	artistMbid: string | null
+	/** MusicBrainz release ID */
+	albumMbid: string | null
+	isrc: string | null
+}
+
+/**
+ * Builds track metadata from submitted track information.
+ * Supplied MBIDs are used as-is instead of searching MusicBrainz; tracks created
+ * this way are enriched later by the MusicBrainz worker.
+ *
+ * @param track - Submitted track information
+ * @returns Metadata ready for persistScrobbleFromMetadata
+ */
+export function submittedTrackToMetadata(
+	track: SubmittedTrack
+): ResolvedTrackMetadata {
+	return {
+		title: track.title,
+		durationMs: track.durationMs,
+		isrc: track.isrc,
+		mbid: track.mbid,
+		explicit: false,
+		primaryArtist: {
+			name: track.artist,
+			mbid: track.artistMbid,
+		},
+		artistCredits: [
+			{
+				name: track.artist,
+				mbid: track.artistMbid,
+				spotifyId: null,
+				isPrimary: true,
+				order: 0,
+				joinPhrase: '',
+			},
+		],
+		album: track.album
+			? {
+					title: track.album,
+					mbid: track.albumMbid,
+					releaseDate: null,
+					imageUrl: null,
+				}
+			: null,
+	}
+}
+
+/**
+ * Enqueues artist relationship and genre sync jobs for background processing.
  * The actual sync is performed by the MusicBrainz enrichment worker.
  *
  * @param artistId - Artist database ID
  */
 function enqueueArtistSync(artistId: string): void {
 	// Fire-and-forget: don't await, just log errors
-	enqueueJob({
-		jobType: 'artist.sync_relationships',
-		entityType: 'artist',
-		entityId: artistId,
-		priority: 1, // Higher priority for newly created/updated artists
-	})
-		.then((result) => {
+	enqueueJobs([
+		{
+			jobType: 'artist.sync_relationships',
+			entityType: 'artist',
+			entityId: artistId,
+			priority: 1, // Higher priority for newly created/updated artists
+		},
+		{
+			jobType: 'artist.sync_genres',
+			entityType: 'artist',
+			entityId: artistId,
+		},
+	])
+		.then(([result]) => {
 			if (result.created) {
 				console.log(`[Scrobble] Enqueued artist sync job: ${artistId}`)
 			}
@@ -730,6 +648,34 @@ function enqueueArtistSync(artistId: string): void {
 		})
 }
 
+/**
+ * Enqueues MusicBrainz enrichment for a track created without catalog data.
+ * Tracks with an MBID are synced (duration, ISRC, genres); others get their MBID
+ * resolved, which queues the genre sync once it's found.
+ *
+ * @param trackId - Track database ID
+ * @param hasMbid - Whether the track already has an MBID
+ */
+function enqueueTrackEnrichment(trackId: string, hasMbid: boolean): void {
+	const jobTypes: MbEnrichmentJobType[] = hasMbid
+		? ['track.sync', 'track.sync_genres']
+		: ['track.resolve_mbid']
+
+	// Fire-and-forget: don't await, just log errors
+	enqueueJobs(
+		jobTypes.map((jobType) => ({
+			jobType,
+			entityType: 'track' as const,
+			entityId: trackId,
+		}))
+	).catch((error) => {
+		console.error(
+			`[Scrobble] Failed to enqueue track enrichment for ${trackId}:`,
+			error
+		)
+	})
+}
+
 /**
  * Upserts an artist into the database.
  * Triggers auto-sync of MusicBrainz relationships when:
@@ -883,6 +829,10 @@ async function upsertTrack(
 	metadata: ResolvedTrackMetadata,
 	tx: DbClient = db
 ): Promise<string> {
+	if (metadata.trackId) {
+		return metadata.trackId
+	}
+
 	// Try to find existing track by ISRC (most reliable identifier)
 	if (metadata.isrc) {
 		const existing = await tx.query.tracks.findFirst({
@@ -910,6 +860,32 @@ async function upsertTrack(
 		}
 	}
 
+	// Without any identifier, match by title and primary artist name
+	// so repeated plays don't each create a new track
+	if (!metadata.isrc && !metadata.mbid) {
+		const [existing] = await tx
+			.select({ id: tracks.id })
+			.from(tracks)
+			.innerJoin(
+				track_artists,
+				and(
+					eq(track_artists.track_id, tracks.id),
+					eq(track_artists.is_primary, true)
+				)
+			)
+			.innerJoin(artists, eq(artists.id, track_artists.artist_id))
+			.where(
+				and(
+					eq(tracks.title, metadata.title),
+					eq(artists.name, metadata.primaryArtist.name)
+				)
+			)
+			.limit(1)
+		if (existing) {
+			return existing.id
+		}
+	}
+
 	// Create new track
 	const [newTrack] = await tx
 		.insert(tracks)
@@ -922,6 +898,11 @@ async function upsertTrack(
 		})
 		.returning()
 
+	// Submitted metadata has no duration; let the MusicBrainz worker fill it in
+	if (metadata.durationMs === null) {
+		enqueueTrackEnrichment(newTrack.id, metadata.mbid !== null)
+	}
+
 	return newTrack.id
 }
 
@@ -1012,23 +993,28 @@ const DEDUPE_WINDOW_MS = 10 * 60 * 1000 // 10 minutes
  * @param trackId - Track database ID
  * @param playedAt - Timestamp to check around
  * @param tx - Optional transaction client (defaults to db)
+ * @param excludeImportId - Ignore scrobbles created by this import
  * @returns True if a similar scrobble exists
  */
 async function hasExistingScrobbleInWindow(
 	userId: string,
 	trackId: string,
 	playedAt: Date,
-	tx: DbClient = db
+	tx: DbClient = db,
+	excludeImportId: string | null = null
 ): Promise<boolean> {
 	const windowStart = new Date(playedAt.getTime() - DEDUPE_WINDOW_MS)
 	const windowEnd = new Date(playedAt.getTime() + DEDUPE_WINDOW_MS)
 
 	const existing = await tx.query.scrobbles.findFirst({
-		where: (s, { eq, and, between }) =>
+		where: (s, { eq, ne, and, or, between, isNull }) =>
 			and(
 				eq(s.user_id, userId),
 				eq(s.track_id, trackId),
-				between(s.played_at, windowStart, windowEnd)
+				between(s.played_at, windowStart, windowEnd),
+				excludeImportId
+					? or(isNull(s.import_id), ne(s.import_id, excludeImportId))
+					: undefined
 			),
 	})
 
@@ -1044,18 +1030,27 @@ async function hasExistingScrobbleInWindow(
  * @param event - Processed play event
  * @param metadata - Resolved track metadata
  * @param accessToken - Spotify access token (for fetching artist images on new artist creation)
+ * @param accountId - Linked account the play was fetched from
+ * @param provider - Source of the play
  * @returns True if scrobble was inserted, false if duplicate
  */
 export async function persistScrobble(
 	userId: string,
 	event: ProcessedPlayEvent,
 	metadata: ResolvedTrackMetadata,
-	accessToken: string | null = null
+	accessToken: string | null = null,
+	accountId: string | null = null,
+	provider: AccountProvider = 'spotify'
 ): Promise<boolean> {
 	try {
 		return await db.transaction(async (tx) => {
-			// Upsert track first so we have the trackId for dedupe check
-			const trackId = await upsertTrack(metadata, tx)
+			// Track, artists and album are upserted and linked even if the
+			// scrobble turns out to be a duplicate (in case they weren't before)
+			const { trackId, albumId } = await persistTrackMetadata(
+				metadata,
+				accessToken,
+				tx
+			)
 
 			// Check for existing scrobble in dedupe window
 			// This prevents duplicates when currently-playing already scrobbled this track
@@ -1067,72 +1062,9 @@ export async function persistScrobble(
 			)
 
 			if (isDuplicate) {
-				// Still link track to artists/albums even if scrobble is duplicate
-				// (in case they weren't linked before)
-				await linkTrackArtists(
-					trackId,
-					metadata.artistCredits,
-					accessToken,
-					tx
-				)
-				if (metadata.album) {
-					// Find primary artist spotifyId from artistCredits
-					const primaryCredit = metadata.artistCredits.find(
-						(c) => c.isPrimary
-					)
-					const primaryArtistId = await upsertArtist(
-						metadata.primaryArtist.name,
-						metadata.primaryArtist.mbid,
-						primaryCredit?.spotifyId ?? null,
-						accessToken,
-						tx
-					)
-					const albumId = await upsertAlbum(
-						metadata.album.title,
-						primaryArtistId,
-						metadata.album.mbid,
-						metadata.album.releaseDate,
-						metadata.album.imageUrl,
-						tx
-					)
-					await linkTrackAlbum(trackId, albumId, tx)
-				}
 				return false // Already scrobbled
 			}
 
-			// Link track to artists
-			await linkTrackArtists(
-				trackId,
-				metadata.artistCredits,
-				accessToken,
-				tx
-			)
-
-			// Upsert and link album if present
-			let albumId: string | null = null
-			if (metadata.album) {
-				// Find primary artist spotifyId from artistCredits
-				const primaryCredit = metadata.artistCredits.find(
-					(c) => c.isPrimary
-				)
-				const primaryArtistId = await upsertArtist(
-					metadata.primaryArtist.name,
-					metadata.primaryArtist.mbid,
-					primaryCredit?.spotifyId ?? null,
-					accessToken,
-					tx
-				)
-				albumId = await upsertAlbum(
-					metadata.album.title,
-					primaryArtistId,
-					metadata.album.mbid,
-					metadata.album.releaseDate,
-					metadata.album.imageUrl,
-					tx
-				)
-				await linkTrackAlbum(trackId, albumId, tx)
-			}
-
 			// Insert scrobble (with conflict ignore for idempotency)
 			const result = await tx
 				.insert(scrobbles)
@@ -1143,7 +1075,8 @@ export async function persistScrobble(
 					played_at: event.playedAt,
 					played_duration_ms: event.estimatedDurationMs,
 					skipped: false,
-					provider: 'spotify',
+					provider,
+					account_id: accountId,
 				})
 				.onConflictDoNothing({
 					target: [
@@ -1162,64 +1095,160 @@ export async function persistScrobble(
 	}
 }
 
+/**
+ * Upserts the track, artists and album described by resolved metadata
+ * and links them together
+ *
+ * @param metadata - Resolved track metadata
+ * @param accessToken - Spotify access token (for fetching artist images on new artist creation)
+ * @param tx - Optional transaction client (defaults to db)
+ * @returns Track and album database IDs (album is null if the metadata has none)
+ */
+export async function persistTrackMetadata(
+	metadata: ResolvedTrackMetadata,
+	accessToken: string | null = null,
+	tx: DbClient = db
+): Promise<{ trackId: string; albumId: string | null }> {
+	const trackId = await upsertTrack(metadata, tx)
+
+	// A canonical track picked by a rewrite rule keeps its own credits and albums
+	if (!metadata.trackId) {
+		await linkTrackArtists(trackId, metadata.artistCredits, accessToken, tx)
+	}
+
+	// Upsert and link album if present
+	let albumId: string | null = null
+	if (metadata.album) {
+		// Find primary artist spotifyId from artistCredits
+		const primaryCredit = metadata.artistCredits.find((c) => c.isPrimary)
+		const primaryArtistId = await upsertArtist(
+			metadata.primaryArtist.name,
+			metadata.primaryArtist.mbid,
+			primaryCredit?.spotifyId ?? null,
+			accessToken,
+			tx
+		)
+		albumId = await upsertAlbum(
+			metadata.album.title,
+			primaryArtistId,
+			metadata.album.mbid,
+			metadata.album.releaseDate,
+			metadata.album.imageUrl,
+			tx
+		)
+		if (!metadata.trackId) {
+			await linkTrackAlbum(trackId, albumId, tx)
+		}
+	}
+
+	return { trackId, albumId }
+}
+
+/**
+ * Options for persistScrobbleFromMetadata
+ */
+export interface PersistScrobbleOptions {
+	/** Import that produced this play (omit for live scrobbles) */
+	importId?: string | null
+	/** Source of the play (default: spotify) */
+	provider?: AccountProvider
+	/** Linked account the play was captured from (omit for imports and client submissions) */
+	accountId?: string | null
+	/**
+	 * playedAt is when the play started (Last.fm and ListenBrainz timestamps) and is
+	 * moved to when it finished, which is what played_at means everywhere else
+	 */
+	playedAtIsStart?: boolean
+	/**
+	 * The play was just submitted by a client, so a play of unknown duration has
+	 * lasted until now. Historical plays of unknown duration keep their start.
+	 */
+	live?: boolean
+}
+
+/**
+ * Estimates how long a play that was just submitted lasted when its duration is
+ * unknown: the time elapsed since it started, as the playback engine would have
+ * seen it, capped at SCROBBLE_CONFIG.maxUnknownPlayMs.
+ *
+ * @param startedAt - When the play started
+ * @returns Estimated play duration in milliseconds
+ */
+function estimateLivePlayMs(startedAt: Date): number {
+	return Math.min(
+		Math.max(0, Date.now() - startedAt.getTime()),
+		SCROBBLE_CONFIG.maxUnknownPlayMs
+	)
+}
+
 /**
  * Persists a scrobble from already-resolved metadata.
- * Used by the currently-playing flow where we have metadata but not a ProcessedPlayEvent.
+ * Used by the currently-playing flow and history imports, where we have metadata but not a ProcessedPlayEvent.
  * Uses a transaction to ensure atomicity - either all operations succeed,
  * or they all roll back to prevent orphaned tracks/artists without links.
  *
  * @param userId - User database ID
- * @param playedAt - When the track started playing
- * @param durationMs - How long the track was played (accumulated)
+ * @param playedAt - When the play finished (or started, with options.playedAtIsStart)
+ * @param durationMs - How long the track was played (accumulated), or null if the
+ *   source doesn't report it, in which case the full track duration is assumed
  * @param metadata - Resolved track metadata
  * @param skipped - Whether the track was skipped (played enough to scrobble but not to completion)
  * @param accessToken - Spotify access token (for fetching artist images on new artist creation)
+ * @param options - Import, provider and account attribution, and timestamp meaning
  * @returns True if scrobble was inserted, false if duplicate
+ * @throws If the scrobble couldn't be stored, so callers don't report a lost
+ *   play as a duplicate
  */
 export async function persistScrobbleFromMetadata(
 	userId: string,
 	playedAt: Date,
-	durationMs: number,
+	durationMs: number | null,
 	metadata: ResolvedTrackMetadata,
 	skipped: boolean = false,
-	accessToken: string | null = null
+	accessToken: string | null = null,
+	options: PersistScrobbleOptions = {}
 ): Promise<boolean> {
+	const importId = options.importId ?? null
+
 	try {
 		return await db.transaction(async (tx) => {
-			// Upsert track
-			const trackId = await upsertTrack(metadata, tx)
-
-			// Link track to artists
-			await linkTrackArtists(
-				trackId,
-				metadata.artistCredits,
+			const { trackId, albumId } = await persistTrackMetadata(
+				metadata,
 				accessToken,
 				tx
 			)
 
-			// Upsert and link album if present
-			let albumId: string | null = null
-			if (metadata.album) {
-				// Find primary artist spotifyId from artistCredits
-				const primaryCredit = metadata.artistCredits.find(
-					(c) => c.isPrimary
-				)
-				const primaryArtistId = await upsertArtist(
-					metadata.primaryArtist.name,
-					metadata.primaryArtist.mbid,
-					primaryCredit?.spotifyId ?? null,
-					accessToken,
-					tx
-				)
-				albumId = await upsertAlbum(
-					metadata.album.title,
-					primaryArtistId,
-					metadata.album.mbid,
-					metadata.album.releaseDate,
-					metadata.album.imageUrl,
-					tx
-				)
-				await linkTrackAlbum(trackId, albumId, tx)
+			// Fall back to the stored track duration if the play duration is unknown
+			let playedDurationMs = durationMs
+			if (playedDurationMs === null) {
+				const track = await tx.query.tracks.findFirst({
+					where: (t, { eq }) => eq(t.id, trackId),
+				})
+				playedDurationMs = track?.duration_ms ?? 0
+			}
+
+			let finishedAt = playedAt
+			if (options.playedAtIsStart) {
+				if (playedDurationMs === 0 && options.live) {
+					playedDurationMs = estimateLivePlayMs(playedAt)
+				}
+				finishedAt = new Date(playedAt.getTime() + playedDurationMs)
+			}
+
+			// Imported history overlaps plays we already captured live with
+			// slightly different timestamps, so check the dedupe window too.
+			// Repeats within the same import are real plays and are kept.
+			if (
+				importId &&
+				(await hasExistingScrobbleInWindow(
+					userId,
+					trackId,
+					finishedAt,
+					tx,
+					importId
+				))
+			) {
+				return false
 			}
 
 			// Insert scrobble (with conflict ignore for idempotency)
@@ -1229,10 +1258,12 @@ export async function persistScrobbleFromMetadata(
 					user_id: userId,
 					track_id: trackId,
 					album_id: albumId,
-					played_at: playedAt, // Pass Date object - Drizzle handles conversion
-					played_duration_ms: durationMs,
+					played_at: finishedAt, // Pass Date object - Drizzle handles conversion
+					played_duration_ms: playedDurationMs,
 					skipped,
-					provider: 'spotify',
+					import_id: importId,
+					provider: options.provider ?? 'spotify',
+					account_id: options.accountId ?? null,
 				})
 				.onConflictDoNothing({
 					target: [
@@ -1250,20 +1281,23 @@ export async function persistScrobbleFromMetadata(
 			'[Scrobble] Error persisting scrobble from metadata:',
 			error
 		)
-		return false
+		throw error
 	}
 }
 
 /**
  * Main scrobble processing function for a single account.
- * Fetches new plays, filters, resolves, and persists.
+ * Fetches new plays from the provider's recently-played list, filters,
+ * resolves, and persists.
  *
- * @param account - Spotify account to process
+ * @param provider - Provider the account belongs to (must list recently played tracks)
+ * @param account - Account to process
  * @param mbCache - Shared MusicBrainz cache
  * @returns Statistics about the processing run
  */
 export async function processAccountScrobbles(
-	account: SpotifyAccount,
+	provider: ScrobbleProvider,
+	account: Account,
 	mbCache: MusicBrainzCache
 ): Promise<{
 	fetched: number
@@ -1280,20 +1314,15 @@ export async function processAccountScrobbles(
 		errors: 0,
 	}
 
+	if (!provider.getRecentlyPlayed) {
+		return stats
+	}
+
 	try {
-		// Get valid access token (refresh if needed)
-		const accessToken = await getValidAccessToken(account, async (data) => {
-			await db
-				.update(accounts)
-				.set({
-					access_token: data.access_token,
-					refresh_token: data.refresh_token,
-					expires_in: data.expires_in,
-				})
-				.where(eq(accounts.id, account.id))
-		})
+		// Get a valid credential (refresh if needed)
+		const credential = await provider.authenticate(account)
 
-		if (!accessToken) {
+		if (!credential) {
 			console.warn(
 				`[Scrobble] Could not obtain access token for account ${account.id}`
 			)
@@ -1301,10 +1330,15 @@ export async function processAccountScrobbles(
 		}
 
 		// Get cursor state
-		const lastPlayedAt = await getScrobbleState(account.user_id)
-
-		// Fetch new plays from Spotify
-		const plays = await fetchNewSpotifyPlays(accessToken, lastPlayedAt)
+		const lastPlayedAt = await getScrobbleState(account.id)
+
+		// Fetch new plays from the provider
+		const plays = (
+			await provider.getRecentlyPlayed(account, credential, lastPlayedAt)
+		).map((play) => ({
+			playedAt: play.playedAt,
+			track: provider.normalizeTrack(play.track),
+		}))
 		stats.fetched = plays.length
 
 		if (plays.length === 0) {
@@ -1312,8 +1346,23 @@ export async function processAccountScrobbles(
 			return stats
 		}
 
+		const gap = provider.recentlyPlayedLimit
+			? detectScrobbleGap(
+					lastPlayedAt,
+					plays,
+					provider.recentlyPlayedLimit
+				)
+			: null
+		if (gap) {
+			console.warn(
+				`[Scrobble] User ${account.user_id}: plays between ${gap.start.toISOString()} and ${gap.end.toISOString()} are no longer available from ${provider.name}`
+			)
+			await recordScrobbleGap(account, gap)
+		}
+
 		// Process play events (estimate durations)
 		const processedEvents = processPlayEvents(plays)
+		const accessToken = getSpotifyAccessToken(provider, credential)
 
 		// Track the latest played_at for cursor update
 		let latestPlayedAt: Date | null = null
@@ -1335,15 +1384,26 @@ export async function processAccountScrobbles(
 			}
 
 			try {
-				// Resolve metadata
-				const metadata = await resolveTrackMetadata(event, mbCache)
+				// Resolve metadata, applying the user's rewrite rules
+				const metadata = await resolveTrackMetadataFromSpotify(
+					event.play.track,
+					mbCache,
+					account.user_id
+				)
+
+				if (!metadata) {
+					stats.skipped++
+					continue
+				}
 
 				// Persist the scrobble
 				const inserted = await persistScrobble(
 					account.user_id,
 					event,
 					metadata,
-					accessToken
+					accessToken,
+					account.id,
+					provider.name
 				)
 
 				if (inserted) {
@@ -1360,7 +1420,7 @@ export async function processAccountScrobbles(
 
 		// Update cursor state
 		if (latestPlayedAt) {
-			await updateScrobbleState(account.user_id, latestPlayedAt)
+			await updateScrobbleState(account, latestPlayedAt)
 		}
 
 		console.log(
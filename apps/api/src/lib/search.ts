@@ -0,0 +1,271 @@
+/**
+ * Search
+ *
+ * Searches the local database for artists (by name or MusicBrainz alias),
+ * albums and tracks (by title):
+ * - Names match by trigram similarity or as a case-insensitive substring,
+ *   both served by the pg_trgm indexes
+ * - The best matches by similarity are then ranked by the user's own plays,
+ *   so what they listen to comes first
+ *
+ * @module search
+ */
+
+import { sql } from 'drizzle-orm'
+import { db } from '../db'
+import { artistNameSql } from './artist-aliases'
+
+/**
+ * Search configuration
+ */
+export const SEARCH_CONFIG = {
+	/** Shortest query searched */
+	minQueryLength: 2,
+	/** Results per entity type when no limit is given */
+	defaultLimit: 5,
+	/** Maximum results per entity type */
+	maxLimit: 20,
+	/** Best matches by similarity that are ranked by plays */
+	candidateLimit: 50,
+}
+
+export interface SearchArtist {
+	id: string
+	/** Name in the display locale */
+	name: string
+	image_url: string | null
+	type: string | null
+	/** Alias the query matched when the name itself didn't */
+	matched_alias: string | null
+	play_count: number
+}
+
+export interface SearchAlbum {
+	id: string
+	name: string
+	image_url: string | null
+	artist: { id: string; name: string }
+	play_count: number
+}
+
+export interface SearchTrack {
+	id: string
+	name: string
+	duration_ms: number | null
+	image_url: string | null
+	artists: Array<{ id: string; name: string }>
+	play_count: number
+}
+
+/**
+ * Search results grouped by entity type, most played first
+ */
+export interface SearchResults {
+	artists: SearchArtist[]
+	albums: SearchAlbum[]
+	tracks: SearchTrack[]
+}
+
+/**
+ * Options for searching
+ */
+export interface SearchOptions {
+	/** Results per entity type */
+	limit: number
+	/** Display locale of artist names (omit for the stored names) */
+	locale?: string | null
+}
+
+/**
+ * Escapes LIKE wildcards so the query matches literally
+ */
+function likePattern(query: string): string {
+	return `%${query.replace(/[\\%_]/g, '\\$&')}%`
+}
+
+async function searchArtists(
+	userId: string,
+	query: string,
+	options: SearchOptions
+): Promise<SearchArtist[]> {
+	const pattern = likePattern(query)
+
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		type: string | null
+		matched_alias: string | null
+		play_count: number
+	}>(sql`
+		WITH matches AS (
+			SELECT a.id as artist_id, similarity(a.name, ${query}) as score, NULL as alias
+			FROM artists a
+			WHERE a.name % ${query} OR a.name ILIKE ${pattern}
+			UNION ALL
+			SELECT aa.artist_id, similarity(aa.name, ${query}), aa.name
+			FROM artist_aliases aa
+			WHERE aa.name % ${query} OR aa.name ILIKE ${pattern}
+		),
+		best AS (
+			SELECT DISTINCT ON (artist_id) artist_id, score, alias
+			FROM matches
+			ORDER BY artist_id, score DESC
+		),
+		candidates AS (
+			SELECT * FROM best ORDER BY score DESC LIMIT ${SEARCH_CONFIG.candidateLimit}
+		)
+		SELECT
+			a.id,
+			${artistNameSql('a', options.locale)} as name,
+			a.image_url,
+			a.type,
+			CASE WHEN c.alias = a.name THEN NULL ELSE c.alias END as matched_alias,
+			(
+				SELECT COUNT(*)::int
+				FROM scrobbles s
+				JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+				WHERE s.user_id = ${userId} AND ta.artist_id = a.id
+			) as play_count
+		FROM candidates c
+		JOIN artists a ON a.id = c.artist_id
+		ORDER BY play_count DESC, c.score DESC, a.name
+		LIMIT ${options.limit}
+	`)
+
+	return rows.map((row) => ({
+		id: row.id,
+		name: row.name,
+		image_url: row.image_url,
+		type: row.type,
+		matched_alias: row.matched_alias,
+		play_count: row.play_count,
+	}))
+}
+
+async function searchAlbums(
+	userId: string,
+	query: string,
+	options: SearchOptions
+): Promise<SearchAlbum[]> {
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		artist_id: string
+		artist_name: string
+		play_count: number
+	}>(sql`
+		WITH candidates AS (
+			SELECT al.id, similarity(al.title, ${query}) as score
+			FROM albums al
+			WHERE al.title % ${query} OR al.title ILIKE ${likePattern(query)}
+			ORDER BY score DESC
+			LIMIT ${SEARCH_CONFIG.candidateLimit}
+		)
+		SELECT
+			al.id,
+			al.title as name,
+			al.image_url,
+			ar.id as artist_id,
+			${artistNameSql('ar', options.locale)} as artist_name,
+			(
+				SELECT COUNT(*)::int
+				FROM scrobbles s
+				WHERE s.user_id = ${userId} AND s.album_id = al.id
+			) as play_count
+		FROM candidates c
+		JOIN albums al ON al.id = c.id
+		JOIN artists ar ON ar.id = al.artist_id
+		ORDER BY play_count DESC, c.score DESC, al.title
+		LIMIT ${options.limit}
+	`)
+
+	return rows.map((row) => ({
+		id: row.id,
+		name: row.name,
+		image_url: row.image_url,
+		artist: { id: row.artist_id, name: row.artist_name },
+		play_count: row.play_count,
+	}))
+}
+
+async function searchTracks(
+	userId: string,
+	query: string,
+	options: SearchOptions
+): Promise<SearchTrack[]> {
+	const rows = await db.execute<{
+		id: string
+		name: string
+		duration_ms: number | null
+		image_url: string | null
+		artists: Array<{ id: string; name: string }> | null
+		play_count: number
+	}>(sql`
+		WITH candidates AS (
+			SELECT t.id, similarity(t.title, ${query}) as score
+			FROM tracks t
+			WHERE t.title % ${query} OR t.title ILIKE ${likePattern(query)}
+			ORDER BY score DESC
+			LIMIT ${SEARCH_CONFIG.candidateLimit}
+		)
+		SELECT
+			t.id,
+			t.title as name,
+			t.duration_ms,
+			(
+				SELECT al.image_url
+				FROM scrobbles s
+				JOIN albums al ON al.id = s.album_id
+				WHERE s.track_id = t.id AND al.image_url IS NOT NULL
+				LIMIT 1
+			) as image_url,
+			(
+				SELECT json_agg(json_build_object('id', a.id, 'name', ${artistNameSql('a', options.locale)}) ORDER BY ta."order")
+				FROM track_artists ta
+				JOIN artists a ON a.id = ta.artist_id
+				WHERE ta.track_id = t.id
+			) as artists,
+			(
+				SELECT COUNT(*)::int
+				FROM scrobbles s
+				WHERE s.user_id = ${userId} AND s.track_id = t.id
+			) as play_count
+		FROM candidates c
+		JOIN tracks t ON t.id = c.id
+		ORDER BY play_count DESC, c.score DESC, t.title
+		LIMIT ${options.limit}
+	`)
+
+	return rows.map((row) => ({
+		id: row.id,
+		name: row.name,
+		duration_ms: row.duration_ms,
+		image_url: row.image_url,
+		artists: row.artists ?? [],
+		play_count: row.play_count,
+	}))
+}
+
+/**
+ * Searches artists, albums and tracks.
+ *
+ * @param userId - User whose plays rank the results
+ * @param query - Search text (at least SEARCH_CONFIG.minQueryLength characters)
+ * @param options - Results per type and display locale
+ * @returns Results grouped by entity type
+ */
+export async function search(
+	userId: string,
+	query: string,
+	options: SearchOptions
+): Promise<SearchResults> {
+	const [artists, albums, tracks] = await Promise.all([
+		searchArtists(userId, query, options),
+		searchAlbums(userId, query, options),
+		searchTracks(userId, query, options),
+	])
+
+	return { artists, albums, tracks }
+}
@@ -0,0 +1,107 @@
+/**
+ * Spotify Scrobble Provider
+ *
+ * Polls linked Spotify accounts through the Web API:
+ * - Refreshing OAuth tokens before they expire
+ * - The currently-playing endpoint for playback sessions
+ * - The recently-played endpoint as a fallback (last 50 plays only)
+ *
+ * @module spotify-provider
+ */
+
+import { and, eq } from 'drizzle-orm'
+import { db } from '../db'
+import { accounts } from '@playbacc/types/db/schema'
+import {
+	getCurrentlyPlaying,
+	getRecentlyPlayedTracks,
+	getValidAccessToken,
+	type RecentlyPlayedItem,
+	type SpotifyAccount,
+} from './spotify'
+import type { ScrobbleProvider } from './scrobble-providers'
+
+/** Maximum items Spotify returns per recently-played call */
+const RECENTLY_PLAYED_LIMIT = 50
+
+/**
+ * Track fields shared by the currently-playing and recently-played endpoints
+ */
+type SpotifyPlayedTrack = RecentlyPlayedItem['track']
+
+export const spotifyProvider: ScrobbleProvider<SpotifyPlayedTrack> = {
+	name: 'spotify',
+	recentlyPlayedLimit: RECENTLY_PLAYED_LIMIT,
+
+	/**
+	 * Lists Spotify accounts with a refresh token, including every account
+	 * linked to the same user
+	 */
+	async getAccounts() {
+		return db.query.accounts.findMany({
+			where: (accounts, { eq, isNotNull }) =>
+				and(
+					eq(accounts.provider, 'spotify'),
+					isNotNull(accounts.refresh_token)
+				),
+		})
+	},
+
+	async authenticate(account) {
+		return getValidAccessToken(account as SpotifyAccount, async (data) => {
+			await db
+				.update(accounts)
+				.set({
+					access_token: data.access_token,
+					refresh_token: data.refresh_token,
+					expires_in: data.expires_in,
+				})
+				.where(eq(accounts.id, account.id))
+		})
+	},
+
+	async getCurrentlyPlaying(_account, accessToken) {
+		const currentlyPlaying = await getCurrentlyPlaying(accessToken)
+
+		if (!currentlyPlaying || !currentlyPlaying.item) {
+			return null
+		}
+
+		return {
+			uri: currentlyPlaying.item.uri,
+			track: currentlyPlaying.item,
+			progressMs: currentlyPlaying.progress_ms ?? 0,
+			isPlaying: currentlyPlaying.is_playing,
+		}
+	},
+
+	async getRecentlyPlayed(_account, accessToken, after) {
+		// Spotify's recently-played endpoint doesn't support true pagination
+		// for historical data. It only returns up to 50 most recent items.
+		// We don't need to paginate further as each poll will catch new plays.
+		const response = await getRecentlyPlayedTracks(accessToken, {
+			limit: RECENTLY_PLAYED_LIMIT,
+			// Spotify expects Unix ms
+			after: after ? after.getTime().toString() : undefined,
+		})
+
+		return response.items
+			.map((item) => ({
+				playedAt: new Date(item.played_at),
+				track: item.track,
+			}))
+			.sort((a, b) => a.playedAt.getTime() - b.playedAt.getTime())
+	},
+
+	normalizeTrack(track) {
+		return {
+			id: track.id,
+			name: track.name,
+			duration_ms: track.duration_ms,
+			explicit: track.explicit,
+			artists: track.artists,
+			album: track.album,
+			external_ids: track.external_ids,
+		}
+	},
+}
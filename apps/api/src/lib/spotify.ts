@@ -9,6 +9,7 @@ import type {
 	CurrentlyPlayingResponse,
 	RecentlyPlayedResponse,
 	SpotifyArtist,
+	SpotifyTrack,
 	SpotifyUser,
 	TokenResponse,
 } from '@playbacc/types/api/spotify'
@@ -32,6 +33,15 @@ if (!SPOTIFY_CLIENT_ID || !SPOTIFY_CLIENT_SECRET || !SPOTIFY_REDIRECT_URI) {
 	throw new Error('Missing required Spotify environment variables.')
 }
 
+/** Permission scopes requested when signing in or linking an account */
+export const SPOTIFY_SCOPES = [
+	'user-read-private',
+	'user-read-email',
+	'user-read-recently-played',
+	'user-read-currently-playing',
+	'user-read-playback-state',
+]
+
 /** Safety margin in seconds to refresh tokens before they actually expire */
 const TOKEN_EXPIRY_SAFETY_MARGIN_SECONDS = 60
 
@@ -55,15 +65,22 @@ export interface SpotifyAccount {
  *
  * @param state - Optional state parameter for CSRF protection
  * @param scope - Optional array of permission scopes to request
+ * @param showDialog - Always ask for approval, so the user can switch to
+ *   another Spotify account instead of the one they are signed in with
  * @returns The full authorization URL
  */
-export const getAuthUrl = (state?: string, scope?: string[]) => {
+export const getAuthUrl = (
+	state?: string,
+	scope?: string[],
+	showDialog = false
+) => {
 	const params = new URLSearchParams({
 		response_type: 'code',
 		client_id: SPOTIFY_CLIENT_ID,
 		redirect_uri: SPOTIFY_REDIRECT_URI,
 		...(state && { state }),
 		...(scope && { scope: scope.join(' ') }),
+		...(showDialog && { show_dialog: 'true' }),
 	})
 
 	return `https://accounts.spotify.com/authorize?${params.toString()}`
@@ -346,3 +363,35 @@ export const getArtist = async (
 
 	return response.json() as Promise<SpotifyArtist>
 }
+
+/**
+ * Gets catalog details for several tracks at once.
+ *
+ * @param accessToken - Valid access token
+ * @param trackIds - Spotify track IDs (max 50 per request)
+ * @returns Tracks in request order; unknown IDs are returned as null
+ * @throws Error if the request fails
+ */
+export const getTracks = async (
+	accessToken: string,
+	trackIds: string[]
+): Promise<Array<SpotifyTrack | null>> => {
+	const url = new URL(`${SPOTIFY_API_BASE_URL}/tracks`)
+	url.searchParams.set('ids', trackIds.join(','))
+
+	const response = await fetch(url.toString(), {
+		headers: {
+			Authorization: `Bearer ${accessToken}`,
+		},
+	})
+
+	if (!response.ok) {
+		const errorText = await response.text()
+		throw new Error(`Failed to get tracks: ${errorText}`)
+	}
+
+	const data = (await response.json()) as {
+		tracks: Array<SpotifyTrack | null>
+	}
+	return data.tracks
+}
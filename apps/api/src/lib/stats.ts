@@ -0,0 +1,1133 @@
+/**
+ * Listening Statistics Service
+ *
+ * Shared building blocks for the stats endpoints:
+ * - Time range resolution (presets like "30d" or custom from/to)
+ * - Ranked top artists, albums and tracks with pagination
+ * - Ranked top genres from MusicBrainz genre tags
+ * - Time-of-day and per-day aggregates in the user's timezone
+ * - Skip rates and completion percentages
+ * - Play summaries and monthly timelines for a single track or album
+ * - The most recent plays with their track, album and artists
+ *
+ * Artists are credited via their primary track_artists links, matching
+ * the existing top-groups and top-solo-artists stats, and named in the
+ * user's display locale when one is given.
+ *
+ * @module stats
+ */
+
+import { z } from 'zod'
+import { desc, eq, inArray, sql, type SQL } from 'drizzle-orm'
+import { timeRangeSchema } from '@playbacc/types'
+import {
+	albums,
+	artists,
+	scrobbles,
+	track_artists,
+	tracks,
+} from '@playbacc/types/db/schema'
+import { db } from '../db'
+import { artistNameSql } from './artist-aliases'
+
+/** Supported range presets (number of days back from now, or all time) */
+export const STATS_RANGE_PRESETS = ['7d', '30d', '90d', '365d', 'all'] as const
+
+export type StatsRangePreset = (typeof STATS_RANGE_PRESETS)[number]
+
+/** Entities that can be ranked */
+export const TOP_ENTITIES = ['artists', 'albums', 'tracks'] as const
+
+export type TopEntity = (typeof TOP_ENTITIES)[number]
+
+/** Metrics top lists can be ordered by */
+export const TOP_ORDER_BY = ['play_count', 'total_ms'] as const
+
+export type TopOrderBy = (typeof TOP_ORDER_BY)[number]
+
+/** Entities skip rates can be computed for */
+export const SKIP_ENTITIES = ['tracks', 'artists'] as const
+
+export type SkipEntity = (typeof SKIP_ENTITIES)[number]
+
+/** Entities completion percentages can be computed for */
+export const COMPLETION_ENTITIES = ['tracks', 'albums'] as const
+
+export type CompletionEntity = (typeof COMPLETION_ENTITIES)[number]
+
+/** Sort directions for skip and completion lists */
+export const SORT_ORDERS = ['desc', 'asc'] as const
+
+export type SortOrder = (typeof SORT_ORDERS)[number]
+
+/**
+ * Schema for the range query params of stats endpoints.
+ * Custom from/to take precedence over the preset.
+ */
+export const statsRangeQuerySchema = timeRangeSchema
+	.partial()
+	.extend({
+		range: z.enum(STATS_RANGE_PRESETS).optional(),
+		/** Linked account to limit stats to (default: all accounts merged) */
+		account: z.uuid().optional(),
+	})
+	.refine(
+		(query) =>
+			!query.from ||
+			!query.to ||
+			new Date(query.from) <= new Date(query.to),
+		{ message: '"from" must be before "to"' }
+	)
+
+export type StatsRangeQuery = z.infer<typeof statsRangeQuerySchema>
+
+/**
+ * A resolved time range; null bounds are open
+ */
+export interface StatsRange {
+	from: Date | null
+	to: Date | null
+	/** Only count plays captured from this linked account (omit to merge all sources) */
+	accountId?: string | null
+}
+
+/**
+ * Pagination and ordering options for top lists
+ */
+export interface TopListOptions {
+	range: StatsRange
+	orderBy: TopOrderBy
+	page: number
+	limit: number
+	/** Display locale of artist names (omit for the stored names) */
+	locale?: string | null
+}
+
+/**
+ * A page of ranked entities
+ */
+export interface TopListPage<T> {
+	items: T[]
+	total: number
+}
+
+/**
+ * Filtering, ordering and pagination options for skip and completion lists
+ */
+export interface PlayRateOptions {
+	range: StatsRange
+	/** Minimum plays in the range for an entity to be listed */
+	minPlays: number
+	order: SortOrder
+	page: number
+	limit: number
+	/** Display locale of artist names (omit for the stored names) */
+	locale?: string | null
+}
+
+export interface TopArtist {
+	id: string
+	name: string
+	image_url: string | null
+	play_count: number
+	total_ms: number
+}
+
+export interface TopAlbum {
+	id: string
+	name: string
+	image_url: string | null
+	artist: { id: string; name: string }
+	play_count: number
+	total_ms: number
+}
+
+export interface TopGenre {
+	id: string
+	name: string
+	play_count: number
+	total_ms: number
+}
+
+export interface TopTrack {
+	id: string
+	name: string
+	duration_ms: number | null
+	image_url: string | null
+	artists: Array<{ id: string; name: string }>
+	play_count: number
+	total_ms: number
+}
+
+/**
+ * Resolves range query params into concrete bounds
+ *
+ * @param query - Validated range query params
+ * @param now - Reference time for presets
+ * @returns The time range (defaults to all time)
+ */
+export function resolveStatsRange(
+	query: StatsRangeQuery,
+	now: Date = new Date()
+): StatsRange {
+	const accountId = query.account ?? null
+
+	if (query.from || query.to) {
+		return {
+			from: query.from ? new Date(query.from) : null,
+			to: query.to ? new Date(query.to) : null,
+			accountId,
+		}
+	}
+
+	if (!query.range || query.range === 'all') {
+		return { from: null, to: null, accountId }
+	}
+
+	const days = parseInt(query.range, 10)
+	return {
+		from: new Date(now.getTime() - days * 24 * 60 * 60 * 1000),
+		to: null,
+		accountId,
+	}
+}
+
+/**
+ * Builds the SQL conditions limiting scrobbles (aliased as "s") to a range
+ * and, if set, to the range's account
+ */
+export function scrobbleRangeSql(range: StatsRange): SQL {
+	return sql`
+		${range.from ? sql`AND s.played_at >= ${range.from.toISOString()}` : sql``}
+		${range.to ? sql`AND s.played_at <= ${range.to.toISOString()}` : sql``}
+		${range.accountId ? sql`AND s.account_id = ${range.accountId}` : sql``}
+	`
+}
+
+/**
+ * Builds the ORDER BY metrics for a top list (ties broken by the other metric)
+ */
+function topOrderSql(orderBy: TopOrderBy): SQL {
+	return orderBy === 'play_count'
+		? sql`play_count DESC, total_ms DESC`
+		: sql`total_ms DESC, play_count DESC`
+}
+
+/**
+ * Builds the LIMIT/OFFSET clause for a page
+ */
+function pageSql(page: number, limit: number): SQL {
+	return sql`LIMIT ${limit} OFFSET ${(page - 1) * limit}`
+}
+
+/**
+ * Gets the user's most played artists
+ *
+ * @param userId - User database ID
+ * @param options - Range, ordering and pagination
+ */
+export async function getTopArtists(
+	userId: string,
+	options: TopListOptions
+): Promise<TopListPage<TopArtist>> {
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		play_count: string
+		total_ms: string
+		total_count: string
+	}>(sql`
+		SELECT
+			a.id,
+			${artistNameSql('a', options.locale)} as name,
+			a.image_url,
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+		JOIN artists a ON a.id = ta.artist_id
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(options.range)}
+		GROUP BY a.id, a.name, a.image_url
+		ORDER BY ${topOrderSql(options.orderBy)}, a.name
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			image_url: row.image_url,
+			play_count: parseInt(row.play_count, 10),
+			total_ms: parseInt(row.total_ms, 10),
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Gets the user's most played albums
+ *
+ * @param userId - User database ID
+ * @param options - Range, ordering and pagination
+ */
+export async function getTopAlbums(
+	userId: string,
+	options: TopListOptions
+): Promise<TopListPage<TopAlbum>> {
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		artist_id: string
+		artist_name: string
+		play_count: string
+		total_ms: string
+		total_count: string
+	}>(sql`
+		SELECT
+			al.id,
+			al.title as name,
+			al.image_url,
+			ar.id as artist_id,
+			${artistNameSql('ar', options.locale)} as artist_name,
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN albums al ON al.id = s.album_id
+		JOIN artists ar ON ar.id = al.artist_id
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(options.range)}
+		GROUP BY al.id, al.title, al.image_url, ar.id, ar.name
+		ORDER BY ${topOrderSql(options.orderBy)}, al.title
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			image_url: row.image_url,
+			artist: { id: row.artist_id, name: row.artist_name },
+			play_count: parseInt(row.play_count, 10),
+			total_ms: parseInt(row.total_ms, 10),
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Gets the user's most played tracks
+ *
+ * @param userId - User database ID
+ * @param options - Range, ordering and pagination
+ */
+export async function getTopTracks(
+	userId: string,
+	options: TopListOptions
+): Promise<TopListPage<TopTrack>> {
+	const rows = await db.execute<{
+		id: string
+		name: string
+		duration_ms: number | null
+		image_url: string | null
+		artists: Array<{ id: string; name: string }> | null
+		play_count: string
+		total_ms: string
+		total_count: string
+	}>(sql`
+		SELECT
+			t.id,
+			t.title as name,
+			t.duration_ms,
+			(array_agg(al.image_url) FILTER (WHERE al.image_url IS NOT NULL))[1] as image_url,
+			(
+				SELECT json_agg(json_build_object('id', a.id, 'name', ${artistNameSql('a', options.locale)}) ORDER BY ta."order")
+				FROM track_artists ta
+				JOIN artists a ON a.id = ta.artist_id
+				WHERE ta.track_id = t.id
+			) as artists,
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN tracks t ON t.id = s.track_id
+		LEFT JOIN albums al ON al.id = s.album_id
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(options.range)}
+		GROUP BY t.id, t.title, t.duration_ms
+		ORDER BY ${topOrderSql(options.orderBy)}, t.title
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			duration_ms: row.duration_ms,
+			image_url: row.image_url,
+			artists: row.artists ?? [],
+			play_count: parseInt(row.play_count, 10),
+			total_ms: parseInt(row.total_ms, 10),
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Gets the user's most played genres.
+ *
+ * A play counts toward every genre of its most specific tagged source:
+ * the recording's genres, else the release's, else those of the track's
+ * primary artists. Only genres with positive votes count.
+ *
+ * @param userId - User database ID
+ * @param options - Range, ordering and pagination
+ */
+export async function getTopGenres(
+	userId: string,
+	options: TopListOptions
+): Promise<TopListPage<TopGenre>> {
+	const rows = await db.execute<{
+		id: string
+		name: string
+		play_count: string
+		total_ms: string
+		total_count: string
+	}>(sql`
+		SELECT
+			g.id,
+			g.name,
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		CROSS JOIN LATERAL (
+			SELECT DISTINCT ranked.tag_id
+			FROM (
+				SELECT
+					src.tag_id,
+					src.priority,
+					MIN(src.priority) OVER () as best_priority
+				FROM (
+					SELECT tt.tag_id, 1 as priority
+					FROM track_tags tt
+					WHERE tt.track_id = s.track_id AND tt.count > 0
+					UNION ALL
+					SELECT alt.tag_id, 2 as priority
+					FROM album_tags alt
+					WHERE alt.album_id = s.album_id AND alt.count > 0
+					UNION ALL
+					SELECT art.tag_id, 3 as priority
+					FROM track_artists ta
+					JOIN artist_tags art ON art.artist_id = ta.artist_id AND art.count > 0
+					WHERE ta.track_id = s.track_id AND ta.is_primary = true
+				) src
+				JOIN tags t ON t.id = src.tag_id AND t.mbid IS NOT NULL
+			) ranked
+			WHERE ranked.priority = ranked.best_priority
+		) play_genres
+		JOIN tags g ON g.id = play_genres.tag_id
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(options.range)}
+		GROUP BY g.id, g.name
+		ORDER BY ${topOrderSql(options.orderBy)}, g.name
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			play_count: parseInt(row.play_count, 10),
+			total_ms: parseInt(row.total_ms, 10),
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Listening activity in one hour of one weekday
+ */
+export interface ListeningClockCell {
+	/** ISO day of week: 1 = Monday ... 7 = Sunday */
+	day_of_week: number
+	/** Hour of day (0-23) */
+	hour: number
+	play_count: number
+	total_ms: number
+}
+
+/**
+ * Listening activity on one calendar day
+ */
+export interface ListeningDay {
+	/** Calendar date (YYYY-MM-DD) */
+	date: string
+	play_count: number
+	total_ms: number
+}
+
+/**
+ * Aggregates the user's scrobbles by day of week and hour of day.
+ * Only cells with plays are returned.
+ *
+ * @param userId - User database ID
+ * @param timezone - IANA timezone to bucket plays in
+ * @param range - Time range to aggregate
+ */
+export async function getListeningClock(
+	userId: string,
+	timezone: string,
+	range: StatsRange
+): Promise<ListeningClockCell[]> {
+	const rows = await db.execute<{
+		day_of_week: number
+		hour: number
+		play_count: string
+		total_ms: string
+	}>(sql`
+		SELECT
+			EXTRACT(ISODOW FROM s.played_at AT TIME ZONE ${timezone})::int as day_of_week,
+			EXTRACT(HOUR FROM s.played_at AT TIME ZONE ${timezone})::int as hour,
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms
+		FROM scrobbles s
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(range)}
+		GROUP BY 1, 2
+		ORDER BY 1, 2
+	`)
+
+	return rows.map((row) => ({
+		day_of_week: row.day_of_week,
+		hour: row.hour,
+		play_count: parseInt(row.play_count, 10),
+		total_ms: parseInt(row.total_ms, 10),
+	}))
+}
+
+/**
+ * Aggregates the user's scrobbles by calendar day within a year.
+ * Only days with plays are returned.
+ *
+ * @param userId - User database ID
+ * @param timezone - IANA timezone that defines day boundaries
+ * @param year - Calendar year
+ * @param accountId - Only count plays from this linked account (null merges all sources)
+ */
+export async function getListeningHeatmap(
+	userId: string,
+	timezone: string,
+	year: number,
+	accountId: string | null = null
+): Promise<ListeningDay[]> {
+	const rows = await db.execute<{
+		date: string
+		play_count: string
+		total_ms: string
+	}>(sql`
+		SELECT
+			to_char(s.played_at AT TIME ZONE ${timezone}, 'YYYY-MM-DD') as date,
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms
+		FROM scrobbles s
+		WHERE s.user_id = ${userId}
+			AND s.played_at >= make_timestamp(${year}::int, 1, 1, 0, 0, 0) AT TIME ZONE ${timezone}
+			AND s.played_at < make_timestamp(${year + 1}::int, 1, 1, 0, 0, 0) AT TIME ZONE ${timezone}
+			${accountId ? sql`AND s.account_id = ${accountId}` : sql``}
+		GROUP BY 1
+		ORDER BY 1
+	`)
+
+	return rows.map((row) => ({
+		date: row.date,
+		play_count: parseInt(row.play_count, 10),
+		total_ms: parseInt(row.total_ms, 10),
+	}))
+}
+
+/**
+ * Gets the current calendar year in a timezone
+ */
+export function getCurrentYear(
+	timezone: string,
+	now: Date = new Date()
+): number {
+	return parseInt(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			year: 'numeric',
+		}).format(now),
+		10
+	)
+}
+
+/**
+ * Gets the offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimezoneOffsetMs(timezone: string, date: Date): number {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		})
+			.formatToParts(date)
+			.map((part) => [part.type, part.value])
+	)
+
+	const localAsUtc = Date.UTC(
+		parseInt(parts.year, 10),
+		parseInt(parts.month, 10) - 1,
+		parseInt(parts.day, 10),
+		parseInt(parts.hour, 10),
+		parseInt(parts.minute, 10),
+		parseInt(parts.second, 10)
+	)
+
+	return localAsUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Gets the instant local midnight on January 1st occurs in a timezone
+ */
+function getStartOfYear(timezone: string, year: number): Date {
+	const utcMidnight = Date.UTC(year, 0, 1)
+	const offset = getTimezoneOffsetMs(timezone, new Date(utcMidnight))
+	// Re-check in case the offset differs on the local side of midnight
+	const adjustedOffset = getTimezoneOffsetMs(
+		timezone,
+		new Date(utcMidnight - offset)
+	)
+	return new Date(utcMidnight - adjustedOffset)
+}
+
+/**
+ * Resolves a calendar year in a timezone into a time range
+ *
+ * @param timezone - IANA timezone that defines the year boundaries
+ * @param year - Calendar year
+ */
+export function getYearRange(
+	timezone: string,
+	year: number
+): { from: Date; to: Date } {
+	return {
+		from: getStartOfYear(timezone, year),
+		// scrobbleRangeSql bounds are inclusive
+		to: new Date(getStartOfYear(timezone, year + 1).getTime() - 1),
+	}
+}
+
+export interface SkippedTrack {
+	id: string
+	name: string
+	image_url: string | null
+	artists: Array<{ id: string; name: string }>
+	play_count: number
+	skip_count: number
+	/** Share of plays that were skipped (0-1) */
+	skip_rate: number
+}
+
+export interface ArtistSkipRate {
+	id: string
+	name: string
+	image_url: string | null
+	play_count: number
+	skip_count: number
+	/** Share of plays that were skipped (0-1) */
+	skip_rate: number
+}
+
+export interface TrackCompletion {
+	id: string
+	name: string
+	duration_ms: number
+	image_url: string | null
+	artists: Array<{ id: string; name: string }>
+	play_count: number
+	/** Average share of the track played per play (0-100) */
+	avg_completion_pct: number
+}
+
+export interface AlbumCompletion {
+	id: string
+	name: string
+	image_url: string | null
+	artist: { id: string; name: string }
+	play_count: number
+	/** Average share of each track played per play (0-100) */
+	avg_completion_pct: number
+}
+
+/**
+ * Builds the sort direction keyword for skip and completion lists
+ */
+function sortOrderSql(order: SortOrder): SQL {
+	return order === 'asc' ? sql`ASC` : sql`DESC`
+}
+
+/**
+ * Gets the user's most skipped tracks, ordered by number of skips
+ *
+ * @param userId - User database ID
+ * @param options - Range, minimum plays, ordering and pagination
+ */
+export async function getMostSkippedTracks(
+	userId: string,
+	options: PlayRateOptions
+): Promise<TopListPage<SkippedTrack>> {
+	const order = sortOrderSql(options.order)
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		artists: Array<{ id: string; name: string }> | null
+		play_count: string
+		skip_count: string
+		skip_rate: number
+		total_count: string
+	}>(sql`
+		SELECT
+			t.id,
+			t.title as name,
+			(array_agg(al.image_url) FILTER (WHERE al.image_url IS NOT NULL))[1] as image_url,
+			(
+				SELECT json_agg(json_build_object('id', a.id, 'name', ${artistNameSql('a', options.locale)}) ORDER BY ta."order")
+				FROM track_artists ta
+				JOIN artists a ON a.id = ta.artist_id
+				WHERE ta.track_id = t.id
+			) as artists,
+			COUNT(s.id) as play_count,
+			COUNT(s.id) FILTER (WHERE s.skipped) as skip_count,
+			(COUNT(s.id) FILTER (WHERE s.skipped))::float8 / COUNT(s.id) as skip_rate,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN tracks t ON t.id = s.track_id
+		LEFT JOIN albums al ON al.id = s.album_id
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(options.range)}
+		GROUP BY t.id, t.title
+		HAVING COUNT(s.id) >= ${options.minPlays}
+		ORDER BY skip_count ${order}, skip_rate ${order}, t.title
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			image_url: row.image_url,
+			artists: row.artists ?? [],
+			play_count: parseInt(row.play_count, 10),
+			skip_count: parseInt(row.skip_count, 10),
+			skip_rate: row.skip_rate,
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Gets the user's skip rate per artist
+ *
+ * @param userId - User database ID
+ * @param options - Range, minimum plays, ordering and pagination
+ */
+export async function getArtistSkipRates(
+	userId: string,
+	options: PlayRateOptions
+): Promise<TopListPage<ArtistSkipRate>> {
+	const order = sortOrderSql(options.order)
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		play_count: string
+		skip_count: string
+		skip_rate: number
+		total_count: string
+	}>(sql`
+		SELECT
+			a.id,
+			${artistNameSql('a', options.locale)} as name,
+			a.image_url,
+			COUNT(s.id) as play_count,
+			COUNT(s.id) FILTER (WHERE s.skipped) as skip_count,
+			(COUNT(s.id) FILTER (WHERE s.skipped))::float8 / COUNT(s.id) as skip_rate,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+		JOIN artists a ON a.id = ta.artist_id
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(options.range)}
+		GROUP BY a.id, a.name, a.image_url
+		HAVING COUNT(s.id) >= ${options.minPlays}
+		ORDER BY skip_rate ${order}, play_count DESC, a.name
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			image_url: row.image_url,
+			play_count: parseInt(row.play_count, 10),
+			skip_count: parseInt(row.skip_count, 10),
+			skip_rate: row.skip_rate,
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Gets the average completion percentage per track.
+ * Tracks without a known duration are left out; plays longer than the
+ * track (e.g. after seeking back) count as fully completed.
+ *
+ * @param userId - User database ID
+ * @param options - Range, minimum plays, ordering and pagination
+ */
+export async function getTrackCompletion(
+	userId: string,
+	options: PlayRateOptions
+): Promise<TopListPage<TrackCompletion>> {
+	const order = sortOrderSql(options.order)
+	const rows = await db.execute<{
+		id: string
+		name: string
+		duration_ms: number
+		image_url: string | null
+		artists: Array<{ id: string; name: string }> | null
+		play_count: string
+		avg_completion_pct: string
+		total_count: string
+	}>(sql`
+		SELECT
+			t.id,
+			t.title as name,
+			t.duration_ms,
+			(array_agg(al.image_url) FILTER (WHERE al.image_url IS NOT NULL))[1] as image_url,
+			(
+				SELECT json_agg(json_build_object('id', a.id, 'name', ${artistNameSql('a', options.locale)}) ORDER BY ta."order")
+				FROM track_artists ta
+				JOIN artists a ON a.id = ta.artist_id
+				WHERE ta.track_id = t.id
+			) as artists,
+			COUNT(s.id) as play_count,
+			ROUND(AVG(LEAST(s.played_duration_ms::numeric / t.duration_ms, 1)) * 100, 1) as avg_completion_pct,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN tracks t ON t.id = s.track_id
+		LEFT JOIN albums al ON al.id = s.album_id
+		WHERE s.user_id = ${userId}
+			AND t.duration_ms > 0
+			${scrobbleRangeSql(options.range)}
+		GROUP BY t.id, t.title, t.duration_ms
+		HAVING COUNT(s.id) >= ${options.minPlays}
+		ORDER BY avg_completion_pct ${order}, play_count DESC, t.title
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			duration_ms: row.duration_ms,
+			image_url: row.image_url,
+			artists: row.artists ?? [],
+			play_count: parseInt(row.play_count, 10),
+			avg_completion_pct: parseFloat(row.avg_completion_pct),
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Gets the average completion percentage per album, across all plays of
+ * its tracks. Tracks without a known duration are left out.
+ *
+ * @param userId - User database ID
+ * @param options - Range, minimum plays, ordering and pagination
+ */
+export async function getAlbumCompletion(
+	userId: string,
+	options: PlayRateOptions
+): Promise<TopListPage<AlbumCompletion>> {
+	const order = sortOrderSql(options.order)
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		artist_id: string
+		artist_name: string
+		play_count: string
+		avg_completion_pct: string
+		total_count: string
+	}>(sql`
+		SELECT
+			al.id,
+			al.title as name,
+			al.image_url,
+			ar.id as artist_id,
+			${artistNameSql('ar', options.locale)} as artist_name,
+			COUNT(s.id) as play_count,
+			ROUND(AVG(LEAST(s.played_duration_ms::numeric / t.duration_ms, 1)) * 100, 1) as avg_completion_pct,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN tracks t ON t.id = s.track_id
+		JOIN albums al ON al.id = s.album_id
+		JOIN artists ar ON ar.id = al.artist_id
+		WHERE s.user_id = ${userId}
+			AND t.duration_ms > 0
+			${scrobbleRangeSql(options.range)}
+		GROUP BY al.id, al.title, al.image_url, ar.id, ar.name
+		HAVING COUNT(s.id) >= ${options.minPlays}
+		ORDER BY avg_completion_pct ${order}, play_count DESC, al.title
+		${pageSql(options.page, options.limit)}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			image_url: row.image_url,
+			artist: { id: row.artist_id, name: row.artist_name },
+			play_count: parseInt(row.play_count, 10),
+			avg_completion_pct: parseFloat(row.avg_completion_pct),
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Limits play summaries and timelines to one track or album
+ */
+export type PlayScope = { trackId: string } | { albumId: string }
+
+/**
+ * The user's plays of a single track or album
+ */
+export interface PlaySummary {
+	play_count: number
+	total_ms: number
+	skip_count: number
+	first_played_at: string | null
+	last_played_at: string | null
+}
+
+/**
+ * Plays in one calendar month
+ */
+export interface PlayTimelineMonth {
+	/** Calendar month (YYYY-MM) */
+	month: string
+	play_count: number
+	total_ms: number
+}
+
+/**
+ * Builds the SQL condition limiting scrobbles (aliased as "s") to a scope
+ */
+function playScopeSql(scope: PlayScope): SQL {
+	return 'trackId' in scope
+		? sql`AND s.track_id = ${scope.trackId}`
+		: sql`AND s.album_id = ${scope.albumId}`
+}
+
+/**
+ * Summarizes the user's plays of a track or album
+ *
+ * @param userId - User database ID
+ * @param scope - Track or album to summarize
+ */
+export async function getPlaySummary(
+	userId: string,
+	scope: PlayScope
+): Promise<PlaySummary> {
+	const [row] = await db.execute<{
+		play_count: string
+		total_ms: string
+		skip_count: string
+		first_played_at: Date | string | null
+		last_played_at: Date | string | null
+	}>(sql`
+		SELECT
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms,
+			COUNT(s.id) FILTER (WHERE s.skipped) as skip_count,
+			MIN(s.played_at) as first_played_at,
+			MAX(s.played_at) as last_played_at
+		FROM scrobbles s
+		WHERE s.user_id = ${userId}
+			${playScopeSql(scope)}
+	`)
+
+	return {
+		play_count: parseInt(row.play_count, 10),
+		total_ms: parseInt(row.total_ms, 10),
+		skip_count: parseInt(row.skip_count, 10),
+		first_played_at: row.first_played_at
+			? new Date(row.first_played_at).toISOString()
+			: null,
+		last_played_at: row.last_played_at
+			? new Date(row.last_played_at).toISOString()
+			: null,
+	}
+}
+
+/**
+ * Aggregates the user's plays of a track or album by calendar month.
+ * Only months with plays are returned.
+ *
+ * @param userId - User database ID
+ * @param timezone - IANA timezone that defines month boundaries
+ * @param scope - Track or album to aggregate
+ */
+export async function getPlayTimeline(
+	userId: string,
+	timezone: string,
+	scope: PlayScope
+): Promise<PlayTimelineMonth[]> {
+	const rows = await db.execute<{
+		month: string
+		play_count: string
+		total_ms: string
+	}>(sql`
+		SELECT
+			to_char(s.played_at AT TIME ZONE ${timezone}, 'YYYY-MM') as month,
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms
+		FROM scrobbles s
+		WHERE s.user_id = ${userId}
+			${playScopeSql(scope)}
+		GROUP BY 1
+		ORDER BY 1
+	`)
+
+	return rows.map((row) => ({
+		month: row.month,
+		play_count: parseInt(row.play_count, 10),
+		total_ms: parseInt(row.total_ms, 10),
+	}))
+}
+
+/**
+ * A recent play with the track as shown in play lists
+ */
+export interface RecentScrobble {
+	id: string
+	played_at: string
+	skipped: boolean
+	track: {
+		id: string
+		name: string
+		duration_ms: number
+		explicit: boolean
+		album: { id: string; name: string; images: Array<{ url: string }> }
+		artists: Array<{ id: string; name: string }>
+	}
+}
+
+/**
+ * Gets the user's most recent plays, newest first
+ *
+ * @param userId - User database ID
+ * @param limit - Number of plays to return
+ * @param locale - Display locale of artist names (omit for the stored names)
+ */
+export async function getRecentScrobbles(
+	userId: string,
+	limit: number,
+	locale: string | null = null
+): Promise<RecentScrobble[]> {
+	// Fetch recent scrobbles from database with track, album, and artist info
+	const recentScrobbles = await db
+		.select({
+			scrobble_id: scrobbles.id,
+			played_at: scrobbles.played_at,
+			skipped: scrobbles.skipped,
+			track_id: tracks.id,
+			track_title: tracks.title,
+			track_duration_ms: tracks.duration_ms,
+			track_explicit: tracks.explicit,
+			album_id: albums.id,
+			album_title: albums.title,
+			album_image_url: albums.image_url,
+		})
+		.from(scrobbles)
+		.innerJoin(tracks, eq(scrobbles.track_id, tracks.id))
+		.leftJoin(albums, eq(scrobbles.album_id, albums.id))
+		.where(eq(scrobbles.user_id, userId))
+		.orderBy(desc(scrobbles.played_at))
+		.limit(limit)
+
+	// Fetch artists for each track
+	const trackIds = [...new Set(recentScrobbles.map((s) => s.track_id))]
+	const trackArtistsData =
+		trackIds.length > 0
+			? await db
+					.select({
+						track_id: track_artists.track_id,
+						artist_id: artists.id,
+						artist_name: sql<string>`${artistNameSql('artists', locale)}`,
+						is_primary: track_artists.is_primary,
+						order: track_artists.order,
+					})
+					.from(track_artists)
+					.innerJoin(artists, eq(track_artists.artist_id, artists.id))
+					.where(inArray(track_artists.track_id, trackIds))
+					.orderBy(track_artists.order)
+			: []
+
+	// Group artists by track
+	const artistsByTrack = new Map<
+		string,
+		Array<{ id: string; name: string }>
+	>()
+	for (const ta of trackArtistsData) {
+		if (!artistsByTrack.has(ta.track_id)) {
+			artistsByTrack.set(ta.track_id, [])
+		}
+		artistsByTrack.get(ta.track_id)!.push({
+			id: ta.artist_id,
+			name: ta.artist_name,
+		})
+	}
+
+	return recentScrobbles.map((scrobble) => ({
+		id: scrobble.scrobble_id,
+		played_at:
+			scrobble.played_at?.toISOString() ?? new Date().toISOString(),
+		skipped: scrobble.skipped,
+		track: {
+			id: scrobble.track_id,
+			name: scrobble.track_title,
+			duration_ms: scrobble.track_duration_ms ?? 0,
+			explicit: scrobble.track_explicit,
+			album: scrobble.album_id
+				? {
+						id: scrobble.album_id,
+						name: scrobble.album_title ?? '',
+						images: scrobble.album_image_url
+							? [{ url: scrobble.album_image_url }]
+							: [],
+					}
+				: {
+						id: '',
+						name: '',
+						images: [],
+					},
+			artists: artistsByTrack.get(scrobble.track_id) ?? [],
+		},
+	}))
+}
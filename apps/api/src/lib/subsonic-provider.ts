@@ -0,0 +1,115 @@
+/**
+ * Subsonic Scrobble Provider
+ *
+ * Polls the now-playing list of Subsonic-compatible servers (Navidrome,
+ * Airsonic, Gonic, ...) for linked accounts. getNowPlaying reports neither
+ * the play position nor pauses, so the position is estimated:
+ * - A play's start is remembered per account while its entry stays listed
+ * - An entry whose start moves forward is a new play of the same track
+ *   (repeat), so loop detection still works
+ * - The position is capped at the track duration, so an entry that lingers
+ *   after playback stopped never counts more than one full play
+ *
+ * Subsonic has no play history endpoint, so plays are only scrobbled
+ * through playback sessions.
+ *
+ * @module subsonic-provider
+ */
+
+import { and } from 'drizzle-orm'
+import { db } from '../db'
+import { getSubsonicNowPlaying, type SubsonicNowPlayingEntry } from './subsonic'
+import type { ScrobbleProvider } from './scrobble-providers'
+
+const MINUTE_MS = 60 * 1000
+
+/** Start of the play each account's now-playing entry belongs to */
+const playStarts = new Map<string, { entryKey: string; startedAt: number }>()
+
+export const subsonicProvider: ScrobbleProvider<SubsonicNowPlayingEntry> = {
+	name: 'subsonic',
+
+	async getAccounts() {
+		return db.query.accounts.findMany({
+			where: (accounts, { eq, isNotNull }) =>
+				and(
+					eq(accounts.provider, 'subsonic'),
+					isNotNull(accounts.server_url),
+					isNotNull(accounts.server_user),
+					isNotNull(accounts.access_token)
+				),
+		})
+	},
+
+	/** The stored password is used as-is; there is no token to refresh */
+	async authenticate(account) {
+		return account.access_token
+	},
+
+	async getCurrentlyPlaying(account, password) {
+		if (!account.server_url || !account.server_user) {
+			return null
+		}
+
+		const entries = await getSubsonicNowPlaying({
+			serverUrl: account.server_url,
+			username: account.server_user,
+			password,
+		})
+
+		// The list covers every user of the server; the latest play wins
+		const entry = entries
+			.filter((item) => item.username === account.server_user)
+			.sort((a, b) => a.minutesAgo - b.minutesAgo)[0]
+
+		if (!entry) {
+			playStarts.delete(account.id)
+			return null
+		}
+
+		const now = Date.now()
+		const entryKey = `${entry.playerId}:${entry.id}`
+		// minutesAgo is rounded down to whole minutes, so the reported start
+		// of the same play can move forward by up to a minute
+		const reportedStart = now - entry.minutesAgo * MINUTE_MS
+		const known = playStarts.get(account.id)
+		const startedAt =
+			known &&
+			known.entryKey === entryKey &&
+			reportedStart - known.startedAt <= MINUTE_MS
+				? known.startedAt
+				: reportedStart
+		playStarts.set(account.id, { entryKey, startedAt })
+
+		const durationMs = (entry.duration ?? 0) * 1000
+		const elapsedMs = now - startedAt
+
+		return {
+			uri: `subsonic:track:${entry.id}`,
+			track: entry,
+			progressMs:
+				durationMs > 0 ? Math.min(elapsedMs, durationMs) : elapsedMs,
+			isPlaying: true,
+		}
+	},
+
+	normalizeTrack(entry) {
+		const artists = entry.artists?.length
+			? entry.artists.map((artist) => ({ name: artist.name }))
+			: [{ name: entry.artist ?? 'Unknown Artist' }]
+		const isrc = entry.isrc?.[0]
+
+		return {
+			id: entry.id,
+			name: entry.title,
+			duration_ms: (entry.duration ?? 0) * 1000,
+			explicit: false,
+			artists,
+			album: {
+				name: entry.album ?? '',
+				release_date: entry.year?.toString(),
+			},
+			external_ids: isrc ? { isrc } : undefined,
+		}
+	},
+}
@@ -0,0 +1,132 @@
+/**
+ * Subsonic API client
+ *
+ * Talks to Subsonic-compatible servers (Navidrome, Airsonic, Gonic, ...)
+ * using token authentication: every request carries md5(password + salt)
+ * with a fresh salt, so the password itself is never sent.
+ *
+ * @module subsonic
+ */
+
+import { createHash, randomBytes } from 'node:crypto'
+import type {
+	SubsonicNowPlayingEntry,
+	SubsonicNowPlayingResponse,
+	SubsonicResponse,
+} from '@playbacc/types/api/subsonic'
+
+export type {
+	SubsonicNowPlayingEntry,
+	SubsonicNowPlayingResponse,
+	SubsonicResponse,
+} from '@playbacc/types/api/subsonic'
+
+/** Protocol version sent to servers (token auth needs 1.13.0+) */
+const SUBSONIC_API_VERSION = '1.16.1'
+
+/** Client name reported to servers */
+const SUBSONIC_CLIENT_NAME = 'playbacc'
+
+/** Error codes meaning the credentials were rejected */
+const AUTH_ERROR_CODES = new Set([40, 41, 44])
+
+/**
+ * Credentials of a Subsonic server user
+ */
+export interface SubsonicCredentials {
+	/** Base URL of the server (without /rest) */
+	serverUrl: string
+	username: string
+	password: string
+}
+
+/**
+ * Calls a Subsonic endpoint and unwraps the response envelope
+ *
+ * @param credentials - Server and user to authenticate as
+ * @param endpoint - Endpoint name, e.g. 'ping'
+ * @returns The response body inside 'subsonic-response' (check its status)
+ * @throws Error if the server can't be reached or doesn't speak Subsonic
+ */
+async function subsonicRequest<T extends SubsonicResponse>(
+	credentials: SubsonicCredentials,
+	endpoint: string
+): Promise<T['subsonic-response']> {
+	const salt = randomBytes(8).toString('hex')
+	const token = createHash('md5')
+		.update(credentials.password + salt, 'utf8')
+		.digest('hex')
+
+	const url = new URL(`${credentials.serverUrl}/rest/${endpoint}`)
+	url.searchParams.set('u', credentials.username)
+	url.searchParams.set('t', token)
+	url.searchParams.set('s', salt)
+	url.searchParams.set('v', SUBSONIC_API_VERSION)
+	url.searchParams.set('c', SUBSONIC_CLIENT_NAME)
+	url.searchParams.set('f', 'json')
+
+	const response = await fetch(url, {
+		headers: { Accept: 'application/json' },
+	})
+
+	if (!response.ok) {
+		throw new Error(
+			`Subsonic ${endpoint} failed with status ${response.status}`
+		)
+	}
+
+	const data = ((await response.json()) as T)['subsonic-response']
+
+	if (!data) {
+		throw new Error(`Subsonic ${endpoint} returned an invalid response`)
+	}
+
+	return data
+}
+
+/**
+ * Checks that the server is reachable and accepts the credentials
+ *
+ * @param credentials - Server and user to check
+ * @returns False if the server rejects the credentials
+ * @throws Error if the server can't be used
+ */
+export async function pingSubsonic(
+	credentials: SubsonicCredentials
+): Promise<boolean> {
+	const data = await subsonicRequest<SubsonicResponse>(credentials, 'ping')
+
+	if (data.status === 'ok') {
+		return true
+	}
+	if (data.error && AUTH_ERROR_CODES.has(data.error.code)) {
+		return false
+	}
+	throw new Error(
+		`Subsonic ping failed: ${data.error?.message ?? 'Unknown error'}`
+	)
+}
+
+/**
+ * Lists what every user of the server is playing. Entries stay listed for a
+ * while after playback stops and don't report pauses or the play position.
+ *
+ * @param credentials - Server and user to authenticate as
+ * @returns Now-playing entries of all users
+ */
+export async function getSubsonicNowPlaying(
+	credentials: SubsonicCredentials
+): Promise<SubsonicNowPlayingEntry[]> {
+	const data = await subsonicRequest<SubsonicNowPlayingResponse>(
+		credentials,
+		'getNowPlaying'
+	)
+
+	if (data.status !== 'ok') {
+		throw new Error(
+			`Subsonic getNowPlaying failed: ${data.error?.message ?? 'Unknown error'}`
+		)
+	}
+
+	return data.nowPlaying?.entry ?? []
+}
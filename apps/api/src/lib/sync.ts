@@ -2,32 +2,48 @@
  * MusicBrainz Sync Service
  *
  * Provides functionality for:
- * - Syncing artist relationships (group memberships)
+ * - Syncing artist relationships (group memberships, collaborations,
+ *   performance names, subgroups, supporting musicians and producer/composer credits)
+ *   and aliases (localized names and sort names)
  * - Syncing track/album metadata from MusicBrainz
+ * - Syncing genres and tags (with vote counts) of artists, albums and tracks
  * - Date parsing and precision-aware refinement
  *
  * @module sync
  */
 
 import { db } from '../db'
-import { eq } from 'drizzle-orm'
+import { eq, sql } from 'drizzle-orm'
 import {
 	artists,
 	artists_groups,
+	artist_relationships,
+	artist_aliases,
 	albums,
 	tracks,
+	tags,
+	artist_tags,
+	album_tags,
+	track_tags,
 } from '@playbacc/types/db/schema'
 import {
 	getArtistDetails,
+	extractArtistAliases,
+	extractArtistRelations,
 	extractGroupMemberships,
 	extractGroupMembers,
 	getRecordingDetails,
 	getReleaseDetails,
 	getReleaseCoverUrl,
+	type ArtistRelation,
 	type GroupMembership,
 	type GroupMember,
 } from './musicbrainz'
-import type { MusicBrainzArtistDetails } from '@playbacc/types/api/musicbrainz'
+import type {
+	MusicBrainzArtistDetails,
+	MusicBrainzGenre,
+	MusicBrainzTag,
+} from '@playbacc/types/api/musicbrainz'
 
 // =============================================================================
 // Date Parsing Helpers
@@ -285,6 +301,12 @@ export interface SyncArtistRelationshipsResult {
 	membershipsUpdated: number
 	/** Number of members processed (for groups) */
 	membersProcessed: number
+	/** Number of other relationships processed (collaborations, credits, ...) */
+	relationshipsProcessed: number
+	/** Number of other relationships stored (credits on unknown recordings are skipped) */
+	relationshipsStored: number
+	/** Number of aliases stored */
+	aliasesStored: number
 	/** Errors encountered */
 	errors: string[]
 }
@@ -399,10 +421,131 @@ async function ensureArtistByMbid(
 	return upsertedArtist.id
 }
 
+/**
+ * Replaces an artist's aliases with the ones from a MusicBrainz lookup,
+ * along with its MusicBrainz name and sort name.
+ *
+ * @param artistId - Artist database ID
+ * @param mbDetails - Artist details with aliases loaded
+ * @returns Number of aliases stored (excluding the name itself)
+ */
+async function replaceArtistAliases(
+	artistId: string,
+	mbDetails: MusicBrainzArtistDetails
+): Promise<number> {
+	const aliases = extractArtistAliases(mbDetails)
+
+	await db.transaction(async (tx) => {
+		await tx
+			.delete(artist_aliases)
+			.where(eq(artist_aliases.artist_id, artistId))
+
+		await tx.insert(artist_aliases).values([
+			{
+				artist_id: artistId,
+				name: mbDetails.name,
+				sort_name: mbDetails['sort-name'] || mbDetails.name,
+				type: 'name' as const,
+			},
+			...aliases.map((alias) => ({
+				artist_id: artistId,
+				name: alias.name,
+				sort_name: alias.sortName,
+				locale: alias.locale,
+				type: alias.type,
+				is_primary: alias.primary,
+			})),
+		])
+	})
+
+	return aliases.length
+}
+
+/**
+ * Stores a relationship other than group membership, oriented the way
+ * MusicBrainz defines it. Producer/composer credits are only stored for
+ * recordings we already know.
+ *
+ * @param artistId - Artist ID of the looked-up artist
+ * @param relation - Relationship from MusicBrainz
+ * @returns Whether the relationship was stored
+ */
+async function upsertArtistRelationship(
+	artistId: string,
+	relation: ArtistRelation
+): Promise<boolean> {
+	let values: typeof artist_relationships.$inferInsert
+
+	if (relation.target.kind === 'artist') {
+		const relatedId = await ensureArtistByMbid(
+			relation.target.mbid,
+			relation.target.name
+		)
+		if (relatedId === artistId) {
+			return false
+		}
+
+		values =
+			relation.direction === 'forward'
+				? {
+						artist_id: artistId,
+						related_artist_id: relatedId,
+						type: relation.type,
+					}
+				: {
+						artist_id: relatedId,
+						related_artist_id: artistId,
+						type: relation.type,
+					}
+	} else {
+		// Artists are always entity0 of artist-recording relationships
+		if (relation.direction !== 'forward') {
+			return false
+		}
+
+		const track = await db.query.tracks.findFirst({
+			where: (t, { eq }) => eq(t.mbid, relation.target.mbid),
+			columns: { id: true },
+		})
+		if (!track) {
+			return false
+		}
+
+		values = {
+			artist_id: artistId,
+			track_id: track.id,
+			type: relation.type,
+		}
+	}
+
+	const dates = {
+		begin_raw: relation.beginDate ?? null,
+		end_raw: relation.endDate ?? null,
+		ended: relation.ended,
+	}
+
+	await db
+		.insert(artist_relationships)
+		.values({ ...values, ...dates })
+		.onConflictDoUpdate({
+			target: [
+				artist_relationships.artist_id,
+				artist_relationships.related_artist_id,
+				artist_relationships.track_id,
+				artist_relationships.type,
+			],
+			set: dates,
+		})
+
+	return true
+}
+
 /**
  * Syncs an artist's relationships from MusicBrainz.
  * - For Person artists: syncs their group memberships
  * - For Group artists: syncs their members (one hop only, no recursive sync)
+ * - For all artists: syncs aliases, collaborations, performance names,
+ *   subgroups, supporting musicians and producer/composer credits
  *
  * @param artistMbid - MusicBrainz artist ID
  * @returns Sync result statistics
@@ -416,6 +559,9 @@ export async function syncArtistRelationshipsByMbid(
 		membershipsInserted: 0,
 		membershipsUpdated: 0,
 		membersProcessed: 0,
+		relationshipsProcessed: 0,
+		relationshipsStored: 0,
+		aliasesStored: 0,
 		errors: [],
 	}
 
@@ -436,6 +582,8 @@ export async function syncArtistRelationshipsByMbid(
 			mbArtist
 		)
 
+		result.aliasesStored = await replaceArtistAliases(artistId, mbArtist)
+
 		// Handle based on artist type
 		if (mbArtist.type === 'Group') {
 			// For groups: sync their members
@@ -507,6 +655,22 @@ export async function syncArtistRelationshipsByMbid(
 				}
 			}
 		}
+
+		// Relationships other than membership apply to every artist type
+		for (const relation of extractArtistRelations(mbArtist)) {
+			result.relationshipsProcessed++
+			try {
+				if (await upsertArtistRelationship(artistId, relation)) {
+					result.relationshipsStored++
+				}
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : String(error)
+				result.errors.push(
+					`Error processing ${relation.type} relationship ${relation.target.mbid}: ${message}`
+				)
+			}
+		}
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error)
 		result.errors.push(`Sync failed: ${message}`)
@@ -619,6 +783,8 @@ export interface SyncAlbumResult {
 	updated: boolean
 	/** Whether cover art was fetched */
 	coverArtFetched: boolean
+	/** Number of tags stored for the album (genres included) */
+	tagsStored: number
 	/** Errors encountered */
 	errors: string[]
 }
@@ -636,6 +802,7 @@ export async function syncAlbumById(albumId: string): Promise<SyncAlbumResult> {
 		found: false,
 		updated: false,
 		coverArtFetched: false,
+		tagsStored: 0,
 		errors: [],
 	}
 
@@ -666,6 +833,10 @@ export async function syncAlbumById(albumId: string): Promise<SyncAlbumResult> {
 
 		result.found = true
 
+		// Genres and tags come with the release lookup, so no separate job is needed
+		const stored = await replaceEntityTags('album', albumId, mbRelease)
+		result.tagsStored = stored.tags
+
 		// Update album with MB data
 		const updates: Partial<typeof albums.$inferInsert> = {}
 
@@ -697,3 +868,244 @@ export async function syncAlbumById(albumId: string): Promise<SyncAlbumResult> {
 
 	return result
 }
+
+// =============================================================================
+// Genre & Tag Sync
+// =============================================================================
+
+/** Entities that carry MusicBrainz tags */
+export type TaggedEntityType = 'artist' | 'album' | 'track'
+
+/**
+ * Result of syncing an entity's genres and tags
+ */
+export interface SyncGenresResult {
+	/** Entity database ID */
+	entityId: string | null
+	/** Whether the entity was found in MusicBrainz */
+	found: boolean
+	/** Number of tags stored (genres included) */
+	tagsStored: number
+	/** Number of stored tags that are genres */
+	genresStored: number
+	/** Errors encountered */
+	errors: string[]
+}
+
+/**
+ * Merges a lookup's tags and genres into one list keyed by name.
+ * Genres are a curated subset of tags; they add the genre ID.
+ */
+function collectTags(source: {
+	genres?: MusicBrainzGenre[]
+	tags?: MusicBrainzTag[]
+}): Array<{ name: string; mbid: string | null; count: number }> {
+	const collected = new Map<
+		string,
+		{ name: string; mbid: string | null; count: number }
+	>()
+
+	for (const tag of source.tags ?? []) {
+		const name = tag.name.trim().toLowerCase()
+		if (name) {
+			collected.set(name, { name, mbid: null, count: tag.count })
+		}
+	}
+
+	for (const genre of source.genres ?? []) {
+		const name = genre.name.trim().toLowerCase()
+		if (name) {
+			collected.set(name, { name, mbid: genre.id, count: genre.count })
+		}
+	}
+
+	return [...collected.values()]
+}
+
+/**
+ * Replaces the stored tags of an artist, album or track with the ones
+ * from a MusicBrainz lookup, creating missing tags on the way.
+ *
+ * @param entityType - Entity type
+ * @param entityId - Entity database ID
+ * @param source - Lookup response with genres and tags
+ * @returns Number of tags and genres stored
+ */
+export async function replaceEntityTags(
+	entityType: TaggedEntityType,
+	entityId: string,
+	source: { genres?: MusicBrainzGenre[]; tags?: MusicBrainzTag[] }
+): Promise<{ tags: number; genres: number }> {
+	const collected = collectTags(source)
+
+	await db.transaction(async (tx) => {
+		switch (entityType) {
+			case 'artist':
+				await tx
+					.delete(artist_tags)
+					.where(eq(artist_tags.artist_id, entityId))
+				break
+			case 'album':
+				await tx
+					.delete(album_tags)
+					.where(eq(album_tags.album_id, entityId))
+				break
+			case 'track':
+				await tx
+					.delete(track_tags)
+					.where(eq(track_tags.track_id, entityId))
+				break
+		}
+
+		if (collected.length === 0) {
+			return
+		}
+
+		// Keep a known genre ID when a later lookup only lists the name as a tag
+		const stored = await tx
+			.insert(tags)
+			.values(collected.map(({ name, mbid }) => ({ name, mbid })))
+			.onConflictDoUpdate({
+				target: tags.name,
+				set: { mbid: sql`COALESCE(excluded.mbid, ${tags.mbid})` },
+			})
+			.returning({ id: tags.id, name: tags.name })
+
+		const tagIds = new Map(stored.map((tag) => [tag.name, tag.id]))
+		const rows = collected.map((tag) => ({
+			tag_id: tagIds.get(tag.name)!,
+			count: tag.count,
+		}))
+
+		switch (entityType) {
+			case 'artist':
+				await tx
+					.insert(artist_tags)
+					.values(
+						rows.map((row) => ({ ...row, artist_id: entityId }))
+					)
+				break
+			case 'album':
+				await tx
+					.insert(album_tags)
+					.values(rows.map((row) => ({ ...row, album_id: entityId })))
+				break
+			case 'track':
+				await tx
+					.insert(track_tags)
+					.values(rows.map((row) => ({ ...row, track_id: entityId })))
+				break
+		}
+	})
+
+	return {
+		tags: collected.length,
+		genres: collected.filter((tag) => tag.mbid).length,
+	}
+}
+
+/**
+ * Syncs an artist's genres and tags from MusicBrainz by its database ID.
+ *
+ * @param artistId - Artist database ID
+ * @returns Sync result
+ */
+export async function syncArtistGenresById(
+	artistId: string
+): Promise<SyncGenresResult> {
+	const result: SyncGenresResult = {
+		entityId: artistId,
+		found: false,
+		tagsStored: 0,
+		genresStored: 0,
+		errors: [],
+	}
+
+	try {
+		const artist = await db.query.artists.findFirst({
+			where: (a, { eq }) => eq(a.id, artistId),
+		})
+
+		if (!artist) {
+			result.errors.push(`Artist not found in database: ${artistId}`)
+			return result
+		}
+
+		if (!artist.mbid) {
+			result.errors.push('Artist has no MBID - cannot sync genres')
+			return result
+		}
+
+		const mbArtist = await getArtistDetails(artist.mbid)
+		if (!mbArtist) {
+			result.errors.push(
+				`Artist not found in MusicBrainz: ${artist.mbid}`
+			)
+			return result
+		}
+
+		result.found = true
+
+		const stored = await replaceEntityTags('artist', artistId, mbArtist)
+		result.tagsStored = stored.tags
+		result.genresStored = stored.genres
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		result.errors.push(`Sync failed: ${message}`)
+	}
+
+	return result
+}
+
+/**
+ * Syncs a track's genres and tags from its MusicBrainz recording.
+ *
+ * @param trackId - Track database ID
+ * @returns Sync result
+ */
+export async function syncTrackGenresById(
+	trackId: string
+): Promise<SyncGenresResult> {
+	const result: SyncGenresResult = {
+		entityId: trackId,
+		found: false,
+		tagsStored: 0,
+		genresStored: 0,
+		errors: [],
+	}
+
+	try {
+		const track = await db.query.tracks.findFirst({
+			where: (t, { eq }) => eq(t.id, trackId),
+		})
+
+		if (!track) {
+			result.errors.push(`Track not found in database: ${trackId}`)
+			return result
+		}
+
+		if (!track.mbid) {
+			result.errors.push('Track has no MBID - cannot sync genres')
+			return result
+		}
+
+		const mbRecording = await getRecordingDetails(track.mbid)
+		if (!mbRecording) {
+			result.errors.push(
+				`Recording not found in MusicBrainz: ${track.mbid}`
+			)
+			return result
+		}
+
+		result.found = true
+
+		const stored = await replaceEntityTags('track', trackId, mbRecording)
+		result.tagsStored = stored.tags
+		result.genresStored = stored.genres
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		result.errors.push(`Sync failed: ${message}`)
+	}
+
+	return result
+}
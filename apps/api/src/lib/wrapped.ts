@@ -0,0 +1,431 @@
+/**
+ * Year in Review ("Wrapped") Service
+ *
+ * Builds a summary of a user's listening for one calendar year in their
+ * timezone: totals, top lists, newly discovered artists, streaks, the
+ * skip rate and how listening splits between groups and solo artists.
+ *
+ * @module wrapped
+ */
+
+import { sql } from 'drizzle-orm'
+import { db } from '../db'
+import {
+	getTopAlbums,
+	getTopArtists,
+	getTopTracks,
+	getYearRange,
+	scrobbleRangeSql,
+	type StatsRange,
+	type TopAlbum,
+	type TopArtist,
+	type TopTrack,
+} from './stats'
+import { artistNameSql } from './artist-aliases'
+
+/** Number of entries in each top list of the report */
+const WRAPPED_TOP_LIMIT = 5
+
+/**
+ * Artist categories for the group vs solo split.
+ * Solo artists are people who are not a member of any group, matching the
+ * top-solo-artists stat; group members playing under their own name count
+ * as "member".
+ */
+export const ARTIST_CATEGORIES = ['group', 'solo', 'member', 'other'] as const
+
+export type ArtistCategory = (typeof ARTIST_CATEGORIES)[number]
+
+export interface ArtistCategoryShare {
+	play_count: number
+	total_ms: number
+	/** Most listened artist of the category */
+	top_artist: TopArtist | null
+}
+
+export interface NewArtist extends TopArtist {
+	/** First time the user ever played the artist */
+	first_played_at: string
+}
+
+export interface ListeningStreak {
+	days: number
+	/** First day of the streak (YYYY-MM-DD) */
+	start_date: string
+	/** Last day of the streak (YYYY-MM-DD) */
+	end_date: string
+}
+
+export interface MostReplayedDay {
+	/** Calendar date (YYYY-MM-DD) */
+	date: string
+	play_count: number
+	total_ms: number
+	/** Track played most often that day */
+	top_track: { id: string; name: string; play_count: number } | null
+}
+
+export interface WrappedReport {
+	year: number
+	timezone: string
+	from: string
+	to: string
+	play_count: number
+	total_ms: number
+	total_minutes: number
+	unique_artists: number
+	unique_tracks: number
+	days_listened: number
+	skipped_count: number
+	/** Share of plays that were skipped (0-1) */
+	skip_rate: number
+	top_artists: TopArtist[]
+	top_albums: TopAlbum[]
+	top_tracks: TopTrack[]
+	new_artists: { total: number; items: NewArtist[] }
+	longest_streak: ListeningStreak | null
+	most_replayed_day: MostReplayedDay | null
+	artist_split: Record<ArtistCategory, ArtistCategoryShare>
+}
+
+/**
+ * Gets play totals for a range
+ */
+async function getTotals(userId: string, timezone: string, range: StatsRange) {
+	const [row] = await db.execute<{
+		play_count: string
+		total_ms: string
+		skipped_count: string
+		unique_artists: string
+		unique_tracks: string
+		days_listened: string
+	}>(sql`
+		SELECT
+			COUNT(s.id) as play_count,
+			COALESCE(SUM(s.played_duration_ms), 0) as total_ms,
+			COUNT(s.id) FILTER (WHERE s.skipped) as skipped_count,
+			COUNT(DISTINCT ta.artist_id) as unique_artists,
+			COUNT(DISTINCT s.track_id) as unique_tracks,
+			COUNT(DISTINCT (s.played_at AT TIME ZONE ${timezone})::date) as days_listened
+		FROM scrobbles s
+		LEFT JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+		WHERE s.user_id = ${userId}
+			${scrobbleRangeSql(range)}
+	`)
+
+	return {
+		play_count: parseInt(row.play_count, 10),
+		total_ms: parseInt(row.total_ms, 10),
+		skipped_count: parseInt(row.skipped_count, 10),
+		unique_artists: parseInt(row.unique_artists, 10),
+		unique_tracks: parseInt(row.unique_tracks, 10),
+		days_listened: parseInt(row.days_listened, 10),
+	}
+}
+
+/**
+ * Gets the artists the user played for the first time within a range,
+ * ordered by time listened within the range
+ */
+async function getNewArtists(
+	userId: string,
+	range: StatsRange & { from: Date; to: Date },
+	locale: string | null
+): Promise<{ total: number; items: NewArtist[] }> {
+	const from = range.from.toISOString()
+	const to = range.to.toISOString()
+
+	const rows = await db.execute<{
+		id: string
+		name: string
+		image_url: string | null
+		first_played_at: Date | string
+		play_count: string
+		total_ms: string
+		total_count: string
+	}>(sql`
+		SELECT
+			a.id,
+			${artistNameSql('a', locale)} as name,
+			a.image_url,
+			MIN(s.played_at) as first_played_at,
+			COUNT(s.id) FILTER (WHERE s.played_at <= ${to}) as play_count,
+			COALESCE(SUM(s.played_duration_ms) FILTER (WHERE s.played_at <= ${to}), 0) as total_ms,
+			COUNT(*) OVER() as total_count
+		FROM scrobbles s
+		JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+		JOIN artists a ON a.id = ta.artist_id
+		WHERE s.user_id = ${userId}
+			${range.accountId ? sql`AND s.account_id = ${range.accountId}` : sql``}
+		GROUP BY a.id, a.name, a.image_url
+		HAVING MIN(s.played_at) >= ${from} AND MIN(s.played_at) <= ${to}
+		ORDER BY total_ms DESC, play_count DESC, a.name
+		LIMIT ${WRAPPED_TOP_LIMIT}
+	`)
+
+	return {
+		items: rows.map((row) => ({
+			id: row.id,
+			name: row.name,
+			image_url: row.image_url,
+			first_played_at: new Date(row.first_played_at).toISOString(),
+			play_count: parseInt(row.play_count, 10),
+			total_ms: parseInt(row.total_ms, 10),
+		})),
+		total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+	}
+}
+
+/**
+ * Gets the longest run of consecutive days with at least one play
+ */
+async function getLongestStreak(
+	userId: string,
+	timezone: string,
+	range: StatsRange
+): Promise<ListeningStreak | null> {
+	const [row] = await db.execute<{
+		days: string
+		start_date: string
+		end_date: string
+	}>(sql`
+		WITH days AS (
+			SELECT DISTINCT (s.played_at AT TIME ZONE ${timezone})::date as day
+			FROM scrobbles s
+			WHERE s.user_id = ${userId}
+				${scrobbleRangeSql(range)}
+		),
+		islands AS (
+			-- Consecutive days share the same day minus row number
+			SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::int as grp
+			FROM days
+		)
+		SELECT
+			COUNT(*) as days,
+			to_char(MIN(day), 'YYYY-MM-DD') as start_date,
+			to_char(MAX(day), 'YYYY-MM-DD') as end_date
+		FROM islands
+		GROUP BY grp
+		ORDER BY days DESC, start_date
+		LIMIT 1
+	`)
+
+	if (!row) return null
+
+	return {
+		days: parseInt(row.days, 10),
+		start_date: row.start_date,
+		end_date: row.end_date,
+	}
+}
+
+/**
+ * Gets the day with the most plays and the track replayed most that day
+ */
+async function getMostReplayedDay(
+	userId: string,
+	timezone: string,
+	range: StatsRange
+): Promise<MostReplayedDay | null> {
+	const [row] = await db.execute<{
+		date: string
+		play_count: string
+		total_ms: string
+		track_id: string | null
+		track_name: string | null
+		track_play_count: string | null
+	}>(sql`
+		WITH day_plays AS (
+			SELECT
+				to_char(s.played_at AT TIME ZONE ${timezone}, 'YYYY-MM-DD') as date,
+				s.track_id,
+				s.played_duration_ms
+			FROM scrobbles s
+			WHERE s.user_id = ${userId}
+				${scrobbleRangeSql(range)}
+		),
+		top_day AS (
+			SELECT
+				date,
+				COUNT(*) as play_count,
+				COALESCE(SUM(played_duration_ms), 0) as total_ms
+			FROM day_plays
+			GROUP BY date
+			ORDER BY play_count DESC, total_ms DESC, date
+			LIMIT 1
+		)
+		SELECT
+			td.date,
+			td.play_count,
+			td.total_ms,
+			t.id as track_id,
+			t.title as track_name,
+			tp.play_count as track_play_count
+		FROM top_day td
+		LEFT JOIN LATERAL (
+			SELECT dp.track_id, COUNT(*) as play_count
+			FROM day_plays dp
+			WHERE dp.date = td.date
+			GROUP BY dp.track_id
+			ORDER BY play_count DESC
+			LIMIT 1
+		) tp ON true
+		LEFT JOIN tracks t ON t.id = tp.track_id
+	`)
+
+	if (!row) return null
+
+	return {
+		date: row.date,
+		play_count: parseInt(row.play_count, 10),
+		total_ms: parseInt(row.total_ms, 10),
+		top_track:
+			row.track_id && row.track_name && row.track_play_count
+				? {
+						id: row.track_id,
+						name: row.track_name,
+						play_count: parseInt(row.track_play_count, 10),
+					}
+				: null,
+	}
+}
+
+/**
+ * Splits listening between groups, solo artists and group members using
+ * artists_groups memberships
+ */
+async function getArtistSplit(
+	userId: string,
+	range: StatsRange,
+	locale: string | null
+): Promise<Record<ArtistCategory, ArtistCategoryShare>> {
+	const rows = await db.execute<{
+		category: ArtistCategory
+		play_count: string
+		total_ms: string
+		top_artist: {
+			id: string
+			name: string
+			image_url: string | null
+			play_count: number
+			total_ms: number
+		} | null
+	}>(sql`
+		WITH artist_totals AS (
+			SELECT
+				a.id,
+				${artistNameSql('a', locale)} as name,
+				a.image_url,
+				CASE
+					WHEN a.type = 'group' THEN 'group'
+					WHEN EXISTS (
+						SELECT 1 FROM artists_groups ag WHERE ag.member_id = a.id
+					) THEN 'member'
+					WHEN a.type = 'person' THEN 'solo'
+					ELSE 'other'
+				END as category,
+				COUNT(s.id) as play_count,
+				COALESCE(SUM(s.played_duration_ms), 0) as total_ms
+			FROM scrobbles s
+			JOIN track_artists ta ON ta.track_id = s.track_id AND ta.is_primary = true
+			JOIN artists a ON a.id = ta.artist_id
+			WHERE s.user_id = ${userId}
+				${scrobbleRangeSql(range)}
+			GROUP BY a.id, a.name, a.image_url, a.type
+		)
+		SELECT
+			category,
+			SUM(play_count) as play_count,
+			SUM(total_ms) as total_ms,
+			(array_agg(
+				json_build_object(
+					'id', id,
+					'name', name,
+					'image_url', image_url,
+					'play_count', play_count,
+					'total_ms', total_ms
+				)
+				ORDER BY total_ms DESC, play_count DESC, name
+			))[1] as top_artist
+		FROM artist_totals
+		GROUP BY category
+	`)
+
+	const split = Object.fromEntries(
+		ARTIST_CATEGORIES.map((category) => [
+			category,
+			{ play_count: 0, total_ms: 0, top_artist: null },
+		])
+	) as Record<ArtistCategory, ArtistCategoryShare>
+
+	for (const row of rows) {
+		split[row.category] = {
+			play_count: parseInt(row.play_count, 10),
+			total_ms: parseInt(row.total_ms, 10),
+			top_artist: row.top_artist
+				? {
+						...row.top_artist,
+						play_count: Number(row.top_artist.play_count),
+						total_ms: Number(row.top_artist.total_ms),
+					}
+				: null,
+		}
+	}
+
+	return split
+}
+
+/**
+ * Generates the year in review report for a user
+ *
+ * @param userId - User database ID
+ * @param timezone - IANA timezone that defines the year boundaries
+ * @param year - Calendar year
+ * @param locale - Display locale of artist names (omit for the stored names)
+ * @param accountId - Linked account to limit the report to (omit to merge all sources)
+ */
+export async function generateWrapped(
+	userId: string,
+	timezone: string,
+	year: number,
+	locale: string | null = null,
+	accountId: string | null = null
+): Promise<WrappedReport> {
+	const range = { ...getYearRange(timezone, year), accountId }
+	const topOptions = {
+		range,
+		orderBy: 'total_ms' as const,
+		page: 1,
+		limit: WRAPPED_TOP_LIMIT,
+		locale,
+	}
+
+	const totals = await getTotals(userId, timezone, range)
+	const topArtists = await getTopArtists(userId, topOptions)
+	const topAlbums = await getTopAlbums(userId, topOptions)
+	const topTracks = await getTopTracks(userId, topOptions)
+	const newArtists = await getNewArtists(userId, range, locale)
+	const longestStreak = await getLongestStreak(userId, timezone, range)
+	const mostReplayedDay = await getMostReplayedDay(userId, timezone, range)
+	const artistSplit = await getArtistSplit(userId, range, locale)
+
+	return {
+		year,
+		timezone,
+		from: range.from.toISOString(),
+		to: range.to.toISOString(),
+		...totals,
+		total_minutes: Math.floor(totals.total_ms / 60000),
+		skip_rate:
+			totals.play_count > 0
+				? totals.skipped_count / totals.play_count
+				: 0,
+		top_artists: topArtists.items,
+		top_albums: topAlbums.items,
+		top_tracks: topTracks.items,
+		new_artists: newArtists,
+		longest_streak: longestStreak,
+		most_replayed_day: mostReplayedDay,
+		artist_split: artistSplit,
+	}
+}
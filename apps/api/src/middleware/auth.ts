@@ -44,13 +44,26 @@ export const authenticate = async (ctx: Context, next: Next) => {
 	}
 
 	try {
-		const account = await db.query.accounts.findFirst({
-			where: (accounts, { eq, and }) =>
-				and(
-					eq(accounts.provider, 'spotify'),
-					eq(accounts.external_id, payload.external_id)
-				),
-		})
+		// The token names the account the user signed in with. If it has been
+		// unlinked (or moved to another user) since, fall back to another of
+		// the user's linked accounts.
+		const account =
+			(await db.query.accounts.findFirst({
+				where: (accounts, { eq, and }) =>
+					and(
+						eq(accounts.provider, 'spotify'),
+						eq(accounts.external_id, payload.external_id),
+						eq(accounts.user_id, payload.user_id)
+					),
+			})) ??
+			(await db.query.accounts.findFirst({
+				where: (accounts, { eq, and }) =>
+					and(
+						eq(accounts.provider, 'spotify'),
+						eq(accounts.user_id, payload.user_id)
+					),
+				orderBy: (accounts, { asc }) => [asc(accounts.linked_at)],
+			}))
 
 		if (!account || !account.user_id) {
 			return ctx.json({ error: 'Account not found' }, 404)
@@ -107,3 +120,20 @@ export const authenticate = async (ctx: Context, next: Next) => {
 		return ctx.json({ error: 'Authentication failed' }, 500)
 	}
 }
+
+/**
+ * Middleware that restricts routes to admins. Must run after `authenticate`.
+ *
+ * @param ctx - Hono context
+ * @param next - Next middleware function
+ * @returns 403 response if the user is not an admin, otherwise continues to next middleware
+ */
+export const requireAdmin = async (ctx: Context, next: Next) => {
+	const user = ctx.get('user')
+
+	if (!user || user.role !== 'admin') {
+		return ctx.json({ error: 'Admin access required' }, 403)
+	}
+
+	await next()
+}
@@ -0,0 +1,230 @@
+/**
+ * Accounts Routes
+ *
+ * Provides endpoints for listing, linking and unlinking the streaming
+ * service accounts scrobbles are captured from.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { authenticate } from '../middleware/auth'
+import { signLinkToken } from '../lib/jwt'
+import { getAuthUrl, SPOTIFY_SCOPES } from '../lib/spotify'
+import {
+	getLinkedAccounts,
+	linkServerAccount,
+	unlinkAccount,
+	type LinkedAccount,
+} from '../lib/accounts'
+import type { AppVariables } from '../types'
+
+const accountsRoutes = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+accountsRoutes.use('*', authenticate)
+
+const uuidRegex =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Schema for starting to link an account
+ */
+const linkBodySchema = z.object({
+	redirect_uri: z.url(),
+})
+
+/**
+ * Schema for linking a user on a self-hosted server
+ */
+const linkServerBodySchema = z.object({
+	provider: z.enum(['subsonic', 'jellyfin']),
+	server_url: z.url({ protocol: /^https?$/ }),
+	username: z.string().trim().min(1),
+	password: z.string().min(1),
+})
+
+/** Error responses for rejected server links */
+const LINK_SERVER_ERRORS = {
+	linked_to_other_user: {
+		status: 409,
+		error: 'This server account is already linked to another user',
+	},
+	invalid_credentials: {
+		status: 400,
+		error: 'The server rejected the username or password',
+	},
+	server_unreachable: {
+		status: 502,
+		error: 'Could not reach the server',
+	},
+} as const
+
+/** Error responses for rejected unlinks */
+const UNLINK_ERRORS = {
+	not_found: { status: 404, error: 'Account not found' },
+	last_account: {
+		status: 400,
+		error: 'Cannot unlink your only Spotify account',
+	},
+} as const
+
+/**
+ * Formats a linked account for API responses
+ */
+function formatAccount(account: LinkedAccount, currentAccountId: string) {
+	return {
+		id: account.id,
+		provider: account.provider,
+		external_id: account.external_id,
+		display_name: account.display_name,
+		server_url: account.server_url,
+		linked_at: account.linked_at.toISOString(),
+		scrobble_count: account.scrobble_count,
+		/** Whether this is the account the current session signed in with */
+		current: account.id === currentAccountId,
+	}
+}
+
+/**
+ * GET /api/accounts
+ *
+ * Returns the user's linked accounts, oldest first. Each linked Spotify,
+ * Subsonic and Jellyfin account is polled for plays; pass an account ID as
+ * ?account= to stats endpoints to see its plays only.
+ */
+accountsRoutes.get('/', async (ctx) => {
+	const user = ctx.get('user')
+	const account = ctx.get('account')
+
+	try {
+		const linked = await getLinkedAccounts(user.id)
+		return ctx.json({
+			items: linked.map((item) => formatAccount(item, account.id)),
+		})
+	} catch (error) {
+		console.error('[Accounts] Error fetching accounts:', error)
+		return ctx.json({ error: 'Failed to fetch accounts' }, 500)
+	}
+})
+
+/**
+ * POST /api/accounts/spotify/link
+ *
+ * Starts linking another Spotify account. Returns the Spotify authorization
+ * URL to send the browser to; after approval the OAuth callback links the
+ * account and redirects to redirect_uri with ?linked=spotify (or ?error=).
+ * The link request expires after 10 minutes.
+ * Body:
+ *   - redirect_uri: frontend URL to return to
+ */
+accountsRoutes.post('/spotify/link', async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const params = linkBodySchema.safeParse(body)
+	if (!params.success) {
+		return ctx.json({ error: params.error.issues[0].message }, 400)
+	}
+
+	try {
+		const state = Buffer.from(
+			JSON.stringify({
+				redirect_uri: params.data.redirect_uri,
+				link_token: await signLinkToken(user.id),
+			})
+		).toString('base64url')
+
+		// Always show the dialog so the user can switch Spotify accounts
+		return ctx.json({ url: getAuthUrl(state, SPOTIFY_SCOPES, true) })
+	} catch (error) {
+		console.error('[Accounts] Error starting account link:', error)
+		return ctx.json({ error: 'Failed to start account link' }, 500)
+	}
+})
+
+/**
+ * POST /api/accounts/server
+ *
+ * Links a user on a self-hosted Subsonic-compatible (Navidrome, Airsonic,
+ * ...) or Jellyfin server. The credentials are checked with the server
+ * first; linking the same server user again updates the credentials.
+ * Body:
+ *   - provider: 'subsonic' or 'jellyfin'
+ *   - server_url: base URL of the server
+ *   - username, password: sign-in details on the server
+ */
+accountsRoutes.post('/server', async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const params = linkServerBodySchema.safeParse(body)
+	if (!params.success) {
+		return ctx.json({ error: params.error.issues[0].message }, 400)
+	}
+
+	try {
+		const result = await linkServerAccount(user.id, params.data.provider, {
+			serverUrl: params.data.server_url,
+			username: params.data.username,
+			password: params.data.password,
+		})
+
+		if (!result.ok) {
+			const { status, error } = LINK_SERVER_ERRORS[result.reason]
+			return ctx.json({ error }, status)
+		}
+
+		return ctx.json(
+			{ id: result.account.id, created: result.created },
+			result.created ? 201 : 200
+		)
+	} catch (error) {
+		console.error('[Accounts] Error linking server account:', error)
+		return ctx.json({ error: 'Failed to link account' }, 500)
+	}
+})
+
+/**
+ * DELETE /api/accounts/:id
+ *
+ * Unlinks an account. Its plays are kept and count towards merged stats,
+ * but are no longer attributed to an account. The only remaining Spotify
+ * account can't be unlinked, as it is used to sign in.
+ */
+accountsRoutes.delete('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const accountId = ctx.req.param('id')
+
+	if (!uuidRegex.test(accountId)) {
+		return ctx.json({ error: 'Invalid account ID format' }, 400)
+	}
+
+	try {
+		const result = await unlinkAccount(user.id, accountId)
+
+		if (!result.ok) {
+			const { status, error } = UNLINK_ERRORS[result.reason]
+			return ctx.json({ error }, status)
+		}
+
+		return ctx.json({ deleted: 1 })
+	} catch (error) {
+		console.error('[Accounts] Error unlinking account:', error)
+		return ctx.json({ error: 'Failed to unlink account' }, 500)
+	}
+})
+
+export default accountsRoutes
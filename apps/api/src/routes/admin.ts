@@ -0,0 +1,155 @@
+/**
+ * Admin Routes
+ *
+ * Provides catalog maintenance endpoints: finding and merging duplicate
+ * tracks, albums and artists.
+ * All endpoints require an authenticated admin.
+ */
+
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { paginationSchema } from '@playbacc/types'
+import { authenticate, requireAdmin } from '../middleware/auth'
+import {
+	MERGE_ENTITIES,
+	getMergeCandidates,
+	mergeEntities,
+	type MergeEntity,
+} from '../lib/merge'
+import type { AppVariables } from '../types'
+
+const admin = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication and admin check to all routes
+admin.use('*', authenticate)
+admin.use('*', requireAdmin)
+
+/**
+ * Schema for merging two entities
+ */
+const mergeBodySchema = z.object({
+	survivor_id: z.uuid(),
+	duplicate_id: z.uuid(),
+})
+
+/** Error responses for rejected merges */
+const MERGE_ERRORS = {
+	not_found: { status: 404, error: 'Survivor or duplicate not found' },
+	same_entity: {
+		status: 400,
+		error: 'Survivor and duplicate must be different',
+	},
+} as const
+
+/**
+ * GET /api/admin/merge-candidates/:entity
+ *
+ * Returns probable duplicates: pairs that resolved to the same MBID first,
+ * then pairs with the same normalized title (and primary artist; tracks
+ * also need durations within a few seconds), most played first.
+ * Path params:
+ *   - entity: tracks, albums or artists
+ * Query params:
+ *   - page: page number (default 1)
+ *   - limit: items per page (default 50, max 100)
+ */
+admin.get('/merge-candidates/:entity', async (ctx) => {
+	const entity = ctx.req.param('entity')
+
+	if (!MERGE_ENTITIES.includes(entity as MergeEntity)) {
+		return ctx.json(
+			{
+				error: `Invalid entity. Expected one of: ${MERGE_ENTITIES.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	// Query params are strings; paginationSchema expects numbers
+	const pageParam = ctx.req.query('page')
+	const limitParam = ctx.req.query('limit')
+	const pagination = paginationSchema.safeParse({
+		page: pageParam !== undefined ? Number(pageParam) : undefined,
+		limit: limitParam !== undefined ? Number(limitParam) : undefined,
+	})
+	if (!pagination.success) {
+		return ctx.json({ error: 'Invalid pagination parameters' }, 400)
+	}
+
+	try {
+		const items = await getMergeCandidates(
+			entity as MergeEntity,
+			pagination.data.page,
+			pagination.data.limit
+		)
+
+		return ctx.json({
+			items,
+			page: pagination.data.page,
+			limit: pagination.data.limit,
+		})
+	} catch (error) {
+		console.error('[Admin] Error fetching merge candidates:', error)
+		return ctx.json({ error: 'Failed to fetch merge candidates' }, 500)
+	}
+})
+
+/**
+ * POST /api/admin/merge/:entity
+ *
+ * Merges a duplicate into the survivor: scrobbles, credits, album links
+ * and group memberships move to the survivor, which also takes over
+ * identifiers it is missing, and the duplicate is deleted.
+ * Path params:
+ *   - entity: tracks, albums or artists
+ * Body:
+ *   - survivor_id: entity to keep
+ *   - duplicate_id: entity to merge and delete
+ */
+admin.post('/merge/:entity', async (ctx) => {
+	const entity = ctx.req.param('entity')
+
+	if (!MERGE_ENTITIES.includes(entity as MergeEntity)) {
+		return ctx.json(
+			{
+				error: `Invalid entity. Expected one of: ${MERGE_ENTITIES.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const params = mergeBodySchema.safeParse(body)
+	if (!params.success) {
+		return ctx.json({ error: params.error.issues[0].message }, 400)
+	}
+
+	try {
+		const result = await mergeEntities(
+			entity as MergeEntity,
+			params.data.survivor_id,
+			params.data.duplicate_id
+		)
+
+		if (!result.ok) {
+			const { status, error } = MERGE_ERRORS[result.reason]
+			return ctx.json({ error }, status)
+		}
+
+		return ctx.json({
+			survivor_id: params.data.survivor_id,
+			merged_id: params.data.duplicate_id,
+		})
+	} catch (error) {
+		console.error('[Admin] Error merging entities:', error)
+		return ctx.json({ error: 'Failed to merge' }, 500)
+	}
+})
+
+export default admin
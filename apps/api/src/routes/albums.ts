@@ -0,0 +1,147 @@
+/**
+ * Albums Routes
+ *
+ * Provides endpoints for album details and the user's listening history
+ * of an album.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { authenticate } from '../middleware/auth'
+import { db } from '../db'
+import { sql } from 'drizzle-orm'
+import { getPlaySummary, getPlayTimeline } from '../lib/stats'
+import { artistNameSql } from '../lib/artist-aliases'
+import type { AppVariables } from '../types'
+
+const albums = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+albums.use('*', authenticate)
+
+interface AlbumTrackCredit {
+	id: string
+	name: string
+	join_phrase: string
+}
+
+/**
+ * GET /api/albums/:id
+ *
+ * Returns album details including:
+ * - Metadata (MBID, release date) and the album artist
+ * - The tracklist with disc and track positions, artist credits and the
+ *   user's play count per track
+ * - The user's play count, first/last played and a per-month play timeline
+ */
+albums.get('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const albumId = ctx.req.param('id')
+
+	// Validate UUID format
+	const uuidRegex =
+		/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+	if (!uuidRegex.test(albumId)) {
+		return ctx.json({ error: 'Invalid album ID format' }, 400)
+	}
+
+	try {
+		const albumResult = await db.execute<{
+			id: string
+			title: string
+			release_date: string | null
+			image_url: string | null
+			mbid: string | null
+			artist_id: string
+			artist_name: string
+			artist_image_url: string | null
+		}>(sql`
+			SELECT
+				al.id,
+				al.title,
+				al.release_date::text as release_date,
+				al.image_url,
+				al.mbid,
+				ar.id as artist_id,
+				${artistNameSql('ar', user.display_locale)} as artist_name,
+				ar.image_url as artist_image_url
+			FROM albums al
+			JOIN artists ar ON ar.id = al.artist_id
+			WHERE al.id = ${albumId}
+		`)
+
+		if (albumResult.length === 0) {
+			return ctx.json({ error: 'Album not found' }, 404)
+		}
+
+		const album = albumResult[0]
+
+		const tracklist = await db.execute<{
+			id: string
+			title: string
+			duration_ms: number | null
+			disc_number: number | null
+			position: number | null
+			credits: AlbumTrackCredit[] | null
+			play_count: string
+		}>(sql`
+			SELECT
+				t.id,
+				t.title,
+				t.duration_ms,
+				tal.disc_number,
+				tal.position,
+				(
+					SELECT json_agg(json_build_object('id', a.id, 'name', ${artistNameSql('a', user.display_locale)}, 'join_phrase', ta.join_phrase) ORDER BY ta."order")
+					FROM track_artists ta
+					JOIN artists a ON a.id = ta.artist_id
+					WHERE ta.track_id = t.id
+				) as credits,
+				(
+					SELECT COUNT(*)
+					FROM scrobbles s
+					WHERE s.user_id = ${user.id}
+						AND s.track_id = t.id
+						AND s.album_id = ${albumId}
+				) as play_count
+			FROM track_albums tal
+			JOIN tracks t ON t.id = tal.track_id
+			WHERE tal.album_id = ${albumId}
+			ORDER BY tal.disc_number ASC NULLS LAST, tal.position ASC NULLS LAST, t.title ASC
+		`)
+
+		const scope = { albumId }
+		const stats = await getPlaySummary(user.id, scope)
+		const timeline = await getPlayTimeline(user.id, user.timezone, scope)
+
+		return ctx.json({
+			id: album.id,
+			title: album.title,
+			release_date: album.release_date,
+			image_url: album.image_url,
+			mbid: album.mbid,
+			artist: {
+				id: album.artist_id,
+				name: album.artist_name,
+				image_url: album.artist_image_url,
+			},
+			tracks: tracklist.map((track) => ({
+				id: track.id,
+				title: track.title,
+				duration_ms: track.duration_ms,
+				disc_number: track.disc_number,
+				position: track.position,
+				credits: track.credits ?? [],
+				play_count: parseInt(track.play_count, 10),
+			})),
+			stats,
+			timezone: user.timezone,
+			timeline,
+		})
+	} catch (error) {
+		console.error('[Albums] Error fetching album:', error)
+		return ctx.json({ error: 'Failed to fetch album' }, 500)
+	}
+})
+
+export default albums
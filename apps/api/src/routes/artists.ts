@@ -1,7 +1,9 @@
 /**
  * Artists Routes
  *
- * Provides endpoints for artist details including members and group affiliations.
+ * Provides endpoints for artist details including members, group affiliations
+ * and other related artists, and the family tree of related bands reached by
+ * relationship traversals.
  * All endpoints require authentication.
  */
 
@@ -9,6 +11,9 @@ import { Hono } from 'hono'
 import { authenticate } from '../middleware/auth'
 import { db } from '../db'
 import { sql } from 'drizzle-orm'
+import { getRelatedArtists } from '../lib/artist-relationships'
+import { getArtistFamilyTree } from '../lib/artist-traversal'
+import { artistNameSql } from '../lib/artist-aliases'
 import type { AppVariables } from '../types'
 
 const artists = new Hono<{ Variables: AppVariables }>()
@@ -40,8 +45,12 @@ interface GroupInfo {
  * Returns artist details including:
  * - For groups: list of current and previous members
  * - For persons: list of groups they belong to
+ * - For all: related artists (collaborations, performance names, subgroups,
+ *   supporting musicians, producers and composers) with the user's play counts
+ * Artist names are shown in the user's display locale.
  */
 artists.get('/:id', async (ctx) => {
+	const user = ctx.get('user')
 	const artistId = ctx.req.param('id')
 
 	// Validate UUID format
@@ -63,7 +72,15 @@ artists.get('/:id', async (ctx) => {
 			end_date: string | null
 			mbid: string | null
 		}>(sql`
-			SELECT id, name, image_url, type, gender, begin_date, end_date, mbid
+			SELECT
+				id,
+				${artistNameSql('artists', user.display_locale)} as name,
+				image_url,
+				type,
+				gender,
+				begin_date,
+				end_date,
+				mbid
 			FROM artists
 			WHERE id = ${artistId}
 		`)
@@ -73,6 +90,7 @@ artists.get('/:id', async (ctx) => {
 		}
 
 		const artist = artistResult[0]
+		const relationships = await getRelatedArtists(artistId, user.id)
 
 		// For groups, fetch members
 		if (artist.type === 'group') {
@@ -86,7 +104,7 @@ artists.get('/:id', async (ctx) => {
 			}>(sql`
 				SELECT
 					a.id,
-					a.name,
+					${artistNameSql('a', user.display_locale)} as name,
 					a.image_url,
 					ag.begin_raw,
 					ag.end_raw,
@@ -130,6 +148,7 @@ artists.get('/:id', async (ctx) => {
 					current: currentMembers,
 					previous: previousMembers,
 				},
+				relationships,
 			})
 		}
 
@@ -144,7 +163,7 @@ artists.get('/:id', async (ctx) => {
 		}>(sql`
 			SELECT
 				a.id,
-				a.name,
+				${artistNameSql('a', user.display_locale)} as name,
 				a.image_url,
 				ag.begin_raw,
 				ag.end_raw,
@@ -174,6 +193,7 @@ artists.get('/:id', async (ctx) => {
 			end_date: artist.end_date,
 			mbid: artist.mbid,
 			groups,
+			relationships,
 		})
 	} catch (error) {
 		console.error('[Artists] Error fetching artist:', error)
@@ -181,4 +201,30 @@ artists.get('/:id', async (ctx) => {
 	}
 })
 
+/**
+ * GET /api/artists/:id/family-tree
+ *
+ * Returns the artists reached by the latest traversal rooted at the artist
+ * (or else the latest one that reached it), by hop, with the user's play
+ * counts. The tree is null until a traversal is started.
+ */
+artists.get('/:id/family-tree', async (ctx) => {
+	const user = ctx.get('user')
+	const artistId = ctx.req.param('id')
+
+	const uuidRegex =
+		/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+	if (!uuidRegex.test(artistId)) {
+		return ctx.json({ error: 'Invalid artist ID format' }, 400)
+	}
+
+	try {
+		const tree = await getArtistFamilyTree(artistId, user.id)
+		return ctx.json({ tree })
+	} catch (error) {
+		console.error('[Artists] Error fetching family tree:', error)
+		return ctx.json({ error: 'Failed to fetch family tree' }, 500)
+	}
+})
+
 export default artists
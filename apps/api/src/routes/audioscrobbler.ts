@@ -0,0 +1,381 @@
+/**
+ * Audioscrobbler-compatible Routes
+ *
+ * Implements the scrobbling subset of the Last.fm API (auth.getMobileSession,
+ * track.updateNowPlaying, track.scrobble), so clients that only speak the
+ * Last.fm protocol can use Playbacc as their backend.
+ * Mounted at /2.0 to match the Last.fm URL layout.
+ *
+ * Parameters are read from the query string and form body. Responses are XML
+ * unless format=json is given; errors follow the Last.fm format.
+ *
+ * @see https://www.last.fm/api/scrobbling
+ */
+
+import { Hono, type Context } from 'hono'
+import {
+	AUDIOSCROBBLER_CONFIG,
+	AUDIOSCROBBLER_ERROR,
+	IGNORED_SCROBBLE_CODE,
+	createMobileSession,
+	findUserBySessionKey,
+	isValidApiKey,
+	isValidApiSignature,
+	paramsToSubmittedTrack,
+	parseScrobbleParams,
+	submitScrobbles,
+	updateNowPlaying,
+	type ScrobbleSubmissionResult,
+} from '../lib/audioscrobbler'
+import type { AppVariables } from '../types'
+
+const audioscrobbler = new Hono<{ Variables: AppVariables }>()
+
+type ResponseFormat = 'xml' | 'json'
+
+/** Messages for ignored scrobbles, keyed by IGNORED_SCROBBLE_CODE */
+const IGNORED_MESSAGES: Record<number, string> = {
+	[IGNORED_SCROBBLE_CODE.TRACK_IGNORED]: 'Track was not played long enough',
+	[IGNORED_SCROBBLE_CODE.TIMESTAMP_TOO_OLD]: 'Timestamp too old',
+	[IGNORED_SCROBBLE_CODE.TIMESTAMP_TOO_NEW]: 'Timestamp too new',
+}
+
+/**
+ * Reads the request parameters from the query string and, for POST
+ * requests, the form body (body values take precedence)
+ */
+async function getRequestParams(ctx: Context): Promise<Record<string, string>> {
+	const params: Record<string, string> = { ...ctx.req.query() }
+
+	if (ctx.req.method === 'POST') {
+		const body = await ctx.req.parseBody()
+		for (const [name, value] of Object.entries(body)) {
+			if (typeof value === 'string') {
+				params[name] = value
+			}
+		}
+	}
+
+	return params
+}
+
+/**
+ * Escapes a value for use in XML text or attributes
+ */
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Converts a Last.fm JSON response value to XML.
+ * Follows the Last.fm JSON conventions: "@attr" holds attributes, "#text"
+ * holds text content (other scalar fields next to it become attributes),
+ * and arrays are repeated elements.
+ */
+function toXml(name: string, value: unknown): string {
+	if (Array.isArray(value)) {
+		return value.map((item) => toXml(name, item)).join('')
+	}
+
+	if (value === null || typeof value !== 'object') {
+		return `<${name}>${escapeXml(String(value ?? ''))}</${name}>`
+	}
+
+	const entries = Object.entries(value as Record<string, unknown>)
+	const hasText = entries.some(([key]) => key === '#text')
+	const attributes: Array<[string, unknown]> = []
+	const children: Array<[string, unknown]> = []
+	let text = ''
+
+	for (const [key, child] of entries) {
+		if (key === '#text') {
+			text = escapeXml(String(child ?? ''))
+		} else if (key === '@attr' && child && typeof child === 'object') {
+			attributes.push(...Object.entries(child))
+		} else if (hasText && (child === null || typeof child !== 'object')) {
+			attributes.push([key, child])
+		} else {
+			children.push([key, child])
+		}
+	}
+
+	const attributeXml = attributes
+		.map(([key, attr]) => ` ${key}="${escapeXml(String(attr ?? ''))}"`)
+		.join('')
+	const childXml = children.map(([key, child]) => toXml(key, child)).join('')
+
+	return `<${name}${attributeXml}>${text}${childXml}</${name}>`
+}
+
+/**
+ * Sends a successful response in the requested format
+ */
+function respond(
+	ctx: Context,
+	format: ResponseFormat,
+	body: Record<string, unknown>
+) {
+	if (format === 'json') {
+		return ctx.json(body)
+	}
+
+	const content = Object.entries(body)
+		.map(([name, value]) => toXml(name, value))
+		.join('')
+
+	return ctx.body(
+		`<?xml version="1.0" encoding="UTF-8"?>\n<lfm status="ok">${content}</lfm>`,
+		200,
+		{ 'Content-Type': 'text/xml; charset=utf-8' }
+	)
+}
+
+/**
+ * Sends a Last.fm error response in the requested format
+ */
+function respondError(
+	ctx: Context,
+	format: ResponseFormat,
+	code: number,
+	message: string
+) {
+	const status =
+		code === AUDIOSCROBBLER_ERROR.AUTHENTICATION_FAILED ||
+		code === AUDIOSCROBBLER_ERROR.INVALID_SESSION_KEY ||
+		code === AUDIOSCROBBLER_ERROR.INVALID_API_KEY ||
+		code === AUDIOSCROBBLER_ERROR.INVALID_SIGNATURE
+			? 403
+			: code === AUDIOSCROBBLER_ERROR.OPERATION_FAILED
+				? 500
+				: code === AUDIOSCROBBLER_ERROR.SERVICE_UNAVAILABLE
+					? 503
+					: 400
+
+	if (format === 'json') {
+		return ctx.json({ error: code, message }, status)
+	}
+
+	return ctx.body(
+		`<?xml version="1.0" encoding="UTF-8"?>\n<lfm status="failed"><error code="${code}">${escapeXml(message)}</error></lfm>`,
+		status,
+		{ 'Content-Type': 'text/xml; charset=utf-8' }
+	)
+}
+
+/**
+ * Formats a corrected-value field of a Last.fm track response
+ */
+function uncorrected(value: string | null) {
+	return { corrected: '0', '#text': value ?? '' }
+}
+
+/**
+ * Formats a scrobble result as returned by track.scrobble
+ */
+function formatScrobbleResult(result: ScrobbleSubmissionResult) {
+	return {
+		track: uncorrected(result.track.title),
+		artist: uncorrected(result.track.artist),
+		album: uncorrected(result.track.album),
+		albumArtist: uncorrected(result.albumArtist),
+		timestamp: String(result.timestamp),
+		ignoredMessage: {
+			code: String(result.ignoredCode),
+			'#text': IGNORED_MESSAGES[result.ignoredCode] ?? '',
+		},
+	}
+}
+
+/**
+ * ALL /2.0/
+ *
+ * Single Last.fm-style endpoint; the "method" parameter selects the call.
+ * Matches both /2.0 and /2.0/ since clients differ in the API root they use.
+ * - auth.getMobileSession: exchanges username and scrobbler password for a session key
+ * - track.updateNowPlaying: stores the current track as the playback session
+ * - track.scrobble: stores up to 50 finished plays as scrobbles
+ */
+audioscrobbler.all('/*', async (ctx) => {
+	let params: Record<string, string>
+	try {
+		params = await getRequestParams(ctx)
+	} catch {
+		return respondError(
+			ctx,
+			'xml',
+			AUDIOSCROBBLER_ERROR.INVALID_PARAMETERS,
+			'Invalid parameters - Could not parse request body'
+		)
+	}
+
+	const format: ResponseFormat = params['format'] === 'json' ? 'json' : 'xml'
+	const method = params['method']?.toLowerCase()
+
+	if (
+		method !== 'auth.getmobilesession' &&
+		method !== 'track.updatenowplaying' &&
+		method !== 'track.scrobble'
+	) {
+		return respondError(
+			ctx,
+			format,
+			AUDIOSCROBBLER_ERROR.INVALID_METHOD,
+			'Invalid Method - No method with that name in this package'
+		)
+	}
+
+	if (!isValidApiKey(params['api_key'])) {
+		return respondError(
+			ctx,
+			format,
+			AUDIOSCROBBLER_ERROR.INVALID_API_KEY,
+			'Invalid API key - You must be granted a valid key by last.fm'
+		)
+	}
+
+	if (!isValidApiSignature(params)) {
+		return respondError(
+			ctx,
+			format,
+			AUDIOSCROBBLER_ERROR.INVALID_SIGNATURE,
+			'Invalid method signature supplied'
+		)
+	}
+
+	try {
+		if (method === 'auth.getmobilesession') {
+			const username = params['username']
+			const password = params['password']
+			const authToken = params['authToken']
+
+			if (!username || (!password && !authToken)) {
+				return respondError(
+					ctx,
+					format,
+					AUDIOSCROBBLER_ERROR.INVALID_PARAMETERS,
+					'Invalid parameters - username and password are required'
+				)
+			}
+
+			const session = await createMobileSession(
+				username,
+				{ password, authToken },
+				params['api_key']
+			)
+
+			if (!session) {
+				return respondError(
+					ctx,
+					format,
+					AUDIOSCROBBLER_ERROR.AUTHENTICATION_FAILED,
+					'Authentication Failed - You do not have permissions to access the service'
+				)
+			}
+
+			return respond(ctx, format, {
+				session: {
+					name: session.name,
+					key: session.key,
+					subscriber: 0,
+				},
+			})
+		}
+
+		const user = params['sk']
+			? await findUserBySessionKey(params['sk'])
+			: null
+
+		if (!user) {
+			return respondError(
+				ctx,
+				format,
+				AUDIOSCROBBLER_ERROR.INVALID_SESSION_KEY,
+				'Invalid session key - Please re-authenticate'
+			)
+		}
+
+		if (method === 'track.updatenowplaying') {
+			const track = paramsToSubmittedTrack(params)
+
+			if (!track) {
+				return respondError(
+					ctx,
+					format,
+					AUDIOSCROBBLER_ERROR.INVALID_PARAMETERS,
+					'Invalid parameters - artist and track are required'
+				)
+			}
+
+			await updateNowPlaying(user.id, track)
+
+			return respond(ctx, format, {
+				nowplaying: {
+					track: uncorrected(track.title),
+					artist: uncorrected(track.artist),
+					album: uncorrected(track.album),
+					albumArtist: uncorrected(params['albumArtist'] ?? null),
+					ignoredMessage: { code: '0', '#text': '' },
+				},
+			})
+		}
+
+		const submissions = parseScrobbleParams(params)
+
+		if (
+			!submissions ||
+			submissions.length === 0 ||
+			submissions.length > AUDIOSCROBBLER_CONFIG.maxScrobblesPerRequest
+		) {
+			return respondError(
+				ctx,
+				format,
+				AUDIOSCROBBLER_ERROR.INVALID_PARAMETERS,
+				'Invalid parameters - artist, track and timestamp are required'
+			)
+		}
+
+		let results: ScrobbleSubmissionResult[]
+		try {
+			results = await submitScrobbles(user.id, submissions)
+		} catch (error) {
+			console.error('[Audioscrobbler] Error storing scrobbles:', error)
+			return respondError(
+				ctx,
+				format,
+				AUDIOSCROBBLER_ERROR.SERVICE_UNAVAILABLE,
+				'Service temporarily unavailable - There was a temporary error processing your request. Please try again.'
+			)
+		}
+		const accepted = results.filter(
+			(result) => result.ignoredCode === IGNORED_SCROBBLE_CODE.NONE
+		).length
+
+		console.log(
+			`[Audioscrobbler] User ${user.id}: accepted=${accepted}, ignored=${results.length - accepted}`
+		)
+
+		const scrobbles = results.map(formatScrobbleResult)
+
+		return respond(ctx, format, {
+			scrobbles: {
+				'@attr': { accepted, ignored: results.length - accepted },
+				// Last.fm returns a single object when one track was scrobbled
+				scrobble: scrobbles.length === 1 ? scrobbles[0] : scrobbles,
+			},
+		})
+	} catch (error) {
+		console.error(`[Audioscrobbler] Error handling ${method}:`, error)
+		return respondError(
+			ctx,
+			format,
+			AUDIOSCROBBLER_ERROR.OPERATION_FAILED,
+			'Operation failed - Most likely the backend service failed. Please try again.'
+		)
+	}
+})
+
+export default audioscrobbler
@@ -4,10 +4,12 @@ import {
 	getAuthUrl,
 	getUserProfile,
 	calculateExpiresAt,
+	SPOTIFY_SCOPES,
 } from '../lib/spotify'
 import { db } from '../db'
 import { eq } from 'drizzle-orm'
-import { signToken } from '../lib/jwt'
+import { signToken, verifyLinkToken } from '../lib/jwt'
+import { linkSpotifyAccount } from '../lib/accounts'
 import { accounts, users } from '@playbacc/types/db/schema'
 
 const auth = new Hono()
@@ -26,24 +28,18 @@ auth.get('/spotify/login', async (ctx) => {
 		return ctx.json({ error: 'Missing redirect_uri parameter' }, 400)
 	}
 
-	const scope = [
-		'user-read-private',
-		'user-read-email',
-		'user-read-recently-played',
-		'user-read-currently-playing',
-		'user-read-playback-state',
-	]
-
 	// Encode the frontend redirect URI in the state parameter
 	const state = Buffer.from(JSON.stringify({ redirect_uri: redirectUri })).toString('base64url')
-	const authUrl = getAuthUrl(state, scope)
+	const authUrl = getAuthUrl(state, SPOTIFY_SCOPES)
 
 	return ctx.redirect(authUrl)
 })
 
 /**
  * Handles Spotify OAuth callback
- * Redirects to the frontend with token or error
+ * Redirects to the frontend with token or error.
+ * When the state carries a link token (see POST /api/accounts/spotify/link),
+ * the account is linked to that user instead and the frontend gets ?linked=spotify.
  */
 auth.get('/spotify/callback', async (ctx) => {
 	const code = ctx.req.query('code')
@@ -52,6 +48,7 @@ auth.get('/spotify/callback', async (ctx) => {
 
 	// Decode the state to get the frontend redirect URI
 	let redirectUri = process.env.FRONTEND_URL || 'http://localhost:5173'
+	let linkToken: string | null = null
 	
 	if (state) {
 		try {
@@ -59,6 +56,9 @@ auth.get('/spotify/callback', async (ctx) => {
 			if (decoded.redirect_uri) {
 				redirectUri = decoded.redirect_uri
 			}
+			if (typeof decoded.link_token === 'string') {
+				linkToken = decoded.link_token
+			}
 		} catch {
 			// If state decoding fails, use default redirect
 			console.warn('Failed to decode OAuth state')
@@ -92,6 +92,24 @@ auth.get('/spotify/callback', async (ctx) => {
 		const tokenResponse = await exchangeCodeForToken(code)
 		const spotifyUser = await getUserProfile(tokenResponse.access_token)
 
+		if (linkToken) {
+			const link = await verifyLinkToken(linkToken)
+
+			if (!link) {
+				return redirectWithError('Link request expired. Please try again.')
+			}
+
+			const result = await linkSpotifyAccount(link.user_id, spotifyUser, tokenResponse)
+
+			if (!result.ok) {
+				return redirectWithError('This Spotify account is already linked to another user')
+			}
+
+			const url = new URL(redirectUri)
+			url.searchParams.set('linked', 'spotify')
+			return ctx.redirect(url.toString())
+		}
+
 		const existingAccount = await db.query.accounts.findFirst({
 			where: (accounts, { eq, and }) =>
 				and(
@@ -118,6 +136,7 @@ auth.get('/spotify/callback', async (ctx) => {
 						existingAccount.refresh_token,
 					expires_in: calculateExpiresAt(tokenResponse.expires_in),
 					scope: tokenResponse.scope,
+					display_name: spotifyUser.display_name,
 				})
 				.where(eq(accounts.external_id, spotifyUser.id))
 
@@ -174,6 +193,7 @@ auth.get('/spotify/callback', async (ctx) => {
 				refresh_token: tokenResponse.refresh_token,
 				expires_in: calculateExpiresAt(tokenResponse.expires_in),
 				scope: tokenResponse.scope,
+				display_name: spotifyUser.display_name,
 			})
 			.returning()
 
@@ -0,0 +1,328 @@
+/**
+ * Follows Routes
+ *
+ * Provides endpoints for following other users, answering follow requests,
+ * the activity feed of followed users and musical compatibility.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { authenticate } from '../middleware/auth'
+import {
+	acceptFollowRequest,
+	deleteFollow,
+	followUser,
+	getCompatibility,
+	getFeedNowPlaying,
+	getFeedScrobbles,
+	isFollowing,
+	listFollows,
+} from '../lib/follows'
+import {
+	resolveStatsRange,
+	STATS_RANGE_PRESETS,
+	type StatsRangePreset,
+} from '../lib/stats'
+import type { AppVariables } from '../types'
+
+const followsRoutes = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+followsRoutes.use('*', authenticate)
+
+/**
+ * Schema for following a user
+ */
+const followBodySchema = z.object({
+	username: z.string().trim().min(1, { message: 'Username is required' }),
+})
+
+/**
+ * Schema for the feed query params
+ */
+const feedQuerySchema = z.object({
+	limit: z.coerce.number().int().min(1).max(100).default(30),
+	/** Only plays before this time, to load older pages */
+	before: z.iso.datetime({ offset: true }).optional(),
+})
+
+/** Error responses for rejected follows */
+const FOLLOW_ERRORS = {
+	not_found: { status: 404, error: 'User not found' },
+	self: { status: 400, error: 'You cannot follow yourself' },
+} as const
+
+const uuidRegex =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/follows/following
+ *
+ * Returns the users the current user follows, including pending requests.
+ */
+followsRoutes.get('/following', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const items = await listFollows(user.id, 'following')
+		return ctx.json({ items })
+	} catch (error) {
+		console.error('[Follows] Error listing following:', error)
+		return ctx.json({ error: 'Failed to fetch following' }, 500)
+	}
+})
+
+/**
+ * GET /api/follows/followers
+ *
+ * Returns the users following the current user (accepted follows only).
+ */
+followsRoutes.get('/followers', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const items = await listFollows(user.id, 'followers', 'accepted')
+		return ctx.json({ items })
+	} catch (error) {
+		console.error('[Follows] Error listing followers:', error)
+		return ctx.json({ error: 'Failed to fetch followers' }, 500)
+	}
+})
+
+/**
+ * GET /api/follows/requests
+ *
+ * Returns the pending requests to follow the current user.
+ */
+followsRoutes.get('/requests', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const items = await listFollows(user.id, 'followers', 'pending')
+		return ctx.json({ items })
+	} catch (error) {
+		console.error('[Follows] Error listing follow requests:', error)
+		return ctx.json({ error: 'Failed to fetch follow requests' }, 500)
+	}
+})
+
+/**
+ * POST /api/follows
+ *
+ * Follows a user. Users whose profile doesn't publicly share now playing
+ * and recent scrobbles have to accept the request first.
+ * Body:
+ *   - username: username of the user to follow
+ */
+followsRoutes.post('/', async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const parsed = followBodySchema.safeParse(body)
+	if (!parsed.success) {
+		return ctx.json({ error: parsed.error.issues[0].message }, 400)
+	}
+
+	try {
+		const result = await followUser(user.id, parsed.data.username)
+
+		if (!result.ok) {
+			const { status, error } = FOLLOW_ERRORS[result.reason]
+			return ctx.json({ error }, status)
+		}
+
+		return ctx.json({ status: result.status }, result.created ? 201 : 200)
+	} catch (error) {
+		console.error('[Follows] Error following user:', error)
+		return ctx.json({ error: 'Failed to follow user' }, 500)
+	}
+})
+
+/**
+ * DELETE /api/follows/following/:userId
+ *
+ * Unfollows a user, or withdraws a pending request.
+ */
+followsRoutes.delete('/following/:userId', async (ctx) => {
+	const user = ctx.get('user')
+	const followeeId = ctx.req.param('userId')
+
+	if (!uuidRegex.test(followeeId)) {
+		return ctx.json({ error: 'Invalid user ID format' }, 400)
+	}
+
+	try {
+		const deleted = await deleteFollow(user.id, followeeId)
+		if (!deleted) {
+			return ctx.json({ error: 'Follow not found' }, 404)
+		}
+
+		return ctx.json({ deleted: 1 })
+	} catch (error) {
+		console.error('[Follows] Error unfollowing user:', error)
+		return ctx.json({ error: 'Failed to unfollow user' }, 500)
+	}
+})
+
+/**
+ * DELETE /api/follows/followers/:userId
+ *
+ * Removes a follower, or declines their pending request.
+ */
+followsRoutes.delete('/followers/:userId', async (ctx) => {
+	const user = ctx.get('user')
+	const followerId = ctx.req.param('userId')
+
+	if (!uuidRegex.test(followerId)) {
+		return ctx.json({ error: 'Invalid user ID format' }, 400)
+	}
+
+	try {
+		const deleted = await deleteFollow(followerId, user.id)
+		if (!deleted) {
+			return ctx.json({ error: 'Follower not found' }, 404)
+		}
+
+		return ctx.json({ deleted: 1 })
+	} catch (error) {
+		console.error('[Follows] Error removing follower:', error)
+		return ctx.json({ error: 'Failed to remove follower' }, 500)
+	}
+})
+
+/**
+ * POST /api/follows/requests/:userId/accept
+ *
+ * Accepts a pending request to follow the current user.
+ */
+followsRoutes.post('/requests/:userId/accept', async (ctx) => {
+	const user = ctx.get('user')
+	const followerId = ctx.req.param('userId')
+
+	if (!uuidRegex.test(followerId)) {
+		return ctx.json({ error: 'Invalid user ID format' }, 400)
+	}
+
+	try {
+		const accepted = await acceptFollowRequest(user.id, followerId)
+		if (!accepted) {
+			return ctx.json({ error: 'Follow request not found' }, 404)
+		}
+
+		return ctx.json({ status: 'accepted' })
+	} catch (error) {
+		console.error('[Follows] Error accepting follow request:', error)
+		return ctx.json({ error: 'Failed to accept follow request' }, 500)
+	}
+})
+
+/**
+ * GET /api/follows/feed
+ *
+ * Returns what the users the current user follows are playing now and
+ * their recent plays, newest first.
+ * Query params:
+ *   - limit: number of plays to return (default 30, max 100)
+ *   - before: ISO datetime; only plays before it (for older pages)
+ */
+followsRoutes.get('/feed', async (ctx) => {
+	const user = ctx.get('user')
+
+	const query = feedQuerySchema.safeParse({
+		limit: ctx.req.query('limit'),
+		before: ctx.req.query('before'),
+	})
+	if (!query.success) {
+		return ctx.json({ error: 'Invalid feed parameters' }, 400)
+	}
+
+	try {
+		const before = query.data.before ? new Date(query.data.before) : null
+		const [nowPlaying, items] = await Promise.all([
+			// Now playing only belongs on the first page
+			before
+				? Promise.resolve([])
+				: getFeedNowPlaying(user.id, user.display_locale),
+			getFeedScrobbles(
+				user.id,
+				query.data.limit,
+				before,
+				user.display_locale
+			),
+		])
+
+		return ctx.json({
+			now_playing: nowPlaying,
+			items,
+			next_before:
+				items.length === query.data.limit
+					? items[items.length - 1].played_at
+					: null,
+		})
+	} catch (error) {
+		console.error('[Follows] Error fetching feed:', error)
+		return ctx.json({ error: 'Failed to fetch feed' }, 500)
+	}
+})
+
+/**
+ * GET /api/follows/compatibility/:userId
+ *
+ * Returns how similar the current user's listening is to a user they
+ * follow (or who follows them): the overlap of their artists weighted by
+ * listening time, from 0 to 100, and the artists they share.
+ * Query params:
+ *   - range: 7d, 30d, 90d, 365d or all (default 365d)
+ */
+followsRoutes.get('/compatibility/:userId', async (ctx) => {
+	const user = ctx.get('user')
+	const otherUserId = ctx.req.param('userId')
+
+	if (!uuidRegex.test(otherUserId)) {
+		return ctx.json({ error: 'Invalid user ID format' }, 400)
+	}
+
+	const range = ctx.req.query('range') ?? '365d'
+	if (!STATS_RANGE_PRESETS.includes(range as StatsRangePreset)) {
+		return ctx.json(
+			{
+				error: `Invalid range. Expected one of: ${STATS_RANGE_PRESETS.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	try {
+		const [following, followedBy] = await Promise.all([
+			isFollowing(user.id, otherUserId),
+			isFollowing(otherUserId, user.id),
+		])
+		if (!following && !followedBy) {
+			return ctx.json(
+				{ error: 'Compatibility is only shown for users you follow' },
+				403
+			)
+		}
+
+		const compatibility = await getCompatibility(
+			user.id,
+			otherUserId,
+			resolveStatsRange({ range: range as StatsRangePreset }),
+			user.display_locale
+		)
+
+		return ctx.json({ ...compatibility, range })
+	} catch (error) {
+		console.error('[Follows] Error computing compatibility:', error)
+		return ctx.json({ error: 'Failed to compute compatibility' }, 500)
+	}
+})
+
+export default followsRoutes
@@ -0,0 +1,222 @@
+/**
+ * Imports Routes
+ *
+ * Provides endpoints for uploading listening history exports, tracking
+ * the progress of their background import, and listing the history gaps
+ * an export could fill.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { authenticate } from '../middleware/auth'
+import {
+	createImport,
+	detectImportFormat,
+	getUserImport,
+	getUserImports,
+	IMPORT_CONFIG,
+	type Import,
+} from '../lib/imports'
+import {
+	dismissScrobbleGap,
+	getOpenScrobbleGaps,
+	type ScrobbleGap,
+} from '../lib/scrobble-gaps'
+import type { AppVariables } from '../types'
+
+const imports = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+imports.use('*', authenticate)
+
+/**
+ * Formats an import record for API responses (hides the server-side file path)
+ */
+function formatImport(record: Import) {
+	return {
+		id: record.id,
+		filename: record.filename,
+		file_size: record.file_size,
+		status: record.status,
+		total_records: record.total_records,
+		imported_records: record.imported_records ?? 0,
+		failed_records: record.failed_records ?? 0,
+		skipped_records: record.skipped_records ?? 0,
+		error_message: record.error_message,
+		started_at: record.started_at,
+		completed_at: record.completed_at,
+		created_at: record.created_at,
+	}
+}
+
+/**
+ * Formats a history gap for API responses
+ */
+function formatGap(gap: ScrobbleGap) {
+	return {
+		id: gap.id,
+		provider: gap.provider,
+		gap_start: gap.gap_start.toISOString(),
+		gap_end: gap.gap_end.toISOString(),
+		detected_at: gap.detected_at.toISOString(),
+	}
+}
+
+/**
+ * POST /api/imports
+ *
+ * Uploads a listening history export for background import.
+ * Expects multipart/form-data with the export in the "file" field.
+ * Supported formats:
+ *   - Spotify Extended Streaming History (Streaming_History_Audio_*.json)
+ *   - Last.fm scrobble export (CSV with a header row, or JSON)
+ *
+ * Returns 201 with the pending import, or 409 if the user already uploaded the file.
+ */
+imports.post('/', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const body = await ctx.req.parseBody()
+		const file = body['file']
+
+		if (!(file instanceof File)) {
+			return ctx.json({ error: 'Missing file upload' }, 400)
+		}
+
+		if (file.size > IMPORT_CONFIG.maxFileSizeBytes) {
+			return ctx.json({ error: 'File is too large' }, 413)
+		}
+
+		// Only the start is checked here; the worker parses the whole file
+		const head = await file.slice(0, IMPORT_CONFIG.formatSniffBytes).text()
+		if (!detectImportFormat(head)) {
+			return ctx.json(
+				{
+					error: 'Unsupported file format. Expected a Spotify Extended Streaming History file or a Last.fm export',
+				},
+				400
+			)
+		}
+
+		const { created, record } = await createImport(
+			user.id,
+			file.name,
+			Buffer.from(await file.arrayBuffer())
+		)
+
+		if (!created) {
+			return ctx.json(
+				{
+					error: 'This file has already been uploaded',
+					import: formatImport(record),
+				},
+				409
+			)
+		}
+
+		return ctx.json(formatImport(record), 201)
+	} catch (error) {
+		console.error('[Imports] Error uploading import:', error)
+		return ctx.json({ error: 'Failed to upload import' }, 500)
+	}
+})
+
+/**
+ * GET /api/imports
+ *
+ * Returns all imports of the current user, newest first.
+ */
+imports.get('/', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const records = await getUserImports(user.id)
+		return ctx.json({ items: records.map(formatImport) })
+	} catch (error) {
+		console.error('[Imports] Error fetching imports:', error)
+		return ctx.json({ error: 'Failed to fetch imports' }, 500)
+	}
+})
+
+/**
+ * GET /api/imports/gaps
+ *
+ * Returns the user's open history gaps, oldest first: periods where more
+ * plays happened between two polls than the recently-played endpoint
+ * returns, so some were lost. Uploading an export that covers a gap
+ * resolves it.
+ */
+imports.get('/gaps', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const gaps = await getOpenScrobbleGaps(user.id)
+		return ctx.json({ items: gaps.map(formatGap) })
+	} catch (error) {
+		console.error('[Imports] Error fetching history gaps:', error)
+		return ctx.json({ error: 'Failed to fetch history gaps' }, 500)
+	}
+})
+
+/**
+ * DELETE /api/imports/gaps/:id
+ *
+ * Dismisses a history gap without importing anything.
+ */
+imports.delete('/gaps/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const gapId = ctx.req.param('id')
+
+	// Validate UUID format
+	const uuidRegex =
+		/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+	if (!uuidRegex.test(gapId)) {
+		return ctx.json({ error: 'Invalid gap ID format' }, 400)
+	}
+
+	try {
+		const dismissed = await dismissScrobbleGap(user.id, gapId)
+
+		if (!dismissed) {
+			return ctx.json({ error: 'History gap not found' }, 404)
+		}
+
+		return ctx.json({ dismissed: 1 })
+	} catch (error) {
+		console.error('[Imports] Error dismissing history gap:', error)
+		return ctx.json({ error: 'Failed to dismiss history gap' }, 500)
+	}
+})
+
+/**
+ * GET /api/imports/:id
+ *
+ * Returns a single import including its progress counters.
+ */
+imports.get('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const importId = ctx.req.param('id')
+
+	// Validate UUID format
+	const uuidRegex =
+		/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+	if (!uuidRegex.test(importId)) {
+		return ctx.json({ error: 'Invalid import ID format' }, 400)
+	}
+
+	try {
+		const record = await getUserImport(user.id, importId)
+
+		if (!record) {
+			return ctx.json({ error: 'Import not found' }, 404)
+		}
+
+		return ctx.json(formatImport(record))
+	} catch (error) {
+		console.error('[Imports] Error fetching import:', error)
+		return ctx.json({ error: 'Failed to fetch import' }, 500)
+	}
+})
+
+export default imports
@@ -0,0 +1,175 @@
+/**
+ * ListenBrainz-compatible Routes
+ *
+ * Implements the subset of the ListenBrainz API used by scrobbler clients,
+ * so they can be pointed at Playbacc instead of listenbrainz.org.
+ * Mounted at /1 to match the ListenBrainz URL layout.
+ *
+ * Authentication uses the per-user submission token ("Authorization: Token <token>").
+ * Errors follow the ListenBrainz format: { code, error }.
+ *
+ * @see https://listenbrainz.readthedocs.io/en/latest/users/api/core.html
+ */
+
+import { Hono, type Context, type Next } from 'hono'
+import { db } from '../db'
+import {
+	findAccountByListenToken,
+	listenBrainzSubmissionSchema,
+	submitListens,
+} from '../lib/listenbrainz'
+import type { AppVariables } from '../types'
+
+const listenbrainz = new Hono<{ Variables: AppVariables }>()
+
+/**
+ * Reads the submission token from the Authorization header
+ */
+function getRequestToken(ctx: Context): string | null {
+	const authHeader = ctx.req.header('Authorization')
+
+	if (!authHeader || !authHeader.startsWith('Token ')) {
+		return null
+	}
+
+	return authHeader.slice('Token '.length).trim() || null
+}
+
+/**
+ * Authenticates requests by submission token.
+ * Sets `account` (the user's ListenBrainz account) and `user` on the context.
+ */
+const authenticateToken = async (ctx: Context, next: Next) => {
+	const token = getRequestToken(ctx)
+
+	if (!token) {
+		return ctx.json(
+			{
+				code: 401,
+				error: 'You need to provide an Authorization header.',
+			},
+			401
+		)
+	}
+
+	try {
+		const account = await findAccountByListenToken(token)
+
+		if (!account) {
+			return ctx.json(
+				{ code: 401, error: 'Invalid authorization token.' },
+				401
+			)
+		}
+
+		const user = await db.query.users.findFirst({
+			where: (users, { eq }) => eq(users.id, account.user_id),
+		})
+
+		if (!user) {
+			return ctx.json(
+				{ code: 401, error: 'Invalid authorization token.' },
+				401
+			)
+		}
+
+		ctx.set('account', account)
+		ctx.set('user', user)
+
+		await next()
+	} catch (error) {
+		console.error('[ListenBrainz] Error verifying token:', error)
+		return ctx.json({ code: 500, error: 'Authentication failed.' }, 500)
+	}
+}
+
+/**
+ * GET /1/validate-token
+ *
+ * Checks whether a submission token is valid.
+ * Accepts the token in the Authorization header or the "token" query param.
+ */
+listenbrainz.get('/validate-token', async (ctx) => {
+	const token = getRequestToken(ctx) ?? ctx.req.query('token')
+
+	if (!token) {
+		return ctx.json(
+			{ code: 400, error: 'You need to provide an Authorization token.' },
+			400
+		)
+	}
+
+	try {
+		const account = await findAccountByListenToken(token)
+		const user = account
+			? await db.query.users.findFirst({
+					where: (users, { eq }) => eq(users.id, account.user_id),
+				})
+			: undefined
+
+		if (!user) {
+			return ctx.json({
+				code: 200,
+				message: 'Token invalid.',
+				valid: false,
+			})
+		}
+
+		return ctx.json({
+			code: 200,
+			message: 'Token valid.',
+			valid: true,
+			user_name: user.username ?? user.email,
+		})
+	} catch (error) {
+		console.error('[ListenBrainz] Error validating token:', error)
+		return ctx.json({ code: 500, error: 'Failed to validate token.' }, 500)
+	}
+})
+
+/**
+ * POST /1/submit-listens
+ *
+ * Submits listens in the ListenBrainz JSON format.
+ * - single: one finished listen, stored as a scrobble
+ * - import: up to 1000 past listens, stored as scrobbles
+ * - playing_now: the current track, stored as the playback session
+ */
+listenbrainz.post('/submit-listens', authenticateToken, async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json(
+			{ code: 400, error: 'Cannot parse JSON document.' },
+			400
+		)
+	}
+
+	const result = listenBrainzSubmissionSchema.safeParse(body)
+	if (!result.success) {
+		const issue = result.error.issues[0]
+		const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''
+		return ctx.json({ code: 400, error: `${path}${issue.message}` }, 400)
+	}
+
+	try {
+		const stats = await submitListens(user.id, result.data)
+
+		if (result.data.listen_type !== 'playing_now') {
+			console.log(
+				`[ListenBrainz] User ${user.id}: ${result.data.listen_type} ` +
+					`inserted=${stats.inserted}, duplicates=${stats.duplicates}`
+			)
+		}
+
+		return ctx.json({ status: 'ok' })
+	} catch (error) {
+		console.error('[ListenBrainz] Error submitting listens:', error)
+		return ctx.json({ code: 500, error: 'Failed to submit listens.' }, 500)
+	}
+})
+
+export default listenbrainz
@@ -2,25 +2,31 @@
  * Player Routes
  *
  * Provides endpoints for player state from connected accounts.
+ * Artist names are shown in the user's display locale.
  * All endpoints require authentication.
  */
 
 import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
 import { authenticate } from '../middleware/auth'
 import { getCurrentlyPlaying } from '../lib/spotify'
-import { db } from '../db'
-import { desc, eq, inArray } from 'drizzle-orm'
 import {
-	scrobbles,
-	tracks,
-	albums,
-	track_artists,
-	artists,
-} from '@playbacc/types/db/schema'
+	getCurrentPlaybackEvent,
+	subscribeToPlaybackEvents,
+	type PlaybackEvent,
+} from '../lib/playback-events'
+import { getRecentScrobbles } from '../lib/stats'
+import { localizeTrackArtists } from '../lib/artist-aliases'
 import type { AppVariables } from '../types'
 
 const player = new Hono<{ Variables: AppVariables }>()
 
+/**
+ * Interval between keep-alive comments on playback streams (ms).
+ * Bun closes connections that stay idle for 10 seconds.
+ */
+const STREAM_HEARTBEAT_MS = 5000
+
 // Apply authentication to all routes
 player.use('*', authenticate)
 
@@ -31,6 +37,7 @@ player.use('*', authenticate)
  * Returns null if nothing is playing.
  */
 player.get('/currently-playing', async (ctx) => {
+	const user = ctx.get('user')
 	const account = ctx.get('account')
 
 	if (!account.access_token) {
@@ -44,7 +51,10 @@ player.get('/currently-playing', async (ctx) => {
 			return ctx.json({ playing: false })
 		}
 
-		const item = currentlyPlaying.item
+		const item = await localizeTrackArtists(
+			currentlyPlaying.item,
+			user.display_locale
+		)
 		return ctx.json({
 			playing: true,
 			is_playing: currentlyPlaying.is_playing,
@@ -71,6 +81,54 @@ player.get('/currently-playing', async (ctx) => {
 	}
 })
 
+/**
+ * GET /api/player/stream
+ *
+ * Streams the user's playback as Server-Sent Events, pushed as soon as the
+ * scrobble worker observes a change instead of polling Spotify again.
+ * The first event describes the current playback; after that every event
+ * is named after its type (started, progress, paused, scrobbled, stopped)
+ * and carries the session's account, position and track.
+ */
+player.get('/stream', async (ctx) => {
+	const user = ctx.get('user')
+	const account = ctx.get('account')
+
+	return streamSSE(ctx, async (stream) => {
+		const send = async (event: PlaybackEvent) => {
+			const track =
+				event.track &&
+				(await localizeTrackArtists(event.track, user.display_locale))
+			await stream.writeSSE({
+				event: event.type,
+				data: JSON.stringify({ ...event, track }),
+			})
+		}
+
+		let unsubscribe: (() => void) | null = null
+		stream.onAbort(() => unsubscribe?.())
+
+		try {
+			unsubscribe = await subscribeToPlaybackEvents(
+				account.user_id,
+				(event) => {
+					send(event).catch(() => unsubscribe?.())
+				}
+			)
+			await send(await getCurrentPlaybackEvent(account.user_id))
+
+			while (!stream.aborted) {
+				await stream.sleep(STREAM_HEARTBEAT_MS)
+				await stream.write(': heartbeat\n\n')
+			}
+		} catch (error) {
+			console.error('[Player] Error streaming playback:', error)
+		} finally {
+			unsubscribe?.()
+		}
+	})
+})
+
 /**
  * GET /api/player/recently-played
  *
@@ -79,93 +137,16 @@ player.get('/currently-playing', async (ctx) => {
  *   - limit: number of tracks to return (default 10, max 50)
  */
 player.get('/recently-played', async (ctx) => {
+	const user = ctx.get('user')
 	const account = ctx.get('account')
 	const limit = Math.min(parseInt(ctx.req.query('limit') || '10', 10), 50)
 
 	try {
-		// Fetch recent scrobbles from database with track, album, and artist info
-		const recentScrobbles = await db
-			.select({
-				scrobble_id: scrobbles.id,
-				played_at: scrobbles.played_at,
-				skipped: scrobbles.skipped,
-				track_id: tracks.id,
-				track_title: tracks.title,
-				track_duration_ms: tracks.duration_ms,
-				track_explicit: tracks.explicit,
-				album_id: albums.id,
-				album_title: albums.title,
-				album_image_url: albums.image_url,
-			})
-			.from(scrobbles)
-			.innerJoin(tracks, eq(scrobbles.track_id, tracks.id))
-			.leftJoin(albums, eq(scrobbles.album_id, albums.id))
-			.where(eq(scrobbles.user_id, account.user_id))
-			.orderBy(desc(scrobbles.played_at))
-			.limit(limit)
-
-		// Fetch artists for each track
-		const trackIds = [...new Set(recentScrobbles.map((s) => s.track_id))]
-		const trackArtistsData =
-			trackIds.length > 0
-				? await db
-						.select({
-							track_id: track_artists.track_id,
-							artist_id: artists.id,
-							artist_name: artists.name,
-							is_primary: track_artists.is_primary,
-							order: track_artists.order,
-						})
-						.from(track_artists)
-						.innerJoin(
-							artists,
-							eq(track_artists.artist_id, artists.id)
-						)
-						.where(inArray(track_artists.track_id, trackIds))
-						.orderBy(track_artists.order)
-				: []
-
-		// Group artists by track
-		const artistsByTrack = new Map<
-			string,
-			Array<{ id: string; name: string }>
-		>()
-		for (const ta of trackArtistsData) {
-			if (!artistsByTrack.has(ta.track_id)) {
-				artistsByTrack.set(ta.track_id, [])
-			}
-			artistsByTrack.get(ta.track_id)!.push({
-				id: ta.artist_id,
-				name: ta.artist_name,
-			})
-		}
-
-		const items = recentScrobbles.map((scrobble) => ({
-			played_at:
-				scrobble.played_at?.toISOString() ?? new Date().toISOString(),
-			skipped: scrobble.skipped,
-			track: {
-				id: scrobble.track_id,
-				name: scrobble.track_title,
-				duration_ms: scrobble.track_duration_ms ?? 0,
-				explicit: scrobble.track_explicit,
-				album: scrobble.album_id
-					? {
-							id: scrobble.album_id,
-							name: scrobble.album_title ?? '',
-							images: scrobble.album_image_url
-								? [{ url: scrobble.album_image_url }]
-								: [],
-						}
-					: {
-							id: '',
-							name: '',
-							images: [],
-						},
-				artists: artistsByTrack.get(scrobble.track_id) ?? [],
-			},
-		}))
-
+		const items = await getRecentScrobbles(
+			account.user_id,
+			limit,
+			user.display_locale
+		)
 		return ctx.json({ items })
 	} catch (error) {
 		console.error('[Player] Error fetching recently played:', error)
@@ -0,0 +1,186 @@
+/**
+ * Profiles Routes
+ *
+ * Read-only endpoints for public profiles (/u/:username in the web app).
+ * No authentication: each endpoint only returns what the user chose to
+ * share, and private profiles are reported as not found.
+ */
+
+import { Hono, type Context } from 'hono'
+import {
+	getPublicProfile,
+	getSharedSections,
+	type ProfileSection,
+} from '../lib/profiles'
+import { getCurrentPlaybackEvent } from '../lib/playback-events'
+import {
+	getRecentScrobbles,
+	getTopArtists,
+	resolveStatsRange,
+	STATS_RANGE_PRESETS,
+	type StatsRangePreset,
+} from '../lib/stats'
+
+const profiles = new Hono()
+
+/** Error responses for profiles and sections that aren't shared */
+const PROFILE_ERRORS = {
+	not_found: { status: 404, error: 'Profile not found' },
+	section_private: {
+		status: 403,
+		error: 'This section of the profile is private',
+	},
+} as const
+
+/** Most items a public list returns */
+const MAX_PUBLIC_LIMIT = 50
+
+/**
+ * Parses the limit query param of public lists
+ *
+ * @returns The limit, or null if it isn't a positive number
+ */
+function parseLimitQuery(ctx: Context, defaultLimit: number): number | null {
+	const limit = parseInt(ctx.req.query('limit') || `${defaultLimit}`, 10)
+	return Number.isNaN(limit) || limit < 1
+		? null
+		: Math.min(limit, MAX_PUBLIC_LIMIT)
+}
+
+/**
+ * Loads the profile of the :username param, or builds the error response
+ * if it (or the section) isn't shared
+ */
+async function loadProfile(ctx: Context, section?: ProfileSection) {
+	const result = await getPublicProfile(ctx.req.param('username'), section)
+
+	if (!result.ok) {
+		const { status, error } = PROFILE_ERRORS[result.reason]
+		return { response: ctx.json({ error }, status) }
+	}
+
+	return { user: result.user }
+}
+
+/**
+ * GET /api/profiles/:username
+ *
+ * Returns the public profile of a user and which sections it shares.
+ */
+profiles.get('/:username', async (ctx) => {
+	try {
+		const profile = await loadProfile(ctx)
+		if (!profile.user) {
+			return profile.response
+		}
+
+		return ctx.json({
+			username: profile.user.username,
+			image_url: profile.user.image_url,
+			created_at: profile.user.created_at,
+			sections: getSharedSections(profile.user),
+		})
+	} catch (error) {
+		console.error('[Profiles] Error fetching profile:', error)
+		return ctx.json({ error: 'Failed to fetch profile' }, 500)
+	}
+})
+
+/**
+ * GET /api/profiles/:username/now-playing
+ *
+ * Returns what the user is playing, as last seen by the scrobble worker.
+ */
+profiles.get('/:username/now-playing', async (ctx) => {
+	try {
+		const profile = await loadProfile(ctx, 'now_playing')
+		if (!profile.user) {
+			return profile.response
+		}
+
+		const playback = await getCurrentPlaybackEvent(profile.user.id)
+
+		return ctx.json({
+			playing: playback.playing,
+			is_playing: playback.is_playing,
+			progress_ms: playback.progress_ms,
+			track: playback.track,
+		})
+	} catch (error) {
+		console.error('[Profiles] Error fetching now playing:', error)
+		return ctx.json({ error: 'Failed to fetch now playing' }, 500)
+	}
+})
+
+/**
+ * GET /api/profiles/:username/recent-scrobbles
+ *
+ * Returns the user's most recent plays.
+ * Query params:
+ *   - limit: number of plays to return (default 10, max 50)
+ */
+profiles.get('/:username/recent-scrobbles', async (ctx) => {
+	const limit = parseLimitQuery(ctx, 10)
+	if (limit === null) {
+		return ctx.json({ error: 'Invalid limit' }, 400)
+	}
+
+	try {
+		const profile = await loadProfile(ctx, 'recent_scrobbles')
+		if (!profile.user) {
+			return profile.response
+		}
+
+		const items = await getRecentScrobbles(profile.user.id, limit)
+		return ctx.json({ items })
+	} catch (error) {
+		console.error('[Profiles] Error fetching recent scrobbles:', error)
+		return ctx.json({ error: 'Failed to fetch recent scrobbles' }, 500)
+	}
+})
+
+/**
+ * GET /api/profiles/:username/top-artists
+ *
+ * Returns the user's most played artists in a range, by time played.
+ * Query params:
+ *   - range: 7d, 30d, 90d, 365d or all (default 30d)
+ *   - limit: number of artists to return (default 10, max 50)
+ */
+profiles.get('/:username/top-artists', async (ctx) => {
+	const range = ctx.req.query('range') ?? '30d'
+	if (!STATS_RANGE_PRESETS.includes(range as StatsRangePreset)) {
+		return ctx.json(
+			{
+				error: `Invalid range. Expected one of: ${STATS_RANGE_PRESETS.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	const limit = parseLimitQuery(ctx, 10)
+	if (limit === null) {
+		return ctx.json({ error: 'Invalid limit' }, 400)
+	}
+
+	try {
+		const profile = await loadProfile(ctx, 'top_artists')
+		if (!profile.user) {
+			return profile.response
+		}
+
+		const result = await getTopArtists(profile.user.id, {
+			range: resolveStatsRange({ range: range as StatsRangePreset }),
+			orderBy: 'total_ms',
+			page: 1,
+			limit,
+		})
+
+		return ctx.json({ items: result.items, range })
+	} catch (error) {
+		console.error('[Profiles] Error fetching top artists:', error)
+		return ctx.json({ error: 'Failed to fetch top artists' }, 500)
+	}
+})
+
+export default profiles
@@ -0,0 +1,332 @@
+/**
+ * Rewrite Rules Routes
+ *
+ * Provides endpoints for managing the user's metadata rewrite rules and
+ * running them against existing scrobbles.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { z } from 'zod'
+import {
+	rewriteRuleActionEnum,
+	rewriteRuleFieldEnum,
+	rewriteRuleMatchTypeEnum,
+} from '@playbacc/types/db/enums'
+import { authenticate } from '../middleware/auth'
+import {
+	createRewriteRule,
+	deleteRewriteRule,
+	getEnabledRewriteRules,
+	getRewriteRule,
+	getRewriteRules,
+	updateRewriteRule,
+	validateRewriteRule,
+	type RewriteRule,
+} from '../lib/rewrite-rules'
+import { applyRewriteRules, previewRewriteRules } from '../lib/rewrite-history'
+import type { AppVariables } from '../types'
+
+const rewriteRules = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+rewriteRules.use('*', authenticate)
+
+const uuidRegex =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Schema for creating a rule
+ */
+const ruleBodySchema = z.object({
+	conditions: z
+		.array(
+			z.object({
+				field: z.enum(rewriteRuleFieldEnum.enumValues),
+				match_type: z.enum(rewriteRuleMatchTypeEnum.enumValues),
+				pattern: z.string().min(1).max(500),
+			})
+		)
+		.min(1)
+		.max(3),
+	action: z.enum(rewriteRuleActionEnum.enumValues),
+	target_field: z.enum(rewriteRuleFieldEnum.enumValues).nullable().optional(),
+	value: z.string().min(1).max(500).nullable().optional(),
+	target_track_id: z.uuid().nullable().optional(),
+	position: z.number().int().min(0).optional(),
+	enabled: z.boolean().optional(),
+})
+
+/**
+ * Schema for changing a rule
+ */
+const updateRuleBodySchema = ruleBodySchema
+	.partial()
+	.refine((body) => Object.keys(body).length > 0, {
+		message: 'Expected at least one field to change',
+	})
+
+/**
+ * Schema for previewing or applying rules
+ */
+const runRulesBodySchema = z.object({
+	rule_id: z.uuid().optional(),
+})
+
+/**
+ * Formats a rule for API responses
+ */
+function formatRule(rule: RewriteRule) {
+	return {
+		id: rule.id,
+		conditions: rule.conditions,
+		action: rule.action,
+		target_field: rule.target_field,
+		value: rule.value,
+		target_track_id: rule.target_track_id,
+		position: rule.position,
+		enabled: rule.enabled,
+		created_at: rule.created_at.toISOString(),
+		updated_at: rule.updated_at.toISOString(),
+	}
+}
+
+/**
+ * Reads an optional JSON body, treating an empty body as {}
+ */
+async function readJsonBody(req: Request): Promise<unknown> {
+	const text = await req.text()
+	return text ? JSON.parse(text) : {}
+}
+
+/**
+ * Picks the rules to preview or apply: a single rule (even if disabled)
+ * or all enabled rules
+ *
+ * @returns The rules, or null if the requested rule doesn't exist
+ */
+async function selectRules(
+	userId: string,
+	ruleId: string | undefined
+): Promise<RewriteRule[] | null> {
+	if (!ruleId) {
+		return getEnabledRewriteRules(userId)
+	}
+
+	const rule = await getRewriteRule(userId, ruleId)
+	return rule ? [rule] : null
+}
+
+/**
+ * GET /api/rewrite-rules
+ *
+ * Returns the user's rules in evaluation order.
+ */
+rewriteRules.get('/', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const rules = await getRewriteRules(user.id)
+		return ctx.json({ items: rules.map(formatRule) })
+	} catch (error) {
+		console.error('[RewriteRules] Error fetching rules:', error)
+		return ctx.json({ error: 'Failed to fetch rewrite rules' }, 500)
+	}
+})
+
+/**
+ * POST /api/rewrite-rules
+ *
+ * Creates a rule. New plays are rewritten from now on; use /apply to
+ * rewrite existing scrobbles.
+ * Body:
+ *   - conditions: 1-3 of { field, match_type, pattern }; all must match.
+ *     field is title, artist or album, match_type is exact or regex
+ *     (both case-insensitive)
+ *   - action: rename, strip_suffix, map_to_track or ignore
+ *   - target_field: field changed by rename and strip_suffix
+ *   - value: new value for rename, suffix regex for strip_suffix
+ *   - target_track_id: canonical track for map_to_track
+ *   - position: evaluation order (default: after all existing rules)
+ *   - enabled: whether the rule is active (default true)
+ */
+rewriteRules.post('/', async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const input = ruleBodySchema.safeParse(body)
+	if (!input.success) {
+		return ctx.json({ error: input.error.issues[0].message }, 400)
+	}
+
+	try {
+		const invalid = await validateRewriteRule(input.data)
+		if (invalid) {
+			return ctx.json({ error: invalid }, 400)
+		}
+
+		const rule = await createRewriteRule(user.id, input.data)
+		return ctx.json(formatRule(rule), 201)
+	} catch (error) {
+		console.error('[RewriteRules] Error creating rule:', error)
+		return ctx.json({ error: 'Failed to create rewrite rule' }, 500)
+	}
+})
+
+/**
+ * POST /api/rewrite-rules/preview
+ *
+ * Dry run: shows how rules would change existing scrobbles without
+ * changing anything.
+ * Body (optional):
+ *   - rule_id: preview a single rule, even if disabled (default: all enabled rules)
+ */
+rewriteRules.post('/preview', async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await readJsonBody(ctx.req.raw)
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const params = runRulesBodySchema.safeParse(body)
+	if (!params.success) {
+		return ctx.json({ error: params.error.issues[0].message }, 400)
+	}
+
+	try {
+		const rules = await selectRules(user.id, params.data.rule_id)
+		if (!rules) {
+			return ctx.json({ error: 'Rewrite rule not found' }, 404)
+		}
+
+		return ctx.json(await previewRewriteRules(user.id, rules))
+	} catch (error) {
+		console.error('[RewriteRules] Error previewing rules:', error)
+		return ctx.json({ error: 'Failed to preview rewrite rules' }, 500)
+	}
+})
+
+/**
+ * POST /api/rewrite-rules/apply
+ *
+ * Rewrites existing scrobbles. Every moved or deleted scrobble is recorded
+ * in the scrobble edit audit trail.
+ * Body (optional):
+ *   - rule_id: apply a single rule, even if disabled (default: all enabled rules)
+ */
+rewriteRules.post('/apply', async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await readJsonBody(ctx.req.raw)
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const params = runRulesBodySchema.safeParse(body)
+	if (!params.success) {
+		return ctx.json({ error: params.error.issues[0].message }, 400)
+	}
+
+	try {
+		const rules = await selectRules(user.id, params.data.rule_id)
+		if (!rules) {
+			return ctx.json({ error: 'Rewrite rule not found' }, 404)
+		}
+
+		return ctx.json(await applyRewriteRules(user.id, rules))
+	} catch (error) {
+		console.error('[RewriteRules] Error applying rules:', error)
+		return ctx.json({ error: 'Failed to apply rewrite rules' }, 500)
+	}
+})
+
+/**
+ * PATCH /api/rewrite-rules/:id
+ *
+ * Changes a rule. Accepts the same fields as POST /api/rewrite-rules.
+ */
+rewriteRules.patch('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const ruleId = ctx.req.param('id')
+
+	if (!uuidRegex.test(ruleId)) {
+		return ctx.json({ error: 'Invalid rule ID format' }, 400)
+	}
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const changes = updateRuleBodySchema.safeParse(body)
+	if (!changes.success) {
+		return ctx.json({ error: changes.error.issues[0].message }, 400)
+	}
+
+	try {
+		const existing = await getRewriteRule(user.id, ruleId)
+		if (!existing) {
+			return ctx.json({ error: 'Rewrite rule not found' }, 404)
+		}
+
+		const invalid = await validateRewriteRule({
+			...existing,
+			...changes.data,
+		})
+		if (invalid) {
+			return ctx.json({ error: invalid }, 400)
+		}
+
+		const rule = await updateRewriteRule(user.id, ruleId, changes.data)
+		if (!rule) {
+			return ctx.json({ error: 'Rewrite rule not found' }, 404)
+		}
+
+		return ctx.json(formatRule(rule))
+	} catch (error) {
+		console.error('[RewriteRules] Error updating rule:', error)
+		return ctx.json({ error: 'Failed to update rewrite rule' }, 500)
+	}
+})
+
+/**
+ * DELETE /api/rewrite-rules/:id
+ *
+ * Deletes a rule. Scrobbles it already rewrote stay as they are.
+ */
+rewriteRules.delete('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const ruleId = ctx.req.param('id')
+
+	if (!uuidRegex.test(ruleId)) {
+		return ctx.json({ error: 'Invalid rule ID format' }, 400)
+	}
+
+	try {
+		const deleted = await deleteRewriteRule(user.id, ruleId)
+
+		if (!deleted) {
+			return ctx.json({ error: 'Rewrite rule not found' }, 404)
+		}
+
+		return ctx.json({ deleted: 1 })
+	} catch (error) {
+		console.error('[RewriteRules] Error deleting rule:', error)
+		return ctx.json({ error: 'Failed to delete rewrite rule' }, 500)
+	}
+})
+
+export default rewriteRules
@@ -0,0 +1,285 @@
+/**
+ * Scrobbles Routes
+ *
+ * Provides endpoints for accessing and correcting the user's scrobble history.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { stream } from 'hono/streaming'
+import { z } from 'zod'
+import { paginationSchema, timeRangeSchema } from '@playbacc/types'
+import { authenticate } from '../middleware/auth'
+import {
+	EXPORT_FILE_TYPES,
+	EXPORT_FORMATS,
+	generateScrobbleExport,
+	type ExportFormat,
+} from '../lib/scrobble-export'
+import {
+	deleteScrobble,
+	deleteScrobblesInRange,
+	getScrobbleEdits,
+	updateScrobble,
+} from '../lib/scrobble-edits'
+import type { AppVariables } from '../types'
+
+const scrobbles = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+scrobbles.use('*', authenticate)
+
+const uuidRegex =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Schema for correcting a scrobble
+ */
+const updateScrobbleBodySchema = z
+	.object({
+		track_id: z.uuid().optional(),
+		album_id: z.uuid().nullable().optional(),
+		skipped: z.boolean().optional(),
+	})
+	.refine((body) => Object.keys(body).length > 0, {
+		message: 'Expected at least one of: track_id, album_id, skipped',
+	})
+
+/** Error responses for rejected scrobble updates */
+const UPDATE_ERRORS = {
+	not_found: { status: 404, error: 'Scrobble not found' },
+	track_not_found: { status: 400, error: 'Track not found' },
+	album_not_found: { status: 400, error: 'Album not found' },
+	duplicate: {
+		status: 409,
+		error: 'A scrobble of this track at the same time already exists',
+	},
+} as const
+
+/**
+ * GET /api/scrobbles/export
+ *
+ * Streams all scrobbles of the current user as a file download, oldest first.
+ * Query params:
+ *   - format: csv (default), json or listenbrainz (JSON Lines of listens)
+ *   - from: only include scrobbles played at or after this ISO datetime
+ *   - to: only include scrobbles played at or before this ISO datetime
+ */
+scrobbles.get('/export', async (ctx) => {
+	const user = ctx.get('user')
+	const format = ctx.req.query('format') ?? 'csv'
+
+	if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+		return ctx.json(
+			{
+				error: `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	const range = timeRangeSchema.partial().safeParse({
+		from: ctx.req.query('from'),
+		to: ctx.req.query('to'),
+	})
+
+	if (!range.success) {
+		return ctx.json({ error: 'Invalid time range' }, 400)
+	}
+
+	const from = range.data.from ? new Date(range.data.from) : undefined
+	const to = range.data.to ? new Date(range.data.to) : undefined
+
+	if (from && to && from > to) {
+		return ctx.json({ error: '"from" must be before "to"' }, 400)
+	}
+
+	const fileType = EXPORT_FILE_TYPES[format as ExportFormat]
+	const date = new Date().toISOString().slice(0, 10)
+
+	ctx.header('Content-Type', fileType.contentType)
+	ctx.header(
+		'Content-Disposition',
+		`attachment; filename="playbacc-scrobbles-${date}.${fileType.extension}"`
+	)
+
+	return stream(
+		ctx,
+		async (output) => {
+			for await (const chunk of generateScrobbleExport(
+				user.id,
+				format as ExportFormat,
+				{ from, to }
+			)) {
+				if (output.aborted) {
+					break
+				}
+				await output.write(chunk)
+			}
+		},
+		async (error) => {
+			// Headers are already sent, so the truncated download is all we can signal
+			console.error('[Scrobbles] Error streaming export:', error)
+		}
+	)
+})
+
+/**
+ * GET /api/scrobbles/edits
+ *
+ * Returns the audit trail of manual scrobble changes, newest first.
+ * Query params:
+ *   - page: page number (default 1)
+ *   - limit: items per page (default 50, max 100)
+ */
+scrobbles.get('/edits', async (ctx) => {
+	const user = ctx.get('user')
+
+	// Query params are strings; paginationSchema expects numbers
+	const pageParam = ctx.req.query('page')
+	const limitParam = ctx.req.query('limit')
+	const pagination = paginationSchema.safeParse({
+		page: pageParam !== undefined ? Number(pageParam) : undefined,
+		limit: limitParam !== undefined ? Number(limitParam) : undefined,
+	})
+	if (!pagination.success) {
+		return ctx.json({ error: 'Invalid pagination parameters' }, 400)
+	}
+
+	try {
+		const items = await getScrobbleEdits(
+			user.id,
+			pagination.data.page,
+			pagination.data.limit
+		)
+
+		return ctx.json({
+			items,
+			page: pagination.data.page,
+			limit: pagination.data.limit,
+		})
+	} catch (error) {
+		console.error('[Scrobbles] Error fetching scrobble edits:', error)
+		return ctx.json({ error: 'Failed to fetch scrobble edits' }, 500)
+	}
+})
+
+/**
+ * DELETE /api/scrobbles
+ *
+ * Deletes all scrobbles played within a time range. Both bounds are required.
+ * Query params:
+ *   - from: delete scrobbles played at or after this ISO datetime
+ *   - to: delete scrobbles played at or before this ISO datetime
+ */
+scrobbles.delete('/', async (ctx) => {
+	const user = ctx.get('user')
+
+	const range = timeRangeSchema.safeParse({
+		from: ctx.req.query('from'),
+		to: ctx.req.query('to'),
+	})
+
+	if (!range.success) {
+		return ctx.json(
+			{ error: 'Both "from" and "to" must be ISO datetimes' },
+			400
+		)
+	}
+
+	const from = new Date(range.data.from)
+	const to = new Date(range.data.to)
+
+	if (from > to) {
+		return ctx.json({ error: '"from" must be before "to"' }, 400)
+	}
+
+	try {
+		const deleted = await deleteScrobblesInRange(user.id, { from, to })
+		return ctx.json({ deleted })
+	} catch (error) {
+		console.error('[Scrobbles] Error deleting scrobbles:', error)
+		return ctx.json({ error: 'Failed to delete scrobbles' }, 500)
+	}
+})
+
+/**
+ * PATCH /api/scrobbles/:id
+ *
+ * Corrects a scrobble. The change is recorded in the audit trail.
+ * Body:
+ *   - track_id: reassign the scrobble to another track
+ *   - album_id: reassign the scrobble to another album (null to clear)
+ *   - skipped: mark the scrobble as skipped or not
+ */
+scrobbles.patch('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const scrobbleId = ctx.req.param('id')
+
+	if (!uuidRegex.test(scrobbleId)) {
+		return ctx.json({ error: 'Invalid scrobble ID format' }, 400)
+	}
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const changes = updateScrobbleBodySchema.safeParse(body)
+	if (!changes.success) {
+		return ctx.json({ error: changes.error.issues[0].message }, 400)
+	}
+
+	try {
+		const result = await updateScrobble(user.id, scrobbleId, changes.data)
+
+		if (!result.ok) {
+			const { status, error } = UPDATE_ERRORS[result.reason]
+			return ctx.json({ error }, status)
+		}
+
+		return ctx.json({
+			id: result.scrobble.id,
+			track_id: result.scrobble.track_id,
+			album_id: result.scrobble.album_id,
+			played_at: result.scrobble.played_at.toISOString(),
+			played_duration_ms: result.scrobble.played_duration_ms,
+			skipped: result.scrobble.skipped,
+			provider: result.scrobble.provider,
+		})
+	} catch (error) {
+		console.error('[Scrobbles] Error updating scrobble:', error)
+		return ctx.json({ error: 'Failed to update scrobble' }, 500)
+	}
+})
+
+/**
+ * DELETE /api/scrobbles/:id
+ *
+ * Deletes a scrobble. The deletion is recorded in the audit trail.
+ */
+scrobbles.delete('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const scrobbleId = ctx.req.param('id')
+
+	if (!uuidRegex.test(scrobbleId)) {
+		return ctx.json({ error: 'Invalid scrobble ID format' }, 400)
+	}
+
+	try {
+		const deleted = await deleteScrobble(user.id, scrobbleId)
+
+		if (!deleted) {
+			return ctx.json({ error: 'Scrobble not found' }, 404)
+		}
+
+		return ctx.json({ deleted: 1 })
+	} catch (error) {
+		console.error('[Scrobbles] Error deleting scrobble:', error)
+		return ctx.json({ error: 'Failed to delete scrobble' }, 500)
+	}
+})
+
+export default scrobbles
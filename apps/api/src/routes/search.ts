@@ -0,0 +1,65 @@
+/**
+ * Search Routes
+ *
+ * Provides search over the local database (artists, albums and tracks),
+ * as opposed to the MusicBrainz searches of the sync routes.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { authenticate } from '../middleware/auth'
+import { search, SEARCH_CONFIG } from '../lib/search'
+import type { AppVariables } from '../types'
+
+const searchRoutes = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+searchRoutes.use('*', authenticate)
+
+/**
+ * GET /api/search
+ *
+ * Searches artists (by name or alias), albums and tracks by similarity,
+ * ranked by the user's plays and grouped by entity type.
+ * Query params:
+ *   - q: Search text (required, at least 2 characters)
+ *   - limit: Results per entity type (default 5, max 20)
+ */
+searchRoutes.get('/', async (ctx) => {
+	const user = ctx.get('user')
+	const query = ctx.req.query('q')?.trim()
+
+	if (!query) {
+		return ctx.json({ error: 'Missing query parameter: q' }, 400)
+	}
+
+	if (query.length < SEARCH_CONFIG.minQueryLength) {
+		return ctx.json(
+			{
+				error: `Query must be at least ${SEARCH_CONFIG.minQueryLength} characters`,
+			},
+			400
+		)
+	}
+
+	const limitParam = ctx.req.query('limit')
+	const limit = limitParam
+		? parseInt(limitParam, 10)
+		: SEARCH_CONFIG.defaultLimit
+	if (!Number.isInteger(limit) || limit < 1) {
+		return ctx.json({ error: 'Invalid limit' }, 400)
+	}
+
+	try {
+		const results = await search(user.id, query, {
+			limit: Math.min(limit, SEARCH_CONFIG.maxLimit),
+			locale: user.display_locale,
+		})
+		return ctx.json({ query, ...results })
+	} catch (error) {
+		console.error('[Search] Error searching:', error)
+		return ctx.json({ error: 'Search failed' }, 500)
+	}
+})
+
+export default searchRoutes
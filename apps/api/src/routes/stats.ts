@@ -1,14 +1,45 @@
 /**
  * Stats Routes
  *
- * Provides endpoints for user statistics like top artists.
+ * Provides endpoints for user statistics like top artists, albums and tracks.
  * All endpoints require authentication.
  */
 
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
+import { z } from 'zod'
 import { authenticate } from '../middleware/auth'
 import { db } from '../db'
 import { sql } from 'drizzle-orm'
+import { paginationSchema } from '@playbacc/types'
+import {
+	COMPLETION_ENTITIES,
+	getAlbumCompletion,
+	getArtistSkipRates,
+	getCurrentYear,
+	getListeningClock,
+	getListeningHeatmap,
+	getMostSkippedTracks,
+	getTopAlbums,
+	getTopArtists,
+	getTopGenres,
+	getTopTracks,
+	getTrackCompletion,
+	resolveStatsRange,
+	scrobbleRangeSql,
+	SKIP_ENTITIES,
+	SORT_ORDERS,
+	statsRangeQuerySchema,
+	TOP_ENTITIES,
+	TOP_ORDER_BY,
+	type CompletionEntity,
+	type PlayRateOptions,
+	type SkipEntity,
+	type SortOrder,
+	type TopEntity,
+	type TopOrderBy,
+} from '../lib/stats'
+import { generateWrapped } from '../lib/wrapped'
+import { artistNameSql } from '../lib/artist-aliases'
 import type { AppVariables } from '../types'
 
 const stats = new Hono<{ Variables: AppVariables }>()
@@ -16,15 +47,90 @@ const stats = new Hono<{ Variables: AppVariables }>()
 // Apply authentication to all routes
 stats.use('*', authenticate)
 
+/**
+ * Parses the range query params (range, from, to, account) of time-ranged endpoints
+ */
+function parseRangeQuery(ctx: Context) {
+	return statsRangeQuerySchema.safeParse({
+		range: ctx.req.query('range'),
+		from: ctx.req.query('from'),
+		to: ctx.req.query('to'),
+		account: ctx.req.query('account'),
+	})
+}
+
+/**
+ * Parses the pagination query params (page, limit) of list endpoints
+ */
+function parsePaginationQuery(ctx: Context) {
+	// Query params are strings; paginationSchema expects numbers
+	const pageParam = ctx.req.query('page')
+	const limitParam = ctx.req.query('limit')
+	return paginationSchema.safeParse({
+		page: pageParam !== undefined ? Number(pageParam) : undefined,
+		limit: limitParam !== undefined ? Number(limitParam) : undefined,
+	})
+}
+
+/**
+ * Parses the query params shared by the skip and completion endpoints
+ * (range, from, to, account, min_plays, order, page, limit)
+ *
+ * @returns The list options, or an error message for invalid params
+ */
+function parsePlayRateQuery(
+	ctx: Context
+): { options: PlayRateOptions } | { error: string } {
+	const rangeQuery = parseRangeQuery(ctx)
+	if (!rangeQuery.success) {
+		return { error: 'Invalid time range' }
+	}
+
+	const minPlaysParam = ctx.req.query('min_plays')
+	const minPlays = minPlaysParam ? Number(minPlaysParam) : 3
+	if (!Number.isInteger(minPlays) || minPlays < 1) {
+		return { error: 'Invalid min_plays. Expected a positive integer' }
+	}
+
+	const order = ctx.req.query('order') ?? 'desc'
+	if (!SORT_ORDERS.includes(order as SortOrder)) {
+		return {
+			error: `Invalid order. Expected one of: ${SORT_ORDERS.join(', ')}`,
+		}
+	}
+
+	const pagination = parsePaginationQuery(ctx)
+	if (!pagination.success) {
+		return { error: 'Invalid pagination parameters' }
+	}
+
+	return {
+		options: {
+			range: resolveStatsRange(rangeQuery.data),
+			minPlays,
+			order: order as SortOrder,
+			page: pagination.data.page,
+			limit: pagination.data.limit,
+		},
+	}
+}
+
 /**
  * GET /api/stats/top-groups
  *
  * Returns the user's top 5 groups (bands) based on total time played.
+ * Query params:
+ *   - account: linked account ID to limit stats to (default: all sources merged)
  */
 stats.get('/top-groups', async (ctx) => {
 	const user = ctx.get('user')
 	const userId = user.id
 
+	const account = z.uuid().optional().safeParse(ctx.req.query('account'))
+	if (!account.success) {
+		return ctx.json({ error: 'Invalid account' }, 400)
+	}
+
 	try {
 		const topGroups = await db.execute<{
 			id: string
@@ -35,7 +141,7 @@ stats.get('/top-groups', async (ctx) => {
 		}>(sql`
 			SELECT 
 				a.id,
-				a.name,
+				${artistNameSql('a', user.display_locale)} as name,
 				a.image_url,
 				COUNT(s.id) as play_count,
 				COALESCE(SUM(s.played_duration_ms), 0) as total_ms
@@ -44,6 +150,7 @@ stats.get('/top-groups', async (ctx) => {
 			JOIN artists a ON a.id = ta.artist_id
 			WHERE s.user_id = ${userId}
 				AND a.type = 'group'
+				${scrobbleRangeSql({ from: null, to: null, accountId: account.data })}
 			GROUP BY a.id, a.name, a.image_url
 			ORDER BY total_ms DESC
 			LIMIT 5
@@ -68,11 +175,18 @@ stats.get('/top-groups', async (ctx) => {
  * GET /api/stats/top-solo-artists
  *
  * Returns the user's top 5 solo artists (not part of any group) based on total time played.
+ * Query params:
+ *   - account: linked account ID to limit stats to (default: all sources merged)
  */
 stats.get('/top-solo-artists', async (ctx) => {
 	const user = ctx.get('user')
 	const userId = user.id
 
+	const account = z.uuid().optional().safeParse(ctx.req.query('account'))
+	if (!account.success) {
+		return ctx.json({ error: 'Invalid account' }, 400)
+	}
+
 	try {
 		const topSoloArtists = await db.execute<{
 			id: string
@@ -83,7 +197,7 @@ stats.get('/top-solo-artists', async (ctx) => {
 		}>(sql`
 			SELECT 
 				a.id,
-				a.name,
+				${artistNameSql('a', user.display_locale)} as name,
 				a.image_url,
 				COUNT(s.id) as play_count,
 				COALESCE(SUM(s.played_duration_ms), 0) as total_ms
@@ -92,6 +206,7 @@ stats.get('/top-solo-artists', async (ctx) => {
 			JOIN artists a ON a.id = ta.artist_id
 			WHERE s.user_id = ${userId}
 				AND a.type = 'person'
+				${scrobbleRangeSql({ from: null, to: null, accountId: account.data })}
 				AND NOT EXISTS (
 					SELECT 1 FROM artists_groups ag WHERE ag.member_id = a.id
 				)
@@ -115,4 +230,368 @@ stats.get('/top-solo-artists', async (ctx) => {
 	}
 })
 
+/**
+ * GET /api/stats/top/:entity
+ *
+ * Returns the user's top artists, albums or tracks within a time range.
+ * Path params:
+ *   - entity: artists, albums or tracks
+ * Query params:
+ *   - range: 7d, 30d, 90d, 365d or all (default all)
+ *   - from, to: custom ISO datetime bounds (take precedence over range)
+ *   - account: linked account ID to limit stats to (default: all sources merged)
+ *   - order_by: total_ms (default) or play_count
+ *   - page: page number (default 1)
+ *   - limit: items per page (default 50, max 100)
+ */
+stats.get('/top/:entity', async (ctx) => {
+	const user = ctx.get('user')
+	const entity = ctx.req.param('entity')
+
+	if (!TOP_ENTITIES.includes(entity as TopEntity)) {
+		return ctx.json(
+			{
+				error: `Invalid entity. Expected one of: ${TOP_ENTITIES.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	const orderBy = ctx.req.query('order_by') ?? 'total_ms'
+	if (!TOP_ORDER_BY.includes(orderBy as TopOrderBy)) {
+		return ctx.json(
+			{
+				error: `Invalid order_by. Expected one of: ${TOP_ORDER_BY.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	const rangeQuery = parseRangeQuery(ctx)
+	if (!rangeQuery.success) {
+		return ctx.json({ error: 'Invalid time range' }, 400)
+	}
+
+	const pagination = parsePaginationQuery(ctx)
+	if (!pagination.success) {
+		return ctx.json({ error: 'Invalid pagination parameters' }, 400)
+	}
+
+	const range = resolveStatsRange(rangeQuery.data)
+	const options = {
+		range,
+		orderBy: orderBy as TopOrderBy,
+		page: pagination.data.page,
+		limit: pagination.data.limit,
+		locale: user.display_locale,
+	}
+
+	try {
+		const result =
+			entity === 'artists'
+				? await getTopArtists(user.id, options)
+				: entity === 'albums'
+					? await getTopAlbums(user.id, options)
+					: await getTopTracks(user.id, options)
+
+		return ctx.json({
+			items: result.items,
+			page: options.page,
+			limit: options.limit,
+			total: result.total,
+			from: range.from?.toISOString() ?? null,
+			to: range.to?.toISOString() ?? null,
+		})
+	} catch (error) {
+		console.error(`[Stats] Error fetching top ${entity}:`, error)
+		return ctx.json({ error: `Failed to fetch top ${entity}` }, 500)
+	}
+})
+
+/**
+ * GET /api/stats/top-genres
+ *
+ * Returns the user's top genres within a time range, from MusicBrainz genre
+ * tags of the played recordings, releases or artists. A play counts toward
+ * each of its genres.
+ * Query params:
+ *   - range: 7d, 30d, 90d, 365d or all (default all)
+ *   - from, to: custom ISO datetime bounds (take precedence over range)
+ *   - account: linked account ID to limit stats to (default: all sources merged)
+ *   - order_by: total_ms (default) or play_count
+ *   - page: page number (default 1)
+ *   - limit: items per page (default 50, max 100)
+ */
+stats.get('/top-genres', async (ctx) => {
+	const user = ctx.get('user')
+
+	const orderBy = ctx.req.query('order_by') ?? 'total_ms'
+	if (!TOP_ORDER_BY.includes(orderBy as TopOrderBy)) {
+		return ctx.json(
+			{
+				error: `Invalid order_by. Expected one of: ${TOP_ORDER_BY.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	const rangeQuery = parseRangeQuery(ctx)
+	if (!rangeQuery.success) {
+		return ctx.json({ error: 'Invalid time range' }, 400)
+	}
+
+	const pagination = parsePaginationQuery(ctx)
+	if (!pagination.success) {
+		return ctx.json({ error: 'Invalid pagination parameters' }, 400)
+	}
+
+	const range = resolveStatsRange(rangeQuery.data)
+	const options = {
+		range,
+		orderBy: orderBy as TopOrderBy,
+		page: pagination.data.page,
+		limit: pagination.data.limit,
+	}
+
+	try {
+		const result = await getTopGenres(user.id, options)
+
+		return ctx.json({
+			items: result.items,
+			page: options.page,
+			limit: options.limit,
+			total: result.total,
+			from: range.from?.toISOString() ?? null,
+			to: range.to?.toISOString() ?? null,
+		})
+	} catch (error) {
+		console.error('[Stats] Error fetching top genres:', error)
+		return ctx.json({ error: 'Failed to fetch top genres' }, 500)
+	}
+})
+
+/**
+ * GET /api/stats/clock
+ *
+ * Returns the user's plays aggregated by day of week (1 = Monday ... 7 = Sunday)
+ * and hour of day in the user's timezone, for a 24x7 listening clock.
+ * Only cells with plays are included.
+ * Query params:
+ *   - range: 7d, 30d, 90d, 365d or all (default all)
+ *   - from, to: custom ISO datetime bounds (take precedence over range)
+ *   - account: linked account ID to limit stats to (default: all sources merged)
+ */
+stats.get('/clock', async (ctx) => {
+	const user = ctx.get('user')
+
+	const rangeQuery = parseRangeQuery(ctx)
+	if (!rangeQuery.success) {
+		return ctx.json({ error: 'Invalid time range' }, 400)
+	}
+
+	try {
+		const items = await getListeningClock(
+			user.id,
+			user.timezone,
+			resolveStatsRange(rangeQuery.data)
+		)
+
+		return ctx.json({ timezone: user.timezone, items })
+	} catch (error) {
+		console.error('[Stats] Error fetching listening clock:', error)
+		return ctx.json({ error: 'Failed to fetch listening clock' }, 500)
+	}
+})
+
+/**
+ * GET /api/stats/heatmap
+ *
+ * Returns the user's plays per calendar day of a year in the user's timezone,
+ * for a yearly contribution heatmap. Only days with plays are included.
+ * Query params:
+ *   - year: calendar year (default current year)
+ *   - account: linked account ID to limit stats to (default: all sources merged)
+ */
+stats.get('/heatmap', async (ctx) => {
+	const user = ctx.get('user')
+	const yearParam = ctx.req.query('year')
+	const year = yearParam
+		? parseInt(yearParam, 10)
+		: getCurrentYear(user.timezone)
+
+	if (!Number.isInteger(year) || year < 1970 || year > 9999) {
+		return ctx.json({ error: 'Invalid year' }, 400)
+	}
+
+	const account = z.uuid().optional().safeParse(ctx.req.query('account'))
+	if (!account.success) {
+		return ctx.json({ error: 'Invalid account' }, 400)
+	}
+
+	try {
+		const items = await getListeningHeatmap(
+			user.id,
+			user.timezone,
+			year,
+			account.data ?? null
+		)
+
+		return ctx.json({ timezone: user.timezone, year, items })
+	} catch (error) {
+		console.error('[Stats] Error fetching listening heatmap:', error)
+		return ctx.json({ error: 'Failed to fetch listening heatmap' }, 500)
+	}
+})
+
+/**
+ * GET /api/stats/skips/:entity
+ *
+ * Returns skip statistics within a time range:
+ *   - tracks: the most skipped tracks, ordered by number of skips
+ *   - artists: the skip rate per artist, ordered by skip rate
+ * Path params:
+ *   - entity: tracks or artists
+ * Query params:
+ *   - range: 7d, 30d, 90d, 365d or all (default all)
+ *   - from, to: custom ISO datetime bounds (take precedence over range)
+ *   - account: linked account ID to limit stats to (default: all sources merged)
+ *   - min_plays: minimum plays for an entity to be listed (default 3)
+ *   - order: desc (default) or asc
+ *   - page: page number (default 1)
+ *   - limit: items per page (default 50, max 100)
+ */
+stats.get('/skips/:entity', async (ctx) => {
+	const user = ctx.get('user')
+	const entity = ctx.req.param('entity')
+
+	if (!SKIP_ENTITIES.includes(entity as SkipEntity)) {
+		return ctx.json(
+			{
+				error: `Invalid entity. Expected one of: ${SKIP_ENTITIES.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	const query = parsePlayRateQuery(ctx)
+	if ('error' in query) {
+		return ctx.json({ error: query.error }, 400)
+	}
+	const options = { ...query.options, locale: user.display_locale }
+
+	try {
+		const result =
+			entity === 'tracks'
+				? await getMostSkippedTracks(user.id, options)
+				: await getArtistSkipRates(user.id, options)
+
+		return ctx.json({
+			items: result.items,
+			page: options.page,
+			limit: options.limit,
+			total: result.total,
+			from: options.range.from?.toISOString() ?? null,
+			to: options.range.to?.toISOString() ?? null,
+		})
+	} catch (error) {
+		console.error(`[Stats] Error fetching ${entity} skips:`, error)
+		return ctx.json({ error: `Failed to fetch ${entity} skips` }, 500)
+	}
+})
+
+/**
+ * GET /api/stats/completion/:entity
+ *
+ * Returns the average completion percentage (played duration / track
+ * duration) per track or album within a time range, ordered by completion.
+ * Path params:
+ *   - entity: tracks or albums
+ * Query params:
+ *   - range: 7d, 30d, 90d, 365d or all (default all)
+ *   - from, to: custom ISO datetime bounds (take precedence over range)
+ *   - account: linked account ID to limit stats to (default: all sources merged)
+ *   - min_plays: minimum plays for an entity to be listed (default 3)
+ *   - order: desc (default) or asc
+ *   - page: page number (default 1)
+ *   - limit: items per page (default 50, max 100)
+ */
+stats.get('/completion/:entity', async (ctx) => {
+	const user = ctx.get('user')
+	const entity = ctx.req.param('entity')
+
+	if (!COMPLETION_ENTITIES.includes(entity as CompletionEntity)) {
+		return ctx.json(
+			{
+				error: `Invalid entity. Expected one of: ${COMPLETION_ENTITIES.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	const query = parsePlayRateQuery(ctx)
+	if ('error' in query) {
+		return ctx.json({ error: query.error }, 400)
+	}
+	const options = { ...query.options, locale: user.display_locale }
+
+	try {
+		const result =
+			entity === 'tracks'
+				? await getTrackCompletion(user.id, options)
+				: await getAlbumCompletion(user.id, options)
+
+		return ctx.json({
+			items: result.items,
+			page: options.page,
+			limit: options.limit,
+			total: result.total,
+			from: options.range.from?.toISOString() ?? null,
+			to: options.range.to?.toISOString() ?? null,
+		})
+	} catch (error) {
+		console.error(`[Stats] Error fetching ${entity} completion:`, error)
+		return ctx.json({ error: `Failed to fetch ${entity} completion` }, 500)
+	}
+})
+
+/**
+ * GET /api/stats/wrapped/:year
+ *
+ * Returns the user's year in review for a calendar year in their timezone:
+ * totals, top 5 artists/albums/tracks, newly discovered artists, the longest
+ * listening streak, the most replayed day, the skip rate and the split
+ * between groups and solo artists.
+ * Path params:
+ *   - year: calendar year
+ * Query params:
+ *   - account: linked account ID to limit stats to (default: all sources merged)
+ */
+stats.get('/wrapped/:year', async (ctx) => {
+	const user = ctx.get('user')
+	const year = Number(ctx.req.param('year'))
+
+	if (!Number.isInteger(year) || year < 1970 || year > 9999) {
+		return ctx.json({ error: 'Invalid year' }, 400)
+	}
+
+	const account = z.uuid().optional().safeParse(ctx.req.query('account'))
+	if (!account.success) {
+		return ctx.json({ error: 'Invalid account' }, 400)
+	}
+
+	try {
+		const report = await generateWrapped(
+			user.id,
+			user.timezone,
+			year,
+			user.display_locale,
+			account.data ?? null
+		)
+		return ctx.json(report)
+	} catch (error) {
+		console.error('[Stats] Error generating wrapped:', error)
+		return ctx.json({ error: 'Failed to generate wrapped' }, 500)
+	}
+})
+
 export default stats
@@ -4,6 +4,7 @@
  * Provides endpoints for:
  * - Searching MusicBrainz for candidates (artists, releases)
  * - Enqueueing sync jobs for background processing
+ * - Starting multi-hop relationship traversals from an artist
  * - Viewing job status and queue statistics
  *
  * All endpoints require authentication.
@@ -23,6 +24,10 @@ import {
 	type MbEnrichmentJobType,
 	type MbEnrichmentEntityType,
 } from '../lib/mb-enrichment-queue'
+import {
+	getArtistTraversal,
+	startArtistTraversal,
+} from '../lib/artist-traversal'
 import { db } from '../db'
 
 const sync = new Hono()
@@ -236,7 +241,9 @@ sync.post('/artists/:id', async (ctx) => {
  * Enqueue sync jobs for multiple artists.
  * Query params:
  * - limit: Max artists to enqueue (default 10, max 50)
- * - type: 'sync' (default, for artists with MBID) or 'resolve' (for artists without MBID)
+ * - type: 'sync' (default, for artists with MBID), 'resolve' (for artists without MBID),
+ *   'genres' (for artists with MBID but no tags yet) or 'aliases' (for artists with
+ *   MBID whose aliases were never synced)
  */
 sync.post('/artists', async (ctx) => {
 	const limitParam = ctx.req.query('limit')
@@ -253,6 +260,28 @@ sync.post('/artists', async (ctx) => {
 				columns: { id: true, name: true, mbid: true },
 				limit,
 			})
+		} else if (typeParam === 'genres') {
+			// Find artists with MBIDs whose genres were never synced
+			artistsToEnqueue = await db.query.artists.findMany({
+				where: (a, { and, isNotNull, sql }) =>
+					and(
+						isNotNull(a.mbid),
+						sql`NOT EXISTS (SELECT 1 FROM artist_tags at WHERE at.artist_id = ${a.id})`
+					),
+				columns: { id: true, name: true, mbid: true },
+				limit,
+			})
+		} else if (typeParam === 'aliases') {
+			// Find artists with MBIDs whose aliases were never synced
+			artistsToEnqueue = await db.query.artists.findMany({
+				where: (a, { and, isNotNull, sql }) =>
+					and(
+						isNotNull(a.mbid),
+						sql`NOT EXISTS (SELECT 1 FROM artist_aliases aa WHERE aa.artist_id = ${a.id})`
+					),
+				columns: { id: true, name: true, mbid: true },
+				limit,
+			})
 		} else {
 			// Find artists with MBIDs
 			artistsToEnqueue = await db.query.artists.findMany({
@@ -263,7 +292,11 @@ sync.post('/artists', async (ctx) => {
 		}
 
 		const jobType: MbEnrichmentJobType =
-			typeParam === 'resolve' ? 'artist.resolve_mbid' : 'artist.sync_relationships'
+			typeParam === 'resolve'
+				? 'artist.resolve_mbid'
+				: typeParam === 'genres'
+					? 'artist.sync_genres'
+					: 'artist.sync_relationships'
 
 		const results = await enqueueJobs(
 			artistsToEnqueue.map((artist) => ({
@@ -294,6 +327,78 @@ sync.post('/artists', async (ctx) => {
 	}
 })
 
+// =============================================================================
+// Artist Traversals
+// =============================================================================
+
+const TRAVERSAL_ERRORS = {
+	artist_not_found: { status: 404, error: 'Artist not found' },
+	no_mbid: { status: 400, error: 'Artist has no MBID - resolve it first' },
+	already_running: { status: 409, error: 'A traversal from this artist is already running' },
+} as const
+
+/**
+ * POST /api/sync/artists/:id/traverse
+ *
+ * Start syncing relationships hop by hop from an artist, linking the other
+ * groups of its members, their members, and so on.
+ * Query params:
+ * - depth: Hops to follow (default 2, max 4)
+ * - budget: Max MusicBrainz requests to spend (default 50, max 250)
+ * Returns 202 Accepted with the traversal.
+ */
+sync.post('/artists/:id/traverse', async (ctx) => {
+	const artistId = ctx.req.param('id')
+	const depthParam = ctx.req.query('depth')
+	const budgetParam = ctx.req.query('budget')
+
+	const maxDepth = depthParam ? parseInt(depthParam, 10) : undefined
+	const budget = budgetParam ? parseInt(budgetParam, 10) : undefined
+
+	if (
+		(maxDepth !== undefined && isNaN(maxDepth)) ||
+		(budget !== undefined && isNaN(budget))
+	) {
+		return ctx.json({ error: 'depth and budget must be numbers' }, 400)
+	}
+
+	try {
+		const result = await startArtistTraversal(artistId, { maxDepth, budget })
+
+		if (!result.ok) {
+			const { status, error } = TRAVERSAL_ERRORS[result.reason]
+			return ctx.json({ error, traversalId: result.traversalId }, status)
+		}
+
+		return ctx.json(result.traversal, 202)
+	} catch (error) {
+		console.error('[Sync] Error starting artist traversal:', error)
+		return ctx.json({ error: 'Failed to start traversal' }, 500)
+	}
+})
+
+/**
+ * GET /api/sync/traversals/:id
+ *
+ * Get a traversal's status, request usage and node counts.
+ */
+sync.get('/traversals/:id', async (ctx) => {
+	const traversalId = ctx.req.param('id')
+
+	try {
+		const traversal = await getArtistTraversal(traversalId)
+
+		if (!traversal) {
+			return ctx.json({ error: 'Traversal not found' }, 404)
+		}
+
+		return ctx.json(traversal)
+	} catch (error) {
+		console.error('[Sync] Error getting traversal:', error)
+		return ctx.json({ error: 'Failed to get traversal' }, 500)
+	}
+})
+
 // =============================================================================
 // Album Sync (Enqueue)
 // =============================================================================
@@ -462,7 +567,8 @@ sync.post('/tracks/:id', async (ctx) => {
  * Enqueue sync jobs for multiple tracks.
  * Query params:
  * - limit: Max tracks to enqueue (default 10, max 50)
- * - type: 'sync' (default, for tracks with MBID) or 'resolve' (for tracks without MBID)
+ * - type: 'sync' (default, for tracks with MBID), 'resolve' (for tracks without MBID)
+ *   or 'genres' (for tracks with MBID but no tags yet)
  */
 sync.post('/tracks', async (ctx) => {
 	const limitParam = ctx.req.query('limit')
@@ -479,6 +585,17 @@ sync.post('/tracks', async (ctx) => {
 				columns: { id: true, title: true, mbid: true },
 				limit,
 			})
+		} else if (typeParam === 'genres') {
+			// Find tracks with MBIDs whose genres were never synced
+			tracksToEnqueue = await db.query.tracks.findMany({
+				where: (t, { and, isNotNull, sql }) =>
+					and(
+						isNotNull(t.mbid),
+						sql`NOT EXISTS (SELECT 1 FROM track_tags tt WHERE tt.track_id = ${t.id})`
+					),
+				columns: { id: true, title: true, mbid: true },
+				limit,
+			})
 		} else {
 			// Find tracks with MBIDs
 			tracksToEnqueue = await db.query.tracks.findMany({
@@ -489,7 +606,11 @@ sync.post('/tracks', async (ctx) => {
 		}
 
 		const jobType: MbEnrichmentJobType =
-			typeParam === 'resolve' ? 'track.resolve_mbid' : 'track.sync'
+			typeParam === 'resolve'
+				? 'track.resolve_mbid'
+				: typeParam === 'genres'
+					? 'track.sync_genres'
+					: 'track.sync'
 
 		const results = await enqueueJobs(
 			tracksToEnqueue.map((track) => ({
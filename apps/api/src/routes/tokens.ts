@@ -0,0 +1,129 @@
+/**
+ * Tokens Routes
+ *
+ * Provides endpoints for managing the tokens scrobbler clients use to
+ * submit plays to Playbacc.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { authenticate } from '../middleware/auth'
+import {
+	getOrCreateListenToken,
+	regenerateListenToken,
+} from '../lib/listenbrainz'
+import {
+	getOrCreateScrobblerPassword,
+	regenerateScrobblerPassword,
+} from '../lib/audioscrobbler'
+import type { AppVariables } from '../types'
+
+const tokens = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+tokens.use('*', authenticate)
+
+/**
+ * GET /api/tokens/listenbrainz
+ *
+ * Returns the user's ListenBrainz submission token (created on first request)
+ * and the API root to configure in ListenBrainz-compatible clients.
+ */
+tokens.get('/listenbrainz', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const token = await getOrCreateListenToken(user.id)
+		return ctx.json({
+			token,
+			api_url: new URL(ctx.req.url).origin,
+		})
+	} catch (error) {
+		console.error('[Tokens] Error fetching ListenBrainz token:', error)
+		return ctx.json({ error: 'Failed to fetch token' }, 500)
+	}
+})
+
+/**
+ * POST /api/tokens/listenbrainz
+ *
+ * Generates a new ListenBrainz submission token, invalidating the previous one.
+ */
+tokens.post('/listenbrainz', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const token = await regenerateListenToken(user.id)
+		return ctx.json({
+			token,
+			api_url: new URL(ctx.req.url).origin,
+		})
+	} catch (error) {
+		console.error('[Tokens] Error regenerating ListenBrainz token:', error)
+		return ctx.json({ error: 'Failed to regenerate token' }, 500)
+	}
+})
+
+/**
+ * Builds the Audioscrobbler client settings returned to the user
+ */
+function audioscrobblerSettings(
+	username: string,
+	password: string,
+	requestUrl: string
+) {
+	return {
+		username,
+		password,
+		api_url: `${new URL(requestUrl).origin}/2.0/`,
+	}
+}
+
+/**
+ * GET /api/tokens/audioscrobbler
+ *
+ * Returns the username and scrobbler password (created on first request)
+ * to configure in Last.fm-compatible clients, and the API root to use.
+ */
+tokens.get('/audioscrobbler', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const password = await getOrCreateScrobblerPassword(user.id)
+		return ctx.json(
+			audioscrobblerSettings(
+				user.username ?? user.email,
+				password,
+				ctx.req.url
+			)
+		)
+	} catch (error) {
+		console.error('[Tokens] Error fetching scrobbler password:', error)
+		return ctx.json({ error: 'Failed to fetch token' }, 500)
+	}
+})
+
+/**
+ * POST /api/tokens/audioscrobbler
+ *
+ * Generates a new scrobbler password and signs out all connected clients.
+ */
+tokens.post('/audioscrobbler', async (ctx) => {
+	const user = ctx.get('user')
+
+	try {
+		const password = await regenerateScrobblerPassword(user.id)
+		return ctx.json(
+			audioscrobblerSettings(
+				user.username ?? user.email,
+				password,
+				ctx.req.url
+			)
+		)
+	} catch (error) {
+		console.error('[Tokens] Error regenerating scrobbler password:', error)
+		return ctx.json({ error: 'Failed to regenerate token' }, 500)
+	}
+})
+
+export default tokens
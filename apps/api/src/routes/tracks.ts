@@ -0,0 +1,144 @@
+/**
+ * Tracks Routes
+ *
+ * Provides endpoints for track details and the user's listening history
+ * of a track.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { authenticate } from '../middleware/auth'
+import { db } from '../db'
+import { sql } from 'drizzle-orm'
+import { getPlaySummary, getPlayTimeline } from '../lib/stats'
+import { artistNameSql } from '../lib/artist-aliases'
+import type { AppVariables } from '../types'
+
+const tracks = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+tracks.use('*', authenticate)
+
+/**
+ * GET /api/tracks/:id
+ *
+ * Returns track details including:
+ * - Metadata (ISRC, MBID, duration)
+ * - Artist credits with join phrases
+ * - Albums the track appears on with disc and track positions
+ * - The user's play count, first/last played and a per-month play timeline
+ */
+tracks.get('/:id', async (ctx) => {
+	const user = ctx.get('user')
+	const trackId = ctx.req.param('id')
+
+	// Validate UUID format
+	const uuidRegex =
+		/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+	if (!uuidRegex.test(trackId)) {
+		return ctx.json({ error: 'Invalid track ID format' }, 400)
+	}
+
+	try {
+		const trackResult = await db.execute<{
+			id: string
+			title: string
+			duration_ms: number | null
+			isrc: string | null
+			mbid: string | null
+			explicit: boolean
+		}>(sql`
+			SELECT id, title, duration_ms, isrc, mbid, explicit
+			FROM tracks
+			WHERE id = ${trackId}
+		`)
+
+		if (trackResult.length === 0) {
+			return ctx.json({ error: 'Track not found' }, 404)
+		}
+
+		const track = trackResult[0]
+
+		const credits = await db.execute<{
+			id: string
+			name: string
+			image_url: string | null
+			is_primary: boolean
+			join_phrase: string
+		}>(sql`
+			SELECT
+				a.id,
+				${artistNameSql('a', user.display_locale)} as name,
+				a.image_url,
+				ta.is_primary,
+				ta.join_phrase
+			FROM track_artists ta
+			JOIN artists a ON a.id = ta.artist_id
+			WHERE ta.track_id = ${trackId}
+			ORDER BY ta."order"
+		`)
+
+		const albums = await db.execute<{
+			id: string
+			title: string
+			image_url: string | null
+			release_date: string | null
+			artist_id: string
+			artist_name: string
+			disc_number: number | null
+			position: number | null
+		}>(sql`
+			SELECT
+				al.id,
+				al.title,
+				al.image_url,
+				al.release_date::text as release_date,
+				ar.id as artist_id,
+				${artistNameSql('ar', user.display_locale)} as artist_name,
+				tal.disc_number,
+				tal.position
+			FROM track_albums tal
+			JOIN albums al ON al.id = tal.album_id
+			JOIN artists ar ON ar.id = al.artist_id
+			WHERE tal.track_id = ${trackId}
+			ORDER BY al.release_date ASC NULLS LAST, al.title ASC
+		`)
+
+		const scope = { trackId }
+		const stats = await getPlaySummary(user.id, scope)
+		const timeline = await getPlayTimeline(user.id, user.timezone, scope)
+
+		return ctx.json({
+			id: track.id,
+			title: track.title,
+			duration_ms: track.duration_ms,
+			isrc: track.isrc,
+			mbid: track.mbid,
+			explicit: track.explicit,
+			credits: credits.map((credit) => ({
+				id: credit.id,
+				name: credit.name,
+				image_url: credit.image_url,
+				is_primary: credit.is_primary,
+				join_phrase: credit.join_phrase,
+			})),
+			albums: albums.map((album) => ({
+				id: album.id,
+				title: album.title,
+				image_url: album.image_url,
+				release_date: album.release_date,
+				artist: { id: album.artist_id, name: album.artist_name },
+				disc_number: album.disc_number,
+				position: album.position,
+			})),
+			stats,
+			timezone: user.timezone,
+			timeline,
+		})
+	} catch (error) {
+		console.error('[Tracks] Error fetching track:', error)
+		return ctx.json({ error: 'Failed to fetch track' }, 500)
+	}
+})
+
+export default tracks
@@ -0,0 +1,158 @@
+/**
+ * Users Routes
+ *
+ * Provides endpoints for reading and updating the current user's settings.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { eq } from 'drizzle-orm'
+import { authenticate } from '../middleware/auth'
+import { db } from '../db'
+import { findUserByUsername, USERNAME_PATTERN } from '../lib/profiles'
+import { DISPLAY_LOCALE_PATTERN } from '../lib/artist-aliases'
+import { users } from '@playbacc/types/db/schema'
+import type { AppVariables, User } from '../types'
+
+const usersRoutes = new Hono<{ Variables: AppVariables }>()
+
+// Apply authentication to all routes
+usersRoutes.use('*', authenticate)
+
+/**
+ * Checks whether a string is a timezone known to the runtime (IANA name)
+ */
+function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Schema for updating the current user's settings
+ */
+const updateMeSchema = z.object({
+	timezone: z
+		.string()
+		.refine(isValidTimezone, { message: 'Unknown timezone' })
+		.optional(),
+	display_locale: z
+		.string()
+		.regex(DISPLAY_LOCALE_PATTERN, {
+			message: 'Display locales look like ja, en or zh_Hant',
+		})
+		.nullable()
+		.optional(),
+	username: z
+		.string()
+		.trim()
+		.regex(USERNAME_PATTERN, {
+			message:
+				'Usernames are 3-30 letters, digits, dots, dashes or underscores',
+		})
+		.optional(),
+	profile_public: z.boolean().optional(),
+	profile_now_playing: z.boolean().optional(),
+	profile_recent_scrobbles: z.boolean().optional(),
+	profile_top_artists: z.boolean().optional(),
+})
+
+/**
+ * Formats a user for API responses
+ */
+function formatUser(user: User) {
+	return {
+		id: user.id,
+		email: user.email,
+		username: user.username,
+		image_url: user.image_url,
+		role: user.role,
+		timezone: user.timezone,
+		display_locale: user.display_locale,
+		profile_public: user.profile_public,
+		profile_now_playing: user.profile_now_playing,
+		profile_recent_scrobbles: user.profile_recent_scrobbles,
+		profile_top_artists: user.profile_top_artists,
+		created_at: user.created_at,
+	}
+}
+
+/**
+ * GET /api/users/me
+ *
+ * Returns the current user's profile and settings.
+ */
+usersRoutes.get('/me', async (ctx) => {
+	const user = ctx.get('user')
+	return ctx.json(formatUser(user))
+})
+
+/**
+ * PATCH /api/users/me
+ *
+ * Updates the current user's settings.
+ * Body:
+ *   - timezone: IANA timezone used for time-based statistics (e.g. Europe/Berlin)
+ *   - display_locale: MusicBrainz locale artist names are shown in (e.g. ja),
+ *     or null for the names as stored
+ *   - username: name in the public profile URL (unique, ignoring case)
+ *   - profile_public: whether the public profile can be viewed
+ *   - profile_now_playing, profile_recent_scrobbles, profile_top_artists:
+ *     sections the public profile shares
+ */
+usersRoutes.patch('/me', async (ctx) => {
+	const user = ctx.get('user')
+
+	let body: unknown
+	try {
+		body = await ctx.req.json()
+	} catch {
+		return ctx.json({ error: 'Invalid JSON body' }, 400)
+	}
+
+	const result = updateMeSchema.safeParse(body)
+	if (!result.success) {
+		return ctx.json({ error: result.error.issues[0].message }, 400)
+	}
+
+	if (Object.keys(result.data).length === 0) {
+		return ctx.json(formatUser(user))
+	}
+
+	// The public profile lives at /u/:username
+	if (
+		result.data.profile_public &&
+		!(result.data.username ?? user.username)
+	) {
+		return ctx.json(
+			{ error: 'Choose a username before making your profile public' },
+			400
+		)
+	}
+
+	try {
+		if (result.data.username) {
+			const owner = await findUserByUsername(result.data.username)
+			if (owner && owner.id !== user.id) {
+				return ctx.json({ error: 'Username is already taken' }, 409)
+			}
+		}
+
+		const [updated] = await db
+			.update(users)
+			.set(result.data)
+			.where(eq(users.id, user.id))
+			.returning()
+
+		return ctx.json(formatUser(updated))
+	} catch (error) {
+		console.error('[Users] Error updating user:', error)
+		return ctx.json({ error: 'Failed to update user' }, 500)
+	}
+})
+
+export default usersRoutes
@@ -16,6 +16,11 @@ export type Account = typeof accounts.$inferSelect
  */
 export type User = typeof users.$inferSelect
 
+/**
+ * Source a scrobble or account comes from
+ */
+export type AccountProvider = Account['provider']
+
 /**
  * Variables set on the Hono context by middleware
  */
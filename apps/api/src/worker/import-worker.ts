@@ -0,0 +1,149 @@
+/**
+ * Import Worker
+ *
+ * Background service that processes uploaded listening history exports:
+ * - Claims pending imports one at a time
+ * - Parses the stored export file and resolves each play via MusicBrainz
+ * - Persists scrobbles linked to the import and updates its progress counters
+ *
+ * Imports interrupted by a shutdown or crash are requeued and processed again
+ * from the start; scrobble inserts are idempotent so no duplicates are created.
+ * Run a single instance of this worker.
+ *
+ * @module worker/import-worker
+ */
+
+import {
+	claimNextImport,
+	completeImport,
+	failImport,
+	processImport,
+	releaseImport,
+	requeueInterruptedImports,
+} from '../lib/imports'
+import { MusicBrainzCache } from '../lib/musicbrainz'
+
+/**
+ * Worker configuration
+ */
+const WORKER_CONFIG = {
+	/** Delay between polls when no imports are pending (ms) - default 15 seconds */
+	pollIntervalMs: parseInt(
+		process.env.IMPORT_WORKER_POLL_INTERVAL_MS || '15000',
+		10
+	),
+	/** Jitter factor (±10% of poll interval) */
+	jitterFactor: 0.1,
+}
+
+/** Flag to track if worker should continue running */
+let isRunning = true
+
+/**
+ * Adds random jitter to a delay value.
+ *
+ * @param baseDelayMs - Base delay in milliseconds
+ * @returns Delay with jitter applied
+ */
+function addJitter(baseDelayMs: number): number {
+	const jitter = baseDelayMs * WORKER_CONFIG.jitterFactor
+	return baseDelayMs + (Math.random() * 2 - 1) * jitter
+}
+
+/**
+ * Sleeps for a specified duration.
+ *
+ * @param ms - Duration in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Main worker loop.
+ * Claims and processes imports until shutdown.
+ */
+async function runWorkerLoop(mbCache: MusicBrainzCache): Promise<void> {
+	console.log('[ImportWorker] Starting main loop...')
+
+	while (isRunning) {
+		try {
+			const record = await claimNextImport()
+
+			if (!record) {
+				await sleep(addJitter(WORKER_CONFIG.pollIntervalMs))
+				continue
+			}
+
+			console.log(
+				`[ImportWorker] Processing import ${record.id} (${record.filename})`
+			)
+
+			try {
+				const result = await processImport(
+					record,
+					mbCache,
+					() => isRunning
+				)
+
+				if (result === 'completed') {
+					await completeImport(record.id)
+					console.log(`[ImportWorker] Import ${record.id} completed`)
+				} else {
+					await releaseImport(record.id)
+					console.log(
+						`[ImportWorker] Import ${record.id} interrupted, requeued`
+					)
+				}
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : String(error)
+				console.error(
+					`[ImportWorker] Import ${record.id} failed:`,
+					error
+				)
+				await failImport(record.id, message)
+			}
+		} catch (error) {
+			console.error('[ImportWorker] Error in main loop:', error)
+			await sleep(addJitter(WORKER_CONFIG.pollIntervalMs))
+		}
+	}
+
+	console.log('[ImportWorker] Main loop stopped')
+}
+
+/**
+ * Main worker entry point.
+ */
+async function main(): Promise<void> {
+	console.log('[ImportWorker] Import worker starting...')
+	console.log(
+		`[ImportWorker] Config: pollIntervalMs=${WORKER_CONFIG.pollIntervalMs}`
+	)
+
+	// Set up graceful shutdown
+	const shutdown = () => {
+		console.log('[ImportWorker] Shutdown signal received, stopping...')
+		isRunning = false
+	}
+
+	process.on('SIGINT', shutdown)
+	process.on('SIGTERM', shutdown)
+
+	// Recover imports left in processing state by a previous crash
+	const requeued = await requeueInterruptedImports()
+	if (requeued > 0) {
+		console.log(`[ImportWorker] Requeued ${requeued} interrupted imports`)
+	}
+
+	await runWorkerLoop(new MusicBrainzCache())
+
+	console.log('[ImportWorker] Import worker stopped')
+}
+
+// Run the worker
+main().catch((error) => {
+	console.error('[ImportWorker] Fatal error:', error)
+	process.exit(1)
+})
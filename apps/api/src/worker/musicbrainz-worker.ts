@@ -3,7 +3,10 @@
  *
  * Background service that processes MusicBrainz enrichment jobs:
  * - Resolves missing MBIDs for artists, albums, and tracks
- * - Syncs artist relationships (group memberships)
+ *   (recording a merge candidate when another row already has the MBID)
+ * - Syncs artist relationships (group memberships, collaborations, credits)
+ *   and aliases, following newly linked artists when the job is a traversal hop
+ * - Syncs genres and tags of artists and tracks (albums get theirs with album.sync)
  * - Refreshes stale metadata from MusicBrainz
  *
  * Uses conservative rate limiting to stay well under MusicBrainz's
@@ -18,6 +21,7 @@ import { artists, albums, tracks, track_artists } from '@playbacc/types/db/schem
 import {
 	claimJobs,
 	completeJob,
+	enqueueJob,
 	failJob,
 	cleanupOldJobs,
 	type MbEnrichmentJob,
@@ -26,9 +30,16 @@ import {
 } from '../lib/mb-enrichment-queue'
 import {
 	syncArtistRelationshipsByMbid,
+	syncArtistGenresById,
 	syncTrackById,
+	syncTrackGenresById,
 	syncAlbumById,
 } from '../lib/sync'
+import { recordMbidConflict } from '../lib/merge'
+import {
+	advanceArtistTraversal,
+	failArtistTraversalHop,
+} from '../lib/artist-traversal'
 import {
 	lookupArtistByName,
 	lookupReleaseByNameAndArtist,
@@ -102,7 +113,10 @@ async function processJob(job: MbEnrichmentJob): Promise<{ success: boolean; err
 				return await processArtistResolveMbid(job.entity_id)
 
 			case 'artist.sync_relationships':
-				return await processArtistSyncRelationships(job.entity_id)
+				return await processArtistSyncRelationships(job.entity_id, job.traversal_id)
+
+			case 'artist.sync_genres':
+				return await processArtistSyncGenres(job.entity_id)
 
 			case 'album.resolve_mbid':
 				return await processAlbumResolveMbid(job.entity_id)
@@ -116,6 +130,9 @@ async function processJob(job: MbEnrichmentJob): Promise<{ success: boolean; err
 			case 'track.sync':
 				return await processTrackSync(job.entity_id)
 
+			case 'track.sync_genres':
+				return await processTrackSyncGenres(job.entity_id)
+
 			default:
 				return { success: false, error: `Unknown job type: ${job.job_type}` }
 		}
@@ -149,7 +166,18 @@ async function processArtistResolveMbid(
 		return { success: false, error: `No MusicBrainz match found for artist: ${artist.name}` }
 	}
 
+	// MBIDs are unique; another artist with this MBID is a duplicate to merge
+	const holder = await db.query.artists.findFirst({
+		where: (a, { eq }) => eq(a.mbid, mbid),
+	})
+	if (holder) {
+		await recordMbidConflict('artist', holder.id, artistId, mbid)
+		console.log(`[MbWorker] Artist MBID ${mbid} already belongs to ${holder.id}, recorded ${artistId} as merge candidate`)
+		return { success: true }
+	}
+
 	await db.update(artists).set({ mbid }).where(eq(artists.id, artistId))
+	await enqueueJob({ jobType: 'artist.sync_genres', entityType: 'artist', entityId: artistId })
 
 	console.log(`[MbWorker] Resolved artist MBID: ${artist.name} -> ${mbid}`)
 	return { success: true }
@@ -157,9 +185,11 @@ async function processArtistResolveMbid(
 
 /**
  * Syncs artist relationships from MusicBrainz.
+ * For traversal hops, the newly linked artists are enqueued next.
  */
 async function processArtistSyncRelationships(
-	artistId: string
+	artistId: string,
+	traversalId: string | null
 ): Promise<{ success: boolean; error?: string }> {
 	const artist = await db.query.artists.findFirst({
 		where: (a, { eq }) => eq(a.id, artistId),
@@ -181,7 +211,53 @@ async function processArtistSyncRelationships(
 
 	console.log(
 		`[MbWorker] Synced artist relationships: ${artist.name} ` +
-			`(type=${result.artistType}, memberships=${result.membershipsInserted}/${result.membershipsProcessed})`
+			`(type=${result.artistType}, memberships=${result.membershipsInserted}/${result.membershipsProcessed}, ` +
+			`relationships=${result.relationshipsStored}/${result.relationshipsProcessed}, ` +
+			`aliases=${result.aliasesStored})`
+	)
+
+	if (traversalId) {
+		const enqueued = await advanceArtistTraversal(traversalId, artistId)
+		console.log(
+			`[MbWorker] Advanced traversal ${traversalId}: ${artist.name} (enqueued=${enqueued})`
+		)
+	}
+	return { success: true }
+}
+
+/**
+ * Records a failed traversal hop, so the traversal's budget and progress
+ * account for it.
+ */
+async function recordTraversalFailure(job: MbEnrichmentJob): Promise<void> {
+	if (!job.traversal_id) return
+
+	try {
+		await failArtistTraversalHop(
+			job.traversal_id,
+			job.entity_id,
+			job.attempts + 1 >= job.max_attempts
+		)
+	} catch (error) {
+		console.error(`[MbWorker] Error recording traversal failure for job ${job.id}:`, error)
+	}
+}
+
+/**
+ * Syncs artist genres and tags from MusicBrainz.
+ */
+async function processArtistSyncGenres(
+	artistId: string
+): Promise<{ success: boolean; error?: string }> {
+	const result = await syncArtistGenresById(artistId)
+
+	if (result.errors.length > 0) {
+		return { success: false, error: result.errors.join('; ') }
+	}
+
+	console.log(
+		`[MbWorker] Synced artist genres: id=${artistId}, ` +
+			`tags=${result.tagsStored}, genres=${result.genresStored}`
 	)
 	return { success: true }
 }
@@ -225,6 +301,16 @@ async function processAlbumResolveMbid(
 		}
 	}
 
+	// MBIDs are unique; another album with this MBID is a duplicate to merge
+	const holder = await db.query.albums.findFirst({
+		where: (a, { eq }) => eq(a.mbid, mbid),
+	})
+	if (holder) {
+		await recordMbidConflict('album', holder.id, albumId, mbid)
+		console.log(`[MbWorker] Album MBID ${mbid} already belongs to ${holder.id}, recorded ${albumId} as merge candidate`)
+		return { success: true }
+	}
+
 	await db.update(albums).set({ mbid }).where(eq(albums.id, albumId))
 
 	console.log(`[MbWorker] Resolved album MBID: ${album.title} -> ${mbid}`)
@@ -246,7 +332,7 @@ async function processAlbumSync(albumId: string): Promise<{ success: boolean; er
 	}
 
 	console.log(
-		`[MbWorker] Synced album: id=${albumId}, updated=${result.updated}, cover=${result.coverArtFetched}`
+		`[MbWorker] Synced album: id=${albumId}, updated=${result.updated}, cover=${result.coverArtFetched}, tags=${result.tagsStored}`
 	)
 	return { success: true }
 }
@@ -299,7 +385,18 @@ async function processTrackResolveMbid(
 		return { success: false, error: `No MusicBrainz match found for track: ${track.title}` }
 	}
 
+	// MBIDs are unique; another track with this MBID is a duplicate to merge
+	const holder = await db.query.tracks.findFirst({
+		where: (t, { eq }) => eq(t.mbid, mbid),
+	})
+	if (holder) {
+		await recordMbidConflict('track', holder.id, trackId, mbid)
+		console.log(`[MbWorker] Track MBID ${mbid} already belongs to ${holder.id}, recorded ${trackId} as merge candidate`)
+		return { success: true }
+	}
+
 	await db.update(tracks).set({ mbid }).where(eq(tracks.id, trackId))
+	await enqueueJob({ jobType: 'track.sync_genres', entityType: 'track', entityId: trackId })
 
 	console.log(`[MbWorker] Resolved track MBID: ${track.title} -> ${mbid}`)
 	return { success: true }
@@ -323,6 +420,25 @@ async function processTrackSync(trackId: string): Promise<{ success: boolean; er
 	return { success: true }
 }
 
+/**
+ * Syncs track genres and tags from its MusicBrainz recording.
+ */
+async function processTrackSyncGenres(
+	trackId: string
+): Promise<{ success: boolean; error?: string }> {
+	const result = await syncTrackGenresById(trackId)
+
+	if (result.errors.length > 0) {
+		return { success: false, error: result.errors.join('; ') }
+	}
+
+	console.log(
+		`[MbWorker] Synced track genres: id=${trackId}, ` +
+			`tags=${result.tagsStored}, genres=${result.genresStored}`
+	)
+	return { success: true }
+}
+
 // =============================================================================
 // Main Loop
 // =============================================================================
@@ -386,11 +502,13 @@ async function runWorkerLoop(): Promise<void> {
 						await completeJob(job.id)
 					} else {
 						await failJob(job.id, result.error || 'Unknown error')
+						await recordTraversalFailure(job)
 					}
 				} catch (error) {
 					const message = error instanceof Error ? error.message : String(error)
 					console.error(`[MbWorker] Error processing job ${job.id}:`, error)
 					await failJob(job.id, message)
+					await recordTraversalFailure(job)
 				}
 
 				// Throttle: wait between jobs to stay under MusicBrainz rate limit
@@ -1,31 +1,37 @@
 /**
  * Scrobble Worker
  *
- * Background service that tracks listening history from Spotify via two loops:
+ * Background service that tracks listening history from every registered
+ * scrobble provider (see SCROBBLE_PROVIDERS) via two loops:
  *
- * 1. **Fast loop (currently-playing)**: Polls Spotify's currently-playing endpoint
- *    every ~8 seconds for real-time playback tracking. This enables:
+ * 1. **Fast loop (currently-playing)**: Polls each provider's currently-playing
+ *    report every ~8 seconds for real-time playback tracking. This enables:
  *    - Scrobbling skipped tracks (that meet minimum duration)
  *    - Detecting looped/repeated tracks via progress wrap
  *    - Pause-aware duration tracking
+ *    - Ending now-playing sessions abandoned by scrobbler clients
  *
- * 2. **Slow loop (recently-played fallback)**: Polls Spotify's recently-played endpoint
- *    at a configurable interval (~5 min default) as a safety net to catch any plays
- *    that may have been missed.
+ * 2. **Slow loop (recently-played fallback)**: Polls the recently-played list of
+ *    providers that have one at a configurable interval (~5 min default) as a
+ *    safety net to catch any plays that may have been missed.
  *
  * Both loops share a MusicBrainz cache for efficient metadata resolution.
  *
  * @module worker/scrobble-worker
  */
 
-import {
-	getEligibleAccounts,
-	processAccountScrobbles,
-	SCROBBLE_CONFIG,
-} from '../lib/scrobbles'
+import { processAccountScrobbles, SCROBBLE_CONFIG } from '../lib/scrobbles'
 import { MusicBrainzCache } from '../lib/musicbrainz'
-import { processCurrentlyPlaying, PLAYBACK_CONFIG } from '../lib/playback'
-import type { SpotifyAccount } from '../lib/spotify'
+import {
+	expireSubmittedNowPlaying,
+	processCurrentlyPlaying,
+	PLAYBACK_CONFIG,
+} from '../lib/playback'
+import {
+	SCROBBLE_PROVIDERS,
+	type ScrobbleProvider,
+} from '../lib/scrobble-providers'
+import type { Account } from '../types'
 
 /**
  * Worker configuration
@@ -67,15 +73,17 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Processes all accounts via the currently-playing endpoint.
+ * Processes all accounts of a provider via its currently-playing report.
  * This is the fast loop for real-time playback tracking.
  *
+ * @param provider - Provider the accounts belong to
  * @param accounts - Array of accounts to process
  * @param mbCache - Shared MusicBrainz cache
  * @returns Aggregated statistics
  */
 async function processCurrentlyPlayingLoop(
-	accounts: SpotifyAccount[],
+	provider: ScrobbleProvider,
+	accounts: Account[],
 	mbCache: MusicBrainzCache
 ): Promise<{
 	scrobbled: number
@@ -92,7 +100,11 @@ async function processCurrentlyPlayingLoop(
 		if (!isRunning) break
 
 		try {
-			const result = await processCurrentlyPlaying(account, mbCache)
+			const result = await processCurrentlyPlaying(
+				provider,
+				account,
+				mbCache
+			)
 			if (result.scrobbled) stats.scrobbled++
 			if (result.sessionUpdated) stats.sessionsUpdated++
 			if (result.error) stats.errors++
@@ -109,14 +121,16 @@ async function processCurrentlyPlayingLoop(
 }
 
 /**
- * Processes accounts via the recently-played endpoint (fallback).
+ * Processes accounts of a provider via its recently-played list (fallback).
  *
+ * @param provider - Provider the accounts belong to
  * @param accounts - Array of accounts to process
  * @param mbCache - Shared MusicBrainz cache
  * @returns Aggregated statistics
  */
 async function processRecentlyPlayedLoop(
-	accounts: SpotifyAccount[],
+	provider: ScrobbleProvider,
+	accounts: Account[],
 	mbCache: MusicBrainzCache
 ): Promise<{
 	totalFetched: number
@@ -136,7 +150,11 @@ async function processRecentlyPlayedLoop(
 		if (!isRunning) break
 
 		try {
-			const result = await processAccountScrobbles(account, mbCache)
+			const result = await processAccountScrobbles(
+				provider,
+				account,
+				mbCache
+			)
 			stats.totalFetched += result.fetched
 			stats.totalScrobbled += result.scrobbled
 			stats.totalSkipped += result.skipped
@@ -154,7 +172,7 @@ async function processRecentlyPlayedLoop(
 }
 
 /**
- * Fast loop: Polls currently-playing for all accounts.
+ * Fast loop: Polls currently-playing for all accounts of every provider.
  * Runs every ~8 seconds for real-time playback tracking.
  */
 async function runFastLoop(mbCache: MusicBrainzCache): Promise<void> {
@@ -163,24 +181,47 @@ async function runFastLoop(mbCache: MusicBrainzCache): Promise<void> {
 	while (isRunning) {
 		const startTime = Date.now()
 
-		try {
-			const accounts = await getEligibleAccounts()
+		for (const provider of SCROBBLE_PROVIDERS) {
+			if (!isRunning) break
 
-			if (accounts.length > 0) {
-				const stats = await processCurrentlyPlayingLoop(
-					accounts,
-					mbCache
-				)
+			try {
+				const accounts = await provider.getAccounts()
 
-				if (stats.scrobbled > 0 || stats.errors > 0) {
-					console.log(
-						`[Worker:FastLoop] Poll complete: scrobbled=${stats.scrobbled}, ` +
-							`sessions=${stats.sessionsUpdated}, errors=${stats.errors}`
+				if (accounts.length > 0) {
+					const stats = await processCurrentlyPlayingLoop(
+						provider,
+						accounts,
+						mbCache
 					)
+
+					if (stats.scrobbled > 0 || stats.errors > 0) {
+						console.log(
+							`[Worker:FastLoop] ${provider.name} poll complete: scrobbled=${stats.scrobbled}, ` +
+								`sessions=${stats.sessionsUpdated}, errors=${stats.errors}`
+						)
+					}
 				}
+			} catch (error) {
+				console.error(
+					`[Worker:FastLoop] Error in ${provider.name} poll cycle:`,
+					error
+				)
+			}
+		}
+
+		// Sessions from scrobbler clients aren't polled, so end the abandoned ones here
+		try {
+			const expired = await expireSubmittedNowPlaying()
+			if (expired > 0) {
+				console.log(
+					`[Worker:FastLoop] Ended ${expired} abandoned client now-playing sessions`
+				)
 			}
 		} catch (error) {
-			console.error('[Worker:FastLoop] Error in poll cycle:', error)
+			console.error(
+				'[Worker:FastLoop] Error expiring client now-playing sessions:',
+				error
+			)
 		}
 
 		// Wait for next poll
@@ -225,27 +266,49 @@ async function runSlowLoop(mbCache: MusicBrainzCache): Promise<void> {
 }
 
 /**
- * Executes a single slow loop cycle.
+ * Executes a single slow loop cycle over every provider with a
+ * recently-played list.
  */
 async function runSlowLoopOnce(mbCache: MusicBrainzCache): Promise<void> {
+	for (const provider of SCROBBLE_PROVIDERS) {
+		if (!isRunning) break
+		if (!provider.getRecentlyPlayed) continue
+
+		await runProviderSlowLoopOnce(provider, mbCache)
+	}
+}
+
+/**
+ * Executes a single slow loop cycle for one provider.
+ */
+async function runProviderSlowLoopOnce(
+	provider: ScrobbleProvider,
+	mbCache: MusicBrainzCache
+): Promise<void> {
 	const startTime = Date.now()
-	console.log('[Worker:SlowLoop] Starting fallback cycle...')
+	console.log(`[Worker:SlowLoop] Starting ${provider.name} fallback cycle...`)
 
 	try {
-		const accounts = await getEligibleAccounts()
+		const accounts = await provider.getAccounts()
 
 		if (accounts.length === 0) {
-			console.log('[Worker:SlowLoop] No eligible accounts found')
+			console.log(
+				`[Worker:SlowLoop] No eligible ${provider.name} accounts found`
+			)
 			return
 		}
 
-		const stats = await processRecentlyPlayedLoop(accounts, mbCache)
+		const stats = await processRecentlyPlayedLoop(
+			provider,
+			accounts,
+			mbCache
+		)
 
 		const duration = ((Date.now() - startTime) / 1000).toFixed(1)
 		const cacheStats = mbCache.getStats()
 
 		console.log(
-			`[Worker:SlowLoop] Cycle complete in ${duration}s: ` +
+			`[Worker:SlowLoop] ${provider.name} cycle complete in ${duration}s: ` +
 				`fetched=${stats.totalFetched}, scrobbled=${stats.totalScrobbled}, ` +
 				`skipped=${stats.totalSkipped}, errors=${stats.totalErrors}`
 		)
@@ -256,7 +319,10 @@ async function runSlowLoopOnce(mbCache: MusicBrainzCache): Promise<void> {
 				`details=${cacheStats.details.size}/${cacheStats.details.max}`
 		)
 	} catch (error) {
-		console.error('[Worker:SlowLoop] Error in fallback cycle:', error)
+		console.error(
+			`[Worker:SlowLoop] Error in ${provider.name} fallback cycle:`,
+			error
+		)
 	}
 }
 
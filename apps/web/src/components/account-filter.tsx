@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/lib/auth'
+import { useApiStatus } from '@/hooks/use-api-status'
+import { Button } from '@/components/ui/button'
+import { getAccountLabel, type LinkedAccount } from '@/lib/accounts'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/**
+ * Switches stats between all linked accounts merged and a single account.
+ * Renders nothing unless the user has linked more than one account.
+ */
+export function AccountFilter({
+	value,
+	onChange,
+}: {
+	value: string | null
+	onChange: (accountId: string | null) => void
+}) {
+	const { token } = useAuth()
+	const { isConnected } = useApiStatus()
+	const [accounts, setAccounts] = useState<LinkedAccount[]>([])
+
+	const fetchAccounts = useCallback(async () => {
+		if (!token || !isConnected) return
+
+		try {
+			const response = await fetch(`${API_URL}/api/accounts`, {
+				headers: { Authorization: `Bearer ${token}` },
+			})
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch accounts')
+			}
+
+			const data = await response.json()
+			setAccounts(data.items)
+		} catch (err) {
+			console.error('Error fetching accounts:', err)
+		}
+	}, [token, isConnected])
+
+	useEffect(() => {
+		fetchAccounts()
+	}, [fetchAccounts])
+
+	if (accounts.length < 2) {
+		return null
+	}
+
+	return (
+		<div className="flex flex-wrap items-center gap-1">
+			<Button
+				variant={value === null ? 'secondary' : 'ghost'}
+				size="xs"
+				className="hover:cursor-pointer"
+				onClick={() => onChange(null)}
+			>
+				All accounts
+			</Button>
+			{accounts.map((account) => (
+				<Button
+					key={account.id}
+					variant={value === account.id ? 'secondary' : 'ghost'}
+					size="xs"
+					className="hover:cursor-pointer"
+					onClick={() => onChange(account.id)}
+				>
+					{getAccountLabel(account)}
+				</Button>
+			))}
+		</div>
+	)
+}
@@ -0,0 +1,32 @@
+import { Fragment } from 'react'
+import { Link } from '@tanstack/react-router'
+
+export interface ArtistCredit {
+	id: string
+	name: string
+	join_phrase: string
+}
+
+/**
+ * Renders a track's artist credits as links, joined by their MusicBrainz
+ * join phrases (e.g. " feat. "). Falls back to commas when none are set.
+ */
+export function ArtistCredits({ credits }: { credits: ArtistCredit[] }) {
+	return (
+		<>
+			{credits.map((credit, index) => (
+				<Fragment key={credit.id}>
+					<Link
+						to="/artist/$artistId"
+						params={{ artistId: credit.id }}
+						className="hover:text-foreground hover:underline"
+					>
+						{credit.name}
+					</Link>
+					{credit.join_phrase ||
+						(index < credits.length - 1 ? ', ' : '')}
+				</Fragment>
+			))}
+		</>
+	)
+}
@@ -0,0 +1,319 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+	Dialog,
+	DialogContent,
+	DialogTitle,
+	DialogTrigger,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import { Disc3, Loader2, Music, Search, User } from 'lucide-react'
+
+interface SearchResults {
+	artists: Array<{
+		id: string
+		name: string
+		image_url: string | null
+		type: string | null
+		matched_alias: string | null
+		play_count: number
+	}>
+	albums: Array<{
+		id: string
+		name: string
+		image_url: string | null
+		artist: { id: string; name: string }
+		play_count: number
+	}>
+	tracks: Array<{
+		id: string
+		name: string
+		duration_ms: number | null
+		image_url: string | null
+		artists: Array<{ id: string; name: string }>
+		play_count: number
+	}>
+}
+
+interface SearchItem {
+	kind: 'artist' | 'album' | 'track'
+	id: string
+	name: string
+	subtitle: string | null
+	image_url: string | null
+	play_count: number
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/** Shortest query searched (matches the API) */
+const MIN_QUERY_LENGTH = 2
+
+/** Wait after the last keystroke before searching (ms) */
+const DEBOUNCE_MS = 250
+
+const GROUPS = [
+	{ kind: 'artist', label: 'Artists', icon: User },
+	{ kind: 'album', label: 'Albums', icon: Disc3 },
+	{ kind: 'track', label: 'Tracks', icon: Music },
+] as const
+
+const toItems = (results: SearchResults): SearchItem[] => [
+	...results.artists.map((artist) => ({
+		kind: 'artist' as const,
+		id: artist.id,
+		name: artist.name,
+		subtitle: artist.matched_alias,
+		image_url: artist.image_url,
+		play_count: artist.play_count,
+	})),
+	...results.albums.map((album) => ({
+		kind: 'album' as const,
+		id: album.id,
+		name: album.name,
+		subtitle: album.artist.name,
+		image_url: album.image_url,
+		play_count: album.play_count,
+	})),
+	...results.tracks.map((track) => ({
+		kind: 'track' as const,
+		id: track.id,
+		name: track.name,
+		subtitle: track.artists.map((artist) => artist.name).join(', '),
+		image_url: track.image_url,
+		play_count: track.play_count,
+	})),
+]
+
+/**
+ * Search box over the user's library (artists, albums and tracks), opened
+ * with Ctrl/Cmd+K. Results are grouped by type, most played first, and
+ * can be picked with the arrow keys.
+ */
+export function CommandPalette() {
+	const { token } = useAuth()
+	const navigate = useNavigate()
+	const [open, setOpen] = useState(false)
+	const [query, setQuery] = useState('')
+	const [items, setItems] = useState<SearchItem[]>([])
+	const [activeIndex, setActiveIndex] = useState(0)
+	const [isSearching, setIsSearching] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		const onKeyDown = (event: KeyboardEvent) => {
+			if ((event.metaKey || event.ctrlKey) && event.key === 'k') {
+				event.preventDefault()
+				setOpen((current) => !current)
+			}
+		}
+
+		window.addEventListener('keydown', onKeyDown)
+		return () => window.removeEventListener('keydown', onKeyDown)
+	}, [])
+
+	const trimmed = query.trim()
+	useEffect(() => {
+		if (!token || trimmed.length < MIN_QUERY_LENGTH) return
+
+		const controller = new AbortController()
+		const timeout = setTimeout(async () => {
+			setIsSearching(true)
+			setError(null)
+
+			try {
+				const response = await fetch(
+					`${API_URL}/api/search?q=${encodeURIComponent(trimmed)}`,
+					{
+						headers: { Authorization: `Bearer ${token}` },
+						signal: controller.signal,
+					}
+				)
+
+				if (!response.ok) {
+					throw new Error('Failed to search')
+				}
+
+				setItems(toItems(await response.json()))
+				setActiveIndex(0)
+			} catch (err) {
+				if (controller.signal.aborted) return
+				setError(err instanceof Error ? err.message : 'Unknown error')
+			} finally {
+				if (!controller.signal.aborted) {
+					setIsSearching(false)
+				}
+			}
+		}, DEBOUNCE_MS)
+
+		return () => {
+			clearTimeout(timeout)
+			controller.abort()
+		}
+	}, [trimmed, token])
+
+	const updateQuery = (value: string) => {
+		setQuery(value)
+		setError(null)
+		if (value.trim().length < MIN_QUERY_LENGTH) {
+			setItems([])
+			setIsSearching(false)
+		} else if (value.trim() !== trimmed) {
+			// Searching from the first keystroke, not after the debounce
+			setIsSearching(true)
+		}
+	}
+
+	const openChange = (value: boolean) => {
+		setOpen(value)
+		if (!value) {
+			updateQuery('')
+		}
+	}
+
+	const select = (item: SearchItem) => {
+		openChange(false)
+		if (item.kind === 'artist') {
+			navigate({ to: '/artist/$artistId', params: { artistId: item.id } })
+		} else if (item.kind === 'album') {
+			navigate({ to: '/album/$albumId', params: { albumId: item.id } })
+		} else {
+			navigate({ to: '/track/$trackId', params: { trackId: item.id } })
+		}
+	}
+
+	const onInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (items.length === 0) return
+
+		if (event.key === 'ArrowDown') {
+			event.preventDefault()
+			setActiveIndex((index) => (index + 1) % items.length)
+		} else if (event.key === 'ArrowUp') {
+			event.preventDefault()
+			setActiveIndex((index) => (index - 1 + items.length) % items.length)
+		} else if (event.key === 'Enter') {
+			event.preventDefault()
+			select(items[activeIndex])
+		}
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={openChange}>
+			<DialogTrigger asChild>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="hover:cursor-pointer"
+					aria-label="Search"
+				>
+					<Search className="size-4" />
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="max-w-lg top-24 translate-y-0 gap-2">
+				<DialogTitle className="sr-only">Search</DialogTitle>
+				<div className="relative">
+					<Search className="size-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						autoFocus
+						value={query}
+						onChange={(event) => updateQuery(event.target.value)}
+						onKeyDown={onInputKeyDown}
+						placeholder="Search artists, albums and tracks..."
+						className="pl-8 pr-8 h-9 text-sm md:text-sm"
+					/>
+					{isSearching && (
+						<Loader2 className="size-4 absolute right-2.5 top-1/2 -translate-y-1/2 animate-spin text-muted-foreground" />
+					)}
+				</div>
+
+				{error && <p className="text-xs text-destructive">{error}</p>}
+
+				{trimmed.length >= MIN_QUERY_LENGTH &&
+					!isSearching &&
+					!error &&
+					items.length === 0 && (
+						<p className="text-sm text-muted-foreground py-4 text-center">
+							No results for "{trimmed}"
+						</p>
+					)}
+
+				{items.length > 0 && (
+					<div className="max-h-96 overflow-y-auto space-y-3">
+						{GROUPS.map(({ kind, label, icon: Icon }) => {
+							const group = items.filter(
+								(item) => item.kind === kind
+							)
+							if (group.length === 0) return null
+
+							return (
+								<div key={kind}>
+									<p className="text-xs font-medium text-muted-foreground mb-1">
+										{label}
+									</p>
+									{group.map((item) => {
+										const index = items.indexOf(item)
+										return (
+											<button
+												key={item.id}
+												type="button"
+												onClick={() => select(item)}
+												onMouseMove={() =>
+													setActiveIndex(index)
+												}
+												className={cn(
+													'w-full flex items-center gap-3 px-2 py-1.5 text-left hover:cursor-pointer',
+													index === activeIndex &&
+														'bg-muted'
+												)}
+											>
+												{item.image_url ? (
+													<img
+														src={item.image_url}
+														alt={item.name}
+														className={cn(
+															'w-8 h-8 object-cover',
+															kind === 'artist' &&
+																'rounded-full'
+														)}
+													/>
+												) : (
+													<div
+														className={cn(
+															'w-8 h-8 bg-muted flex items-center justify-center',
+															kind === 'artist' &&
+																'rounded-full'
+														)}
+													>
+														<Icon className="size-4 text-muted-foreground" />
+													</div>
+												)}
+												<div className="flex-1 min-w-0">
+													<p className="text-sm font-medium truncate">
+														{item.name}
+													</p>
+													{item.subtitle && (
+														<p className="text-xs text-muted-foreground truncate">
+															{item.subtitle}
+														</p>
+													)}
+												</div>
+												{item.play_count > 0 && (
+													<span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+														{item.play_count} plays
+													</span>
+												)}
+											</button>
+										)
+									})}
+								</div>
+							)
+						})}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	)
+}
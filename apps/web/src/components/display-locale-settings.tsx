@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { Check, Languages } from 'lucide-react'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/** Select value for showing names as stored (Select values can't be empty) */
+const DEFAULT_LOCALE = 'default'
+
+/** MusicBrainz alias locales offered, most common scripts first */
+const LOCALES = [
+	'en',
+	'ja',
+	'ko',
+	'zh',
+	'zh_Hant',
+	'ru',
+	'uk',
+	'el',
+	'he',
+	'ar',
+	'th',
+	'hi',
+]
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' })
+
+const getLocaleLabel = (locale: string) =>
+	languageNames.of(locale.replace('_', '-')) ?? locale
+
+/**
+ * Lets the user pick the locale artist names are shown in, using their
+ * MusicBrainz aliases (e.g. native script instead of romanized names).
+ */
+export function DisplayLocaleSettings() {
+	const { token } = useAuth()
+	const [saved, setSaved] = useState<string | null>(null)
+	const [locale, setLocale] = useState<string>(DEFAULT_LOCALE)
+	const [isLoading, setIsLoading] = useState(true)
+	const [isSaving, setIsSaving] = useState(false)
+	const [justSaved, setJustSaved] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const fetchSettings = useCallback(async () => {
+		if (!token) return
+
+		try {
+			const response = await fetch(`${API_URL}/api/users/me`, {
+				headers: { Authorization: `Bearer ${token}` },
+			})
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch display settings')
+			}
+
+			const data: { display_locale: string | null } =
+				await response.json()
+			setSaved(data.display_locale)
+			setLocale(data.display_locale ?? DEFAULT_LOCALE)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token])
+
+	useEffect(() => {
+		fetchSettings()
+	}, [fetchSettings])
+
+	const saveSettings = async () => {
+		if (!token) return
+
+		setIsSaving(true)
+		setJustSaved(false)
+		setError(null)
+
+		try {
+			const response = await fetch(`${API_URL}/api/users/me`, {
+				method: 'PATCH',
+				headers: {
+					Authorization: `Bearer ${token}`,
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					display_locale: locale === DEFAULT_LOCALE ? null : locale,
+				}),
+			})
+
+			const data = await response.json()
+
+			if (!response.ok) {
+				throw new Error(data.error ?? 'Failed to save display settings')
+			}
+
+			setSaved(data.display_locale)
+			setJustSaved(true)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const localeOptions =
+		saved && !LOCALES.includes(saved) ? [saved, ...LOCALES] : LOCALES
+
+	return (
+		<Card className="max-w-md mt-4">
+			<CardContent className="space-y-3">
+				<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+					<Languages className="size-4" />
+					Artist names
+				</h3>
+				<p className="text-xs text-muted-foreground">
+					Show artists by their name in a language when MusicBrainz
+					has one, e.g. in native script instead of romanized.
+				</p>
+				{isLoading ? (
+					<div className="h-8 bg-muted animate-pulse" />
+				) : (
+					<>
+						<Select
+							value={locale}
+							onValueChange={(value) => {
+								setLocale(value)
+								setJustSaved(false)
+							}}
+						>
+							<SelectTrigger className="w-full">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={DEFAULT_LOCALE}>
+									As scrobbled
+								</SelectItem>
+								{localeOptions.map((option) => (
+									<SelectItem key={option} value={option}>
+										{getLocaleLabel(option)}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<div className="flex items-center gap-2">
+							<Button
+								size="sm"
+								className="hover:cursor-pointer"
+								disabled={
+									isSaving ||
+									locale === (saved ?? DEFAULT_LOCALE)
+								}
+								onClick={saveSettings}
+							>
+								{isSaving ? 'Saving...' : 'Save'}
+							</Button>
+							{justSaved && (
+								<span className="text-xs text-muted-foreground flex items-center gap-1">
+									<Check className="size-3" />
+									Saved
+								</span>
+							)}
+						</div>
+					</>
+				)}
+				{error && <p className="text-sm text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	)
+}
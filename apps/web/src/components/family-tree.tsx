@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { GitFork, Loader2, User } from 'lucide-react'
+
+interface FamilyTreeNode {
+	artist: {
+		id: string
+		name: string
+		image_url: string | null
+		type: string | null
+	}
+	depth: number
+	parent_artist_id: string | null
+	status: 'queued' | 'synced' | 'skipped'
+	play_count: number
+}
+
+interface FamilyTree {
+	traversal: {
+		id: string
+		root_artist_id: string
+		max_depth: number
+		request_budget: number
+		requests_used: number
+		status: 'running' | 'completed' | 'budget_exhausted'
+		nodes: { queued: number; synced: number; skipped: number }
+	}
+	nodes: FamilyTreeNode[]
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/** How often a running traversal is refreshed (ms) */
+const POLL_INTERVAL_MS = 10_000
+
+const getStatusText = (traversal: FamilyTree['traversal']) => {
+	const { queued, synced } = traversal.nodes
+	if (traversal.status === 'running') {
+		return `Exploring... ${synced} synced, ${queued} queued`
+	}
+	if (traversal.status === 'budget_exhausted') {
+		return `${synced} synced, stopped at the limit of ${traversal.request_budget} lookups`
+	}
+	return `${synced} synced, ${traversal.max_depth} hops deep`
+}
+
+/**
+ * Bands and artists reached by following members and their other groups
+ * hop by hop from an artist, limited to the ones the user listens to.
+ */
+export function FamilyTree({ artistId }: { artistId: string }) {
+	const { token } = useAuth()
+	const [tree, setTree] = useState<FamilyTree | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+	const [isStarting, setIsStarting] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const fetchTree = useCallback(async () => {
+		if (!token) return
+
+		try {
+			const response = await fetch(
+				`${API_URL}/api/artists/${artistId}/family-tree`,
+				{ headers: { Authorization: `Bearer ${token}` } }
+			)
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch family tree')
+			}
+
+			setTree((await response.json()).tree)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [artistId, token])
+
+	useEffect(() => {
+		setIsLoading(true)
+		fetchTree()
+	}, [fetchTree])
+
+	// Keep refreshing while the traversal syncs
+	const isRunning = tree?.traversal.status === 'running'
+	useEffect(() => {
+		if (!isRunning) return
+		const interval = setInterval(fetchTree, POLL_INTERVAL_MS)
+		return () => clearInterval(interval)
+	}, [isRunning, fetchTree])
+
+	const startTraversal = async () => {
+		if (!token) return
+		setIsStarting(true)
+		setError(null)
+
+		try {
+			const response = await fetch(
+				`${API_URL}/api/sync/artists/${artistId}/traverse`,
+				{
+					method: 'POST',
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			// 409: a traversal from this artist is already running
+			if (!response.ok && response.status !== 409) {
+				const data = await response.json()
+				throw new Error(data.error || 'Failed to start exploring')
+			}
+
+			await fetchTree()
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsStarting(false)
+		}
+	}
+
+	if (isLoading) {
+		return (
+			<Card className="mt-4">
+				<CardContent>
+					<div className="h-24 bg-muted animate-pulse rounded" />
+				</CardContent>
+			</Card>
+		)
+	}
+
+	const parentNames = new Map(
+		tree?.nodes.map((node) => [node.artist.id, node.artist.name]) ?? []
+	)
+	const listened =
+		tree?.nodes.filter(
+			(node) => node.artist.id !== artistId && node.play_count > 0
+		) ?? []
+	const depths = [...new Set(listened.map((node) => node.depth))]
+
+	return (
+		<Card className="mt-4">
+			<CardContent className="space-y-4">
+				<div className="flex items-center justify-between gap-2">
+					<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+						<GitFork className="size-4" />
+						Family tree
+					</h3>
+					{!isRunning && (
+						<Button
+							variant="ghost"
+							size="xs"
+							onClick={startTraversal}
+							disabled={isStarting}
+						>
+							{isStarting && (
+								<Loader2 className="size-3 animate-spin" />
+							)}
+							{tree ? 'Explore again' : 'Explore'}
+						</Button>
+					)}
+				</div>
+
+				{error && <p className="text-xs text-destructive">{error}</p>}
+
+				{!tree ? (
+					<p className="text-sm text-muted-foreground">
+						Follow members and their other bands to find related
+						artists you listen to.
+					</p>
+				) : (
+					<>
+						<p className="text-xs text-muted-foreground flex items-center gap-2">
+							{isRunning && (
+								<Loader2 className="size-3 animate-spin" />
+							)}
+							{getStatusText(tree.traversal)}
+						</p>
+						{listened.length === 0 ? (
+							<p className="text-sm text-muted-foreground">
+								None of the artists found so far are in your
+								history.
+							</p>
+						) : (
+							depths.map((depth) => (
+								<div key={depth}>
+									<p className="text-xs font-medium text-muted-foreground mb-1">
+										{depth === 0
+											? 'Root'
+											: `${depth} ${depth === 1 ? 'hop' : 'hops'} away`}
+									</p>
+									<div className="space-y-1">
+										{listened
+											.filter(
+												(node) => node.depth === depth
+											)
+											.map((node) => (
+												<Link
+													key={node.artist.id}
+													to="/artist/$artistId"
+													params={{
+														artistId:
+															node.artist.id,
+													}}
+													className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors"
+												>
+													{node.artist.image_url ? (
+														<img
+															src={
+																node.artist
+																	.image_url
+															}
+															alt={
+																node.artist.name
+															}
+															className="w-10 h-10 rounded-full object-cover"
+														/>
+													) : (
+														<div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+															<User className="size-4 text-muted-foreground" />
+														</div>
+													)}
+													<div className="flex-1 min-w-0">
+														<p className="text-sm font-medium truncate">
+															{node.artist.name}
+														</p>
+														{node.parent_artist_id && (
+															<p className="text-xs text-muted-foreground truncate">
+																via{' '}
+																{parentNames.get(
+																	node.parent_artist_id
+																) ??
+																	'unknown artist'}
+															</p>
+														)}
+													</div>
+													<span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+														{node.play_count} plays
+													</span>
+												</Link>
+											))}
+									</div>
+								</div>
+							))
+						)}
+					</>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useAuth } from '@/lib/auth'
+import { useApiStatus } from '@/hooks/use-api-status'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { TriangleAlert, Upload, X } from 'lucide-react'
+
+interface HistoryGap {
+	id: string
+	provider: string
+	gap_start: string
+	gap_end: string
+	detected_at: string
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+function formatDateTime(dateString: string): string {
+	return new Date(dateString).toLocaleString(undefined, {
+		year: 'numeric',
+		month: 'short',
+		day: 'numeric',
+		hour: '2-digit',
+		minute: '2-digit',
+	})
+}
+
+/**
+ * Lists periods where plays were lost because too many happened between
+ * two polls, and lets the user upload an export that covers them.
+ * Renders nothing while there are no open gaps.
+ */
+export function HistoryGaps() {
+	const { token } = useAuth()
+	const { isConnected } = useApiStatus()
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [gaps, setGaps] = useState<HistoryGap[]>([])
+	const [isUploading, setIsUploading] = useState(false)
+	const [message, setMessage] = useState<string | null>(null)
+
+	const fetchGaps = useCallback(async () => {
+		if (!token || !isConnected) return
+
+		try {
+			const response = await fetch(`${API_URL}/api/imports/gaps`, {
+				headers: { Authorization: `Bearer ${token}` },
+			})
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch history gaps')
+			}
+
+			const data = await response.json()
+			setGaps(data.items)
+		} catch (err) {
+			console.error('Error fetching history gaps:', err)
+		}
+	}, [token, isConnected])
+
+	useEffect(() => {
+		fetchGaps()
+	}, [fetchGaps])
+
+	const dismissGap = async (gapId: string) => {
+		if (!token) return
+
+		try {
+			const response = await fetch(
+				`${API_URL}/api/imports/gaps/${gapId}`,
+				{
+					method: 'DELETE',
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				throw new Error('Failed to dismiss history gap')
+			}
+
+			setGaps((current) => current.filter((gap) => gap.id !== gapId))
+		} catch (err) {
+			console.error('Error dismissing history gap:', err)
+		}
+	}
+
+	const uploadFile = async (file: File) => {
+		if (!token) return
+
+		const body = new FormData()
+		body.append('file', file)
+
+		setIsUploading(true)
+		setMessage(null)
+		try {
+			const response = await fetch(`${API_URL}/api/imports`, {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${token}` },
+				body,
+			})
+
+			if (response.ok) {
+				setMessage(
+					'Upload received. Covered gaps disappear once the import finishes.'
+				)
+			} else {
+				const data = await response.json().catch(() => null)
+				setMessage(data?.error ?? 'Failed to upload file')
+			}
+		} catch (err) {
+			console.error('Error uploading import:', err)
+			setMessage('Failed to upload file')
+		} finally {
+			setIsUploading(false)
+			if (fileInputRef.current) {
+				fileInputRef.current.value = ''
+			}
+		}
+	}
+
+	if (gaps.length === 0) {
+		return null
+	}
+
+	return (
+		<Card className="max-w-md mb-4">
+			<CardContent>
+				<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+					<TriangleAlert className="size-4" />
+					Missing listening history
+				</h3>
+				<p className="text-sm text-muted-foreground mb-3">
+					More tracks were played than could be fetched during these
+					periods, so some plays are missing. Request your Extended
+					Streaming History from Spotify's privacy settings and upload
+					the file covering these dates to fill them in.
+				</p>
+				<ul className="space-y-1 mb-3">
+					{gaps.map((gap) => (
+						<li
+							key={gap.id}
+							className="flex items-center justify-between gap-2 text-sm"
+						>
+							<span>
+								{formatDateTime(gap.gap_start)} –{' '}
+								{formatDateTime(gap.gap_end)}
+							</span>
+							<Button
+								variant="ghost"
+								size="icon-sm"
+								onClick={() => dismissGap(gap.id)}
+								aria-label="Dismiss gap"
+							>
+								<X className="size-4" />
+							</Button>
+						</li>
+					))}
+				</ul>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".json,.csv"
+					className="hidden"
+					onChange={(event) => {
+						const file = event.target.files?.[0]
+						if (file) uploadFile(file)
+					}}
+				/>
+				<Button
+					variant="outline"
+					size="sm"
+					disabled={isUploading}
+					onClick={() => fileInputRef.current?.click()}
+				>
+					<Upload className="size-4" />
+					{isUploading ? 'Uploading...' : 'Upload history file'}
+				</Button>
+				{message && (
+					<p className="text-xs text-muted-foreground mt-2">
+						{message}
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Field, FieldGroup, FieldLabel } from '@/components/ui/field'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+type ServerProvider = 'subsonic' | 'jellyfin'
+
+const SERVER_PROVIDERS: Array<{ value: ServerProvider; label: string }> = [
+	{ value: 'subsonic', label: 'Subsonic / Navidrome' },
+	{ value: 'jellyfin', label: 'Jellyfin' },
+]
+
+/**
+ * Form for linking a user on a self-hosted Subsonic-compatible or Jellyfin
+ * server. The server checks the credentials before the account is linked.
+ */
+export function LinkServerDialog({
+	open,
+	onOpenChange,
+	onLinked,
+}: {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	onLinked: () => void
+}) {
+	const { token } = useAuth()
+	const [provider, setProvider] = useState<ServerProvider>('subsonic')
+	const [serverUrl, setServerUrl] = useState('')
+	const [username, setUsername] = useState('')
+	const [password, setPassword] = useState('')
+	const [isSubmitting, setIsSubmitting] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const linkServer = async (event: React.FormEvent) => {
+		event.preventDefault()
+		if (!token) return
+
+		setIsSubmitting(true)
+		setError(null)
+		try {
+			const response = await fetch(`${API_URL}/api/accounts/server`, {
+				method: 'POST',
+				headers: {
+					Authorization: `Bearer ${token}`,
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					provider,
+					server_url: serverUrl,
+					username,
+					password,
+				}),
+			})
+
+			if (!response.ok) {
+				const data = await response.json().catch(() => null)
+				throw new Error(data?.error ?? 'Failed to link server')
+			}
+
+			setPassword('')
+			onLinked()
+			onOpenChange(false)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsSubmitting(false)
+		}
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent>
+				<form onSubmit={linkServer} className="space-y-4">
+					<DialogHeader>
+						<DialogTitle>Link a self-hosted server</DialogTitle>
+						<DialogDescription>
+							Tracks you play on the server are scrobbled while
+							they show up as now playing.
+						</DialogDescription>
+					</DialogHeader>
+					<div className="flex flex-wrap gap-1">
+						{SERVER_PROVIDERS.map((option) => (
+							<Button
+								key={option.value}
+								type="button"
+								variant={
+									provider === option.value
+										? 'secondary'
+										: 'ghost'
+								}
+								size="xs"
+								className="hover:cursor-pointer"
+								onClick={() => setProvider(option.value)}
+							>
+								{option.label}
+							</Button>
+						))}
+					</div>
+					<FieldGroup>
+						<Field>
+							<FieldLabel htmlFor="server-url">
+								Server URL
+							</FieldLabel>
+							<Input
+								id="server-url"
+								type="url"
+								placeholder="https://music.example.com"
+								required
+								value={serverUrl}
+								onChange={(e) => setServerUrl(e.target.value)}
+							/>
+						</Field>
+						<Field>
+							<FieldLabel htmlFor="server-username">
+								Username
+							</FieldLabel>
+							<Input
+								id="server-username"
+								autoComplete="username"
+								required
+								value={username}
+								onChange={(e) => setUsername(e.target.value)}
+							/>
+						</Field>
+						<Field>
+							<FieldLabel htmlFor="server-password">
+								Password
+							</FieldLabel>
+							<Input
+								id="server-password"
+								type="password"
+								autoComplete="current-password"
+								required
+								value={password}
+								onChange={(e) => setPassword(e.target.value)}
+							/>
+						</Field>
+					</FieldGroup>
+					{provider === 'subsonic' && (
+						<p className="text-xs text-muted-foreground">
+							Subsonic servers need the password on every request,
+							so it is stored with the account.
+						</p>
+					)}
+					{error && (
+						<p className="text-sm text-destructive">{error}</p>
+					)}
+					<DialogFooter>
+						<Button
+							type="submit"
+							size="sm"
+							className="hover:cursor-pointer"
+							disabled={isSubmitting}
+						>
+							{isSubmitting ? 'Checking...' : 'Link server'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
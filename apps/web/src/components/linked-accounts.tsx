@@ -0,0 +1,260 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Link2, Plus, Server, Unlink } from 'lucide-react'
+import { getAccountLabel, type LinkedAccount } from '@/lib/accounts'
+import { LinkServerDialog } from '@/components/link-server-dialog'
+import spotifyLogo from '@/assets/spotify.svg'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/**
+ * Lists the Spotify and self-hosted server accounts plays are captured from
+ * and lets the user link another one or unlink one.
+ * `linked` and `linkError` come from the OAuth callback redirect.
+ */
+export function LinkedAccounts({
+	linked,
+	linkError,
+}: {
+	linked?: string
+	linkError?: string
+}) {
+	const { token } = useAuth()
+	const [accounts, setAccounts] = useState<LinkedAccount[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [isLinking, setIsLinking] = useState(false)
+	const [isLinkingServer, setIsLinkingServer] = useState(false)
+	const [unlinking, setUnlinking] = useState<LinkedAccount | null>(null)
+	const [error, setError] = useState<string | null>(linkError ?? null)
+
+	const fetchAccounts = useCallback(async () => {
+		if (!token) return
+
+		try {
+			const response = await fetch(`${API_URL}/api/accounts`, {
+				headers: { Authorization: `Bearer ${token}` },
+			})
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch accounts')
+			}
+
+			const data = await response.json()
+			setAccounts(data.items)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token])
+
+	useEffect(() => {
+		fetchAccounts()
+	}, [fetchAccounts])
+
+	const linkAccount = async () => {
+		if (!token) return
+
+		setIsLinking(true)
+		setError(null)
+		try {
+			const response = await fetch(
+				`${API_URL}/api/accounts/spotify/link`,
+				{
+					method: 'POST',
+					headers: {
+						Authorization: `Bearer ${token}`,
+						'Content-Type': 'application/json',
+					},
+					body: JSON.stringify({
+						redirect_uri: `${window.location.origin}/settings`,
+					}),
+				}
+			)
+
+			const data = await response.json()
+
+			if (!response.ok) {
+				throw new Error(data.error ?? 'Failed to link account')
+			}
+
+			window.location.href = data.url
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+			setIsLinking(false)
+		}
+	}
+
+	const unlinkAccount = async (account: LinkedAccount) => {
+		if (!token) return
+
+		setError(null)
+		try {
+			const response = await fetch(
+				`${API_URL}/api/accounts/${account.id}`,
+				{
+					method: 'DELETE',
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				const data = await response.json().catch(() => null)
+				throw new Error(data?.error ?? 'Failed to unlink account')
+			}
+
+			setAccounts((current) =>
+				current.filter((item) => item.id !== account.id)
+			)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setUnlinking(null)
+		}
+	}
+
+	// The last Spotify account is kept, as it is used to sign in
+	const spotifyAccountCount = accounts.filter(
+		(account) => account.provider === 'spotify'
+	).length
+
+	return (
+		<Card className="max-w-md mt-4">
+			<CardContent className="space-y-3">
+				<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+					<Link2 className="size-4" />
+					Linked accounts
+				</h3>
+				<p className="text-xs text-muted-foreground">
+					Plays from every linked Spotify account and self-hosted
+					server are scrobbled to your profile. Stats can be filtered
+					per account on the dashboard.
+				</p>
+				{linked && !linkError && (
+					<p className="text-xs text-muted-foreground">
+						Account linked.
+					</p>
+				)}
+				{isLoading ? (
+					<div className="h-10 bg-muted animate-pulse" />
+				) : (
+					<ul className="space-y-2">
+						{accounts.map((account) => (
+							<li
+								key={account.id}
+								className="flex items-center gap-3"
+							>
+								{account.provider === 'spotify' ? (
+									<img
+										src={spotifyLogo}
+										alt="Spotify"
+										className="size-4"
+									/>
+								) : (
+									<Server
+										className="size-4 text-muted-foreground"
+										aria-label={account.provider}
+									/>
+								)}
+								<div className="flex-1 min-w-0">
+									<p className="text-sm truncate">
+										{getAccountLabel(account)}
+										{account.current && (
+											<span className="text-xs text-muted-foreground">
+												{' '}
+												(signed in)
+											</span>
+										)}
+									</p>
+									<p className="text-xs text-muted-foreground">
+										{account.scrobble_count.toLocaleString()}{' '}
+										plays
+									</p>
+								</div>
+								{(account.provider !== 'spotify' ||
+									spotifyAccountCount > 1) && (
+									<Button
+										variant="ghost"
+										size="icon-sm"
+										className="hover:cursor-pointer"
+										onClick={() => setUnlinking(account)}
+										aria-label="Unlink account"
+									>
+										<Unlink className="size-4" />
+									</Button>
+								)}
+							</li>
+						))}
+					</ul>
+				)}
+				<div className="flex flex-wrap gap-2">
+					<Button
+						size="sm"
+						variant="outline"
+						className="hover:cursor-pointer"
+						disabled={isLinking}
+						onClick={linkAccount}
+					>
+						<Plus className="size-4" />
+						{isLinking ? 'Redirecting...' : 'Link Spotify account'}
+					</Button>
+					<Button
+						size="sm"
+						variant="outline"
+						className="hover:cursor-pointer"
+						onClick={() => setIsLinkingServer(true)}
+					>
+						<Server className="size-4" />
+						Link server
+					</Button>
+				</div>
+				{error && <p className="text-sm text-destructive">{error}</p>}
+			</CardContent>
+
+			<LinkServerDialog
+				open={isLinkingServer}
+				onOpenChange={setIsLinkingServer}
+				onLinked={fetchAccounts}
+			/>
+
+			<AlertDialog
+				open={unlinking !== null}
+				onOpenChange={(open) => !open && setUnlinking(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Unlink account?</AlertDialogTitle>
+						<AlertDialogDescription>
+							Plays from {unlinking && getAccountLabel(unlinking)}{' '}
+							are no longer scrobbled. Plays already scrobbled are
+							kept.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							variant="destructive"
+							onClick={() =>
+								unlinking && unlinkAccount(unlinking)
+							}
+						>
+							Unlink
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</Card>
+	)
+}
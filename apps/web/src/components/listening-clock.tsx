@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/lib/auth'
+import { useApiStatus } from '@/hooks/use-api-status'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Clock3 } from 'lucide-react'
+
+type ClockRange = '30d' | '365d' | 'all'
+
+interface ListeningClockCell {
+	/** ISO day of week: 1 = Monday ... 7 = Sunday */
+	day_of_week: number
+	hour: number
+	play_count: number
+	total_ms: number
+}
+
+interface ListeningClockResponse {
+	timezone: string
+	items: ListeningClockCell[]
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const RANGES: Array<{ value: ClockRange; label: string }> = [
+	{ value: '30d', label: '30 days' },
+	{ value: '365d', label: '1 year' },
+	{ value: 'all', label: 'All time' },
+]
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+const HOURS = [...Array(24).keys()]
+
+function formatListeningTime(ms: number) {
+	const minutes = Math.floor(ms / 60000)
+	if (minutes < 60) return `${minutes} min`
+	const hours = Math.floor(minutes / 60)
+	const remainingMins = minutes % 60
+	if (remainingMins === 0) return `${hours}h`
+	return `${hours}h ${remainingMins}min`
+}
+
+export function ListeningClock({
+	accountId = null,
+}: {
+	accountId?: string | null
+}) {
+	const { token } = useAuth()
+	const { isConnected } = useApiStatus()
+	const [range, setRange] = useState<ClockRange>('30d')
+	const [clock, setClock] = useState<ListeningClockResponse | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+
+	const fetchClock = useCallback(async () => {
+		if (!token || !isConnected) return
+
+		setIsLoading(true)
+		try {
+			const response = await fetch(
+				`${API_URL}/api/stats/clock?range=${range}${accountId ? `&account=${accountId}` : ''}`,
+				{
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch listening clock')
+			}
+
+			const data = await response.json()
+			setClock(data)
+		} catch (err) {
+			console.error('Error fetching listening clock:', err)
+			setClock(null)
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token, isConnected, range, accountId])
+
+	useEffect(() => {
+		fetchClock()
+	}, [fetchClock])
+
+	// Index cells by "day-hour" for the grid
+	const cells = new Map<string, ListeningClockCell>()
+	for (const cell of clock?.items ?? []) {
+		cells.set(`${cell.day_of_week}-${cell.hour}`, cell)
+	}
+	const maxTotalMs = Math.max(
+		0,
+		...(clock?.items ?? []).map((cell) => cell.total_ms)
+	)
+
+	return (
+		<Card>
+			<CardContent>
+				<div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+					<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+						<Clock3 className="size-4" />
+						Listening Clock
+					</h3>
+					<div className="flex gap-1">
+						{RANGES.map((option) => (
+							<Button
+								key={option.value}
+								variant={
+									range === option.value
+										? 'secondary'
+										: 'ghost'
+								}
+								size="xs"
+								className="hover:cursor-pointer"
+								onClick={() => setRange(option.value)}
+							>
+								{option.label}
+							</Button>
+						))}
+					</div>
+				</div>
+
+				{!isConnected || (isLoading && !clock) ? (
+					<div className="h-40 bg-muted animate-pulse" />
+				) : (
+					<div className="overflow-x-auto">
+						<div className="grid grid-cols-[2rem_repeat(24,minmax(0.75rem,1fr))] gap-0.5 min-w-md">
+							{DAY_LABELS.map((label, dayIndex) => (
+								<div key={label} className="contents">
+									<span className="text-[10px] text-muted-foreground leading-none self-center">
+										{label}
+									</span>
+									{HOURS.map((hour) => {
+										const cell = cells.get(
+											`${dayIndex + 1}-${hour}`
+										)
+										const intensity =
+											cell && maxTotalMs > 0
+												? cell.total_ms / maxTotalMs
+												: 0
+
+										return (
+											<div
+												key={hour}
+												className="aspect-square bg-muted"
+												title={`${label} ${hour}:00 · ${cell?.play_count ?? 0} plays · ${formatListeningTime(cell?.total_ms ?? 0)}`}
+											>
+												{intensity > 0 && (
+													<div
+														className="size-full bg-foreground"
+														style={{
+															opacity:
+																0.15 +
+																intensity *
+																	0.85,
+														}}
+													/>
+												)}
+											</div>
+										)
+									})}
+								</div>
+							))}
+							<span />
+							{HOURS.map((hour) => (
+								<span
+									key={hour}
+									className="text-[10px] text-muted-foreground text-center leading-none pt-1"
+								>
+									{hour % 6 === 0 ? hour : ''}
+								</span>
+							))}
+						</div>
+						{clock && (
+							<p className="text-xs text-muted-foreground mt-2">
+								Times shown in {clock.timezone}
+							</p>
+						)}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/lib/auth'
+import { useApiStatus } from '@/hooks/use-api-status'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react'
+
+interface ListeningDay {
+	/** Calendar date (YYYY-MM-DD) */
+	date: string
+	play_count: number
+	total_ms: number
+}
+
+interface ListeningHeatmapResponse {
+	timezone: string
+	year: number
+	items: ListeningDay[]
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const DAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+const MONTH_LABELS = [
+	'Jan',
+	'Feb',
+	'Mar',
+	'Apr',
+	'May',
+	'Jun',
+	'Jul',
+	'Aug',
+	'Sep',
+	'Oct',
+	'Nov',
+	'Dec',
+]
+
+/**
+ * Builds the week columns (Monday first) for every day of a year.
+ * Days outside the year are null so the first and last weeks line up.
+ */
+function buildWeeks(year: number): Array<Array<string | null>> {
+	const weeks: Array<Array<string | null>> = []
+	const date = new Date(Date.UTC(year, 0, 1))
+	// getUTCDay: 0 = Sunday; shift so Monday = 0
+	let week: Array<string | null> = Array((date.getUTCDay() + 6) % 7).fill(
+		null
+	)
+
+	while (date.getUTCFullYear() === year) {
+		week.push(date.toISOString().slice(0, 10))
+		if (week.length === 7) {
+			weeks.push(week)
+			week = []
+		}
+		date.setUTCDate(date.getUTCDate() + 1)
+	}
+
+	if (week.length > 0) {
+		weeks.push([...week, ...Array(7 - week.length).fill(null)])
+	}
+
+	return weeks
+}
+
+/**
+ * Maps a play count to one of five intensity levels (0 = no plays)
+ */
+function getLevel(playCount: number, maxPlayCount: number): number {
+	if (playCount === 0 || maxPlayCount === 0) return 0
+	return Math.min(4, Math.ceil((playCount / maxPlayCount) * 4))
+}
+
+const LEVEL_OPACITY = [0, 0.25, 0.45, 0.7, 1]
+
+export function ListeningHeatmap({
+	accountId = null,
+}: {
+	accountId?: string | null
+}) {
+	const { token } = useAuth()
+	const { isConnected } = useApiStatus()
+	const [year, setYear] = useState<number | null>(null)
+	const [heatmap, setHeatmap] = useState<ListeningHeatmapResponse | null>(
+		null
+	)
+	const [isLoading, setIsLoading] = useState(true)
+
+	const fetchHeatmap = useCallback(async () => {
+		if (!token || !isConnected) return
+
+		setIsLoading(true)
+		try {
+			// Without a year the API uses the current year in the user's timezone
+			const params = new URLSearchParams()
+			if (year !== null) params.set('year', String(year))
+			if (accountId) params.set('account', accountId)
+			const query = params.size > 0 ? `?${params}` : ''
+			const response = await fetch(
+				`${API_URL}/api/stats/heatmap${query}`,
+				{
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch listening heatmap')
+			}
+
+			const data = await response.json()
+			setHeatmap(data)
+		} catch (err) {
+			console.error('Error fetching listening heatmap:', err)
+			setHeatmap(null)
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token, isConnected, year, accountId])
+
+	useEffect(() => {
+		fetchHeatmap()
+	}, [fetchHeatmap])
+
+	const displayYear = heatmap?.year ?? year ?? new Date().getFullYear()
+	const days = new Map(heatmap?.items.map((day) => [day.date, day]) ?? [])
+	const maxPlayCount = Math.max(
+		0,
+		...(heatmap?.items ?? []).map((day) => day.play_count)
+	)
+	const totalPlays = (heatmap?.items ?? []).reduce(
+		(sum, day) => sum + day.play_count,
+		0
+	)
+	const weeks = buildWeeks(displayYear)
+
+	return (
+		<Card>
+			<CardContent>
+				<div className="flex items-center justify-between gap-2 mb-3">
+					<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+						<CalendarDays className="size-4" />
+						Listening Activity
+					</h3>
+					<div className="flex items-center gap-1">
+						<Button
+							variant="ghost"
+							size="icon-xs"
+							className="hover:cursor-pointer"
+							onClick={() => setYear(displayYear - 1)}
+						>
+							<ChevronLeft />
+						</Button>
+						<span className="text-xs font-medium tabular-nums w-10 text-center">
+							{displayYear}
+						</span>
+						<Button
+							variant="ghost"
+							size="icon-xs"
+							className="hover:cursor-pointer"
+							disabled={displayYear >= new Date().getFullYear()}
+							onClick={() => setYear(displayYear + 1)}
+						>
+							<ChevronRight />
+						</Button>
+					</div>
+				</div>
+
+				{!isConnected || (isLoading && !heatmap) ? (
+					<div className="h-28 bg-muted animate-pulse" />
+				) : (
+					<>
+						<div className="overflow-x-auto">
+							<div className="inline-flex gap-0.5">
+								<div className="flex flex-col gap-0.5 pr-1 pt-4">
+									{DAY_LABELS.map((label, i) => (
+										<span
+											key={i}
+											className="h-2.5 text-[10px] leading-2.5 text-muted-foreground"
+										>
+											{label}
+										</span>
+									))}
+								</div>
+								{weeks.map((week, weekIndex) => {
+									const firstDay = week.find(
+										(date): date is string => date !== null
+									)
+									const month = firstDay
+										? parseInt(firstDay.slice(5, 7), 10) - 1
+										: null
+									const showMonth =
+										firstDay !== undefined &&
+										(weekIndex === 0 ||
+											firstDay.slice(8, 10) <= '07')
+
+									return (
+										<div
+											key={weekIndex}
+											className="flex flex-col gap-0.5"
+										>
+											<span className="h-3.5 text-[10px] leading-none text-muted-foreground whitespace-nowrap">
+												{showMonth && month !== null
+													? MONTH_LABELS[month]
+													: ''}
+											</span>
+											{week.map((date, dayIndex) => {
+												if (!date) {
+													return (
+														<div
+															key={dayIndex}
+															className="size-2.5"
+														/>
+													)
+												}
+
+												const day = days.get(date)
+												const level = getLevel(
+													day?.play_count ?? 0,
+													maxPlayCount
+												)
+
+												return (
+													<div
+														key={dayIndex}
+														className="size-2.5 bg-muted"
+														title={`${date} · ${day?.play_count ?? 0} plays`}
+													>
+														{level > 0 && (
+															<div
+																className="size-full bg-foreground"
+																style={{
+																	opacity:
+																		LEVEL_OPACITY[
+																			level
+																		],
+																}}
+															/>
+														)}
+													</div>
+												)
+											})}
+										</div>
+									)
+								})}
+							</div>
+						</div>
+						<p className="text-xs text-muted-foreground mt-2">
+							{totalPlays} plays in {displayYear}
+							{heatmap && ` · ${heatmap.timezone}`}
+						</p>
+					</>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
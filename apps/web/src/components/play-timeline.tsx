@@ -0,0 +1,120 @@
+import { Card, CardContent } from '@/components/ui/card'
+import { TrendingUp } from 'lucide-react'
+
+export interface PlayTimelineMonth {
+	/** Calendar month (YYYY-MM) */
+	month: string
+	play_count: number
+	total_ms: number
+}
+
+const MONTH_LABELS = [
+	'Jan',
+	'Feb',
+	'Mar',
+	'Apr',
+	'May',
+	'Jun',
+	'Jul',
+	'Aug',
+	'Sep',
+	'Oct',
+	'Nov',
+	'Dec',
+]
+
+/**
+ * Fills in months without plays between the first and last month
+ */
+function fillMonths(months: PlayTimelineMonth[]): PlayTimelineMonth[] {
+	if (months.length === 0) return []
+
+	const byMonth = new Map(months.map((month) => [month.month, month]))
+	const [firstYear, firstMonth] = months[0].month.split('-').map(Number)
+	const [lastYear, lastMonth] = months[months.length - 1].month
+		.split('-')
+		.map(Number)
+
+	const filled: PlayTimelineMonth[] = []
+	let year = firstYear
+	let month = firstMonth
+	while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+		const key = `${year}-${String(month).padStart(2, '0')}`
+		filled.push(
+			byMonth.get(key) ?? { month: key, play_count: 0, total_ms: 0 }
+		)
+		month++
+		if (month > 12) {
+			month = 1
+			year++
+		}
+	}
+
+	return filled
+}
+
+function formatMonth(month: string) {
+	const [year, monthNumber] = month.split('-')
+	return `${MONTH_LABELS[parseInt(monthNumber, 10) - 1]} ${year}`
+}
+
+export function PlayTimeline({
+	months,
+	timezone,
+}: {
+	months: PlayTimelineMonth[]
+	timezone?: string
+}) {
+	const filled = fillMonths(months)
+	const maxPlayCount = Math.max(0, ...filled.map((month) => month.play_count))
+
+	return (
+		<Card>
+			<CardContent>
+				<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+					<TrendingUp className="size-4" />
+					Plays per Month
+				</h3>
+				{filled.length > 0 ? (
+					<>
+						<div className="flex items-end gap-0.5 h-24">
+							{filled.map((month) => (
+								<div
+									key={month.month}
+									className="flex-1 min-w-1 h-full flex items-end"
+									title={`${formatMonth(month.month)} · ${month.play_count} plays`}
+								>
+									<div
+										className="w-full bg-foreground/50"
+										style={{
+											height: `${maxPlayCount > 0 ? (month.play_count / maxPlayCount) * 100 : 0}%`,
+										}}
+									/>
+								</div>
+							))}
+						</div>
+						<div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+							<span>{formatMonth(filled[0].month)}</span>
+							{filled.length > 1 && (
+								<span>
+									{formatMonth(
+										filled[filled.length - 1].month
+									)}
+								</span>
+							)}
+						</div>
+						{timezone && (
+							<p className="text-xs text-muted-foreground mt-2">
+								Months in {timezone}
+							</p>
+						)}
+					</>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						No plays yet
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Field, FieldGroup, FieldLabel } from '@/components/ui/field'
+import { Check, ExternalLink, Share2 } from 'lucide-react'
+
+interface ProfileSettings {
+	username: string | null
+	profile_public: boolean
+	profile_now_playing: boolean
+	profile_recent_scrobbles: boolean
+	profile_top_artists: boolean
+}
+
+type ProfileSectionSetting =
+	| 'profile_now_playing'
+	| 'profile_recent_scrobbles'
+	| 'profile_top_artists'
+
+const SECTIONS: Array<{ value: ProfileSectionSetting; label: string }> = [
+	{ value: 'profile_now_playing', label: 'Now playing' },
+	{ value: 'profile_recent_scrobbles', label: 'Recent scrobbles' },
+	{ value: 'profile_top_artists', label: 'Top artists' },
+]
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/**
+ * Lets the user pick a username and opt into a public profile at
+ * /u/:username, choosing which sections it shares.
+ */
+export function PublicProfileSettings() {
+	const { token } = useAuth()
+	const [saved, setSaved] = useState<ProfileSettings | null>(null)
+	const [draft, setDraft] = useState<ProfileSettings | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+	const [isSaving, setIsSaving] = useState(false)
+	const [justSaved, setJustSaved] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const fetchSettings = useCallback(async () => {
+		if (!token) return
+
+		try {
+			const response = await fetch(`${API_URL}/api/users/me`, {
+				headers: { Authorization: `Bearer ${token}` },
+			})
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch profile settings')
+			}
+
+			const data: ProfileSettings = await response.json()
+			setSaved(data)
+			setDraft(data)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token])
+
+	useEffect(() => {
+		fetchSettings()
+	}, [fetchSettings])
+
+	const update = (changes: Partial<ProfileSettings>) => {
+		setDraft((current) => (current ? { ...current, ...changes } : current))
+		setJustSaved(false)
+	}
+
+	const saveSettings = async () => {
+		if (!token || !draft) return
+
+		setIsSaving(true)
+		setJustSaved(false)
+		setError(null)
+
+		try {
+			const response = await fetch(`${API_URL}/api/users/me`, {
+				method: 'PATCH',
+				headers: {
+					Authorization: `Bearer ${token}`,
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					...(draft.username ? { username: draft.username } : {}),
+					profile_public: draft.profile_public,
+					profile_now_playing: draft.profile_now_playing,
+					profile_recent_scrobbles: draft.profile_recent_scrobbles,
+					profile_top_artists: draft.profile_top_artists,
+				}),
+			})
+
+			const data = await response.json()
+
+			if (!response.ok) {
+				throw new Error(data.error ?? 'Failed to save profile settings')
+			}
+
+			setSaved(data)
+			setDraft(data)
+			setJustSaved(true)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const hasChanges = JSON.stringify(saved) !== JSON.stringify(draft)
+
+	return (
+		<Card className="max-w-md mt-4">
+			<CardContent className="space-y-3">
+				<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+					<Share2 className="size-4" />
+					Public profile
+				</h3>
+				<p className="text-xs text-muted-foreground">
+					Share your listening with anyone who has the link, without
+					signing them in. Only the sections you pick are shown.
+				</p>
+				{isLoading || !draft ? (
+					<div className="h-24 bg-muted animate-pulse" />
+				) : (
+					<>
+						<FieldGroup>
+							<Field>
+								<FieldLabel htmlFor="profile-username">
+									Username
+								</FieldLabel>
+								<Input
+									id="profile-username"
+									value={draft.username ?? ''}
+									onChange={(e) =>
+										update({ username: e.target.value })
+									}
+								/>
+							</Field>
+						</FieldGroup>
+						<div className="flex flex-wrap gap-1">
+							<Button
+								variant={
+									draft.profile_public ? 'ghost' : 'secondary'
+								}
+								size="xs"
+								className="hover:cursor-pointer"
+								onClick={() =>
+									update({ profile_public: false })
+								}
+							>
+								Private
+							</Button>
+							<Button
+								variant={
+									draft.profile_public ? 'secondary' : 'ghost'
+								}
+								size="xs"
+								className="hover:cursor-pointer"
+								onClick={() => update({ profile_public: true })}
+							>
+								Public
+							</Button>
+						</div>
+						{draft.profile_public && (
+							<div className="flex flex-wrap gap-1">
+								{SECTIONS.map((section) => (
+									<Button
+										key={section.value}
+										variant={
+											draft[section.value]
+												? 'secondary'
+												: 'ghost'
+										}
+										size="xs"
+										className="hover:cursor-pointer"
+										onClick={() =>
+											update({
+												[section.value]:
+													!draft[section.value],
+											})
+										}
+									>
+										{draft[section.value] && (
+											<Check className="size-3" />
+										)}
+										{section.label}
+									</Button>
+								))}
+							</div>
+						)}
+						<div className="flex items-center gap-2">
+							<Button
+								size="sm"
+								className="hover:cursor-pointer"
+								disabled={isSaving || !hasChanges}
+								onClick={saveSettings}
+							>
+								{isSaving ? 'Saving...' : 'Save'}
+							</Button>
+							{saved?.profile_public && saved.username && (
+								<Button
+									asChild
+									size="sm"
+									variant="ghost"
+									className="hover:cursor-pointer"
+								>
+									<Link
+										to="/u/$username"
+										params={{ username: saved.username }}
+									>
+										<ExternalLink className="size-3" />
+										View profile
+									</Link>
+								</Button>
+							)}
+							{justSaved && (
+								<span className="text-xs text-muted-foreground flex items-center gap-1">
+									<Check className="size-3" />
+									Saved
+								</span>
+							)}
+						</div>
+					</>
+				)}
+				{error && <p className="text-sm text-destructive">{error}</p>}
+			</CardContent>
+		</Card>
+	)
+}
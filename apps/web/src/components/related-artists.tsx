@@ -0,0 +1,145 @@
+import { Link } from '@tanstack/react-router'
+import { Card, CardContent } from '@/components/ui/card'
+import { Network, User } from 'lucide-react'
+
+type RelationType =
+	| 'collaboration'
+	| 'is_person'
+	| 'subgroup'
+	| 'supporting_musician'
+	| 'producer'
+	| 'composer'
+
+export interface RelatedArtist {
+	type: RelationType
+	direction: 'forward' | 'backward'
+	artist: { id: string; name: string; image_url: string | null }
+	begin_raw: string | null
+	end_raw: string | null
+	ended: boolean
+	track_count: number | null
+	play_count: number
+}
+
+/** Section titles, in display order, from the viewed artist's point of view */
+const SECTIONS: Array<{
+	type: RelationType
+	direction: 'forward' | 'backward'
+	label: string
+}> = [
+	{ type: 'is_person', direction: 'forward', label: 'Performs as' },
+	{ type: 'is_person', direction: 'backward', label: 'Real name' },
+	{ type: 'collaboration', direction: 'forward', label: 'Collaborations' },
+	{ type: 'collaboration', direction: 'backward', label: 'Collaborators' },
+	{ type: 'subgroup', direction: 'forward', label: 'Subgroups' },
+	{ type: 'subgroup', direction: 'backward', label: 'Subgroup of' },
+	{
+		type: 'supporting_musician',
+		direction: 'backward',
+		label: 'Supporting musicians',
+	},
+	{
+		type: 'supporting_musician',
+		direction: 'forward',
+		label: 'Supporting musician for',
+	},
+	{ type: 'producer', direction: 'backward', label: 'Producers' },
+	{ type: 'producer', direction: 'forward', label: 'Produced for' },
+	{ type: 'composer', direction: 'backward', label: 'Composers' },
+	{ type: 'composer', direction: 'forward', label: 'Composed for' },
+]
+
+function getSubtitle(relation: RelatedArtist): string | null {
+	if (relation.track_count !== null) {
+		return `${relation.track_count} ${relation.track_count === 1 ? 'track' : 'tracks'}`
+	}
+
+	const beginYear = relation.begin_raw?.slice(0, 4)
+	const endYear = relation.end_raw?.slice(0, 4)
+	if (beginYear && endYear) return `${beginYear} - ${endYear}`
+	if (beginYear) return `since ${beginYear}`
+	return null
+}
+
+/**
+ * Side projects, pseudonyms, collaborators and credits of an artist from
+ * MusicBrainz, with how often the user played each related artist.
+ */
+export function RelatedArtists({
+	relationships,
+}: {
+	relationships: RelatedArtist[]
+}) {
+	const sections = SECTIONS.map((section) => ({
+		...section,
+		items: relationships.filter(
+			(relation) =>
+				relation.type === section.type &&
+				relation.direction === section.direction
+		),
+	})).filter((section) => section.items.length > 0)
+
+	if (sections.length === 0) {
+		return null
+	}
+
+	return (
+		<Card className="mt-4">
+			<CardContent className="space-y-4">
+				<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+					<Network className="size-4" />
+					Related artists
+				</h3>
+				{sections.map((section) => (
+					<div key={`${section.type}-${section.direction}`}>
+						<p className="text-xs font-medium text-muted-foreground mb-1">
+							{section.label}
+						</p>
+						<div className="space-y-1">
+							{section.items.map((relation) => {
+								const subtitle = getSubtitle(relation)
+								return (
+									<Link
+										key={relation.artist.id}
+										to="/artist/$artistId"
+										params={{
+											artistId: relation.artist.id,
+										}}
+										className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors"
+									>
+										{relation.artist.image_url ? (
+											<img
+												src={relation.artist.image_url}
+												alt={relation.artist.name}
+												className="w-10 h-10 rounded-full object-cover"
+											/>
+										) : (
+											<div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+												<User className="size-4 text-muted-foreground" />
+											</div>
+										)}
+										<div className="flex-1 min-w-0">
+											<p className="text-sm font-medium truncate">
+												{relation.artist.name}
+											</p>
+											{subtitle && (
+												<p className="text-xs text-muted-foreground">
+													{subtitle}
+												</p>
+											)}
+										</div>
+										<span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+											{relation.play_count > 0
+												? `${relation.play_count} plays`
+												: 'Not played yet'}
+										</span>
+									</Link>
+								)
+							})}
+						</div>
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	)
+}
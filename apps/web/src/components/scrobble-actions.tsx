@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { MoreHorizontal, SkipForward, Trash2, Undo2 } from 'lucide-react'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/**
+ * Edit menu for a single scrobble: toggle skipped or delete it.
+ * Calls onChange after a successful change so the list can refresh.
+ */
+export function ScrobbleActions({
+	scrobbleId,
+	trackName,
+	skipped,
+	onChange,
+}: {
+	scrobbleId: string
+	trackName: string
+	skipped: boolean
+	onChange: () => void
+}) {
+	const { token } = useAuth()
+	const [isConfirmingDelete, setIsConfirmingDelete] = useState(false)
+	const [isPending, setIsPending] = useState(false)
+
+	const toggleSkipped = async () => {
+		if (!token) return
+
+		setIsPending(true)
+		try {
+			const response = await fetch(
+				`${API_URL}/api/scrobbles/${scrobbleId}`,
+				{
+					method: 'PATCH',
+					headers: {
+						Authorization: `Bearer ${token}`,
+						'Content-Type': 'application/json',
+					},
+					body: JSON.stringify({ skipped: !skipped }),
+				}
+			)
+
+			if (!response.ok) {
+				throw new Error('Failed to update scrobble')
+			}
+
+			onChange()
+		} catch (err) {
+			console.error('Error updating scrobble:', err)
+		} finally {
+			setIsPending(false)
+		}
+	}
+
+	const deleteScrobble = async () => {
+		if (!token) return
+
+		setIsPending(true)
+		try {
+			const response = await fetch(
+				`${API_URL}/api/scrobbles/${scrobbleId}`,
+				{
+					method: 'DELETE',
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				throw new Error('Failed to delete scrobble')
+			}
+
+			onChange()
+		} catch (err) {
+			console.error('Error deleting scrobble:', err)
+		} finally {
+			setIsPending(false)
+		}
+	}
+
+	return (
+		<>
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant="ghost"
+						size="icon-xs"
+						className="hover:cursor-pointer shrink-0"
+						disabled={isPending}
+						aria-label="Edit scrobble"
+					>
+						<MoreHorizontal />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align="end">
+					<DropdownMenuItem onSelect={toggleSkipped}>
+						{skipped ? <Undo2 /> : <SkipForward />}
+						{skipped ? 'Mark as played' : 'Mark as skipped'}
+					</DropdownMenuItem>
+					<DropdownMenuSeparator />
+					<DropdownMenuItem
+						variant="destructive"
+						onSelect={() => setIsConfirmingDelete(true)}
+					>
+						<Trash2 />
+						Delete scrobble
+					</DropdownMenuItem>
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<AlertDialog
+				open={isConfirmingDelete}
+				onOpenChange={setIsConfirmingDelete}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Delete scrobble?</AlertDialogTitle>
+						<AlertDialogDescription>
+							This play of &quot;{trackName}&quot; will be removed
+							from your history and stats.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							variant="destructive"
+							onClick={deleteScrobble}
+						>
+							Delete
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</>
+	)
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { useApiStatus } from '@/hooks/use-api-status'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Music, SkipForward, User } from 'lucide-react'
+
+type SkipView = 'skipped' | 'artists' | 'least-completed' | 'most-completed'
+type SkipRange = '30d' | '365d' | 'all'
+
+interface SkipStatsItem {
+	id: string
+	name: string
+	image_url: string | null
+	play_count: number
+	skip_count?: number
+	skip_rate?: number
+	avg_completion_pct?: number
+	artists?: Array<{ id: string; name: string }>
+}
+
+interface SkipStatsResponse {
+	items: SkipStatsItem[]
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const VIEWS: Array<{ value: SkipView; label: string; path: string }> = [
+	{ value: 'skipped', label: 'Most skipped', path: 'skips/tracks' },
+	{ value: 'artists', label: 'Artists', path: 'skips/artists' },
+	{
+		value: 'least-completed',
+		label: 'Least completed',
+		path: 'completion/tracks?order=asc',
+	},
+	{
+		value: 'most-completed',
+		label: 'Most completed',
+		path: 'completion/tracks?order=desc',
+	},
+]
+
+const RANGES: Array<{ value: SkipRange; label: string }> = [
+	{ value: '30d', label: '30 days' },
+	{ value: '365d', label: '1 year' },
+	{ value: 'all', label: 'All time' },
+]
+
+/**
+ * Gets the percentage a row's bar represents for a view
+ */
+function getPercent(view: SkipView, item: SkipStatsItem): number {
+	if (view === 'skipped' || view === 'artists') {
+		return Math.round((item.skip_rate ?? 0) * 100)
+	}
+	return Math.round(item.avg_completion_pct ?? 0)
+}
+
+function getDetail(view: SkipView, item: SkipStatsItem): string {
+	if (view === 'skipped' || view === 'artists') {
+		return `${item.skip_count ?? 0}/${item.play_count} skipped`
+	}
+	return `${item.play_count} plays · ${Math.round(item.avg_completion_pct ?? 0)}% played`
+}
+
+export function SkipStats({ accountId = null }: { accountId?: string | null }) {
+	const { token } = useAuth()
+	const { isConnected } = useApiStatus()
+	const [view, setView] = useState<SkipView>('skipped')
+	const [range, setRange] = useState<SkipRange>('30d')
+	const [stats, setStats] = useState<SkipStatsResponse | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+
+	const fetchStats = useCallback(async () => {
+		if (!token || !isConnected) return
+
+		const { path } =
+			VIEWS.find((option) => option.value === view) ?? VIEWS[0]
+		const separator = path.includes('?') ? '&' : '?'
+
+		setIsLoading(true)
+		try {
+			const response = await fetch(
+				`${API_URL}/api/stats/${path}${separator}range=${range}&limit=5${accountId ? `&account=${accountId}` : ''}`,
+				{
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch skip stats')
+			}
+
+			const data = await response.json()
+			setStats(data)
+		} catch (err) {
+			console.error('Error fetching skip stats:', err)
+			setStats(null)
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token, isConnected, view, range, accountId])
+
+	useEffect(() => {
+		fetchStats()
+	}, [fetchStats])
+
+	const EmptyIcon = view === 'artists' ? User : Music
+
+	return (
+		<Card>
+			<CardContent>
+				<div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+					<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+						<SkipForward className="size-4" />
+						Skips
+					</h3>
+					<div className="flex gap-1">
+						{RANGES.map((option) => (
+							<Button
+								key={option.value}
+								variant={
+									range === option.value
+										? 'secondary'
+										: 'ghost'
+								}
+								size="xs"
+								className="hover:cursor-pointer"
+								onClick={() => setRange(option.value)}
+							>
+								{option.label}
+							</Button>
+						))}
+					</div>
+				</div>
+
+				<div className="flex gap-1 mb-3 border-b border-border overflow-x-auto">
+					{VIEWS.map((option) => (
+						<button
+							key={option.value}
+							className={`px-2 pb-2 text-xs font-medium -mb-px border-b-2 whitespace-nowrap transition-colors hover:cursor-pointer ${
+								view === option.value
+									? 'border-foreground text-foreground'
+									: 'border-transparent text-muted-foreground hover:text-foreground'
+							}`}
+							onClick={() => setView(option.value)}
+						>
+							{option.label}
+						</button>
+					))}
+				</div>
+
+				{!isConnected || (isLoading && !stats) ? (
+					<div className="space-y-1">
+						{[...Array(5)].map((_, i) => (
+							<div key={i} className="py-2 space-y-1.5">
+								<div className="h-3.5 bg-muted animate-pulse w-3/4" />
+								<div className="h-1.5 bg-muted animate-pulse w-1/2" />
+							</div>
+						))}
+					</div>
+				) : stats?.items && stats.items.length > 0 ? (
+					<div className="space-y-1">
+						{stats.items.map((item) => {
+							const percent = getPercent(view, item)
+							const subtitle =
+								view === 'artists'
+									? null
+									: (item.artists
+											?.map((a) => a.name)
+											.join(', ') ?? null)
+							const content = (
+								<div className="flex-1 min-w-0 space-y-1">
+									<div className="flex items-baseline justify-between gap-2">
+										<p className="text-sm font-medium truncate">
+											{item.name}
+										</p>
+										<span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+											{getDetail(view, item)}
+										</span>
+									</div>
+									{subtitle && (
+										<p className="text-xs text-muted-foreground truncate">
+											{subtitle}
+										</p>
+									)}
+									<div className="h-1.5 bg-muted overflow-hidden">
+										<div
+											className="h-full bg-foreground/50"
+											style={{ width: `${percent}%` }}
+										/>
+									</div>
+								</div>
+							)
+
+							return view === 'artists' ? (
+								<Link
+									key={item.id}
+									to="/artist/$artistId"
+									params={{ artistId: item.id }}
+									className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors"
+								>
+									{content}
+								</Link>
+							) : (
+								<div
+									key={item.id}
+									className="flex items-center gap-3 py-2 -mx-2 px-2"
+								>
+									{content}
+								</div>
+							)
+						})}
+					</div>
+				) : (
+					<div className="flex items-center gap-3 text-muted-foreground py-4">
+						<EmptyIcon className="size-5" />
+						<p className="text-sm">
+							Not enough plays in this period
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { useApiStatus } from '@/hooks/use-api-status'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { BarChart3, Disc3, Music, Tag, User } from 'lucide-react'
+
+type ChartEntity = 'artists' | 'albums' | 'tracks' | 'genres'
+type ChartPeriod = 'month' | 'year' | 'all'
+
+interface ChartItem {
+	id: string
+	name: string
+	image_url?: string | null
+	play_count: number
+	total_ms: number
+	artist?: { id: string; name: string }
+	artists?: Array<{ id: string; name: string }>
+}
+
+interface TopChartResponse {
+	items: ChartItem[]
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const ENTITIES: Array<{ value: ChartEntity; label: string }> = [
+	{ value: 'artists', label: 'Artists' },
+	{ value: 'albums', label: 'Albums' },
+	{ value: 'tracks', label: 'Tracks' },
+	{ value: 'genres', label: 'Genres' },
+]
+
+const PERIODS: Array<{ value: ChartPeriod; label: string }> = [
+	{ value: 'month', label: 'This month' },
+	{ value: 'year', label: 'This year' },
+	{ value: 'all', label: 'All time' },
+]
+
+/**
+ * Builds the range query for a period (calendar month/year in local time)
+ */
+function getPeriodQuery(period: ChartPeriod): string {
+	const now = new Date()
+
+	if (period === 'month') {
+		const from = new Date(now.getFullYear(), now.getMonth(), 1)
+		return `from=${encodeURIComponent(from.toISOString())}`
+	}
+
+	if (period === 'year') {
+		const from = new Date(now.getFullYear(), 0, 1)
+		return `from=${encodeURIComponent(from.toISOString())}`
+	}
+
+	return 'range=all'
+}
+
+function formatListeningTime(ms: number) {
+	const minutes = Math.floor(ms / 60000)
+	if (minutes < 60) return `${minutes} min`
+	const hours = Math.floor(minutes / 60)
+	const remainingMins = minutes % 60
+	if (remainingMins === 0) return `${hours}h`
+	return `${hours}h ${remainingMins}min`
+}
+
+function getSubtitle(entity: ChartEntity, item: ChartItem): string | null {
+	if (entity === 'albums') {
+		return item.artist?.name ?? null
+	}
+	if (entity === 'tracks') {
+		return item.artists?.map((a) => a.name).join(', ') ?? null
+	}
+	return null
+}
+
+export function TopCharts({ accountId = null }: { accountId?: string | null }) {
+	const { token } = useAuth()
+	const { isConnected } = useApiStatus()
+	const [entity, setEntity] = useState<ChartEntity>('artists')
+	const [period, setPeriod] = useState<ChartPeriod>('month')
+	const [chart, setChart] = useState<TopChartResponse | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+
+	const fetchChart = useCallback(async () => {
+		if (!token || !isConnected) return
+
+		setIsLoading(true)
+		try {
+			const response = await fetch(
+				`${API_URL}/api/stats/${entity === 'genres' ? 'top-genres' : `top/${entity}`}?${getPeriodQuery(period)}&limit=10${accountId ? `&account=${accountId}` : ''}`,
+				{
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				throw new Error(`Failed to fetch top ${entity}`)
+			}
+
+			const data = await response.json()
+			setChart(data)
+		} catch (err) {
+			console.error('Error fetching top chart:', err)
+			setChart(null)
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token, isConnected, entity, period, accountId])
+
+	useEffect(() => {
+		fetchChart()
+	}, [fetchChart])
+
+	const maxTotalMs = chart?.items[0]?.total_ms ?? 0
+	const EmptyIcon =
+		entity === 'artists'
+			? User
+			: entity === 'albums'
+				? Disc3
+				: entity === 'genres'
+					? Tag
+					: Music
+
+	return (
+		<Card>
+			<CardContent>
+				<div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+					<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+						<BarChart3 className="size-4" />
+						Top Charts
+					</h3>
+					<div className="flex gap-1">
+						{PERIODS.map((option) => (
+							<Button
+								key={option.value}
+								variant={
+									period === option.value
+										? 'secondary'
+										: 'ghost'
+								}
+								size="xs"
+								className="hover:cursor-pointer"
+								onClick={() => setPeriod(option.value)}
+							>
+								{option.label}
+							</Button>
+						))}
+					</div>
+				</div>
+
+				<div className="flex gap-1 mb-3 border-b border-border">
+					{ENTITIES.map((option) => (
+						<button
+							key={option.value}
+							className={`px-2 pb-2 text-xs font-medium -mb-px border-b-2 transition-colors hover:cursor-pointer ${
+								entity === option.value
+									? 'border-foreground text-foreground'
+									: 'border-transparent text-muted-foreground hover:text-foreground'
+							}`}
+							onClick={() => setEntity(option.value)}
+						>
+							{option.label}
+						</button>
+					))}
+				</div>
+
+				{!isConnected || (isLoading && !chart) ? (
+					<div className="space-y-1">
+						{[...Array(5)].map((_, i) => (
+							<div
+								key={i}
+								className="flex items-center gap-3 py-2"
+							>
+								<div className="w-4" />
+								<div className="w-10 h-10 bg-muted animate-pulse" />
+								<div className="flex-1 space-y-1.5">
+									<div className="h-3.5 bg-muted animate-pulse w-3/4" />
+									<div className="h-1.5 bg-muted animate-pulse w-1/2" />
+								</div>
+							</div>
+						))}
+					</div>
+				) : chart?.items && chart.items.length > 0 ? (
+					<div className="space-y-1">
+						{chart.items.map((item, index) => {
+							const subtitle = getSubtitle(entity, item)
+							const content = (
+								<>
+									<span className="text-xs text-muted-foreground w-4 text-right tabular-nums">
+										{index + 1}
+									</span>
+									{item.image_url ? (
+										<img
+											src={item.image_url}
+											alt={item.name}
+											className={`w-10 h-10 object-cover ${entity === 'artists' ? 'rounded-full' : ''}`}
+										/>
+									) : (
+										<div
+											className={`w-10 h-10 bg-muted flex items-center justify-center ${entity === 'artists' ? 'rounded-full' : ''}`}
+										>
+											<EmptyIcon className="size-4 text-muted-foreground" />
+										</div>
+									)}
+									<div className="flex-1 min-w-0 space-y-1">
+										<div className="flex items-baseline justify-between gap-2">
+											<p className="text-sm font-medium truncate">
+												{item.name}
+											</p>
+											<span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+												{item.play_count} plays ·{' '}
+												{formatListeningTime(
+													item.total_ms
+												)}
+											</span>
+										</div>
+										{subtitle && (
+											<p className="text-xs text-muted-foreground truncate">
+												{subtitle}
+											</p>
+										)}
+										<div className="h-1.5 bg-muted overflow-hidden">
+											<div
+												className="h-full bg-foreground/50"
+												style={{
+													width: `${maxTotalMs > 0 ? (item.total_ms / maxTotalMs) * 100 : 0}%`,
+												}}
+											/>
+										</div>
+									</div>
+								</>
+							)
+
+							return entity === 'artists' ? (
+								<Link
+									key={item.id}
+									to="/artist/$artistId"
+									params={{ artistId: item.id }}
+									className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors"
+								>
+									{content}
+								</Link>
+							) : (
+								<div
+									key={item.id}
+									className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors"
+								>
+									{content}
+								</div>
+							)
+						})}
+					</div>
+				) : (
+					<div className="flex items-center gap-3 text-muted-foreground py-4">
+						<EmptyIcon className="size-5" />
+						<p className="text-sm">No plays in this period</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
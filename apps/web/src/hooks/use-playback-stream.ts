@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/** Delay before reconnecting after the stream dropped (ms) */
+const RECONNECT_DELAY_MS = 3000
+
+export type PlaybackEventType =
+	| 'started'
+	| 'progress'
+	| 'paused'
+	| 'scrobbled'
+	| 'stopped'
+
+export interface PlaybackEvent {
+	type: PlaybackEventType
+	provider: string
+	account_id: string | null
+	playing: boolean
+	is_playing: boolean
+	progress_ms: number
+	track: {
+		id: string
+		name: string
+		duration_ms: number
+		explicit: boolean
+		album: {
+			id?: string
+			name: string
+			images?: Array<{ url: string }>
+		}
+		artists: Array<{ id?: string; name: string }>
+	} | null
+	at: string
+}
+
+/**
+ * Follows the user's playback over GET /api/player/stream.
+ * EventSource can't send the Authorization header, so the Server-Sent
+ * Events are read from a fetch response instead. The stream reconnects
+ * after it drops, and the first event after (re)connecting describes the
+ * current playback.
+ */
+export function usePlaybackStream(
+	token: string | null,
+	enabled: boolean,
+	onEvent: (event: PlaybackEvent) => void
+) {
+	// Keep the latest handler without reconnecting when it changes
+	const onEventRef = useRef(onEvent)
+	useEffect(() => {
+		onEventRef.current = onEvent
+	}, [onEvent])
+
+	useEffect(() => {
+		if (!token || !enabled) return
+
+		const controller = new AbortController()
+		let reconnectTimeout: ReturnType<typeof setTimeout> | undefined
+
+		const connect = async () => {
+			try {
+				const response = await fetch(`${API_URL}/api/player/stream`, {
+					headers: {
+						Authorization: `Bearer ${token}`,
+						Accept: 'text/event-stream',
+					},
+					signal: controller.signal,
+				})
+
+				if (!response.ok || !response.body) {
+					throw new Error('Failed to open playback stream')
+				}
+
+				const reader = response.body
+					.pipeThrough(new TextDecoderStream())
+					.getReader()
+				let buffer = ''
+
+				while (true) {
+					const { value, done } = await reader.read()
+					if (done) break
+
+					buffer += value
+					const messages = buffer.split('\n\n')
+					buffer = messages.pop() ?? ''
+
+					for (const message of messages) {
+						// Comment lines (heartbeats) carry no data
+						const data = message
+							.split('\n')
+							.filter((line) => line.startsWith('data:'))
+							.map((line) => line.slice(5).trimStart())
+							.join('\n')
+						if (data) {
+							onEventRef.current(JSON.parse(data))
+						}
+					}
+				}
+			} catch (err) {
+				if (controller.signal.aborted) return
+				console.error('Playback stream error:', err)
+			}
+
+			if (!controller.signal.aborted) {
+				reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS)
+			}
+		}
+
+		connect()
+
+		return () => {
+			controller.abort()
+			clearTimeout(reconnectTimeout)
+		}
+	}, [token, enabled])
+}
@@ -0,0 +1,27 @@
+/**
+ * A streaming service account linked to the current user
+ */
+export interface LinkedAccount {
+	id: string
+	provider: string
+	external_id: string
+	display_name: string | null
+	/** Base URL of a self-hosted server */
+	server_url: string | null
+	linked_at: string
+	scrobble_count: number
+	/** Whether this is the account the current session signed in with */
+	current: boolean
+}
+
+/**
+ * Label for a linked account: its profile name, falling back to the
+ * provider's account ID. Self-hosted accounts also name their server.
+ */
+export function getAccountLabel(account: LinkedAccount): string {
+	const name = account.display_name || account.external_id
+	if (!account.server_url) {
+		return name
+	}
+	return `${name} on ${new URL(account.server_url).host}`
+}
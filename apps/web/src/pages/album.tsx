@@ -0,0 +1,349 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate, Link, getRouteApi } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { ArtistCredits, type ArtistCredit } from '@/components/artist-credits'
+import {
+	PlayTimeline,
+	type PlayTimelineMonth,
+} from '@/components/play-timeline'
+import { ArrowLeft, Calendar, Disc3, ListMusic } from 'lucide-react'
+
+interface AlbumTrack {
+	id: string
+	title: string
+	duration_ms: number | null
+	disc_number: number | null
+	position: number | null
+	credits: ArtistCredit[]
+	play_count: number
+}
+
+interface PlaySummary {
+	play_count: number
+	total_ms: number
+	skip_count: number
+	first_played_at: string | null
+	last_played_at: string | null
+}
+
+interface AlbumResponse {
+	id: string
+	title: string
+	release_date: string | null
+	image_url: string | null
+	mbid: string | null
+	artist: { id: string; name: string; image_url: string | null }
+	tracks: AlbumTrack[]
+	stats: PlaySummary
+	timezone: string
+	timeline: PlayTimelineMonth[]
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const routeApi = getRouteApi('/album/$albumId')
+
+function formatDuration(ms: number) {
+	const totalSeconds = Math.floor(ms / 1000)
+	const minutes = Math.floor(totalSeconds / 60)
+	const seconds = totalSeconds % 60
+	return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+function formatListeningTime(ms: number) {
+	const minutes = Math.floor(ms / 60000)
+	if (minutes < 60) return `${minutes} min`
+	const hours = Math.floor(minutes / 60)
+	const remainingMins = minutes % 60
+	if (remainingMins === 0) return `${hours}h`
+	return `${hours}h ${remainingMins}min`
+}
+
+function formatDate(dateString: string | null) {
+	if (!dateString) return '—'
+	return new Date(dateString).toLocaleDateString(undefined, {
+		year: 'numeric',
+		month: 'short',
+		day: 'numeric',
+	})
+}
+
+export function AlbumPage() {
+	const navigate = useNavigate()
+	const { albumId } = routeApi.useParams()
+	const { token } = useAuth()
+	const [album, setAlbum] = useState<AlbumResponse | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+
+	const fetchAlbum = useCallback(async () => {
+		if (!token) return
+
+		setIsLoading(true)
+		setError(null)
+
+		try {
+			const response = await fetch(`${API_URL}/api/albums/${albumId}`, {
+				headers: {
+					Authorization: `Bearer ${token}`,
+				},
+			})
+
+			if (!response.ok) {
+				if (response.status === 404) {
+					setError('Album not found')
+				} else {
+					setError('Failed to load album')
+				}
+				return
+			}
+
+			const data = await response.json()
+			setAlbum(data)
+		} catch (err) {
+			console.error('Error fetching album:', err)
+			setError('Failed to load album')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [albumId, token])
+
+	useEffect(() => {
+		fetchAlbum()
+	}, [fetchAlbum])
+
+	const hasMultipleDiscs =
+		album?.tracks.some(
+			(track) => track.disc_number !== null && track.disc_number > 1
+		) ?? false
+	const maxTrackPlays = Math.max(
+		0,
+		...(album?.tracks ?? []).map((track) => track.play_count)
+	)
+
+	return (
+		<div className="min-h-screen bg-background">
+			{/* Header */}
+			<header className="border-b border-border">
+				<div className="container mx-auto px-4 h-14 flex items-center gap-4">
+					<Button
+						variant="ghost"
+						size="icon"
+						onClick={() => navigate({ to: '/' })}
+					>
+						<ArrowLeft className="size-4" />
+					</Button>
+					<div className="flex items-center gap-3">
+						<div className="w-8 h-8 bg-foreground/5 border border-border flex items-center justify-center">
+							<svg
+								className="w-4 h-4 text-foreground"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="currentColor"
+								strokeWidth="1.5"
+							>
+								<path d="M9 18V5l12-2v13" />
+								<circle cx="6" cy="18" r="3" />
+								<circle cx="18" cy="16" r="3" />
+							</svg>
+						</div>
+						<span className="font-semibold text-sm">playbacc</span>
+					</div>
+				</div>
+			</header>
+
+			{/* Main content */}
+			<main className="container mx-auto px-4 py-8">
+				{isLoading ? (
+					<div className="max-w-md">
+						{/* Skeleton loader */}
+						<div className="flex items-center gap-4 mb-8">
+							<div className="w-20 h-20 bg-muted animate-pulse" />
+							<div className="flex-1 space-y-2">
+								<div className="h-6 bg-muted animate-pulse w-1/2" />
+								<div className="h-4 bg-muted animate-pulse w-1/4" />
+							</div>
+						</div>
+						<div className="h-40 bg-muted animate-pulse" />
+					</div>
+				) : error ? (
+					<div className="max-w-md">
+						<div className="text-center py-12">
+							<p className="text-muted-foreground">{error}</p>
+							<Button
+								variant="outline"
+								className="mt-4"
+								onClick={() => navigate({ to: '/' })}
+							>
+								Go back to dashboard
+							</Button>
+						</div>
+					</div>
+				) : album ? (
+					<div className="max-w-md space-y-4">
+						{/* Album header */}
+						<div className="flex items-center gap-4 mb-8">
+							{album.image_url ? (
+								<img
+									src={album.image_url}
+									alt={album.title}
+									className="w-20 h-20 object-cover"
+								/>
+							) : (
+								<div className="w-20 h-20 bg-muted flex items-center justify-center">
+									<Disc3 className="size-8 text-muted-foreground" />
+								</div>
+							)}
+							<div className="flex-1 min-w-0">
+								<h1 className="text-2xl font-bold tracking-tight">
+									{album.title}
+								</h1>
+								<Link
+									to="/artist/$artistId"
+									params={{ artistId: album.artist.id }}
+									className="text-sm text-muted-foreground hover:text-foreground hover:underline"
+								>
+									{album.artist.name}
+								</Link>
+								<div className="flex items-center gap-2 mt-1">
+									<span className="text-xs bg-muted px-2 py-0.5 rounded">
+										Album
+									</span>
+									{album.release_date && (
+										<span className="text-xs text-muted-foreground flex items-center gap-1">
+											<Calendar className="size-3" />
+											{album.release_date}
+										</span>
+									)}
+								</div>
+							</div>
+						</div>
+
+						{/* Listening stats */}
+						<Card>
+							<CardContent>
+								<div className="grid grid-cols-2 gap-4">
+									<div>
+										<p className="text-xs text-muted-foreground">
+											Plays
+										</p>
+										<p className="text-xl font-bold tabular-nums">
+											{album.stats.play_count}
+										</p>
+									</div>
+									<div>
+										<p className="text-xs text-muted-foreground">
+											Listening time
+										</p>
+										<p className="text-xl font-bold tabular-nums">
+											{formatListeningTime(
+												album.stats.total_ms
+											)}
+										</p>
+									</div>
+									<div>
+										<p className="text-xs text-muted-foreground">
+											First played
+										</p>
+										<p className="text-sm font-medium">
+											{formatDate(
+												album.stats.first_played_at
+											)}
+										</p>
+									</div>
+									<div>
+										<p className="text-xs text-muted-foreground">
+											Last played
+										</p>
+										<p className="text-sm font-medium">
+											{formatDate(
+												album.stats.last_played_at
+											)}
+										</p>
+									</div>
+								</div>
+							</CardContent>
+						</Card>
+
+						<PlayTimeline
+							months={album.timeline}
+							timezone={album.timezone}
+						/>
+
+						{/* Tracklist */}
+						<Card>
+							<CardContent>
+								<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+									<ListMusic className="size-4" />
+									Tracklist
+								</h3>
+								{album.tracks.length > 0 ? (
+									<div className="space-y-1">
+										{album.tracks.map((track) => (
+											<div
+												key={track.id}
+												className="flex items-center gap-3 py-1.5"
+											>
+												<span className="text-xs text-muted-foreground w-6 text-right tabular-nums shrink-0">
+													{track.position === null
+														? '–'
+														: hasMultipleDiscs &&
+															  track.disc_number !==
+																	null
+															? `${track.disc_number}-${track.position}`
+															: track.position}
+												</span>
+												<div className="flex-1 min-w-0 space-y-1">
+													<div className="flex items-baseline justify-between gap-2">
+														<Link
+															to="/track/$trackId"
+															params={{
+																trackId:
+																	track.id,
+															}}
+															className="text-sm font-medium truncate hover:underline"
+														>
+															{track.title}
+														</Link>
+														<span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+															{track.play_count}{' '}
+															plays
+															{track.duration_ms !==
+																null &&
+																` · ${formatDuration(track.duration_ms)}`}
+														</span>
+													</div>
+													<p className="text-xs text-muted-foreground truncate">
+														<ArtistCredits
+															credits={
+																track.credits
+															}
+														/>
+													</p>
+													<div className="h-1 bg-muted overflow-hidden">
+														<div
+															className="h-full bg-foreground/50"
+															style={{
+																width: `${maxTrackPlays > 0 ? (track.play_count / maxTrackPlays) * 100 : 0}%`,
+															}}
+														/>
+													</div>
+												</div>
+											</div>
+										))}
+									</div>
+								) : (
+									<p className="text-sm text-muted-foreground">
+										No tracklist available
+									</p>
+								)}
+							</CardContent>
+						</Card>
+					</div>
+				) : null}
+			</main>
+		</div>
+	)
+}
@@ -3,6 +3,11 @@ import { useNavigate, Link, getRouteApi } from '@tanstack/react-router'
 import { useAuth } from '@/lib/auth'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import {
+	RelatedArtists,
+	type RelatedArtist,
+} from '@/components/related-artists'
+import { FamilyTree } from '@/components/family-tree'
 import {
 	ArrowLeft,
 	Users,
@@ -45,6 +50,7 @@ interface GroupArtistResponse {
 		current: MemberInfo[]
 		previous: MemberInfo[]
 	}
+	relationships: RelatedArtist[]
 }
 
 interface PersonArtistResponse {
@@ -57,6 +63,7 @@ interface PersonArtistResponse {
 	end_date: string | null
 	mbid: string | null
 	groups: GroupInfo[]
+	relationships: RelatedArtist[]
 }
 
 type ArtistResponse = GroupArtistResponse | PersonArtistResponse
@@ -988,6 +995,12 @@ export function ArtistPage() {
 								</CardContent>
 							</Card>
 						)}
+
+						<RelatedArtists
+							relationships={artist.relationships}
+						/>
+
+						<FamilyTree artistId={artist.id} />
 					</div>
 				) : null}
 			</main>
@@ -2,34 +2,38 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import { Link } from '@tanstack/react-router'
 import { useAuth } from '@/lib/auth'
 import { useApiStatus } from '@/hooks/use-api-status'
+import {
+	usePlaybackStream,
+	type PlaybackEvent,
+} from '@/hooks/use-playback-stream'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { ThemeSelectorModal } from '@/components/theme-selector-modal'
-import { Disc3, Users, User, Clock, Music } from 'lucide-react'
+import { CommandPalette } from '@/components/command-palette'
+import { TopCharts } from '@/components/top-charts'
+import { ListeningClock } from '@/components/listening-clock'
+import { ListeningHeatmap } from '@/components/listening-heatmap'
+import { SkipStats } from '@/components/skip-stats'
+import { ScrobbleActions } from '@/components/scrobble-actions'
+import { HistoryGaps } from '@/components/history-gaps'
+import { AccountFilter } from '@/components/account-filter'
+import {
+	Disc3,
+	Users,
+	User,
+	Clock,
+	Music,
+	Settings,
+	SkipForward,
+	Sparkles,
+	UserPlus,
+} from 'lucide-react'
 import spotifyLogo from '@/assets/spotify.svg'
 
-interface CurrentlyPlayingTrack {
-	id: string
-	name: string
-	duration_ms: number
-	explicit: boolean
-	album: {
-		id: string
-		name: string
-		images: Array<{ url: string; height: number; width: number }>
-	}
-	artists: Array<{ id: string; name: string }>
-}
-
-interface CurrentlyPlayingResponse {
-	playing: boolean
-	is_playing?: boolean
-	progress_ms?: number
-	track?: CurrentlyPlayingTrack
-}
-
 interface RecentlyPlayedTrack {
+	id: string
 	played_at: string
+	skipped: boolean
 	track: {
 		id: string
 		name: string
@@ -66,7 +70,7 @@ export function DashboardPage() {
 	const { user, token, logout } = useAuth()
 	const { isConnected } = useApiStatus()
 	const [currentlyPlaying, setCurrentlyPlaying] =
-		useState<CurrentlyPlayingResponse | null>(null)
+		useState<PlaybackEvent | null>(null)
 	const [recentlyPlayed, setRecentlyPlayed] =
 		useState<RecentlyPlayedResponse | null>(null)
 	const [topGroups, setTopGroups] = useState<TopArtistsResponse | null>(null)
@@ -75,13 +79,14 @@ export function DashboardPage() {
 	const [isLoading, setIsLoading] = useState(true)
 	const [isLoadingRecent, setIsLoadingRecent] = useState(true)
 	const [isLoadingTopArtists, setIsLoadingTopArtists] = useState(true)
-	const [error, setError] = useState<string | null>(null)
+	const [accountId, setAccountId] = useState<string | null>(null)
 
-	// Progress tracking - store base progress from API and calculate current progress
+	// Progress tracking - store base progress from the stream and calculate current progress
 	const [baseProgress, setBaseProgress] = useState(0)
 	const [displayTime, setDisplayTime] = useState(0) // Only for time text display
-	const lastFetchTime = useRef<number>(performance.now())
-	const previousTrackId = useRef<string | null>(null)
+	const lastEventTime = useRef<number>(performance.now())
+	// Session (provider and account) the shown playback belongs to
+	const playbackSource = useRef<string | null>(null)
 	const progressBarRef = useRef<HTMLDivElement>(null)
 	const isConnectedRef = useRef(isConnected)
 
@@ -90,40 +95,6 @@ export function DashboardPage() {
 		isConnectedRef.current = isConnected
 	}, [isConnected])
 
-	const fetchCurrentlyPlaying = useCallback(async () => {
-		if (!token || !isConnectedRef.current) return
-
-		try {
-			setError(null)
-			const response = await fetch(
-				`${API_URL}/api/player/currently-playing`,
-				{
-					headers: {
-						Authorization: `Bearer ${token}`,
-					},
-				}
-			)
-
-			if (!response.ok) {
-				throw new Error('Failed to fetch currently playing')
-			}
-
-			const data = await response.json()
-			setCurrentlyPlaying(data)
-
-			// Reset progress to fetched progress
-			if (data.playing && data.progress_ms !== undefined) {
-				setBaseProgress(data.progress_ms)
-				setDisplayTime(data.progress_ms)
-				lastFetchTime.current = performance.now()
-			}
-		} catch (err) {
-			setError(err instanceof Error ? err.message : 'Unknown error')
-		} finally {
-			setIsLoading(false)
-		}
-	}, [token])
-
 	const fetchRecentlyPlayed = useCallback(async () => {
 		if (!token || !isConnectedRef.current) return
 
@@ -179,13 +150,46 @@ export function DashboardPage() {
 		}
 	}, [token])
 
+	const handlePlaybackEvent = useCallback(
+		(event: PlaybackEvent) => {
+			setIsLoading(false)
+
+			// The finished play is in the history now
+			if (event.type === 'scrobbled') {
+				fetchRecentlyPlayed()
+				return
+			}
+
+			// Another session stopping doesn't end the one shown
+			const source = `${event.provider}:${event.account_id}`
+			if (
+				event.type === 'stopped' &&
+				playbackSource.current !== null &&
+				playbackSource.current !== source
+			) {
+				return
+			}
+
+			playbackSource.current = event.playing ? source : null
+			setCurrentlyPlaying(event)
+
+			// Reset progress to the pushed progress
+			if (event.playing) {
+				setBaseProgress(event.progress_ms)
+				setDisplayTime(event.progress_ms)
+				lastEventTime.current = performance.now()
+			}
+		},
+		[fetchRecentlyPlayed]
+	)
+
+	// Playback changes are pushed as the scrobble worker observes them
+	usePlaybackStream(token, isConnected, handlePlaybackEvent)
+
 	useEffect(() => {
-		fetchCurrentlyPlaying()
 		fetchRecentlyPlayed()
 		fetchTopArtists()
 
-		// Poll currently playing every 5 seconds for faster track change detection
-		const interval = setInterval(fetchCurrentlyPlaying, 5000)
 		// Poll recently played every 30 seconds
 		const recentInterval = setInterval(fetchRecentlyPlayed, 30000)
 
@@ -195,56 +199,27 @@ export function DashboardPage() {
 				document.visibilityState === 'visible' &&
 				isConnectedRef.current
 			) {
-				fetchCurrentlyPlaying()
 				fetchRecentlyPlayed()
 			}
 		}
 		document.addEventListener('visibilitychange', handleVisibilityChange)
 
 		return () => {
-			clearInterval(interval)
 			clearInterval(recentInterval)
 			document.removeEventListener(
 				'visibilitychange',
 				handleVisibilityChange
 			)
 		}
-	}, [fetchCurrentlyPlaying, fetchRecentlyPlayed, fetchTopArtists])
+	}, [fetchRecentlyPlayed, fetchTopArtists])
 
 	// Refresh data when connection is restored
 	useEffect(() => {
 		if (isConnected) {
-			fetchCurrentlyPlaying()
 			fetchRecentlyPlayed()
 			fetchTopArtists()
 		}
-	}, [
-		isConnected,
-		fetchCurrentlyPlaying,
-		fetchRecentlyPlayed,
-		fetchTopArtists,
-	])
-
-	// Detect track changes and refresh recently played
-	useEffect(() => {
-		const currentTrackId = currentlyPlaying?.track?.id ?? null
-
-		if (
-			previousTrackId.current !== null &&
-			currentTrackId !== previousTrackId.current
-		) {
-			// Track changed (skip or natural end) - refresh recently played after delays
-			// Spotify API can take a few seconds to update, so we poll multiple times
-			const delays = [1000, 2500, 5000, 8000]
-			delays.forEach((delay) => {
-				setTimeout(() => {
-					fetchRecentlyPlayed()
-				}, delay)
-			})
-		}
-
-		previousTrackId.current = currentTrackId
-	}, [currentlyPlaying?.track?.id, fetchRecentlyPlayed])
+	}, [isConnected, fetchRecentlyPlayed, fetchTopArtists])
 
 	// Animate progress smoothly using requestAnimationFrame
 	useEffect(() => {
@@ -258,11 +233,10 @@ export function DashboardPage() {
 
 		const trackDuration = currentlyPlaying.track.duration_ms
 		let animationId: number
-		let hasTriggeredEndFetch = false
 		let lastTimeUpdate = 0
 
 		const animate = () => {
-			const elapsed = performance.now() - lastFetchTime.current
+			const elapsed = performance.now() - lastEventTime.current
 			const newProgress = Math.min(baseProgress + elapsed, trackDuration)
 			const percent = (newProgress / trackDuration) * 100
 
@@ -278,18 +252,7 @@ export function DashboardPage() {
 				setDisplayTime(newProgress)
 			}
 
-			// When we reach the end of the song, fetch to check for new track and refresh recently played
-			if (newProgress >= trackDuration && !hasTriggeredEndFetch) {
-				hasTriggeredEndFetch = true
-				setTimeout(() => {
-					fetchCurrentlyPlaying()
-				}, 1500)
-				// Also refresh recently played after song ends
-				setTimeout(() => {
-					fetchRecentlyPlayed()
-				}, 3000)
-			}
-
+			// The next track arrives as a pushed event, so stop at the end
 			if (newProgress < trackDuration) {
 				animationId = requestAnimationFrame(animate)
 			}
@@ -303,8 +266,6 @@ export function DashboardPage() {
 		currentlyPlaying?.is_playing,
 		currentlyPlaying?.track?.id,
 		baseProgress,
-		fetchCurrentlyPlaying,
-		fetchRecentlyPlayed,
 	])
 
 	const formatDuration = (ms: number) => {
@@ -367,7 +328,44 @@ export function DashboardPage() {
 					</div>
 
 					<div className="flex items-center gap-3">
+						<CommandPalette />
 						<ThemeSelectorModal />
+						<Button
+							asChild
+							variant="ghost"
+							size="icon"
+							className="hover:cursor-pointer"
+						>
+							<Link
+								to="/wrapped/$year"
+								params={{
+									year: String(new Date().getFullYear()),
+								}}
+								aria-label="Year in review"
+							>
+								<Sparkles className="size-4" />
+							</Link>
+						</Button>
+						<Button
+							asChild
+							variant="ghost"
+							size="icon"
+							className="hover:cursor-pointer"
+						>
+							<Link to="/friends" aria-label="Friends">
+								<UserPlus className="size-4" />
+							</Link>
+						</Button>
+						<Button
+							asChild
+							variant="ghost"
+							size="icon"
+							className="hover:cursor-pointer"
+						>
+							<Link to="/settings" aria-label="Settings">
+								<Settings className="size-4" />
+							</Link>
+						</Button>
 
 						<div className="flex items-center gap-2 pl-3 border-l border-border">
 							{user?.image_url ? (
@@ -403,15 +401,14 @@ export function DashboardPage() {
 
 			{/* Main content */}
 			<main className="container mx-auto px-4 py-8">
+				<HistoryGaps />
 				<Card className="max-w-md">
 					<CardContent>
 						<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
 							<Music className="size-4" />
 							Now Playing
 						</h3>
-						{error && isConnected ? (
-							<p className="text-sm text-destructive">{error}</p>
-						) : !isConnected || (isLoading && !currentlyPlaying) ? (
+						{!isConnected || (isLoading && !currentlyPlaying) ? (
 							<div className="flex items-center gap-3">
 								<div className="w-12 h-12 bg-muted animate-pulse" />
 								<div className="flex-1 space-y-2">
@@ -423,11 +420,12 @@ export function DashboardPage() {
 						  currentlyPlaying.track ? (
 							<div className="space-y-3">
 								<div className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors cursor-pointer">
-									{currentlyPlaying.track.album.images[0] ? (
+									{currentlyPlaying.track.album
+										.images?.[0] ? (
 										<img
 											src={
 												currentlyPlaying.track.album
-													.images[0].url
+													.images?.[0]?.url
 											}
 											alt={
 												currentlyPlaying.track.album
@@ -450,13 +448,15 @@ export function DashboardPage() {
 												.join(', ')}
 										</p>
 									</div>
-									{currentlyPlaying.is_playing && (
-										<img
-											src={spotifyLogo}
-											alt="Playing on Spotify"
-											className="size-5 shrink-0"
-										/>
-									)}
+									{currentlyPlaying.is_playing &&
+										currentlyPlaying.provider ===
+											'spotify' && (
+											<img
+												src={spotifyLogo}
+												alt="Playing on Spotify"
+												className="size-5 shrink-0"
+											/>
+										)}
 								</div>
 								<div className="space-y-1">
 									<div className="h-1 bg-muted overflow-hidden">
@@ -523,36 +523,54 @@ export function DashboardPage() {
 							<div className="space-y-1">
 								{recentlyPlayed.items.map((item) => (
 									<div
-										key={`${item.track.id}-${item.played_at}`}
-										className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors cursor-pointer"
+										key={item.id}
+										className="flex items-center gap-1 -mx-2 pr-1 rounded-md hover:bg-muted/50 transition-colors"
 									>
-										{item.track.album.images?.[0] ? (
-											<img
-												src={
-													item.track.album.images[0]
-														.url
-												}
-												alt={item.track.album.name}
-												className="w-10 h-10 object-cover"
-											/>
-										) : (
-											<div className="w-10 h-10 bg-muted flex items-center justify-center">
-												<Disc3 className="size-4 text-muted-foreground" />
+										<Link
+											to="/track/$trackId"
+											params={{ trackId: item.track.id }}
+											className="flex flex-1 min-w-0 items-center gap-3 py-2 px-2"
+										>
+											{item.track.album.images?.[0] ? (
+												<img
+													src={
+														item.track.album
+															.images?.[0]?.url
+													}
+													alt={item.track.album.name}
+													className="w-10 h-10 object-cover"
+												/>
+											) : (
+												<div className="w-10 h-10 bg-muted flex items-center justify-center">
+													<Disc3 className="size-4 text-muted-foreground" />
+												</div>
+											)}
+											<div className="flex-1 min-w-0">
+												<p className="text-sm font-medium truncate">
+													{item.track.name}
+												</p>
+												<p className="text-xs text-muted-foreground truncate">
+													{item.track.artists
+														.map((a) => a.name)
+														.join(', ')}
+												</p>
 											</div>
-										)}
-										<div className="flex-1 min-w-0">
-											<p className="text-sm font-medium truncate">
-												{item.track.name}
-											</p>
-											<p className="text-xs text-muted-foreground truncate">
-												{item.track.artists
-													.map((a) => a.name)
-													.join(', ')}
-											</p>
-										</div>
-										<span className="text-xs text-muted-foreground shrink-0">
-											{formatPlayedAt(item.played_at)}
-										</span>
+											{item.skipped && (
+												<SkipForward
+													className="size-3 text-muted-foreground shrink-0"
+													aria-label="Skipped"
+												/>
+											)}
+											<span className="text-xs text-muted-foreground shrink-0">
+												{formatPlayedAt(item.played_at)}
+											</span>
+										</Link>
+										<ScrobbleActions
+											scrobbleId={item.id}
+											trackName={item.track.name}
+											skipped={item.skipped}
+											onChange={fetchRecentlyPlayed}
+										/>
 									</div>
 								))}
 							</div>
@@ -714,6 +732,19 @@ export function DashboardPage() {
 						</CardContent>
 					</Card>
 				</div>
+
+				{/* Top Charts */}
+				<div className="mt-4 max-w-2xl space-y-2">
+					<AccountFilter value={accountId} onChange={setAccountId} />
+					<TopCharts accountId={accountId} />
+				</div>
+
+				{/* Listening Patterns */}
+				<div className="mt-4 max-w-2xl space-y-4">
+					<ListeningClock accountId={accountId} />
+					<ListeningHeatmap accountId={accountId} />
+					<SkipStats accountId={accountId} />
+				</div>
 			</main>
 		</div>
 	)
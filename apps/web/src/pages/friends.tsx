@@ -0,0 +1,637 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link, useNavigate } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+	ArrowLeft,
+	Check,
+	Clock,
+	Disc3,
+	Heart,
+	Music,
+	User,
+	UserPlus,
+	Users,
+	X,
+} from 'lucide-react'
+
+interface FollowUser {
+	id: string
+	username: string | null
+	image_url: string | null
+}
+
+interface FollowListItem {
+	user: FollowUser
+	status: 'pending' | 'accepted'
+	created_at: string
+}
+
+interface FeedNowPlaying {
+	user: FollowUser
+	track: {
+		name: string
+		album: { name: string; images?: Array<{ url: string }> }
+		artists: Array<{ name: string }>
+	} | null
+}
+
+interface FeedScrobble {
+	id: string
+	played_at: string
+	user: FollowUser
+	track: {
+		name: string
+		album: { name: string; image_url: string | null }
+		artists: Array<{ name: string }>
+	}
+}
+
+interface FeedResponse {
+	now_playing: FeedNowPlaying[]
+	items: FeedScrobble[]
+	next_before: string | null
+}
+
+interface Compatibility {
+	score: number
+	shared_artists: Array<{ id: string; name: string }>
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const formatPlayedAt = (dateString: string) => {
+	const diffMinutes = Math.floor(
+		(Date.now() - new Date(dateString).getTime()) / 60000
+	)
+	if (diffMinutes < 1) return 'just now'
+	if (diffMinutes < 60) return `${diffMinutes}m ago`
+	const diffHours = Math.floor(diffMinutes / 60)
+	if (diffHours < 24) return `${diffHours}h ago`
+	return new Date(dateString).toLocaleDateString()
+}
+
+function UserAvatar({ user }: { user: FollowUser }) {
+	return user.image_url ? (
+		<img
+			src={user.image_url}
+			alt={user.username ?? 'User'}
+			className="w-7 h-7 rounded-full object-cover shrink-0"
+		/>
+	) : (
+		<div className="w-7 h-7 rounded-full bg-muted flex items-center justify-center shrink-0">
+			<User className="size-3.5 text-muted-foreground" />
+		</div>
+	)
+}
+
+/**
+ * People the user follows: follow requests, the activity feed of followed
+ * users and how compatible their listening is.
+ */
+export function FriendsPage() {
+	const navigate = useNavigate()
+	const { token } = useAuth()
+	const [following, setFollowing] = useState<FollowListItem[]>([])
+	const [requests, setRequests] = useState<FollowListItem[]>([])
+	const [feed, setFeed] = useState<FeedResponse | null>(null)
+	const [compatibility, setCompatibility] = useState<
+		Record<string, Compatibility>
+	>({})
+	const [username, setUsername] = useState('')
+	const [isFollowing, setIsFollowing] = useState(false)
+	const [isLoadingMore, setIsLoadingMore] = useState(false)
+	const [message, setMessage] = useState<string | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const authFetch = useCallback(
+		(path: string, init?: RequestInit) =>
+			fetch(`${API_URL}${path}`, {
+				...init,
+				headers: {
+					Authorization: `Bearer ${token}`,
+					'Content-Type': 'application/json',
+				},
+			}),
+		[token]
+	)
+
+	const fetchFollows = useCallback(async () => {
+		if (!token) return
+
+		try {
+			const [followingRes, requestsRes] = await Promise.all([
+				authFetch('/api/follows/following'),
+				authFetch('/api/follows/requests'),
+			])
+
+			if (!followingRes.ok || !requestsRes.ok) {
+				throw new Error('Failed to fetch follows')
+			}
+
+			setFollowing((await followingRes.json()).items)
+			setRequests((await requestsRes.json()).items)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		}
+	}, [token, authFetch])
+
+	const fetchFeed = useCallback(async () => {
+		if (!token) return
+
+		try {
+			const response = await authFetch('/api/follows/feed')
+			if (!response.ok) {
+				throw new Error('Failed to fetch feed')
+			}
+			setFeed(await response.json())
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		}
+	}, [token, authFetch])
+
+	useEffect(() => {
+		fetchFollows()
+		fetchFeed()
+
+		// Keep now playing fresh
+		const interval = setInterval(fetchFeed, 30000)
+		return () => clearInterval(interval)
+	}, [fetchFollows, fetchFeed])
+
+	const loadMore = async () => {
+		if (!feed?.next_before) return
+
+		setIsLoadingMore(true)
+		try {
+			const response = await authFetch(
+				`/api/follows/feed?before=${encodeURIComponent(feed.next_before)}`
+			)
+			if (!response.ok) {
+				throw new Error('Failed to fetch feed')
+			}
+			const data: FeedResponse = await response.json()
+			setFeed({
+				now_playing: feed.now_playing,
+				items: [...feed.items, ...data.items],
+				next_before: data.next_before,
+			})
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsLoadingMore(false)
+		}
+	}
+
+	const follow = async (event: React.FormEvent) => {
+		event.preventDefault()
+
+		setIsFollowing(true)
+		setError(null)
+		setMessage(null)
+		try {
+			const response = await authFetch('/api/follows', {
+				method: 'POST',
+				body: JSON.stringify({ username }),
+			})
+			const data = await response.json()
+
+			if (!response.ok) {
+				throw new Error(data.error ?? 'Failed to follow user')
+			}
+
+			setMessage(
+				data.status === 'pending'
+					? `Requested to follow ${username}`
+					: `Following ${username}`
+			)
+			setUsername('')
+			fetchFollows()
+			fetchFeed()
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsFollowing(false)
+		}
+	}
+
+	const runAction = async (path: string, method: 'POST' | 'DELETE') => {
+		setError(null)
+		try {
+			const response = await authFetch(path, { method })
+			if (!response.ok) {
+				const data = await response.json().catch(() => null)
+				throw new Error(data?.error ?? 'Request failed')
+			}
+			fetchFollows()
+			fetchFeed()
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		}
+	}
+
+	const compare = async (userId: string) => {
+		try {
+			const response = await authFetch(
+				`/api/follows/compatibility/${userId}`
+			)
+			if (!response.ok) {
+				throw new Error('Failed to compute compatibility')
+			}
+			const data: Compatibility = await response.json()
+			setCompatibility((current) => ({ ...current, [userId]: data }))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		}
+	}
+
+	return (
+		<div className="min-h-screen bg-background">
+			{/* Header */}
+			<header className="border-b border-border">
+				<div className="container mx-auto px-4 h-14 flex items-center gap-4">
+					<Button
+						variant="ghost"
+						size="icon"
+						onClick={() => navigate({ to: '/' })}
+					>
+						<ArrowLeft className="size-4" />
+					</Button>
+					<div className="flex items-center gap-3">
+						<div className="w-8 h-8 bg-foreground/5 border border-border flex items-center justify-center">
+							<svg
+								className="w-4 h-4 text-foreground"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="currentColor"
+								strokeWidth="1.5"
+							>
+								<path d="M9 18V5l12-2v13" />
+								<circle cx="6" cy="18" r="3" />
+								<circle cx="18" cy="16" r="3" />
+							</svg>
+						</div>
+						<span className="font-semibold text-sm">playbacc</span>
+					</div>
+				</div>
+			</header>
+
+			{/* Main content */}
+			<main className="container mx-auto px-4 py-8">
+				<div className="mb-8">
+					<h1 className="text-2xl font-bold tracking-tight mb-1">
+						Friends
+					</h1>
+					<p className="text-muted-foreground text-sm">
+						See what the people you follow are listening to
+					</p>
+				</div>
+
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-4xl">
+					<div className="space-y-4">
+						<Card>
+							<CardContent className="space-y-3">
+								<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+									<UserPlus className="size-4" />
+									Follow someone
+								</h3>
+								<form onSubmit={follow} className="flex gap-2">
+									<Input
+										placeholder="Username"
+										required
+										value={username}
+										onChange={(e) =>
+											setUsername(e.target.value)
+										}
+									/>
+									<Button
+										type="submit"
+										size="sm"
+										className="hover:cursor-pointer"
+										disabled={isFollowing}
+									>
+										Follow
+									</Button>
+								</form>
+								<p className="text-xs text-muted-foreground">
+									Private profiles have to accept your request
+									first.
+								</p>
+								{message && (
+									<p className="text-xs text-muted-foreground flex items-center gap-1">
+										<Check className="size-3" />
+										{message}
+									</p>
+								)}
+								{error && (
+									<p className="text-sm text-destructive">
+										{error}
+									</p>
+								)}
+							</CardContent>
+						</Card>
+
+						{requests.length > 0 && (
+							<Card>
+								<CardContent>
+									<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+										<Users className="size-4" />
+										Follow requests
+									</h3>
+									<div className="space-y-1">
+										{requests.map((request) => (
+											<div
+												key={request.user.id}
+												className="flex items-center gap-3 py-2"
+											>
+												<UserAvatar
+													user={request.user}
+												/>
+												<span className="flex-1 text-sm font-medium truncate">
+													{request.user.username}
+												</span>
+												<Button
+													size="xs"
+													className="hover:cursor-pointer"
+													onClick={() =>
+														runAction(
+															`/api/follows/requests/${request.user.id}/accept`,
+															'POST'
+														)
+													}
+												>
+													<Check className="size-3" />
+													Accept
+												</Button>
+												<Button
+													size="xs"
+													variant="ghost"
+													className="hover:cursor-pointer"
+													onClick={() =>
+														runAction(
+															`/api/follows/followers/${request.user.id}`,
+															'DELETE'
+														)
+													}
+												>
+													<X className="size-3" />
+													Decline
+												</Button>
+											</div>
+										))}
+									</div>
+								</CardContent>
+							</Card>
+						)}
+
+						<Card>
+							<CardContent>
+								<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+									<Users className="size-4" />
+									Following
+								</h3>
+								{following.length > 0 ? (
+									<div className="space-y-1">
+										{following.map((item) => {
+											const score =
+												compatibility[item.user.id]
+											return (
+												<div
+													key={item.user.id}
+													className="py-2 space-y-1"
+												>
+													<div className="flex items-center gap-3">
+														<UserAvatar
+															user={item.user}
+														/>
+														<span className="flex-1 text-sm font-medium truncate">
+															{item.user.username}
+														</span>
+														{item.status ===
+														'pending' ? (
+															<Badge variant="outline">
+																Requested
+															</Badge>
+														) : score ? (
+															<Badge variant="secondary">
+																<Heart className="size-3" />
+																{score.score}%
+															</Badge>
+														) : (
+															<Button
+																size="xs"
+																variant="ghost"
+																className="hover:cursor-pointer"
+																onClick={() =>
+																	compare(
+																		item
+																			.user
+																			.id
+																	)
+																}
+															>
+																<Heart className="size-3" />
+																Compare
+															</Button>
+														)}
+														<Button
+															size="xs"
+															variant="ghost"
+															className="hover:cursor-pointer"
+															onClick={() =>
+																runAction(
+																	`/api/follows/following/${item.user.id}`,
+																	'DELETE'
+																)
+															}
+														>
+															{item.status ===
+															'pending'
+																? 'Cancel'
+																: 'Unfollow'}
+														</Button>
+													</div>
+													{score &&
+														score.shared_artists
+															.length > 0 && (
+															<p className="text-xs text-muted-foreground pl-10 truncate">
+																You both listen
+																to{' '}
+																{score.shared_artists
+																	.slice(0, 3)
+																	.map(
+																		(
+																			artist
+																		) =>
+																			artist.name
+																	)
+																	.join(', ')}
+															</p>
+														)}
+												</div>
+											)
+										})}
+									</div>
+								) : (
+									<div className="flex items-center gap-3 text-muted-foreground py-4">
+										<Users className="size-5" />
+										<p className="text-sm">
+											You don't follow anyone yet
+										</p>
+									</div>
+								)}
+							</CardContent>
+						</Card>
+					</div>
+
+					<div className="space-y-4">
+						<Card>
+							<CardContent>
+								<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+									<Music className="size-4" />
+									Listening now
+								</h3>
+								{!feed ? (
+									<div className="h-12 bg-muted animate-pulse" />
+								) : feed.now_playing.length > 0 ? (
+									<div className="space-y-1">
+										{feed.now_playing.map((item) => (
+											<div
+												key={item.user.id}
+												className="flex items-center gap-3 py-2"
+											>
+												<UserAvatar user={item.user} />
+												<div className="flex-1 min-w-0">
+													<p className="text-sm font-medium truncate">
+														{item.track?.name ??
+															'Unknown track'}
+													</p>
+													<p className="text-xs text-muted-foreground truncate">
+														{item.user.username}
+														{item.track &&
+															` · ${item.track.artists
+																.map(
+																	(a) =>
+																		a.name
+																)
+																.join(', ')}`}
+													</p>
+												</div>
+											</div>
+										))}
+									</div>
+								) : (
+									<div className="flex items-center gap-3 text-muted-foreground py-4">
+										<Disc3 className="size-5" />
+										<p className="text-sm">
+											Nobody is listening right now
+										</p>
+									</div>
+								)}
+							</CardContent>
+						</Card>
+
+						<Card>
+							<CardContent>
+								<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+									<Clock className="size-4" />
+									Activity
+								</h3>
+								{!feed ? (
+									<div className="space-y-2">
+										{[...Array(5)].map((_, i) => (
+											<div
+												key={i}
+												className="h-10 bg-muted animate-pulse"
+											/>
+										))}
+									</div>
+								) : feed.items.length > 0 ? (
+									<div className="space-y-1">
+										{feed.items.map((item) => (
+											<div
+												key={item.id}
+												className="flex items-center gap-3 py-2"
+											>
+												{item.track.album.image_url ? (
+													<img
+														src={
+															item.track.album
+																.image_url
+														}
+														alt={
+															item.track.album
+																.name
+														}
+														className="w-10 h-10 object-cover"
+													/>
+												) : (
+													<div className="w-10 h-10 bg-muted flex items-center justify-center">
+														<Disc3 className="size-4 text-muted-foreground" />
+													</div>
+												)}
+												<div className="flex-1 min-w-0">
+													<p className="text-sm font-medium truncate">
+														{item.track.name}
+													</p>
+													<p className="text-xs text-muted-foreground truncate">
+														{item.track.artists
+															.map((a) => a.name)
+															.join(', ')}
+													</p>
+												</div>
+												<div className="text-right shrink-0">
+													{item.user.username ? (
+														<Link
+															to="/u/$username"
+															params={{
+																username:
+																	item.user
+																		.username,
+															}}
+															className="text-xs font-medium hover:underline"
+														>
+															{item.user.username}
+														</Link>
+													) : null}
+													<p className="text-xs text-muted-foreground">
+														{formatPlayedAt(
+															item.played_at
+														)}
+													</p>
+												</div>
+											</div>
+										))}
+										{feed.next_before && (
+											<Button
+												size="sm"
+												variant="ghost"
+												className="w-full hover:cursor-pointer"
+												disabled={isLoadingMore}
+												onClick={loadMore}
+											>
+												{isLoadingMore
+													? 'Loading...'
+													: 'Load more'}
+											</Button>
+										)}
+									</div>
+								) : (
+									<div className="flex items-center gap-3 text-muted-foreground py-4">
+										<Disc3 className="size-5" />
+										<p className="text-sm">
+											No plays from people you follow yet
+										</p>
+									</div>
+								)}
+							</CardContent>
+						</Card>
+					</div>
+				</div>
+			</main>
+		</div>
+	)
+}
@@ -0,0 +1,447 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getRouteApi } from '@tanstack/react-router'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Clock, Disc3, Lock, Music, User, Users } from 'lucide-react'
+
+interface PublicProfile {
+	username: string
+	image_url: string | null
+	created_at: string
+	sections: {
+		now_playing: boolean
+		recent_scrobbles: boolean
+		top_artists: boolean
+	}
+}
+
+interface ProfileTrack {
+	id: string
+	name: string
+	duration_ms: number
+	album: { name: string; images?: Array<{ url: string }> }
+	artists: Array<{ name: string }>
+}
+
+interface NowPlaying {
+	playing: boolean
+	is_playing: boolean
+	progress_ms: number
+	track: ProfileTrack | null
+}
+
+interface RecentScrobble {
+	id: string
+	played_at: string
+	track: ProfileTrack
+}
+
+interface TopArtist {
+	id: string
+	name: string
+	image_url: string | null
+	play_count: number
+	total_ms: number
+}
+
+type ProfileRange = '7d' | '30d' | '90d' | '365d' | 'all'
+
+const RANGES: Array<{ value: ProfileRange; label: string }> = [
+	{ value: '7d', label: '7 days' },
+	{ value: '30d', label: '30 days' },
+	{ value: '90d', label: '90 days' },
+	{ value: '365d', label: '1 year' },
+	{ value: 'all', label: 'All time' },
+]
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const routeApi = getRouteApi('/u/$username')
+
+/** How often the shared now playing is refreshed (ms) */
+const NOW_PLAYING_REFRESH_MS = 15000
+
+const formatListeningTime = (ms: number) => {
+	const minutes = Math.floor(ms / 60000)
+	if (minutes < 60) return `${minutes} min`
+	const hours = Math.floor(minutes / 60)
+	const remainingMins = minutes % 60
+	if (remainingMins === 0) return `${hours}h`
+	return `${hours}h ${remainingMins}min`
+}
+
+const formatPlayedAt = (dateString: string) => {
+	const diffMinutes = Math.floor(
+		(Date.now() - new Date(dateString).getTime()) / 60000
+	)
+	if (diffMinutes < 1) return 'just now'
+	if (diffMinutes < 60) return `${diffMinutes}m ago`
+	const diffHours = Math.floor(diffMinutes / 60)
+	if (diffHours < 24) return `${diffHours}h ago`
+	return new Date(dateString).toLocaleDateString()
+}
+
+/**
+ * Public profile at /u/:username. Readable without signing in; only the
+ * sections the user chose to share are shown.
+ */
+export function ProfilePage() {
+	const { username } = routeApi.useParams()
+	const [profile, setProfile] = useState<PublicProfile | null>(null)
+	const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null)
+	const [recent, setRecent] = useState<RecentScrobble[] | null>(null)
+	const [topArtists, setTopArtists] = useState<TopArtist[] | null>(null)
+	const [range, setRange] = useState<ProfileRange>('30d')
+	const [isLoading, setIsLoading] = useState(true)
+	const [notFound, setNotFound] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const profileUrl = `${API_URL}/api/profiles/${encodeURIComponent(username)}`
+
+	const fetchProfile = useCallback(async () => {
+		setIsLoading(true)
+		setNotFound(false)
+		setError(null)
+
+		try {
+			const response = await fetch(profileUrl)
+
+			if (response.status === 404) {
+				setNotFound(true)
+				return
+			}
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch profile')
+			}
+
+			setProfile(await response.json())
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [profileUrl])
+
+	const fetchNowPlaying = useCallback(async () => {
+		try {
+			const response = await fetch(`${profileUrl}/now-playing`)
+			if (response.ok) {
+				setNowPlaying(await response.json())
+			}
+		} catch (err) {
+			console.error('Error fetching now playing:', err)
+		}
+	}, [profileUrl])
+
+	useEffect(() => {
+		fetchProfile()
+	}, [fetchProfile])
+
+	useEffect(() => {
+		if (!profile?.sections.now_playing) return
+
+		fetchNowPlaying()
+		const interval = setInterval(fetchNowPlaying, NOW_PLAYING_REFRESH_MS)
+		return () => clearInterval(interval)
+	}, [profile?.sections.now_playing, fetchNowPlaying])
+
+	useEffect(() => {
+		if (!profile?.sections.recent_scrobbles) return
+
+		fetch(`${profileUrl}/recent-scrobbles?limit=10`)
+			.then((response) => (response.ok ? response.json() : null))
+			.then((data) => setRecent(data?.items ?? []))
+			.catch((err) => console.error('Error fetching recent plays:', err))
+	}, [profile?.sections.recent_scrobbles, profileUrl])
+
+	useEffect(() => {
+		if (!profile?.sections.top_artists) return
+
+		setTopArtists(null)
+		fetch(`${profileUrl}/top-artists?range=${range}&limit=10`)
+			.then((response) => (response.ok ? response.json() : null))
+			.then((data) => setTopArtists(data?.items ?? []))
+			.catch((err) => console.error('Error fetching top artists:', err))
+	}, [profile?.sections.top_artists, profileUrl, range])
+
+	const sharesNothing =
+		profile &&
+		!profile.sections.now_playing &&
+		!profile.sections.recent_scrobbles &&
+		!profile.sections.top_artists
+
+	return (
+		<div className="min-h-screen bg-background">
+			{/* Header */}
+			<header className="border-b border-border">
+				<div className="container mx-auto px-4 h-14 flex items-center gap-3">
+					<div className="w-8 h-8 bg-foreground/5 border border-border flex items-center justify-center">
+						<svg
+							className="w-4 h-4 text-foreground"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							strokeWidth="1.5"
+						>
+							<path d="M9 18V5l12-2v13" />
+							<circle cx="6" cy="18" r="3" />
+							<circle cx="18" cy="16" r="3" />
+						</svg>
+					</div>
+					<span className="font-semibold text-sm">playbacc</span>
+				</div>
+			</header>
+
+			{/* Main content */}
+			<main className="container mx-auto px-4 py-8 space-y-4">
+				{isLoading ? (
+					<div className="flex items-center gap-4">
+						<div className="w-16 h-16 rounded-full bg-muted animate-pulse" />
+						<div className="space-y-2">
+							<div className="h-6 w-40 bg-muted animate-pulse" />
+							<div className="h-3 w-24 bg-muted animate-pulse" />
+						</div>
+					</div>
+				) : notFound ? (
+					<div className="flex items-center gap-3 text-muted-foreground py-4">
+						<Lock className="size-5" />
+						<p className="text-sm">
+							This profile doesn't exist or isn't public.
+						</p>
+					</div>
+				) : error || !profile ? (
+					<p className="text-sm text-destructive">{error}</p>
+				) : (
+					<>
+						<div className="flex items-center gap-4 mb-8">
+							{profile.image_url ? (
+								<img
+									src={profile.image_url}
+									alt={profile.username}
+									className="w-16 h-16 rounded-full object-cover"
+								/>
+							) : (
+								<div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+									<User className="size-6 text-muted-foreground" />
+								</div>
+							)}
+							<div>
+								<h1 className="text-2xl font-bold tracking-tight">
+									{profile.username}
+								</h1>
+								<p className="text-muted-foreground text-sm">
+									Scrobbling since{' '}
+									{new Date(
+										profile.created_at
+									).toLocaleDateString()}
+								</p>
+							</div>
+						</div>
+
+						{sharesNothing && (
+							<div className="flex items-center gap-3 text-muted-foreground py-4">
+								<Lock className="size-5" />
+								<p className="text-sm">
+									{profile.username} isn't sharing any
+									listening yet.
+								</p>
+							</div>
+						)}
+
+						{profile.sections.now_playing && (
+							<Card className="max-w-md">
+								<CardContent>
+									<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+										<Music className="size-4" />
+										Now Playing
+									</h3>
+									{!nowPlaying ? (
+										<div className="flex items-center gap-3">
+											<div className="w-12 h-12 bg-muted animate-pulse" />
+											<div className="flex-1 space-y-2">
+												<div className="h-4 bg-muted animate-pulse w-3/4" />
+												<div className="h-3 bg-muted animate-pulse w-1/2" />
+											</div>
+										</div>
+									) : nowPlaying.playing &&
+									  nowPlaying.track ? (
+										<TrackRow
+											track={nowPlaying.track}
+											detail={
+												nowPlaying.is_playing
+													? undefined
+													: 'Paused'
+											}
+										/>
+									) : (
+										<div className="flex items-center gap-3 text-muted-foreground py-4">
+											<Disc3 className="size-5" />
+											<p className="text-sm">
+												Nothing playing right now
+											</p>
+										</div>
+									)}
+								</CardContent>
+							</Card>
+						)}
+
+						{profile.sections.recent_scrobbles && (
+							<Card className="max-w-md">
+								<CardContent>
+									<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+										<Clock className="size-4" />
+										Recently Played
+									</h3>
+									{!recent ? (
+										<div className="space-y-2">
+											{[...Array(5)].map((_, i) => (
+												<div
+													key={i}
+													className="h-10 bg-muted animate-pulse"
+												/>
+											))}
+										</div>
+									) : recent.length > 0 ? (
+										<div className="space-y-1">
+											{recent.map((item) => (
+												<TrackRow
+													key={item.id}
+													track={item.track}
+													detail={formatPlayedAt(
+														item.played_at
+													)}
+												/>
+											))}
+										</div>
+									) : (
+										<div className="flex items-center gap-3 text-muted-foreground py-4">
+											<Disc3 className="size-5" />
+											<p className="text-sm">
+												No recent plays
+											</p>
+										</div>
+									)}
+								</CardContent>
+							</Card>
+						)}
+
+						{profile.sections.top_artists && (
+							<Card className="max-w-md">
+								<CardContent>
+									<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+										<Users className="size-4" />
+										Top Artists
+									</h3>
+									<div className="flex flex-wrap gap-1 mb-3">
+										{RANGES.map((option) => (
+											<Button
+												key={option.value}
+												variant={
+													range === option.value
+														? 'secondary'
+														: 'ghost'
+												}
+												size="xs"
+												className="hover:cursor-pointer"
+												onClick={() =>
+													setRange(option.value)
+												}
+											>
+												{option.label}
+											</Button>
+										))}
+									</div>
+									{!topArtists ? (
+										<div className="space-y-2">
+											{[...Array(5)].map((_, i) => (
+												<div
+													key={i}
+													className="h-10 bg-muted animate-pulse"
+												/>
+											))}
+										</div>
+									) : topArtists.length > 0 ? (
+										<div className="space-y-1">
+											{topArtists.map((artist, index) => (
+												<div
+													key={artist.id}
+													className="flex items-center gap-3 py-2"
+												>
+													<span className="text-xs text-muted-foreground w-4 text-right tabular-nums">
+														{index + 1}
+													</span>
+													{artist.image_url ? (
+														<img
+															src={
+																artist.image_url
+															}
+															alt={artist.name}
+															className="w-10 h-10 rounded-full object-cover"
+														/>
+													) : (
+														<div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+															<Users className="size-4 text-muted-foreground" />
+														</div>
+													)}
+													<div className="flex-1 min-w-0">
+														<p className="text-sm font-medium truncate">
+															{artist.name}
+														</p>
+														<p className="text-xs text-muted-foreground">
+															{artist.play_count}{' '}
+															plays ·{' '}
+															{formatListeningTime(
+																artist.total_ms
+															)}
+														</p>
+													</div>
+												</div>
+											))}
+										</div>
+									) : (
+										<div className="flex items-center gap-3 text-muted-foreground py-4">
+											<Users className="size-5" />
+											<p className="text-sm">
+												No plays in this range
+											</p>
+										</div>
+									)}
+								</CardContent>
+							</Card>
+						)}
+					</>
+				)}
+			</main>
+		</div>
+	)
+}
+
+function TrackRow({ track, detail }: { track: ProfileTrack; detail?: string }) {
+	return (
+		<div className="flex items-center gap-3 py-2">
+			{track.album.images?.[0] ? (
+				<img
+					src={track.album.images[0].url}
+					alt={track.album.name}
+					className="w-10 h-10 object-cover"
+				/>
+			) : (
+				<div className="w-10 h-10 bg-muted flex items-center justify-center">
+					<Disc3 className="size-4 text-muted-foreground" />
+				</div>
+			)}
+			<div className="flex-1 min-w-0">
+				<p className="text-sm font-medium truncate">{track.name}</p>
+				<p className="text-xs text-muted-foreground truncate">
+					{track.artists.map((a) => a.name).join(', ')}
+				</p>
+			</div>
+			{detail && (
+				<span className="text-xs text-muted-foreground shrink-0">
+					{detail}
+				</span>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate, getRouteApi } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { LinkedAccounts } from '@/components/linked-accounts'
+import { PublicProfileSettings } from '@/components/public-profile-settings'
+import { DisplayLocaleSettings } from '@/components/display-locale-settings'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, Check, Globe } from 'lucide-react'
+
+interface UserSettings {
+	id: string
+	email: string
+	username: string | null
+	timezone: string
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const routeApi = getRouteApi('/settings')
+
+const TIMEZONES = Intl.supportedValuesOf('timeZone')
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export function SettingsPage() {
+	const navigate = useNavigate()
+	const search = routeApi.useSearch()
+	const { token } = useAuth()
+	const [settings, setSettings] = useState<UserSettings | null>(null)
+	const [timezone, setTimezone] = useState<string>('UTC')
+	const [isLoading, setIsLoading] = useState(true)
+	const [isSaving, setIsSaving] = useState(false)
+	const [saved, setSaved] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const fetchSettings = useCallback(async () => {
+		if (!token) return
+
+		try {
+			const response = await fetch(`${API_URL}/api/users/me`, {
+				headers: { Authorization: `Bearer ${token}` },
+			})
+
+			if (!response.ok) {
+				throw new Error('Failed to fetch settings')
+			}
+
+			const data: UserSettings = await response.json()
+			setSettings(data)
+			setTimezone(data.timezone)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [token])
+
+	useEffect(() => {
+		fetchSettings()
+	}, [fetchSettings])
+
+	const saveSettings = async () => {
+		if (!token) return
+
+		setIsSaving(true)
+		setSaved(false)
+		setError(null)
+
+		try {
+			const response = await fetch(`${API_URL}/api/users/me`, {
+				method: 'PATCH',
+				headers: {
+					Authorization: `Bearer ${token}`,
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({ timezone }),
+			})
+
+			const data = await response.json()
+
+			if (!response.ok) {
+				throw new Error(data.error ?? 'Failed to save settings')
+			}
+
+			setSettings(data)
+			setSaved(true)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Unknown error')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const timezoneOptions = TIMEZONES.includes(timezone)
+		? TIMEZONES
+		: [timezone, ...TIMEZONES]
+
+	return (
+		<div className="min-h-screen bg-background">
+			{/* Header */}
+			<header className="border-b border-border">
+				<div className="container mx-auto px-4 h-14 flex items-center gap-4">
+					<Button
+						variant="ghost"
+						size="icon"
+						onClick={() => navigate({ to: '/' })}
+					>
+						<ArrowLeft className="size-4" />
+					</Button>
+					<div className="flex items-center gap-3">
+						<div className="w-8 h-8 bg-foreground/5 border border-border flex items-center justify-center">
+							<svg
+								className="w-4 h-4 text-foreground"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="currentColor"
+								strokeWidth="1.5"
+							>
+								<path d="M9 18V5l12-2v13" />
+								<circle cx="6" cy="18" r="3" />
+								<circle cx="18" cy="16" r="3" />
+							</svg>
+						</div>
+						<span className="font-semibold text-sm">playbacc</span>
+					</div>
+				</div>
+			</header>
+
+			{/* Main content */}
+			<main className="container mx-auto px-4 py-8">
+				<div className="mb-8">
+					<h1 className="text-2xl font-bold tracking-tight mb-1">
+						Settings
+					</h1>
+					<p className="text-muted-foreground text-sm">
+						Manage your account preferences
+					</p>
+				</div>
+
+				<Card className="max-w-md">
+					<CardContent className="space-y-3">
+						<h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+							<Globe className="size-4" />
+							Timezone
+						</h3>
+						<p className="text-xs text-muted-foreground">
+							Used to group your plays by hour and day in the
+							listening clock and heatmap.
+						</p>
+						{isLoading ? (
+							<div className="h-8 bg-muted animate-pulse" />
+						) : (
+							<>
+								<Select
+									value={timezone}
+									onValueChange={(value) => {
+										setTimezone(value)
+										setSaved(false)
+									}}
+								>
+									<SelectTrigger className="w-full">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{timezoneOptions.map((option) => (
+											<SelectItem
+												key={option}
+												value={option}
+											>
+												{option}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<div className="flex items-center gap-2">
+									<Button
+										size="sm"
+										className="hover:cursor-pointer"
+										disabled={
+											isSaving ||
+											timezone === settings?.timezone
+										}
+										onClick={saveSettings}
+									>
+										{isSaving ? 'Saving...' : 'Save'}
+									</Button>
+									{timezone !== BROWSER_TIMEZONE && (
+										<Button
+											size="sm"
+											variant="ghost"
+											className="hover:cursor-pointer"
+											onClick={() => {
+												setTimezone(BROWSER_TIMEZONE)
+												setSaved(false)
+											}}
+										>
+											Use {BROWSER_TIMEZONE}
+										</Button>
+									)}
+									{saved && (
+										<span className="text-xs text-muted-foreground flex items-center gap-1">
+											<Check className="size-3" />
+											Saved
+										</span>
+									)}
+								</div>
+							</>
+						)}
+						{error && (
+							<p className="text-sm text-destructive">{error}</p>
+						)}
+					</CardContent>
+				</Card>
+
+				<DisplayLocaleSettings />
+
+				<PublicProfileSettings />
+
+				<LinkedAccounts
+					linked={search.linked}
+					linkError={search.error}
+				/>
+			</main>
+		</div>
+	)
+}
@@ -0,0 +1,375 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate, Link, getRouteApi } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { ArtistCredits, type ArtistCredit } from '@/components/artist-credits'
+import {
+	PlayTimeline,
+	type PlayTimelineMonth,
+} from '@/components/play-timeline'
+import { ArrowLeft, Disc3, Info, Music } from 'lucide-react'
+
+interface TrackAlbum {
+	id: string
+	title: string
+	image_url: string | null
+	release_date: string | null
+	artist: { id: string; name: string }
+	disc_number: number | null
+	position: number | null
+}
+
+interface PlaySummary {
+	play_count: number
+	total_ms: number
+	skip_count: number
+	first_played_at: string | null
+	last_played_at: string | null
+}
+
+interface TrackResponse {
+	id: string
+	title: string
+	duration_ms: number | null
+	isrc: string | null
+	mbid: string | null
+	explicit: boolean
+	credits: Array<
+		ArtistCredit & { image_url: string | null; is_primary: boolean }
+	>
+	albums: TrackAlbum[]
+	stats: PlaySummary
+	timezone: string
+	timeline: PlayTimelineMonth[]
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const routeApi = getRouteApi('/track/$trackId')
+
+function formatDuration(ms: number) {
+	const totalSeconds = Math.floor(ms / 1000)
+	const minutes = Math.floor(totalSeconds / 60)
+	const seconds = totalSeconds % 60
+	return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+function formatListeningTime(ms: number) {
+	const minutes = Math.floor(ms / 60000)
+	if (minutes < 60) return `${minutes} min`
+	const hours = Math.floor(minutes / 60)
+	const remainingMins = minutes % 60
+	if (remainingMins === 0) return `${hours}h`
+	return `${hours}h ${remainingMins}min`
+}
+
+function formatDate(dateString: string | null) {
+	if (!dateString) return '—'
+	return new Date(dateString).toLocaleDateString(undefined, {
+		year: 'numeric',
+		month: 'short',
+		day: 'numeric',
+	})
+}
+
+/**
+ * Formats a disc/track position like "2-05" or "5"
+ */
+function formatPosition(album: TrackAlbum) {
+	if (album.position === null) return null
+	return album.disc_number !== null && album.disc_number > 1
+		? `${album.disc_number}-${String(album.position).padStart(2, '0')}`
+		: String(album.position)
+}
+
+export function TrackPage() {
+	const navigate = useNavigate()
+	const { trackId } = routeApi.useParams()
+	const { token } = useAuth()
+	const [track, setTrack] = useState<TrackResponse | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+
+	const fetchTrack = useCallback(async () => {
+		if (!token) return
+
+		setIsLoading(true)
+		setError(null)
+
+		try {
+			const response = await fetch(`${API_URL}/api/tracks/${trackId}`, {
+				headers: {
+					Authorization: `Bearer ${token}`,
+				},
+			})
+
+			if (!response.ok) {
+				if (response.status === 404) {
+					setError('Track not found')
+				} else {
+					setError('Failed to load track')
+				}
+				return
+			}
+
+			const data = await response.json()
+			setTrack(data)
+		} catch (err) {
+			console.error('Error fetching track:', err)
+			setError('Failed to load track')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [trackId, token])
+
+	useEffect(() => {
+		fetchTrack()
+	}, [fetchTrack])
+
+	const coverUrl = track?.albums.find((album) => album.image_url)?.image_url
+
+	return (
+		<div className="min-h-screen bg-background">
+			{/* Header */}
+			<header className="border-b border-border">
+				<div className="container mx-auto px-4 h-14 flex items-center gap-4">
+					<Button
+						variant="ghost"
+						size="icon"
+						onClick={() => navigate({ to: '/' })}
+					>
+						<ArrowLeft className="size-4" />
+					</Button>
+					<div className="flex items-center gap-3">
+						<div className="w-8 h-8 bg-foreground/5 border border-border flex items-center justify-center">
+							<svg
+								className="w-4 h-4 text-foreground"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="currentColor"
+								strokeWidth="1.5"
+							>
+								<path d="M9 18V5l12-2v13" />
+								<circle cx="6" cy="18" r="3" />
+								<circle cx="18" cy="16" r="3" />
+							</svg>
+						</div>
+						<span className="font-semibold text-sm">playbacc</span>
+					</div>
+				</div>
+			</header>
+
+			{/* Main content */}
+			<main className="container mx-auto px-4 py-8">
+				{isLoading ? (
+					<div className="max-w-md">
+						{/* Skeleton loader */}
+						<div className="flex items-center gap-4 mb-8">
+							<div className="w-20 h-20 bg-muted animate-pulse" />
+							<div className="flex-1 space-y-2">
+								<div className="h-6 bg-muted animate-pulse w-1/2" />
+								<div className="h-4 bg-muted animate-pulse w-1/4" />
+							</div>
+						</div>
+						<div className="h-40 bg-muted animate-pulse" />
+					</div>
+				) : error ? (
+					<div className="max-w-md">
+						<div className="text-center py-12">
+							<p className="text-muted-foreground">{error}</p>
+							<Button
+								variant="outline"
+								className="mt-4"
+								onClick={() => navigate({ to: '/' })}
+							>
+								Go back to dashboard
+							</Button>
+						</div>
+					</div>
+				) : track ? (
+					<div className="max-w-md space-y-4">
+						{/* Track header */}
+						<div className="flex items-center gap-4 mb-8">
+							{coverUrl ? (
+								<img
+									src={coverUrl}
+									alt={track.title}
+									className="w-20 h-20 object-cover"
+								/>
+							) : (
+								<div className="w-20 h-20 bg-muted flex items-center justify-center">
+									<Music className="size-8 text-muted-foreground" />
+								</div>
+							)}
+							<div className="flex-1 min-w-0">
+								<h1 className="text-2xl font-bold tracking-tight">
+									{track.title}
+								</h1>
+								<p className="text-sm text-muted-foreground">
+									<ArtistCredits credits={track.credits} />
+								</p>
+								<div className="flex items-center gap-2 mt-1">
+									<span className="text-xs bg-muted px-2 py-0.5 rounded">
+										Track
+									</span>
+									{track.explicit && (
+										<span className="text-xs bg-muted px-2 py-0.5 rounded">
+											E
+										</span>
+									)}
+									{track.duration_ms !== null && (
+										<span className="text-xs text-muted-foreground tabular-nums">
+											{formatDuration(track.duration_ms)}
+										</span>
+									)}
+								</div>
+							</div>
+						</div>
+
+						{/* Listening stats */}
+						<Card>
+							<CardContent>
+								<div className="grid grid-cols-2 gap-4">
+									<div>
+										<p className="text-xs text-muted-foreground">
+											Plays
+										</p>
+										<p className="text-xl font-bold tabular-nums">
+											{track.stats.play_count}
+										</p>
+									</div>
+									<div>
+										<p className="text-xs text-muted-foreground">
+											Listening time
+										</p>
+										<p className="text-xl font-bold tabular-nums">
+											{formatListeningTime(
+												track.stats.total_ms
+											)}
+										</p>
+									</div>
+									<div>
+										<p className="text-xs text-muted-foreground">
+											First played
+										</p>
+										<p className="text-sm font-medium">
+											{formatDate(
+												track.stats.first_played_at
+											)}
+										</p>
+									</div>
+									<div>
+										<p className="text-xs text-muted-foreground">
+											Last played
+										</p>
+										<p className="text-sm font-medium">
+											{formatDate(
+												track.stats.last_played_at
+											)}
+										</p>
+									</div>
+								</div>
+								{track.stats.play_count > 0 && (
+									<p className="text-xs text-muted-foreground mt-3">
+										Skipped {track.stats.skip_count} of{' '}
+										{track.stats.play_count} plays
+									</p>
+								)}
+							</CardContent>
+						</Card>
+
+						<PlayTimeline
+							months={track.timeline}
+							timezone={track.timezone}
+						/>
+
+						{/* Albums */}
+						{track.albums.length > 0 && (
+							<Card>
+								<CardContent>
+									<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+										<Disc3 className="size-4" />
+										Appears On
+									</h3>
+									<div className="space-y-1">
+										{track.albums.map((album) => (
+											<Link
+												key={album.id}
+												to="/album/$albumId"
+												params={{ albumId: album.id }}
+												className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors"
+											>
+												{album.image_url ? (
+													<img
+														src={album.image_url}
+														alt={album.title}
+														className="w-10 h-10 object-cover"
+													/>
+												) : (
+													<div className="w-10 h-10 bg-muted flex items-center justify-center">
+														<Disc3 className="size-4 text-muted-foreground" />
+													</div>
+												)}
+												<div className="flex-1 min-w-0">
+													<p className="text-sm font-medium truncate">
+														{album.title}
+													</p>
+													<p className="text-xs text-muted-foreground truncate">
+														{album.artist.name}
+														{album.release_date &&
+															` · ${album.release_date.slice(0, 4)}`}
+													</p>
+												</div>
+												{formatPosition(album) && (
+													<span className="text-xs text-muted-foreground shrink-0 tabular-nums">
+														#{formatPosition(album)}
+													</span>
+												)}
+											</Link>
+										))}
+									</div>
+								</CardContent>
+							</Card>
+						)}
+
+						{/* Metadata */}
+						<Card>
+							<CardContent>
+								<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+									<Info className="size-4" />
+									Details
+								</h3>
+								<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+									<dt className="text-muted-foreground">
+										ISRC
+									</dt>
+									<dd className="font-mono text-xs self-center">
+										{track.isrc ?? '—'}
+									</dd>
+									<dt className="text-muted-foreground">
+										MBID
+									</dt>
+									<dd className="font-mono text-xs self-center truncate">
+										{track.mbid ? (
+											<a
+												href={`https://musicbrainz.org/recording/${track.mbid}`}
+												target="_blank"
+												rel="noreferrer"
+												className="hover:underline"
+											>
+												{track.mbid}
+											</a>
+										) : (
+											'—'
+										)}
+									</dd>
+								</dl>
+							</CardContent>
+						</Card>
+					</div>
+				) : null}
+			</main>
+		</div>
+	)
+}
@@ -0,0 +1,608 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate, Link, getRouteApi } from '@tanstack/react-router'
+import { useAuth } from '@/lib/auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+	ArrowLeft,
+	ChevronLeft,
+	ChevronRight,
+	Disc3,
+	Flame,
+	Music,
+	Repeat,
+	Sparkles,
+	User,
+	Users,
+} from 'lucide-react'
+
+interface WrappedArtist {
+	id: string
+	name: string
+	image_url: string | null
+	play_count: number
+	total_ms: number
+}
+
+interface WrappedAlbum extends WrappedArtist {
+	artist: { id: string; name: string }
+}
+
+interface WrappedTrack extends WrappedArtist {
+	artists: Array<{ id: string; name: string }>
+}
+
+type ArtistCategory = 'group' | 'solo' | 'member' | 'other'
+
+interface ArtistCategoryShare {
+	play_count: number
+	total_ms: number
+	top_artist: WrappedArtist | null
+}
+
+interface WrappedReport {
+	year: number
+	timezone: string
+	play_count: number
+	total_ms: number
+	total_minutes: number
+	unique_artists: number
+	unique_tracks: number
+	days_listened: number
+	skipped_count: number
+	skip_rate: number
+	top_artists: WrappedArtist[]
+	top_albums: WrappedAlbum[]
+	top_tracks: WrappedTrack[]
+	new_artists: {
+		total: number
+		items: Array<WrappedArtist & { first_played_at: string }>
+	}
+	longest_streak: {
+		days: number
+		start_date: string
+		end_date: string
+	} | null
+	most_replayed_day: {
+		date: string
+		play_count: number
+		total_ms: number
+		top_track: { id: string; name: string; play_count: number } | null
+	} | null
+	artist_split: Record<ArtistCategory, ArtistCategoryShare>
+}
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+const routeApi = getRouteApi('/wrapped/$year')
+
+const CATEGORIES: Array<{ value: ArtistCategory; label: string }> = [
+	{ value: 'group', label: 'Groups' },
+	{ value: 'solo', label: 'Solo artists' },
+	{ value: 'member', label: 'Group members' },
+	{ value: 'other', label: 'Other' },
+]
+
+const CATEGORY_OPACITY: Record<ArtistCategory, number> = {
+	group: 1,
+	solo: 0.6,
+	member: 0.35,
+	other: 0.15,
+}
+
+function formatListeningTime(ms: number) {
+	const minutes = Math.floor(ms / 60000)
+	if (minutes < 60) return `${minutes} min`
+	const hours = Math.floor(minutes / 60)
+	const remainingMins = minutes % 60
+	if (remainingMins === 0) return `${hours}h`
+	return `${hours}h ${remainingMins}min`
+}
+
+/**
+ * Formats a YYYY-MM-DD date without shifting it through the local timezone
+ */
+function formatDay(date: string) {
+	const [year, month, day] = date.split('-').map(Number)
+	return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(
+		undefined,
+		{ month: 'short', day: 'numeric', timeZone: 'UTC' }
+	)
+}
+
+function StatTile({ label, value }: { label: string; value: string }) {
+	return (
+		<Card>
+			<CardContent>
+				<p className="text-xs text-muted-foreground">{label}</p>
+				<p className="text-2xl font-bold tracking-tight tabular-nums">
+					{value}
+				</p>
+			</CardContent>
+		</Card>
+	)
+}
+
+function TopList({
+	title,
+	icon: Icon,
+	items,
+	rounded,
+	getSubtitle,
+	linkArtists,
+}: {
+	title: string
+	icon: typeof Music
+	items: WrappedArtist[]
+	rounded?: boolean
+	getSubtitle?: (item: WrappedArtist) => string | null
+	linkArtists?: boolean
+}) {
+	return (
+		<Card>
+			<CardContent>
+				<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+					<Icon className="size-4" />
+					{title}
+				</h3>
+				{items.length > 0 ? (
+					<div className="space-y-1">
+						{items.map((item, index) => {
+							const subtitle = getSubtitle?.(item) ?? null
+							const content = (
+								<>
+									<span className="text-xs text-muted-foreground w-4 text-right tabular-nums">
+										{index + 1}
+									</span>
+									{item.image_url ? (
+										<img
+											src={item.image_url}
+											alt={item.name}
+											className={`w-10 h-10 object-cover ${rounded ? 'rounded-full' : ''}`}
+										/>
+									) : (
+										<div
+											className={`w-10 h-10 bg-muted flex items-center justify-center ${rounded ? 'rounded-full' : ''}`}
+										>
+											<Icon className="size-4 text-muted-foreground" />
+										</div>
+									)}
+									<div className="flex-1 min-w-0">
+										<p className="text-sm font-medium truncate">
+											{item.name}
+										</p>
+										<p className="text-xs text-muted-foreground truncate">
+											{subtitle ? `${subtitle} · ` : ''}
+											{formatListeningTime(item.total_ms)}
+										</p>
+									</div>
+								</>
+							)
+
+							return linkArtists ? (
+								<Link
+									key={item.id}
+									to="/artist/$artistId"
+									params={{ artistId: item.id }}
+									className="flex items-center gap-3 py-2 -mx-2 px-2 rounded-md hover:bg-muted/50 transition-colors"
+								>
+									{content}
+								</Link>
+							) : (
+								<div
+									key={item.id}
+									className="flex items-center gap-3 py-2"
+								>
+									{content}
+								</div>
+							)
+						})}
+					</div>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						Nothing played this year
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+export function WrappedPage() {
+	const navigate = useNavigate()
+	const { year: yearParam } = routeApi.useParams()
+	const { token } = useAuth()
+	const [report, setReport] = useState<WrappedReport | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+
+	const year = parseInt(yearParam, 10)
+
+	const fetchReport = useCallback(async () => {
+		if (!token) return
+
+		setIsLoading(true)
+		setError(null)
+
+		try {
+			const response = await fetch(
+				`${API_URL}/api/stats/wrapped/${yearParam}`,
+				{
+					headers: { Authorization: `Bearer ${token}` },
+				}
+			)
+
+			if (!response.ok) {
+				setError(
+					response.status === 400
+						? 'Invalid year'
+						: 'Failed to load your year in review'
+				)
+				return
+			}
+
+			const data = await response.json()
+			setReport(data)
+		} catch (err) {
+			console.error('Error fetching wrapped:', err)
+			setError('Failed to load your year in review')
+		} finally {
+			setIsLoading(false)
+		}
+	}, [yearParam, token])
+
+	useEffect(() => {
+		fetchReport()
+	}, [fetchReport])
+
+	const splitTotalMs = report
+		? CATEGORIES.reduce(
+				(sum, category) =>
+					sum + report.artist_split[category.value].total_ms,
+				0
+			)
+		: 0
+
+	return (
+		<div className="min-h-screen bg-background">
+			{/* Header */}
+			<header className="border-b border-border">
+				<div className="container mx-auto px-4 h-14 flex items-center gap-4">
+					<Button
+						variant="ghost"
+						size="icon"
+						onClick={() => navigate({ to: '/' })}
+					>
+						<ArrowLeft className="size-4" />
+					</Button>
+					<div className="flex items-center gap-3">
+						<div className="w-8 h-8 bg-foreground/5 border border-border flex items-center justify-center">
+							<svg
+								className="w-4 h-4 text-foreground"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="currentColor"
+								strokeWidth="1.5"
+							>
+								<path d="M9 18V5l12-2v13" />
+								<circle cx="6" cy="18" r="3" />
+								<circle cx="18" cy="16" r="3" />
+							</svg>
+						</div>
+						<span className="font-semibold text-sm">playbacc</span>
+					</div>
+				</div>
+			</header>
+
+			{/* Main content */}
+			<main className="container mx-auto px-4 py-8">
+				<div className="mb-8 flex items-end justify-between gap-4 max-w-4xl">
+					<div>
+						<h1 className="text-2xl font-bold tracking-tight mb-1">
+							Your {Number.isNaN(year) ? '' : year} in Music
+						</h1>
+						<p className="text-muted-foreground text-sm">
+							{report
+								? `Year in review · ${report.timezone}`
+								: 'Year in review'}
+						</p>
+					</div>
+					{!Number.isNaN(year) && (
+						<div className="flex items-center gap-1">
+							<Button asChild variant="ghost" size="icon-sm">
+								<Link
+									to="/wrapped/$year"
+									params={{ year: String(year - 1) }}
+									aria-label="Previous year"
+								>
+									<ChevronLeft />
+								</Link>
+							</Button>
+							{year < new Date().getFullYear() ? (
+								<Button asChild variant="ghost" size="icon-sm">
+									<Link
+										to="/wrapped/$year"
+										params={{ year: String(year + 1) }}
+										aria-label="Next year"
+									>
+										<ChevronRight />
+									</Link>
+								</Button>
+							) : (
+								<Button variant="ghost" size="icon-sm" disabled>
+									<ChevronRight />
+								</Button>
+							)}
+						</div>
+					)}
+				</div>
+
+				{isLoading ? (
+					<div className="max-w-4xl space-y-4">
+						<div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+							{[...Array(4)].map((_, i) => (
+								<div
+									key={i}
+									className="h-20 bg-muted animate-pulse"
+								/>
+							))}
+						</div>
+						<div className="grid md:grid-cols-3 gap-4">
+							{[...Array(3)].map((_, i) => (
+								<div
+									key={i}
+									className="h-72 bg-muted animate-pulse"
+								/>
+							))}
+						</div>
+					</div>
+				) : error ? (
+					<div className="max-w-md">
+						<div className="text-center py-12">
+							<p className="text-muted-foreground">{error}</p>
+							<Button
+								variant="outline"
+								className="mt-4"
+								onClick={() => navigate({ to: '/' })}
+							>
+								Go back to dashboard
+							</Button>
+						</div>
+					</div>
+				) : report && report.play_count === 0 ? (
+					<div className="max-w-md">
+						<div className="flex items-center gap-3 text-muted-foreground py-4">
+							<Music className="size-5" />
+							<p className="text-sm">
+								No plays recorded in {report.year}
+							</p>
+						</div>
+					</div>
+				) : report ? (
+					<div className="max-w-4xl space-y-4">
+						{/* Totals */}
+						<div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+							<StatTile
+								label="Minutes listened"
+								value={report.total_minutes.toLocaleString()}
+							/>
+							<StatTile
+								label="Plays"
+								value={report.play_count.toLocaleString()}
+							/>
+							<StatTile
+								label="Days listened"
+								value={report.days_listened.toLocaleString()}
+							/>
+							<StatTile
+								label="Skip rate"
+								value={`${Math.round(report.skip_rate * 100)}%`}
+							/>
+						</div>
+
+						{/* Top lists */}
+						<div className="grid md:grid-cols-3 gap-4">
+							<TopList
+								title="Top Artists"
+								icon={User}
+								items={report.top_artists}
+								rounded
+								linkArtists
+							/>
+							<TopList
+								title="Top Albums"
+								icon={Disc3}
+								items={report.top_albums}
+								getSubtitle={(item) =>
+									(item as WrappedAlbum).artist.name
+								}
+							/>
+							<TopList
+								title="Top Tracks"
+								icon={Music}
+								items={report.top_tracks}
+								getSubtitle={(item) =>
+									(item as WrappedTrack).artists
+										.map((a) => a.name)
+										.join(', ')
+								}
+							/>
+						</div>
+
+						<div className="grid md:grid-cols-2 gap-4">
+							{/* Highlights */}
+							<Card>
+								<CardContent className="space-y-4">
+									<div>
+										<h3 className="text-sm font-medium mb-1 text-muted-foreground flex items-center gap-2">
+											<Flame className="size-4" />
+											Longest Streak
+										</h3>
+										{report.longest_streak ? (
+											<>
+												<p className="text-xl font-bold tracking-tight">
+													{report.longest_streak.days}{' '}
+													{report.longest_streak
+														.days === 1
+														? 'day'
+														: 'days'}
+												</p>
+												<p className="text-xs text-muted-foreground">
+													{formatDay(
+														report.longest_streak
+															.start_date
+													)}{' '}
+													–{' '}
+													{formatDay(
+														report.longest_streak
+															.end_date
+													)}
+												</p>
+											</>
+										) : (
+											<p className="text-sm text-muted-foreground">
+												No streak yet
+											</p>
+										)}
+									</div>
+									<div>
+										<h3 className="text-sm font-medium mb-1 text-muted-foreground flex items-center gap-2">
+											<Repeat className="size-4" />
+											Most Replayed Day
+										</h3>
+										{report.most_replayed_day ? (
+											<>
+												<p className="text-xl font-bold tracking-tight">
+													{formatDay(
+														report.most_replayed_day
+															.date
+													)}
+												</p>
+												<p className="text-xs text-muted-foreground">
+													{
+														report.most_replayed_day
+															.play_count
+													}{' '}
+													plays ·{' '}
+													{formatListeningTime(
+														report.most_replayed_day
+															.total_ms
+													)}
+													{report.most_replayed_day
+														.top_track &&
+														` · ${report.most_replayed_day.top_track.name} ×${report.most_replayed_day.top_track.play_count}`}
+												</p>
+											</>
+										) : (
+											<p className="text-sm text-muted-foreground">
+												No plays yet
+											</p>
+										)}
+									</div>
+								</CardContent>
+							</Card>
+
+							{/* Group vs solo split */}
+							<Card>
+								<CardContent>
+									<h3 className="text-sm font-medium mb-3 text-muted-foreground flex items-center gap-2">
+										<Users className="size-4" />
+										Groups vs Solo Artists
+									</h3>
+									<div className="h-2 bg-muted flex overflow-hidden mb-3">
+										{CATEGORIES.map((category) => {
+											const share =
+												report.artist_split[
+													category.value
+												]
+											return (
+												<div
+													key={category.value}
+													className="h-full bg-foreground"
+													style={{
+														width: `${splitTotalMs > 0 ? (share.total_ms / splitTotalMs) * 100 : 0}%`,
+														opacity:
+															CATEGORY_OPACITY[
+																category.value
+															],
+													}}
+												/>
+											)
+										})}
+									</div>
+									<div className="space-y-2">
+										{CATEGORIES.map((category) => {
+											const share =
+												report.artist_split[
+													category.value
+												]
+											if (share.play_count === 0)
+												return null
+
+											return (
+												<div
+													key={category.value}
+													className="flex items-center gap-2 text-sm"
+												>
+													<div
+														className="size-2.5 bg-foreground shrink-0"
+														style={{
+															opacity:
+																CATEGORY_OPACITY[
+																	category
+																		.value
+																],
+														}}
+													/>
+													<span className="font-medium">
+														{category.label}
+													</span>
+													<span className="text-xs text-muted-foreground tabular-nums">
+														{splitTotalMs > 0
+															? Math.round(
+																	(share.total_ms /
+																		splitTotalMs) *
+																		100
+																)
+															: 0}
+														%
+													</span>
+													{share.top_artist && (
+														<Link
+															to="/artist/$artistId"
+															params={{
+																artistId:
+																	share
+																		.top_artist
+																		.id,
+															}}
+															className="ml-auto text-xs text-muted-foreground truncate hover:text-foreground"
+														>
+															{
+																share.top_artist
+																	.name
+															}
+														</Link>
+													)}
+												</div>
+											)
+										})}
+									</div>
+								</CardContent>
+							</Card>
+						</div>
+
+						{/* Newly discovered artists */}
+						<TopList
+							title={`New Discoveries · ${report.new_artists.total} artists`}
+							icon={Sparkles}
+							items={report.new_artists.items}
+							rounded
+							linkArtists
+						/>
+					</div>
+				) : null}
+			</main>
+		</div>
+	)
+}
@@ -10,6 +10,12 @@ import { CallbackPage } from '@/pages/callback'
 import { DashboardPage } from '@/pages/dashboard'
 import { ThemesPage } from '@/pages/themes'
 import { ArtistPage } from '@/pages/artist'
+import { TrackPage } from '@/pages/track'
+import { AlbumPage } from '@/pages/album'
+import { SettingsPage } from '@/pages/settings'
+import { WrappedPage } from '@/pages/wrapped'
+import { ProfilePage } from '@/pages/profile'
+import { FriendsPage } from '@/pages/friends'
 
 interface RouterContext {
 	isAuthenticated: boolean
@@ -80,6 +86,79 @@ const artistRoute = createRoute({
 	component: ArtistPage,
 })
 
+// Protected track route
+const trackRoute = createRoute({
+	getParentRoute: () => rootRoute,
+	path: '/track/$trackId',
+	beforeLoad: ({ context }) => {
+		if (!context.isAuthenticated) {
+			throw redirect({ to: '/login' })
+		}
+	},
+	component: TrackPage,
+})
+
+// Protected album route
+const albumRoute = createRoute({
+	getParentRoute: () => rootRoute,
+	path: '/album/$albumId',
+	beforeLoad: ({ context }) => {
+		if (!context.isAuthenticated) {
+			throw redirect({ to: '/login' })
+		}
+	},
+	component: AlbumPage,
+})
+
+// Protected settings route
+const settingsRoute = createRoute({
+	getParentRoute: () => rootRoute,
+	path: '/settings',
+	validateSearch: (
+		search: Record<string, unknown>
+	): { linked?: string; error?: string } => ({
+		linked: search.linked as string | undefined,
+		error: search.error as string | undefined,
+	}),
+	beforeLoad: ({ context }) => {
+		if (!context.isAuthenticated) {
+			throw redirect({ to: '/login' })
+		}
+	},
+	component: SettingsPage,
+})
+
+// Protected year in review route
+const wrappedRoute = createRoute({
+	getParentRoute: () => rootRoute,
+	path: '/wrapped/$year',
+	beforeLoad: ({ context }) => {
+		if (!context.isAuthenticated) {
+			throw redirect({ to: '/login' })
+		}
+	},
+	component: WrappedPage,
+})
+
+// Protected friends route
+const friendsRoute = createRoute({
+	getParentRoute: () => rootRoute,
+	path: '/friends',
+	beforeLoad: ({ context }) => {
+		if (!context.isAuthenticated) {
+			throw redirect({ to: '/login' })
+		}
+	},
+	component: FriendsPage,
+})
+
+// Public profile route - readable without signing in
+const profileRoute = createRoute({
+	getParentRoute: () => rootRoute,
+	path: '/u/$username',
+	component: ProfilePage,
+})
+
 // Route tree
 const routeTree = rootRoute.addChildren([
 	loginRoute,
@@ -87,6 +166,12 @@ const routeTree = rootRoute.addChildren([
 	indexRoute,
 	themesRoute,
 	artistRoute,
+	trackRoute,
+	albumRoute,
+	settingsRoute,
+	wrappedRoute,
+	friendsRoute,
+	profileRoute,
 ])
 
 // Create router
@@ -0,0 +1,55 @@
+/**
+ * Jellyfin API type definitions
+ * @see https://api.jellyfin.org/
+ */
+
+/** Response of POST /Users/AuthenticateByName */
+export interface JellyfinAuthenticationResult {
+	AccessToken: string
+	User: {
+		Id: string
+		Name: string
+	}
+}
+
+/** Artist reference on an item */
+export interface JellyfinNameIdPair {
+	Id: string
+	Name: string
+}
+
+/** Item playing in a session (only audio items are scrobbled) */
+export interface JellyfinNowPlayingItem {
+	Id: string
+	Name: string
+	/** 'Audio' for music tracks */
+	Type: string
+	Album?: string
+	AlbumArtist?: string
+	Artists?: string[]
+	ArtistItems?: JellyfinNameIdPair[]
+	/** Duration in ticks (1 tick = 100ns) */
+	RunTimeTicks?: number
+	/** ISO date of the release */
+	PremiereDate?: string
+	ProductionYear?: number
+	ProviderIds?: Record<string, string>
+}
+
+/** Playback state of a session */
+export interface JellyfinPlayState {
+	/** Position in ticks (1 tick = 100ns) */
+	PositionTicks?: number
+	IsPaused: boolean
+}
+
+/** Session from GET /Sessions */
+export interface JellyfinSession {
+	Id: string
+	UserId?: string
+	UserName?: string
+	Client?: string
+	DeviceName?: string
+	NowPlayingItem?: JellyfinNowPlayingItem
+	PlayState?: JellyfinPlayState
+}
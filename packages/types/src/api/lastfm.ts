@@ -0,0 +1,44 @@
+/**
+ * Last.fm API type definitions
+ * @see https://www.last.fm/api/show/user.getRecentTracks
+ */
+
+/** Reference to an artist or album inside a recent track */
+export interface LastfmEntityRef {
+	/** MusicBrainz ID (empty string if unknown) */
+	mbid: string
+	/** Name (compact responses) */
+	'#text'?: string
+	/** Name (extended responses) */
+	name?: string
+}
+
+/** Track from user.getRecentTracks, as found in Last.fm JSON exports */
+export interface LastfmRecentTrack {
+	name: string
+	/** MusicBrainz recording ID (empty string if unknown) */
+	mbid: string
+	artist: LastfmEntityRef
+	album?: LastfmEntityRef
+	/** Missing for the currently playing track */
+	date?: {
+		/** Unix timestamp in seconds of when the track was scrobbled */
+		uts: string
+		'#text'?: string
+	}
+	'@attr'?: { nowplaying?: string }
+}
+
+/** Page of a user.getRecentTracks response */
+export interface LastfmRecentTracksResponse {
+	recenttracks: {
+		track: LastfmRecentTrack[]
+		'@attr'?: {
+			user: string
+			page: string
+			perPage: string
+			totalPages: string
+			total: string
+		}
+	}
+}
@@ -0,0 +1,52 @@
+/**
+ * ListenBrainz API type definitions
+ * @see https://listenbrainz.readthedocs.io/en/latest/users/json.html
+ */
+
+/**
+ * Type of a listen submission
+ * - single: one listen that just finished
+ * - playing_now: the track currently playing (no timestamp)
+ * - import: a batch of past listens
+ */
+export type ListenBrainzListenType = 'single' | 'playing_now' | 'import'
+
+/** Optional extra metadata sent by clients */
+export interface ListenBrainzAdditionalInfo {
+	recording_mbid?: string
+	release_mbid?: string
+	artist_mbids?: string[]
+	isrc?: string
+	/** Track duration in ms */
+	duration_ms?: number
+	/** Track duration in seconds */
+	duration?: number
+	tracknumber?: string | number
+	spotify_id?: string
+	origin_url?: string
+	media_player?: string
+	submission_client?: string
+	submission_client_version?: string
+	[key: string]: unknown
+}
+
+/** Track metadata of a listen */
+export interface ListenBrainzTrackMetadata {
+	artist_name: string
+	track_name: string
+	release_name?: string
+	additional_info?: ListenBrainzAdditionalInfo
+}
+
+/** A single listen */
+export interface ListenBrainzListen {
+	/** Unix timestamp in seconds of when the track started playing (omitted for playing_now) */
+	listened_at?: number
+	track_metadata: ListenBrainzTrackMetadata
+}
+
+/** Body of POST /1/submit-listens */
+export interface ListenBrainzSubmission {
+	listen_type: ListenBrainzListenType
+	payload: ListenBrainzListen[]
+}
@@ -36,6 +36,32 @@ export interface MusicBrainzArtistCredit {
 	joinphrase?: string
 }
 
+/** Folksonomy tag with its net vote count (requires inc=tags) */
+export interface MusicBrainzTag {
+	name: string
+	count: number
+}
+
+/** Tag curated as a genre, with its genre ID (requires inc=genres) */
+export interface MusicBrainzGenre extends MusicBrainzTag {
+	id: string
+	disambiguation?: string
+}
+
+/** Alternative artist name, e.g. in another script (requires inc=aliases) */
+export interface MusicBrainzAlias {
+	name: string
+	'sort-name': string
+	/** Locale the alias is used in (e.g. ja, en_US) */
+	locale: string | null
+	type: 'Artist name' | 'Legal name' | 'Search hint' | null
+	/** Whether this is the name used in the alias's locale */
+	primary: boolean | null
+	begin?: string | null
+	end?: string | null
+	ended?: boolean
+}
+
 /** Full recording details from MusicBrainz lookup */
 export interface MusicBrainzRecordingDetails {
 	id: string
@@ -45,6 +71,8 @@ export interface MusicBrainzRecordingDetails {
 	isrcs?: string[]
 	'artist-credit'?: MusicBrainzArtistCredit[]
 	releases?: MusicBrainzRelease[]
+	genres?: MusicBrainzGenre[]
+	tags?: MusicBrainzTag[]
 }
 
 /** Response from ISRC lookup endpoint */
@@ -89,16 +117,14 @@ export interface RecordingSearchResponse {
  * @see https://musicbrainz.org/doc/MusicBrainz_API#Relationships
  */
 
-/** Artist relationship from MusicBrainz */
-export interface MusicBrainzArtistRelation {
+/** Fields shared by relationships to any kind of entity */
+interface MusicBrainzRelationBase {
 	/** Relationship type (e.g., "member of band", "vocal", "instrument") */
 	type: string
 	/** Relationship type ID */
 	'type-id': string
 	/** Direction of the relationship */
 	direction: 'forward' | 'backward'
-	/** The related artist */
-	artist: MusicBrainzArtist
 	/** Start date of the relationship (YYYY, YYYY-MM, or YYYY-MM-DD) */
 	begin?: string
 	/** End date of the relationship */
@@ -109,6 +135,20 @@ export interface MusicBrainzArtistRelation {
 	attributes?: string[]
 }
 
+/** Artist relationship from MusicBrainz (requires inc=artist-rels) */
+export interface MusicBrainzArtistRelation extends MusicBrainzRelationBase {
+	'target-type': 'artist'
+	/** The related artist */
+	artist: MusicBrainzArtist
+}
+
+/** Artist-recording relationship, e.g. "producer" (requires inc=recording-rels) */
+export interface MusicBrainzRecordingRelation extends MusicBrainzRelationBase {
+	'target-type': 'recording'
+	/** The related recording */
+	recording: MusicBrainzRecording
+}
+
 /** Full artist details with relationships */
 export interface MusicBrainzArtistDetails {
 	id: string
@@ -138,8 +178,11 @@ export interface MusicBrainzArtistDetails {
 		end?: string
 		ended?: boolean
 	}
-	/** Artist relationships (requires inc=artist-rels) */
-	relations?: MusicBrainzArtistRelation[]
+	/** Artist and recording relationships (requires inc=artist-rels, inc=recording-rels) */
+	relations?: Array<MusicBrainzArtistRelation | MusicBrainzRecordingRelation>
+	aliases?: MusicBrainzAlias[]
+	genres?: MusicBrainzGenre[]
+	tags?: MusicBrainzTag[]
 }
 
 /**
@@ -239,4 +282,6 @@ export interface MusicBrainzReleaseDetails {
 			name: string
 		}
 	}>
+	genres?: MusicBrainzGenre[]
+	tags?: MusicBrainzTag[]
 }
@@ -94,3 +94,31 @@ export interface CurrentlyPlayingResponse {
 		href: string
 	} | null
 }
+
+/**
+ * Row from a Spotify "Extended Streaming History" export
+ * (Streaming_History_Audio_*.json). Podcast and audiobook rows have
+ * null track metadata.
+ * @see https://support.spotify.com/article/understanding-my-data/
+ */
+export interface SpotifyStreamingHistoryEntry {
+	/** ISO timestamp of when playback stopped */
+	ts: string
+	/** How long the track was played in ms */
+	ms_played: number
+	platform?: string | null
+	conn_country?: string | null
+	master_metadata_track_name: string | null
+	master_metadata_album_artist_name: string | null
+	master_metadata_album_album_name: string | null
+	/** Track URI (e.g. spotify:track:...) */
+	spotify_track_uri: string | null
+	episode_name?: string | null
+	spotify_episode_uri?: string | null
+	reason_start?: string | null
+	reason_end?: string | null
+	shuffle?: boolean | null
+	skipped?: boolean | null
+	offline?: boolean | null
+	incognito_mode?: boolean | null
+}
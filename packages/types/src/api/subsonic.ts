@@ -0,0 +1,56 @@
+/**
+ * Subsonic / OpenSubsonic API type definitions
+ * @see https://opensubsonic.netlify.app/docs/endpoints/getnowplaying/
+ */
+
+/** Error returned in a failed response */
+export interface SubsonicError {
+	/** 40: wrong username or password, 41: token auth not supported */
+	code: number
+	message?: string
+}
+
+/** Artist reference (OpenSubsonic only) */
+export interface SubsonicArtistRef {
+	id: string
+	name: string
+}
+
+/** Song currently played by a user, from getNowPlaying */
+export interface SubsonicNowPlayingEntry {
+	id: string
+	title: string
+	artist?: string
+	album?: string
+	/** Track duration in seconds */
+	duration?: number
+	year?: number
+	/** User playing the song */
+	username: string
+	/** Minutes since the song started playing */
+	minutesAgo: number
+	playerId: number
+	playerName?: string
+	/** All credited artists (OpenSubsonic only) */
+	artists?: SubsonicArtistRef[]
+	/** MusicBrainz recording ID (OpenSubsonic only) */
+	musicBrainzId?: string
+	/** ISRC codes (OpenSubsonic only) */
+	isrc?: string[]
+}
+
+/** Envelope wrapping every JSON response */
+export interface SubsonicResponse<T = object> {
+	'subsonic-response': {
+		status: 'ok' | 'failed'
+		version: string
+		/** Server software (OpenSubsonic only) */
+		type?: string
+		error?: SubsonicError
+	} & Partial<T>
+}
+
+/** Response of getNowPlaying */
+export type SubsonicNowPlayingResponse = SubsonicResponse<{
+	nowPlaying: { entry?: SubsonicNowPlayingEntry[] }
+}>
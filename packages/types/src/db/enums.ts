@@ -4,7 +4,14 @@ import { pgEnum } from 'drizzle-orm/pg-core'
 export const userRoleEnum = pgEnum('user_role', ['admin', 'user'])
 
 // Account Provider Enum
-export const accountProviderEnum = pgEnum('account_provider', ['spotify'])
+export const accountProviderEnum = pgEnum('account_provider', [
+	'spotify',
+	'lastfm',
+	'listenbrainz',
+	'audioscrobbler',
+	'subsonic',
+	'jellyfin',
+])
 
 // Import Status Enum
 export const importStatusEnum = pgEnum('import_status', [
@@ -14,6 +21,33 @@ export const importStatusEnum = pgEnum('import_status', [
 	'failed',
 ])
 
+// Scrobble Edit Action Enum
+export const scrobbleEditActionEnum = pgEnum('scrobble_edit_action', [
+	'update',
+	'delete',
+])
+
+// Rewrite Rule Field Enum (track metadata a rewrite rule matches or changes)
+export const rewriteRuleFieldEnum = pgEnum('rewrite_rule_field', [
+	'title',
+	'artist',
+	'album',
+])
+
+// Rewrite Rule Match Type Enum
+export const rewriteRuleMatchTypeEnum = pgEnum('rewrite_rule_match_type', [
+	'exact',
+	'regex',
+])
+
+// Rewrite Rule Action Enum
+export const rewriteRuleActionEnum = pgEnum('rewrite_rule_action', [
+	'rename',
+	'strip_suffix',
+	'map_to_track',
+	'ignore',
+])
+
 // Artist Type Enum (from MusicBrainz)
 // https://musicbrainz.org/doc/Artist
 export const artistTypeEnum = pgEnum('artist_type', [
@@ -40,10 +74,12 @@ export const mbEnrichmentJobStatusEnum = pgEnum('mb_enrichment_job_status', [
 export const mbEnrichmentJobTypeEnum = pgEnum('mb_enrichment_job_type', [
 	'artist.resolve_mbid',
 	'artist.sync_relationships',
+	'artist.sync_genres',
 	'album.resolve_mbid',
 	'album.sync',
 	'track.resolve_mbid',
 	'track.sync',
+	'track.sync_genres',
 ])
 
 // MusicBrainz Enrichment Entity Type Enum
@@ -51,4 +87,39 @@ export const mbEnrichmentEntityTypeEnum = pgEnum('mb_enrichment_entity_type', [
 	'artist',
 	'album',
 	'track',
-])
\ No newline at end of file
+])
+
+// Artist Relation Type Enum (MusicBrainz relationships besides group membership)
+export const artistRelationTypeEnum = pgEnum('artist_relation_type', [
+	'collaboration',
+	'is_person',
+	'subgroup',
+	'supporting_musician',
+	'producer',
+	'composer',
+])
+
+// Artist Alias Type Enum ('name' is the artist's MusicBrainz name itself, the rest are MusicBrainz alias types)
+export const artistAliasTypeEnum = pgEnum('artist_alias_type', [
+	'name',
+	'artist_name',
+	'legal_name',
+	'search_hint',
+])
+
+// Artist Traversal Status Enum (multi-hop relationship sync from a root artist)
+export const artistTraversalStatusEnum = pgEnum('artist_traversal_status', [
+	'running',
+	'completed',
+	'budget_exhausted',
+])
+
+// Artist Traversal Node Status Enum
+export const artistTraversalNodeStatusEnum = pgEnum('artist_traversal_node_status', [
+	'queued',
+	'synced',
+	'skipped',
+])
+
+// Follow Status Enum (requests to private profiles wait for approval)
+export const followStatusEnum = pgEnum('follow_status', ['pending', 'accepted'])
\ No newline at end of file
@@ -15,12 +15,21 @@ import {
 import { sql } from 'drizzle-orm'
 import {
 	accountProviderEnum,
+	artistAliasTypeEnum,
+	artistRelationTypeEnum,
+	artistTraversalNodeStatusEnum,
+	artistTraversalStatusEnum,
 	artistTypeEnum,
+	followStatusEnum,
 	genderEnum,
 	importStatusEnum,
 	mbEnrichmentEntityTypeEnum,
 	mbEnrichmentJobStatusEnum,
 	mbEnrichmentJobTypeEnum,
+	rewriteRuleActionEnum,
+	rewriteRuleFieldEnum,
+	rewriteRuleMatchTypeEnum,
+	scrobbleEditActionEnum,
 	userRoleEnum,
 } from './enums'
 
@@ -31,10 +40,21 @@ export const users = pgTable('users', {
 	username: text('username').unique(),
 	image_url: text('image_url'),
 	role: userRoleEnum('role').notNull().default('user'),
+	/** IANA timezone used for time-based statistics (e.g. Europe/Berlin) */
+	timezone: text('timezone').notNull().default('UTC'),
+	/** MusicBrainz alias locale artist names are shown in (e.g. ja, en); null for the stored name */
+	display_locale: text('display_locale'),
+	/** Opt-in public profile at /u/:username; nothing is shared while false */
+	profile_public: boolean('profile_public').notNull().default(false),
+	/** Public profile sections, each opted into separately */
+	profile_now_playing: boolean('profile_now_playing').notNull().default(false),
+	profile_recent_scrobbles: boolean('profile_recent_scrobbles').notNull().default(false),
+	profile_top_artists: boolean('profile_top_artists').notNull().default(false),
 	created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 })
 
-// Accounts Table
+// Accounts Table - streaming service accounts a user signs in with or scrobbles from
+// A user can link several accounts of the same provider (e.g. a personal and a family plan account)
 export const accounts = pgTable('accounts', {
 	id: uuid('id').primaryKey().defaultRandom(),
 	user_id: uuid('user_id')
@@ -46,25 +66,39 @@ export const accounts = pgTable('accounts', {
 	refresh_token: text('refresh_token'),
 	expires_in: integer('expires_in'),
 	scope: text('scope'),
+	/** Profile name on the provider, to tell linked accounts apart */
+	display_name: text('display_name'),
+	linked_at: timestamp('linked_at', { withTimezone: true }).notNull().defaultNow(),
+	/** Base URL of a self-hosted server (subsonic, jellyfin) */
+	server_url: text('server_url'),
+	/** User on the self-hosted server: Subsonic username or Jellyfin user ID */
+	server_user: text('server_user'),
 })
 
 // Artists Table
-export const artists = pgTable('artists', {
-	id: uuid('id').primaryKey().defaultRandom(),
-	name: text('name').notNull(),
-	mbid: text('mbid').unique(),
-	/** Artist type from MusicBrainz (Person, Group, Orchestra, Choir, Character, Other) */
-	type: artistTypeEnum('type'),
-	/** Gender (only for Person artists) */
-	gender: genderEnum('gender'),
-	/** Birth date for Person, founding date for Group (raw string from MB: YYYY, YYYY-MM, or YYYY-MM-DD) */
-	begin_date: text('begin_date'),
-	/** Death date for Person, dissolution date for Group */
-	end_date: text('end_date'),
-	image_url: text('image_url'),
-	/** Last time MusicBrainz enrichment was performed */
-	mb_last_enriched_at: timestamp('mb_last_enriched_at', { withTimezone: true }),
-})
+export const artists = pgTable(
+	'artists',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		name: text('name').notNull(),
+		mbid: text('mbid').unique(),
+		/** Artist type from MusicBrainz (Person, Group, Orchestra, Choir, Character, Other) */
+		type: artistTypeEnum('type'),
+		/** Gender (only for Person artists) */
+		gender: genderEnum('gender'),
+		/** Birth date for Person, founding date for Group (raw string from MB: YYYY, YYYY-MM, or YYYY-MM-DD) */
+		begin_date: text('begin_date'),
+		/** Death date for Person, dissolution date for Group */
+		end_date: text('end_date'),
+		image_url: text('image_url'),
+		/** Last time MusicBrainz enrichment was performed */
+		mb_last_enriched_at: timestamp('mb_last_enriched_at', { withTimezone: true }),
+	},
+	(table) => [
+		// Trigram index for local search (requires the pg_trgm extension)
+		index('idx_artists_name_trgm').using('gin', table.name.op('gin_trgm_ops')),
+	]
+)
 
 // Artists Groups Table - tracks group memberships with time periods
 // Supports multiple membership stints (leave/rejoin) per member+group pair
@@ -101,31 +135,152 @@ export const artists_groups = pgTable(
 	]
 )
 
+// Artist Relationships Table - MusicBrainz relationships other than group membership
+// Stored in MusicBrainz's direction (artist_id is entity0). Artist-to-artist relationships set
+// related_artist_id; credits on recordings (producer, composer) set track_id instead
+export const artist_relationships = pgTable(
+	'artist_relationships',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		/** Collaborator, legal name, parent group, supporting musician, producer or composer */
+		artist_id: uuid('artist_id')
+			.notNull()
+			.references(() => artists.id),
+		/** Collaboration, performance name, subgroup or supported artist */
+		related_artist_id: uuid('related_artist_id').references(() => artists.id),
+		/** Credited recording (producer, composer) */
+		track_id: uuid('track_id').references(() => tracks.id),
+		type: artistRelationTypeEnum('type').notNull(),
+		/** Raw begin date string from MusicBrainz (YYYY, YYYY-MM, or YYYY-MM-DD) */
+		begin_raw: text('begin_raw'),
+		/** Raw end date string from MusicBrainz */
+		end_raw: text('end_raw'),
+		ended: boolean('ended').notNull().default(false),
+	},
+	(table) => [
+		unique('idx_artist_relationships_unique')
+			.on(table.artist_id, table.related_artist_id, table.track_id, table.type)
+			.nullsNotDistinct(),
+		index('idx_artist_relationships_related').on(table.related_artist_id),
+		index('idx_artist_relationships_track').on(table.track_id),
+	]
+)
+
+// Artist Aliases Table - MusicBrainz names of an artist with their locales and sort names
+// Replaced on every relationship sync; includes the MusicBrainz name itself (type 'name')
+export const artist_aliases = pgTable(
+	'artist_aliases',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		artist_id: uuid('artist_id')
+			.notNull()
+			.references(() => artists.id),
+		name: text('name').notNull(),
+		/** Name for sorting (e.g. "Beatles, The") */
+		sort_name: text('sort_name').notNull(),
+		/** Locale the alias is used in (e.g. ja, en_US); null when not locale-specific */
+		locale: text('locale'),
+		type: artistAliasTypeEnum('type'),
+		/** Whether this is the name used in its locale */
+		is_primary: boolean('is_primary').notNull().default(false),
+	},
+	(table) => [
+		index('idx_artist_aliases_artist').on(table.artist_id, table.locale),
+		index('idx_artist_aliases_name_trgm').using('gin', table.name.op('gin_trgm_ops')),
+	]
+)
+
+// Artist Traversals Table - multi-hop relationship syncs started from a root artist
+// Each hop is an artist.sync_relationships job; the budget caps the MusicBrainz requests spent
+export const artist_traversals = pgTable(
+	'artist_traversals',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		root_artist_id: uuid('root_artist_id')
+			.notNull()
+			.references(() => artists.id),
+		/** Maximum number of hops from the root to sync */
+		max_depth: integer('max_depth').notNull(),
+		/** Maximum number of artists to sync (one MusicBrainz request each) */
+		request_budget: integer('request_budget').notNull(),
+		/** Artists synced so far */
+		requests_used: integer('requests_used').notNull().default(0),
+		status: artistTraversalStatusEnum('status').notNull().default('running'),
+		created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+		completed_at: timestamp('completed_at', { withTimezone: true }),
+	},
+	(table) => [
+		index('idx_artist_traversals_root').on(table.root_artist_id, table.created_at),
+	]
+)
+
+// Artist Traversal Nodes Table - artists reached by a traversal
+// One row per artist and traversal, so an artist reached again (a cycle) isn't synced twice
+export const artist_traversal_nodes = pgTable(
+	'artist_traversal_nodes',
+	{
+		traversal_id: uuid('traversal_id')
+			.notNull()
+			.references(() => artist_traversals.id),
+		artist_id: uuid('artist_id')
+			.notNull()
+			.references(() => artists.id),
+		/** Hops from the root (0 for the root itself) */
+		depth: integer('depth').notNull(),
+		/** Artist whose sync discovered this one (null for the root) */
+		parent_artist_id: uuid('parent_artist_id').references(() => artists.id),
+		/** skipped once the budget ran out */
+		status: artistTraversalNodeStatusEnum('status').notNull().default('queued'),
+		synced_at: timestamp('synced_at', { withTimezone: true }),
+	},
+	(table) => [
+		primaryKey({
+			name: 'artist_traversal_nodes_pk',
+			columns: [table.traversal_id, table.artist_id],
+		}),
+		index('idx_artist_traversal_nodes_artist').on(table.artist_id),
+	]
+)
+
 // Albums Table
-export const albums = pgTable('albums', {
-	id: uuid('id').primaryKey().defaultRandom(),
-	artist_id: uuid('artist_id')
-		.notNull()
-		.references(() => artists.id),
-	title: text('title').notNull(),
-	release_date: date('release_date'),
-	image_url: text('image_url'),
-	mbid: text('mbid').unique(),
-	/** Last time MusicBrainz enrichment was performed */
-	mb_last_enriched_at: timestamp('mb_last_enriched_at', { withTimezone: true }),
-})
+export const albums = pgTable(
+	'albums',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		artist_id: uuid('artist_id')
+			.notNull()
+			.references(() => artists.id),
+		title: text('title').notNull(),
+		release_date: date('release_date'),
+		image_url: text('image_url'),
+		mbid: text('mbid').unique(),
+		/** Last time MusicBrainz enrichment was performed */
+		mb_last_enriched_at: timestamp('mb_last_enriched_at', { withTimezone: true }),
+	},
+	(table) => [
+		// Trigram index for local search (requires the pg_trgm extension)
+		index('idx_albums_title_trgm').using('gin', table.title.op('gin_trgm_ops')),
+	]
+)
 
 // Tracks Table
-export const tracks = pgTable('tracks', {
-	id: uuid('id').primaryKey().defaultRandom(),
-	title: text('title').notNull(),
-	duration_ms: integer('duration_ms'),
-	mbid: text('mbid').unique(),
-	isrc: text('isrc').unique(),
-	explicit: boolean('explicit').notNull().default(false),
-	/** Last time MusicBrainz enrichment was performed */
-	mb_last_enriched_at: timestamp('mb_last_enriched_at', { withTimezone: true }),
-})
+export const tracks = pgTable(
+	'tracks',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		title: text('title').notNull(),
+		duration_ms: integer('duration_ms'),
+		mbid: text('mbid').unique(),
+		isrc: text('isrc').unique(),
+		explicit: boolean('explicit').notNull().default(false),
+		/** Last time MusicBrainz enrichment was performed */
+		mb_last_enriched_at: timestamp('mb_last_enriched_at', { withTimezone: true }),
+	},
+	(table) => [
+		// Trigram index for local search (requires the pg_trgm extension)
+		index('idx_tracks_title_trgm').using('gin', table.title.op('gin_trgm_ops')),
+	]
+)
 
 // Track Artists Table
 export const track_artists = pgTable(
@@ -170,6 +325,82 @@ export const track_albums = pgTable(
 	]
 )
 
+// Tags Table - MusicBrainz tags, shared by artists, albums and tracks
+// Genres are the tags MusicBrainz curates as genres; they carry the genre's MBID
+export const tags = pgTable('tags', {
+	id: uuid('id').primaryKey().defaultRandom(),
+	/** Tag name as MusicBrainz spells it (lowercase) */
+	name: text('name').notNull().unique(),
+	/** MusicBrainz genre ID (null for tags that aren't genres) */
+	mbid: text('mbid').unique(),
+})
+
+// Artist Tags Table - tags of an artist with their MusicBrainz vote counts
+export const artist_tags = pgTable(
+	'artist_tags',
+	{
+		artist_id: uuid('artist_id')
+			.notNull()
+			.references(() => artists.id),
+		tag_id: uuid('tag_id')
+			.notNull()
+			.references(() => tags.id),
+		/** Net votes on MusicBrainz (can be zero or negative) */
+		count: integer('count').notNull().default(0),
+	},
+	(table) => [
+		primaryKey({
+			name: 'artist_tags_pk',
+			columns: [table.artist_id, table.tag_id],
+		}),
+		index('idx_artist_tags_tag').on(table.tag_id),
+	]
+)
+
+// Album Tags Table - tags of a release with their MusicBrainz vote counts
+export const album_tags = pgTable(
+	'album_tags',
+	{
+		album_id: uuid('album_id')
+			.notNull()
+			.references(() => albums.id),
+		tag_id: uuid('tag_id')
+			.notNull()
+			.references(() => tags.id),
+		/** Net votes on MusicBrainz (can be zero or negative) */
+		count: integer('count').notNull().default(0),
+	},
+	(table) => [
+		primaryKey({
+			name: 'album_tags_pk',
+			columns: [table.album_id, table.tag_id],
+		}),
+		index('idx_album_tags_tag').on(table.tag_id),
+	]
+)
+
+// Track Tags Table - tags of a recording with their MusicBrainz vote counts
+export const track_tags = pgTable(
+	'track_tags',
+	{
+		track_id: uuid('track_id')
+			.notNull()
+			.references(() => tracks.id),
+		tag_id: uuid('tag_id')
+			.notNull()
+			.references(() => tags.id),
+		/** Net votes on MusicBrainz (can be zero or negative) */
+		count: integer('count').notNull().default(0),
+	},
+	(table) => [
+		primaryKey({
+			name: 'track_tags_pk',
+			columns: [table.track_id, table.tag_id],
+		}),
+		index('idx_track_tags_tag').on(table.tag_id),
+	]
+)
+
 // Imports Table
 export const imports = pgTable(
 	'imports',
@@ -181,11 +412,14 @@ export const imports = pgTable(
 		filename: text('filename').notNull(),
 		file_hash: text('file_hash').notNull(),
 		file_size: integer('file_size').notNull(),
+		/** Path of the stored upload, relative to the import upload directory */
 		file_path: text('file_path').notNull(),
 		status: importStatusEnum('status').notNull().default('pending'),
 		total_records: integer('total_records'),
 		imported_records: integer('imported_records').default(0),
 		failed_records: integer('failed_records').default(0),
+		/** Records intentionally not imported (non-music, below threshold, duplicates) */
+		skipped_records: integer('skipped_records').default(0),
 		error_message: jsonb('error_message'),
 		started_at: timestamp('started_at', { withTimezone: true }),
 		completed_at: timestamp('completed_at', { withTimezone: true }),
@@ -193,7 +427,8 @@ export const imports = pgTable(
 	},
 	(table) => [
 		index('idx_imports_user').on(table.user_id),
-		unique('idx_imports_file_hash').on(table.file_hash),
+		// Deduplicates uploads per user
+		unique('idx_imports_user_file_hash').on(table.user_id, table.file_hash),
 		index('idx_imports_status').on(table.status),
 	]
 )
@@ -215,6 +450,8 @@ export const scrobbles = pgTable(
 		skipped: boolean('skipped').notNull().default(false),
 		import_id: uuid('import_id').references(() => imports.id),
 		provider: accountProviderEnum('provider').notNull(),
+		/** Linked account the play was captured from (null for imports, client submissions and unlinked accounts) */
+		account_id: uuid('account_id').references(() => accounts.id),
 	},
 	(table) => [
 		unique('no_duplicate_scrobbles').on(
@@ -223,6 +460,9 @@ export const scrobbles = pgTable(
 			table.played_at
 		),
 		index('idx_scrobbles_import').on(table.import_id),
+		index('idx_scrobbles_account').on(table.account_id),
+		// Index for per-user listening history queries ordered by time
+		index('idx_scrobbles_user_played_at').on(table.user_id, table.played_at),
 		index('idx_no_duplicate_scrobbles').on(
 			table.user_id,
 			table.track_id,
@@ -231,7 +471,92 @@ export const scrobbles = pgTable(
 	]
 )
 
-// Scrobble State Table - tracks the last processed play for each user/provider
+// Scrobble Edits Table - audit trail of manual scrobble corrections and deletions
+// Keeps a snapshot of the scrobble before (and after) each change so stats can be recomputed
+export const scrobble_edits = pgTable(
+	'scrobble_edits',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		user_id: uuid('user_id')
+			.notNull()
+			.references(() => users.id),
+		/** Edited scrobble; not a foreign key so the trail survives deletion */
+		scrobble_id: uuid('scrobble_id').notNull(),
+		action: scrobbleEditActionEnum('action').notNull(),
+		/** Scrobble row before the change */
+		before: jsonb('before').notNull(),
+		/** Scrobble row after the change (null for deletions) */
+		after: jsonb('after'),
+		created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+	},
+	(table) => [
+		index('idx_scrobble_edits_user_created').on(table.user_id, table.created_at),
+		index('idx_scrobble_edits_scrobble').on(table.scrobble_id),
+	]
+)
+
+// Rewrite Rules Table - per-user corrections applied to track metadata before a play is stored
+// Enabled rules are evaluated in position order; every condition of a rule must match
+export const rewrite_rules = pgTable(
+	'rewrite_rules',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		user_id: uuid('user_id')
+			.notNull()
+			.references(() => users.id),
+		/** Conditions on the resolved title, primary artist and album title */
+		conditions: jsonb('conditions')
+			.notNull()
+			.$type<
+				Array<{
+					field: (typeof rewriteRuleFieldEnum.enumValues)[number]
+					match_type: (typeof rewriteRuleMatchTypeEnum.enumValues)[number]
+					pattern: string
+				}>
+			>(),
+		action: rewriteRuleActionEnum('action').notNull(),
+		/** Field changed by rename and strip_suffix */
+		target_field: rewriteRuleFieldEnum('target_field'),
+		/** New value for rename, or the suffix pattern for strip_suffix */
+		value: text('value'),
+		/** Canonical track for map_to_track */
+		target_track_id: uuid('target_track_id').references(() => tracks.id),
+		position: integer('position').notNull().default(0),
+		enabled: boolean('enabled').notNull().default(true),
+		created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+		updated_at: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+	},
+	(table) => [
+		index('idx_rewrite_rules_user_position').on(table.user_id, table.position),
+	]
+)
+
+// Merge Candidates Table - duplicate artists/albums/tracks found by MBID enrichment
+// Recorded when a resolved MBID already belongs to another row of the same type
+export const merge_candidates = pgTable(
+	'merge_candidates',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		entity_type: mbEnrichmentEntityTypeEnum('entity_type').notNull(),
+		/** Row that holds the MBID */
+		survivor_id: uuid('survivor_id').notNull(),
+		/** Row that resolved to the same MBID */
+		duplicate_id: uuid('duplicate_id').notNull(),
+		mbid: text('mbid').notNull(),
+		created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+	},
+	(table) => [
+		unique('idx_merge_candidates_pair').on(
+			table.entity_type,
+			table.survivor_id,
+			table.duplicate_id
+		),
+	]
+)
+
+// Scrobble State Table - tracks the last processed play for each linked account
+// Keyed by user/provider before multiple accounts: upgrade with db:migrate, which backfills
+// account_id from the user's first Spotify account (db:push can't add it to existing rows)
 export const scrobble_state = pgTable(
 	'scrobble_state',
 	{
@@ -239,19 +564,54 @@ export const scrobble_state = pgTable(
 			.notNull()
 			.references(() => users.id),
 		provider: accountProviderEnum('provider').notNull(),
+		/** Account whose recently-played history the cursor points into */
+		account_id: uuid('account_id')
+			.notNull()
+			.references(() => accounts.id),
 		last_played_at: timestamp('last_played_at', { withTimezone: true }),
 		updated_at: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 	},
 	(table) => [
 		primaryKey({
 			name: 'scrobble_state_pk',
-			columns: [table.user_id, table.provider],
+			columns: [table.account_id],
 		}),
 	]
 )
 
+// Scrobble Gaps Table - periods where plays were probably lost
+// Detected when Spotify's recently-played window (last 50 plays) no longer reaches back to the
+// scrobble cursor, e.g. after worker downtime; resolved by an import covering the period
+export const scrobble_gaps = pgTable(
+	'scrobble_gaps',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		user_id: uuid('user_id')
+			.notNull()
+			.references(() => users.id),
+		provider: accountProviderEnum('provider').notNull(),
+		/** Account whose plays were lost */
+		account_id: uuid('account_id')
+			.notNull()
+			.references(() => accounts.id),
+		/** Last play captured before the gap (the scrobble cursor) */
+		gap_start: timestamp('gap_start', { withTimezone: true }).notNull(),
+		/** Oldest play Spotify still returned after the gap */
+		gap_end: timestamp('gap_end', { withTimezone: true }).notNull(),
+		detected_at: timestamp('detected_at', { withTimezone: true }).notNull().defaultNow(),
+		/** When the gap was covered by an import or dismissed by the user */
+		resolved_at: timestamp('resolved_at', { withTimezone: true }),
+		/** Import that covered the gap (null if dismissed) */
+		resolved_by_import_id: uuid('resolved_by_import_id').references(() => imports.id),
+	},
+	(table) => [
+		unique('idx_scrobble_gaps_start').on(table.account_id, table.gap_start),
+	]
+)
+
 // Playback Sessions Table - tracks currently active playback for real-time scrobbling
-// One row per user/provider; stores in-progress play state for accurate duration tracking
+// One row per linked account (or per user/provider for client submissions); stores in-progress
+// play state for accurate duration tracking
 export const playback_sessions = pgTable(
 	'playback_sessions',
 	{
@@ -259,6 +619,8 @@ export const playback_sessions = pgTable(
 			.notNull()
 			.references(() => users.id),
 		provider: accountProviderEnum('provider').notNull(),
+		/** Linked account being polled (null for now-playing submissions from scrobbler clients) */
+		account_id: uuid('account_id').references(() => accounts.id),
 		/** Track URI (e.g. spotify:track:...) - use extractTrackIdFromUri() to get the ID */
 		track_uri: text('track_uri').notNull(),
 		/** When this specific play instance started */
@@ -279,11 +641,56 @@ export const playback_sessions = pgTable(
 		scrobbled: boolean('scrobbled').notNull().default(false),
 		updated_at: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 	},
+	(table) => [
+		unique('playback_sessions_source')
+			.on(table.user_id, table.provider, table.account_id)
+			.nullsNotDistinct(),
+	]
+)
+
+// Follows Table - a user following another user's listening
+// Following a private profile is a request until the followee accepts it
+export const follows = pgTable(
+	'follows',
+	{
+		follower_id: uuid('follower_id')
+			.notNull()
+			.references(() => users.id),
+		followee_id: uuid('followee_id')
+			.notNull()
+			.references(() => users.id),
+		status: followStatusEnum('status').notNull().default('pending'),
+		created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+		/** When the followee accepted (or the follow was accepted automatically) */
+		accepted_at: timestamp('accepted_at', { withTimezone: true }),
+	},
 	(table) => [
 		primaryKey({
-			name: 'playback_sessions_pk',
-			columns: [table.user_id, table.provider],
+			name: 'follows_pk',
+			columns: [table.follower_id, table.followee_id],
 		}),
+		index('idx_follows_followee').on(table.followee_id, table.status),
+	]
+)
+
+// Scrobbler Sessions Table - session keys issued to Audioscrobbler (Last.fm API) clients
+// Created by auth.getMobileSession; a user can have one session per client
+export const scrobbler_sessions = pgTable(
+	'scrobbler_sessions',
+	{
+		id: uuid('id').primaryKey().defaultRandom(),
+		user_id: uuid('user_id')
+			.notNull()
+			.references(() => users.id),
+		/** Session key the client sends as "sk" with every authenticated call */
+		session_key: text('session_key').notNull().unique(),
+		/** API key of the client that requested the session */
+		api_key: text('api_key'),
+		created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+		last_used_at: timestamp('last_used_at', { withTimezone: true }),
+	},
+	(table) => [
+		index('idx_scrobbler_sessions_user').on(table.user_id),
 	]
 )
 
@@ -315,6 +722,8 @@ export const mb_enrichment_jobs = pgTable(
 		locked_by: text('locked_by'),
 		/** Last error message if failed */
 		last_error: text('last_error'),
+		/** Traversal this artist.sync_relationships job is a hop of (null for standalone syncs) */
+		traversal_id: uuid('traversal_id').references(() => artist_traversals.id),
 		created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 		updated_at: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 	},
@@ -17,4 +17,8 @@ export * from './db/schema';
 
 // Export API types
 export * from './api/spotify';
-export * from './api/musicbrainz';
\ No newline at end of file
+export * from './api/musicbrainz';
+export * from './api/lastfm';
+export * from './api/listenbrainz';
+export * from './api/subsonic';
+export * from './api/jellyfin';
\ No newline at end of file